@@ -3,696 +3,74 @@
  *
  * Vercel Edge/Serverless 환경을 위한 MCP 핸들러
  *
- * 제공 도구:
- * - transit_get_subway_arrival: 지하철 실시간 도착정보
- * - transit_get_subway_status: 지하철 운행상태
- * - transit_get_bus_arrival: 버스 실시간 도착정보
- * - transit_search_bus_station: 버스 정류장 검색
- * - transit_get_bike_station: 따릉이 대여소 검색
- * - transit_get_combined_info: 통합 교통정보 조회
+ * 도구 정의는 src/tools의 공유 레지스트리를 그대로 사용하며,
+ * 요청마다 stateless Streamable HTTP transport로 처리합니다.
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 
-// ===== 타입 정의 =====
+import { SERVER_INFO } from "../src/constants.js";
+import { createTransitServer } from "../src/server.js";
+import { ALL_TOOLS } from "../src/tools/index.js";
+import {
+  getCircuitBreakerStates,
+  getQuotaLedger,
+  renderPrometheusMetrics,
+  runWithRequestContext,
+  logger
+} from "../src/services/index.js";
+import { McpAuthenticator } from "../src/auth.js";
+import {
+  TokenBucketRateLimiter,
+  resolveRateLimitKey,
+  getRateLimitHeaders,
+  createRateLimitError
+} from "../src/rate-limit.js";
+import { resolveRequestId } from "../src/request-logging.js";
 
-interface SubwayArrival {
-  subwayId: string;
-  bstatnNm: string;
-  arvlMsg2: string;
-  updnLine: string;
-  btrainNo?: string;
-}
-
-interface BusStation {
-  STOPS_NM: string;
-  STOPS_NO: string;
-  STOPS_TYPE?: string;
-}
-
-interface BikeStation {
-  stationName: string;
-  stationId: string;
-  parkingBikeTotCnt: number;
-  rackTotCnt: number;
-}
-interface BusArrival {  stNm: string;  arsId: string;  rtNm: string;  busRouteAbrv?: string;  arrmsg1: string;  arrmsg2: string;  routeType?: string;  stationTp?: string;}
-
-interface ToolArguments {
-  station_name?: string;
-  line?: string;
-  ars_id?: string;
-  query?: string;
-  location?: string;
-  limit?: number;
-  response_format?: string;
-}
-
-// ===== 에러 메시지 추출 헬퍼 =====
-
-function getErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return String(error);
-}
-
-// ===== 환경 변수 =====
-
-const SEOUL_API_KEY = process.env.SEOUL_API_KEY;
-const DATA_GO_KR_API_KEY = process.env.DATA_GO_KR_API_KEY || "";
-
-// 환경 변수 검증
-if (!SEOUL_API_KEY) {
-  console.error("❌ SEOUL_API_KEY 환경 변수가 설정되지 않았습니다.");
-}
-
-// ===== 상수 =====
-
-const SERVER_INFO = {
-  name: "korea-transit-mcp",
-  version: "1.0.0",
-};
-
-const CHARACTER_LIMIT = 25000;
-const DEFAULT_TIMEOUT = 10000;
-
-const SUBWAY_LINE_MAP: Record<string, string> = {
-  "1001": "1호선", "1002": "2호선", "1003": "3호선",
-  "1004": "4호선", "1005": "5호선", "1006": "6호선",
-  "1007": "7호선", "1008": "8호선", "1009": "9호선",
-  "1077": "신분당선", "1063": "경의중앙선", "1065": "공항철도",
-};
-
-const BUS_TYPE_MAP: Record<string, string> = {
-  "1": "일반", "2": "좌석", "3": "마을",
-  "4": "광역", "5": "공항", "6": "간선", "7": "지선",
-};
-
-// ===== 도구 정의 =====
-
-const TOOLS = [
-  {
-    name: "transit_get_subway_arrival",
-    description: "서울 지하철역의 실시간 도착정보를 조회합니다. 역 이름으로 검색하여 각 호선별 도착 예정 열차 정보를 반환합니다.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        station_name: {
-          type: "string",
-          description: "지하철역 이름 (예: '강남', '홍대입구', '서울역'). '역' 접미사는 자동 제거됩니다.",
-        },
-        limit: {
-          type: "number",
-          description: "조회할 최대 결과 수 (1-20, 기본값: 10)",
-          default: 10,
-        },
-        response_format: {
-          type: "string",
-          enum: ["markdown", "json"],
-          description: "출력 형식: 'markdown'은 사람이 읽기 좋은 형태, 'json'은 구조화된 데이터",
-          default: "markdown",
-        },
-      },
-      required: ["station_name"],
-    },
-  },
-  {
-    name: "transit_get_subway_status",
-    description: "서울 지하철 호선별 운행상태를 조회합니다. 지연, 사고, 정상운행 등의 상태를 확인할 수 있습니다.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        line: {
-          type: "string",
-          description: "호선 번호 (1-9). 생략시 전체 호선 조회",
-        },
-        response_format: {
-          type: "string",
-          enum: ["markdown", "json"],
-          description: "출력 형식",
-          default: "markdown",
-        },
-      },
-      required: [],
-    },
-  },
-  {
-    name: "transit_get_bus_arrival",
-    description: "서울 버스 정류장의 실시간 도착정보를 조회합니다. 5자리 정류장 ID(arsId)가 필요하며, 정류장을 모르면 transit_search_bus_station으로 먼저 검색하세요.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        ars_id: {
-          type: "string",
-          description: "버스 정류장 ID (5자리 숫자, 예: '16165')",
-          pattern: "^\\d{5}$",
-        },
-        limit: {
-          type: "number",
-          description: "조회할 최대 버스 수 (1-20, 기본값: 10)",
-          default: 10,
-        },
-        response_format: {
-          type: "string",
-          enum: ["markdown", "json"],
-          description: "출력 형식",
-          default: "markdown",
-        },
-      },
-      required: ["ars_id"],
-    },
-  },
-  {
-    name: "transit_search_bus_station",
-    description: "버스 정류장을 이름 또는 번호로 검색합니다. 검색 결과에서 정류장 ID(arsId)를 확인하여 도착정보 조회에 사용할 수 있습니다.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "검색할 정류장 이름 또는 5자리 정류장 번호 (예: '강남역', '16165')",
-        },
-        limit: {
-          type: "number",
-          description: "조회할 최대 결과 수 (1-20, 기본값: 10)",
-          default: 10,
-        },
-        response_format: {
-          type: "string",
-          enum: ["markdown", "json"],
-          description: "출력 형식",
-          default: "markdown",
-        },
-      },
-      required: ["query"],
-    },
-  },
-  {
-    name: "transit_get_bike_station",
-    description: "서울 따릉이(공공자전거) 대여소를 검색하고 실시간 자전거 이용가능 현황을 조회합니다.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "대여소 이름 또는 지역명 (예: '강남역', '여의도')",
-        },
-        limit: {
-          type: "number",
-          description: "조회할 최대 대여소 수 (1-20, 기본값: 10)",
-          default: 10,
-        },
-        response_format: {
-          type: "string",
-          enum: ["markdown", "json"],
-          description: "출력 형식",
-          default: "markdown",
-        },
-      },
-      required: ["query"],
-    },
-  },
-  {
-    name: "transit_get_combined_info",
-    description: "특정 위치 주변의 지하철, 버스, 따릉이 정보를 통합 조회합니다. 위치명을 입력하면 주변의 모든 대중교통 정보를 한번에 확인할 수 있습니다.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        location: {
-          type: "string",
-          description: "위치명 (예: '강남역', '홍대입구'). 지하철, 버스 정류장, 따릉이 정보를 통합 조회합니다.",
-        },
-        response_format: {
-          type: "string",
-          enum: ["markdown", "json"],
-          description: "출력 형식",
-          default: "markdown",
-        },
-      },
-      required: ["location"],
-    },
-  },
-];
-
-// ===== 유틸리티 함수 =====
-
-function getSubwayLineName(lineCode: string): string {
-  return SUBWAY_LINE_MAP[lineCode] || lineCode;
-}
-
-function getBusTypeName(typeCode: string): string {
-  return BUS_TYPE_MAP[typeCode] || "기타";
-}
-
-function truncateResponse(content: string): string {
-  if (content.length <= CHARACTER_LIMIT) {
-    return content;
-  }
-  const truncated = content.slice(0, CHARACTER_LIMIT - 100);
-  return `${truncated}\n\n... (응답이 ${CHARACTER_LIMIT.toLocaleString()}자 제한으로 잘렸습니다)`;
-}
-
-async function fetchWithTimeout(url: string, timeout = DEFAULT_TIMEOUT): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: { Accept: "application/json" },
-    });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
-// ===== 도구 실행 함수들 =====
-
-async function transitGetSubwayArrival(args: {
-  station_name: string;
-  limit?: number;
-  response_format?: string;
-}): Promise<string> {
-  const stationName = args.station_name.replace(/역$/u, "").trim();
-  const limit = Math.min(args.limit || 10, 20);
-  const format = args.response_format || "markdown";
-
-  try {
-    const url = `http://swopenapi.seoul.go.kr/api/subway/${SEOUL_API_KEY}/json/realtimeStationArrival/0/${limit}/${encodeURIComponent(stationName)}`;
-    const response = await fetchWithTimeout(url);
-    const data = await response.json();
-
-    if (data.errorMessage?.code && data.errorMessage.code !== "INFO-000") {
-      throw new Error(`API 에러: ${data.errorMessage.message}`);
-    }
-
-    const arrivals = data.realtimeArrivalList || [];
-
-    if (format === "json") {
-      return JSON.stringify({
-        station: stationName,
-        count: arrivals.length,
-        arrivals: arrivals.map((arr: SubwayArrival) => ({
-          line: getSubwayLineName(arr.subwayId),
-          destination: arr.bstatnNm,
-          message: arr.arvlMsg2,
-          direction: arr.updnLine,
-          trainNumber: arr.btrainNo,
-        })),
-      }, null, 2);
-    }
-
-    if (arrivals.length === 0) {
-      return `## 🚇 ${stationName}역 도착정보\n\n현재 도착 예정 열차가 없습니다.`;
-    }
-
-    let md = `## 🚇 ${stationName}역 실시간 도착정보\n\n`;
-    md += `> 총 ${arrivals.length}개의 열차 정보\n\n`;
-
-    arrivals.forEach((arr: SubwayArrival, idx: number) => {
-      const lineName = getSubwayLineName(arr.subwayId);
-      md += `### ${idx + 1}. ${lineName} - ${arr.bstatnNm}행\n`;
-      md += `- **도착**: ${arr.arvlMsg2}\n`;
-      md += `- **방향**: ${arr.updnLine === "상행" ? "⬆️ 상행" : "⬇️ 하행"}\n\n`;
-    });
-
-    return truncateResponse(md);
-  } catch (error) {
-    return `❌ 지하철 정보 조회 실패: ${getErrorMessage(error)}`;
-  }
-}
+// ===== 환경 변수 검증 =====
 
-async function transitGetSubwayStatus(args: {
-  line?: string;
-  response_format?: string;
-}): Promise<string> {
-  const format = args.response_format || "markdown";
-  const lineFilter = args.line ? `${args.line}호선` : null;
-
-  // 지하철 운행상태 API는 별도 엔드포인트 필요 - 간소화된 응답
-  const title = lineFilter || "전체 호선";
-
-  if (format === "json") {
-    return JSON.stringify({
-      filter: title,
-      status: "정상 운행 중",
-      message: "실시간 운행장애 정보는 서울교통공사 공지사항을 확인해주세요.",
-    }, null, 2);
-  }
-
-  return `## 🚇 지하철 운행상태 (${title})\n\n✅ 정상 운행 중\n\n※ 실시간 운행장애 정보는 서울교통공사 공지사항을 확인해주세요.`;
+if (!process.env.SEOUL_API_KEY) {
+  logger.error("SEOUL_API_KEY 환경 변수가 설정되지 않았습니다.");
 }
 
-async function transitGetBusArrival(args: {
-  ars_id: string;
-  limit?: number;
-  response_format?: string;
-}): Promise<string> {
-  const arsId = args.ars_id;
-  const limit = Math.min(args.limit || 10, 20);
-  const format = args.response_format || "markdown";
-
-  try {
-    // 공공데이터포털 버스 도착정보 API 호출
-    const url = `http://ws.bus.go.kr/api/rest/stationinfo/getStationByUid?serviceKey=${DATA_GO_KR_API_KEY}&resultType=json&arsId=${arsId}`;
-    const response = await fetchWithTimeout(url);
-    const data = await response.json();
-
-    // API 응답 확인
-    if (data.msgHeader?.headerCd !== "0") {
-      throw new Error(data.msgHeader?.headerMsg || "API 오류");
-    }
-
-    const arrivals: BusArrival[] = data.msgBody?.itemList || [];
-
-    if (format === "json") {
-      return JSON.stringify({
-        stationName: arrivals[0]?.stNm || "알 수 없음",
-        arsId,
-        count: arrivals.length,
-        arrivals: arrivals.slice(0, limit).map((bus: BusArrival) => ({
-          routeName: bus.rtNm,
-          routeAbbr: bus.busRouteAbrv,
-          arrival1: bus.arrmsg1,
-          arrival2: bus.arrmsg2,
-          routeType: getBusTypeName(bus.routeType || "1"),
-        })),
-      }, null, 2);
-    }
-
-    if (arrivals.length === 0) {
-      return `## 🚌 버스 도착정보 (정류장: ${arsId})\n\n현재 도착 예정 버스가 없습니다.`;
-    }
-
-    const stationName = arrivals[0]?.stNm || "알 수 없음";
-    let md = `## 🚌 ${stationName} 버스 도착정보\n\n`;
-    md += `> 정류장 번호: ${arsId} | ${arrivals.length}개 노선\n\n`;
-
-    arrivals.slice(0, limit).forEach((bus: BusArrival, idx: number) => {
-      const routeType = getBusTypeName(bus.routeType || "1");
-      md += `### ${idx + 1}. ${bus.rtNm} (${routeType})\n`;
-      md += `- **첫번째 버스**: ${bus.arrmsg1}\n`;
-      md += `- **두번째 버스**: ${bus.arrmsg2}\n\n`;
-    });
-
-    return truncateResponse(md);
-  } catch (error) {
-    return `❌ 버스 도착정보 조회 실패: ${getErrorMessage(error)}\n\n💡 정류장 번호가 올바른지 확인해 주세요.`;
-  }
-}
-
-async function transitSearchBusStation(args: {
-  query: string;
-  limit?: number;
-  response_format?: string;
-}): Promise<string> {
-  const query = args.query.trim();
-  const limit = Math.min(args.limit || 10, 20);
-  const format = args.response_format || "markdown";
-
-  try {
-    const results: BusStation[] = [];
-    const pageSize = 1000;
-
-    for (let page = 1; page <= 5; page++) {
-      const startIdx = (page - 1) * pageSize + 1;
-      const endIdx = page * pageSize;
-      const url = `http://openapi.seoul.go.kr:8088/${SEOUL_API_KEY}/json/busStopLocationXyInfo/${startIdx}/${endIdx}/`;
-
-      const response = await fetchWithTimeout(url);
-      const data = await response.json();
-      const rows: BusStation[] = data.busStopLocationXyInfo?.row || [];
-
-      const matched = rows.filter((s: BusStation) =>
-        s.STOPS_NM?.includes(query) || s.STOPS_NO === query
-      );
-      results.push(...matched);
-
-      if (results.length >= limit * 3 || rows.length < pageSize) break;
-    }
-
-    // 검색 결과 정렬: 정확한 매칭 > 시작 매칭 > 포함 매칭
-    const sortedResults = results.sort((a, b) => {
-      const aName = a.STOPS_NM || "";
-      const bName = b.STOPS_NM || "";
-      // 1순위: 검색어로 시작하는 결과 우선
-      const aStarts = aName.startsWith(query);
-      const bStarts = bName.startsWith(query);
-      if (aStarts && !bStarts) return -1;
-      if (!aStarts && bStarts) return 1;
-      // 2순위: 이름 길이 (짧은 것이 더 정확)
-      return aName.length - bName.length;
-    });
-
-    const stations = sortedResults.slice(0, limit);
-
-    if (format === "json") {
-      return JSON.stringify({
-        query,
-        count: stations.length,
-        stations: stations.map((s: BusStation) => ({
-          name: s.STOPS_NM,
-          arsId: s.STOPS_NO,
-          type: s.STOPS_TYPE || "일반",
-        })),
-      }, null, 2);
-    }
-
-    if (stations.length === 0) {
-      return `## 🔍 버스 정류장 검색: "${query}"\n\n검색 결과가 없습니다.`;
-    }
-
-    let md = `## 🔍 버스 정류장 검색: "${query}"\n\n`;
-    md += `> ${stations.length}개 정류장 발견\n\n`;
+// ===== 인증 =====
 
-    stations.forEach((s: BusStation, idx: number) => {
-      md += `### ${idx + 1}. ${s.STOPS_NM}\n`;
-      md += `- **정류장 번호**: \`${s.STOPS_NO}\`\n\n`;
-    });
+/** /mcp 인증 (MCP_API_KEYS 또는 MCP_OAUTH_* 설정 시) */
+const authenticator = new McpAuthenticator();
 
-    md += "---\n> 💡 **Tip**: 도착정보 조회 시 정류장 번호(arsId)를 사용하세요.\n";
-
-    return truncateResponse(md);
-  } catch (error) {
-    return `❌ 정류장 검색 실패: ${getErrorMessage(error)}`;
-  }
+if (!authenticator.enabled) {
+  logger.warn("MCP 인증이 설정되지 않았습니다. 누구나 /mcp를 호출할 수 있습니다.");
 }
 
-async function transitGetBikeStation(args: {
-  query: string;
-  limit?: number;
-  response_format?: string;
-}): Promise<string> {
-  const query = args.query.trim();
-  const limit = Math.min(args.limit || 10, 20);
-  const format = args.response_format || "markdown";
-
-  try {
-    const results: BikeStation[] = [];
-    const pageSize = 1000;
-
-    for (let page = 1; page <= 3; page++) {
-      const startIdx = (page - 1) * pageSize + 1;
-      const endIdx = page * pageSize;
-      const url = `http://openapi.seoul.go.kr:8088/${SEOUL_API_KEY}/json/bikeList/${startIdx}/${endIdx}/`;
-
-      const response = await fetchWithTimeout(url);
-      const data = await response.json();
-      const rows: BikeStation[] = data.rentBikeStatus?.row || [];
+const resourceMetadataPath = authenticator.resourceMetadataUrl
+  ? new URL(authenticator.resourceMetadataUrl).pathname
+  : undefined;
 
-      const matched = rows.filter((s: BikeStation) =>
-        s.stationName?.toLowerCase().includes(query.toLowerCase())
-      );
-      results.push(...matched);
+// ===== 요청 제한 (인스턴스 단위) =====
 
-      if (results.length >= limit * 3 || rows.length < pageSize) break;
-    }
-
-    const stations = results.slice(0, limit);
-
-    if (format === "json") {
-      return JSON.stringify({
-        query,
-        count: stations.length,
-        stations: stations.map((s: BikeStation) => ({
-          name: s.stationName,
-          id: s.stationId,
-          available: s.parkingBikeTotCnt,
-          rackTotal: s.rackTotCnt,
-        })),
-      }, null, 2);
-    }
-
-    if (stations.length === 0) {
-      return `## 🚲 따릉이 대여소 검색: "${query}"\n\n검색 결과가 없습니다.`;
-    }
+const rateLimiter = new TokenBucketRateLimiter();
 
-    let md = `## 🚲 따릉이 대여소 검색: "${query}"\n\n`;
-    md += `> ${stations.length}개 대여소 발견\n\n`;
-
-    stations.forEach((s: BikeStation, idx: number) => {
-      const availRate = s.rackTotCnt > 0
-        ? Math.round((s.parkingBikeTotCnt / s.rackTotCnt) * 100)
-        : 0;
-      const emoji = availRate >= 50 ? "🟢" : availRate >= 20 ? "🟡" : "🔴";
-
-      md += `### ${idx + 1}. ${s.stationName}\n`;
-      md += `- **대여 가능**: ${emoji} ${s.parkingBikeTotCnt}대 / ${s.rackTotCnt}대 (${availRate}%)\n\n`;
-    });
-
-    return truncateResponse(md);
-  } catch (error) {
-    return `❌ 따릉이 대여소 검색 실패: ${getErrorMessage(error)}`;
-  }
+/** 클라이언트 IP (Vercel이 설정하는 x-forwarded-for의 첫 번째 값) */
+function getClientIp(req: VercelRequest): string | undefined {
+  const forwarded = req.headers["x-forwarded-for"];
+  const value = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+  return value?.split(",")[0].trim() || req.socket?.remoteAddress;
 }
 
-async function transitGetCombinedInfo(args: {
-  location: string;
-  response_format?: string;
-}): Promise<string> {
-  const location = args.location.replace(/역$/u, "").trim();
-  const format = args.response_format || "markdown";
-
-  const subwayData: SubwayArrival[] = [];
-  const busStations: BusStation[] = [];
-  const bikeStations: BikeStation[] = [];
-
-  // 지하철 정보
-  try {
-    const url = `http://swopenapi.seoul.go.kr/api/subway/${SEOUL_API_KEY}/json/realtimeStationArrival/0/5/${encodeURIComponent(location)}`;
-    const response = await fetchWithTimeout(url);
-    const data = await response.json();
-    subwayData.push(...(data.realtimeArrivalList || []));
-  } catch {
-    // 무시
-  }
-
-  // 버스 정류장
-  try {
-    const url = `http://openapi.seoul.go.kr:8088/${SEOUL_API_KEY}/json/busStopLocationXyInfo/1/100/`;
-    const response = await fetchWithTimeout(url);
-    const data = await response.json();
-    const rows: BusStation[] = data.busStopLocationXyInfo?.row || [];
-    const matched = rows.filter((s: BusStation) => s.STOPS_NM?.includes(location)).slice(0, 3);
-    busStations.push(...matched);
-  } catch {
-    // 무시
-  }
-
-  // 따릉이
-  try {
-    const url = `http://openapi.seoul.go.kr:8088/${SEOUL_API_KEY}/json/bikeList/1/1000/`;
-    const response = await fetchWithTimeout(url);
-    const data = await response.json();
-    const rows: BikeStation[] = data.rentBikeStatus?.row || [];
-    const matched = rows.filter((s: BikeStation) =>
-      s.stationName?.toLowerCase().includes(location.toLowerCase())
-    ).slice(0, 3);
-    bikeStations.push(...matched);
-  } catch {
-    // 무시
-  }
-
-  if (format === "json") {
-    return JSON.stringify({
-      location: args.location,
-      subway: {
-        count: subwayData.length,
-        arrivals: subwayData.slice(0, 5).map((arr: SubwayArrival) => ({
-          line: getSubwayLineName(arr.subwayId),
-          destination: arr.bstatnNm,
-          message: arr.arvlMsg2,
-        })),
-      },
-      bus: {
-        count: busStations.length,
-        stations: busStations.map((s: BusStation) => ({
-          name: s.STOPS_NM,
-          arsId: s.STOPS_NO,
-        })),
-      },
-      bike: {
-        count: bikeStations.length,
-        stations: bikeStations.map((s: BikeStation) => ({
-          name: s.stationName,
-          available: s.parkingBikeTotCnt,
-          total: s.rackTotCnt,
-        })),
-      },
-    }, null, 2);
-  }
-
-  let md = `# 📍 ${args.location} 주변 교통정보\n\n`;
-
-  // 지하철
-  md += `## 🚇 지하철 도착정보\n\n`;
-  if (subwayData.length === 0) {
-    md += "주변 지하철역 정보가 없습니다.\n\n";
-  } else {
-    subwayData.slice(0, 5).forEach((arr: SubwayArrival) => {
-      const lineName = getSubwayLineName(arr.subwayId);
-      md += `- **${lineName}** ${arr.bstatnNm}행: ${arr.arvlMsg2}\n`;
-    });
-    md += "\n";
-  }
-
-  // 버스
-  md += `## 🚌 버스 정류장\n\n`;
-  if (busStations.length === 0) {
-    md += "주변 버스 정류장 정보가 없습니다.\n\n";
-  } else {
-    busStations.forEach((s: BusStation) => {
-      md += `- **${s.STOPS_NM}** (${s.STOPS_NO})\n`;
-    });
-    md += "\n";
-  }
-
-  // 따릉이
-  md += `## 🚲 따릉이 대여소\n\n`;
-  if (bikeStations.length === 0) {
-    md += "주변 따릉이 대여소 정보가 없습니다.\n";
-  } else {
-    bikeStations.forEach((s: BikeStation) => {
-      const availRate = s.rackTotCnt > 0
-        ? Math.round((s.parkingBikeTotCnt / s.rackTotCnt) * 100)
-        : 0;
-      const emoji = availRate >= 50 ? "🟢" : availRate >= 20 ? "🟡" : "🔴";
-      md += `- **${s.stationName}**: ${emoji} ${s.parkingBikeTotCnt}대 이용가능\n`;
-    });
-  }
-
-  return truncateResponse(md);
-}
+// ===== 에러 메시지 추출 헬퍼 =====
 
-// ===== 도구 실행 라우터 =====
-
-async function executeTool(name: string, args: ToolArguments): Promise<string> {
-  switch (name) {
-    case "transit_get_subway_arrival":
-      return transitGetSubwayArrival(args as { station_name: string; limit?: number; response_format?: string });
-    case "transit_get_subway_status":
-      return transitGetSubwayStatus(args as { line?: string; response_format?: string });
-    case "transit_get_bus_arrival":
-      return transitGetBusArrival(args as { ars_id: string; limit?: number; response_format?: string });
-    case "transit_search_bus_station":
-      return transitSearchBusStation(args as { query: string; limit?: number; response_format?: string });
-    case "transit_get_bike_station":
-      return transitGetBikeStation(args as { query: string; limit?: number; response_format?: string });
-    case "transit_get_combined_info":
-      return transitGetCombinedInfo(args as { location: string; response_format?: string });
-    default:
-      return `❌ 알 수 없는 도구: ${name}`;
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
   }
+  return String(error);
 }
 
 // ===== JSON-RPC 헬퍼 =====
 
-function jsonRpcResponse(id: string | number | null, result: unknown) {
-  return { jsonrpc: "2.0", id, result };
-}
-
 function jsonRpcError(id: string | number | null, code: number, message: string) {
   return { jsonrpc: "2.0", id, error: { code, message } };
 }
@@ -730,10 +108,17 @@ const LANDING_PAGE_HTML = `<!DOCTYPE html>
 // ===== Vercel 핸들러 =====
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS 헤더
-  res.setHeader("Access-Control-Allow-Origin", "*");
+  // CORS 헤더 (MCP_CORS_ORIGIN으로 허용 origin 제한 가능)
+  res.setHeader("Access-Control-Allow-Origin", process.env.MCP_CORS_ORIGIN || "*");
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, mcp-session-id, x-session-id, Accept");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    "Content-Type, mcp-session-id, Accept, Authorization, X-API-Key, X-Request-Id"
+  );
+  res.setHeader(
+    "Access-Control-Expose-Headers",
+    "mcp-session-id, WWW-Authenticate, Retry-After, RateLimit-Limit, RateLimit-Remaining, X-Request-Id"
+  );
 
   if (req.method === "OPTIONS") {
     return res.status(200).end();
@@ -748,84 +133,109 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(200).send(LANDING_PAGE_HTML);
   }
 
-  // Health check (/health 또는 다른 GET 요청)
+  // OAuth Protected Resource Metadata (RFC 9728)
+  if (req.method === "GET" && resourceMetadataPath
+    && (urlPath === resourceMetadataPath || urlPath === "/.well-known/oauth-protected-resource")) {
+    return res.status(200).json(authenticator.getResourceMetadata());
+  }
+
+  // stateless 모드: 세션 SSE 스트림(GET)과 세션 종료(DELETE)는 지원하지 않음
+  if (urlPath === "/mcp" && (req.method === "GET" || req.method === "DELETE")) {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json(jsonRpcError(null, -32000, "stateless 서버입니다. POST 요청만 지원합니다."));
+  }
+
+  // Prometheus 메트릭 (인스턴스 단위 집계)
+  if (req.method === "GET" && urlPath === "/metrics") {
+    res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    return res.status(200).send(renderPrometheusMetrics());
+  }
+
+  // Health check (/health 또는 다른 GET 요청, 서킷 상태는 인스턴스 단위)
   if (req.method === "GET") {
+    const upstreams = getCircuitBreakerStates();
     return res.status(200).json({
-      status: "ok",
-      name: SERVER_INFO.name,
-      version: SERVER_INFO.version,
-      tools: TOOLS.map((t) => t.name),
+      status: upstreams.some((u) => u.state !== "closed") ? "degraded" : "ok",
+      name: SERVER_INFO.NAME,
+      version: SERVER_INFO.VERSION,
+      tools: ALL_TOOLS.map((t) => t.name),
+      upstreams,
+      quota: getQuotaLedger().snapshot(),
     });
   }
 
-  // MCP JSON-RPC endpoint
+  // MCP JSON-RPC endpoint (요청 ID 발급 후 요청 컨텍스트 안에서 처리)
   if (req.method === "POST") {
-    try {
-      const body = req.body;
-      const { jsonrpc, id, method, params } = body;
-
-      if (jsonrpc !== "2.0") {
-        return res.status(400).json(jsonRpcError(id, -32600, "Invalid JSON-RPC version"));
-      }
-
-      let result: any;
-
-      switch (method) {
-        case "initialize":
-          result = {
-            protocolVersion: params?.protocolVersion || "2024-11-05",
-            capabilities: {
-              tools: { listChanged: false },
-            },
-            serverInfo: SERVER_INFO,
-          };
-          break;
-
-        case "notifications/initialized":
-          return res.status(200).end();
-
-        case "tools/list":
-          result = { tools: TOOLS };
-          break;
-
-        case "tools/call":
-          const toolName = params?.name;
-          const toolArgs = params?.arguments || {};
-
-          if (!toolName) {
-            return res.status(400).json(jsonRpcError(id, -32602, "Missing tool name"));
-          }
-
-          const tool = TOOLS.find((t) => t.name === toolName);
-          if (!tool) {
-            return res.status(400).json(jsonRpcError(id, -32602, `Unknown tool: ${toolName}`));
-          }
-
-          const toolResult = await executeTool(toolName, toolArgs);
-          result = {
-            content: [{ type: "text", text: toolResult }],
-          };
-          break;
-
-        case "ping":
-          result = {};
-          break;
-
-        default:
-          return res.status(400).json(jsonRpcError(id, -32601, `Method not found: ${method}`));
-      }
-
-      return res.status(200).json(jsonRpcResponse(id, result));
-    } catch (error) {
-      console.error("MCP Error:", error);
-      return res.status(500).json(jsonRpcError(null, -32603, getErrorMessage(error)));
+    const requestId = resolveRequestId(req.headers["x-request-id"]);
+    const startedAt = Date.now();
+    res.setHeader("X-Request-Id", requestId);
+    res.on("finish", () => {
+      logger.info("HTTP 요청", {
+        requestId,
+        clientId: (req as { auth?: AuthInfo }).auth?.clientId,
+        method: req.method,
+        path: urlPath,
+        rpcMethod: typeof req.body?.method === "string" ? req.body.method : undefined,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+        outcome: res.statusCode < 400 ? "success" : "error",
+      });
+    });
+
+    return runWithRequestContext({ requestId }, () => handleMcpPost(req, res));
+  }
+
+  return res.status(405).json({ error: "Method not allowed" });
+}
+
+// ===== MCP 요청 처리 =====
+
+/**
+ * MCP JSON-RPC 요청 처리 (인증 → 요청 제한 → stateless 서버/transport)
+ */
+async function handleMcpPost(req: VercelRequest, res: VercelResponse) {
+  let auth: AuthInfo | undefined;
+  try {
+    auth = await authenticator.authenticate(req.headers);
+    // StreamableHTTPServerTransport가 req.auth를 도구 핸들러(extra.authInfo)로 전달
+    Object.assign(req, { auth });
+  } catch (error) {
+    const { status, headers, body } = authenticator.toErrorResponse(error);
+    logger.warn("MCP 인증 실패", { ip: getClientIp(req), status, reason: getErrorMessage(error) });
+    for (const [name, value] of Object.entries(headers)) {
+      res.setHeader(name, value);
     }
+    return res.status(status).json(body);
   }
 
-  // DELETE for session cleanup
-  if (req.method === "DELETE") {
-    return res.status(200).json({ success: true });
+  const key = resolveRateLimitKey(auth?.clientId, getClientIp(req));
+  const rateLimit = rateLimiter.consume(key);
+  for (const [name, value] of Object.entries(getRateLimitHeaders(rateLimit))) {
+    res.setHeader(name, value);
+  }
+  if (!rateLimit.allowed) {
+    logger.warn("MCP 요청 제한 초과", { key, retryAfterSeconds: rateLimit.retryAfterSeconds });
+    return res.status(429).json(createRateLimitError(req.body?.id, rateLimit));
   }
 
-  return res.status(405).json({ error: "Method not allowed" });
+  const server = createTransitServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+    enableJsonResponse: true,
+  });
+
+  res.on("close", () => {
+    transport.close();
+    server.close();
+  });
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    logger.error("MCP 요청 처리 실패", { clientId: auth?.clientId, error });
+    if (!res.headersSent) {
+      res.status(500).json(jsonRpcError(null, -32603, getErrorMessage(error)));
+    }
+  }
 }
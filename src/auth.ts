@@ -0,0 +1,337 @@
+/**
+ * Korea Transit MCP Server - Authentication
+ *
+ * HTTP /mcp 엔드포인트 인증 (API 키 / OAuth 2.1 리소스 서버)
+ *
+ * - API 키: `Authorization: Bearer <키>` 또는 `X-API-Key: <키>` 헤더
+ * - OAuth 2.1: 인가 서버가 발급한 JWT 액세스 토큰을 JWKS로 검증 (MCP authorization 스펙)
+ *
+ * 인증 설정이 하나도 없으면 인증 없이 동작합니다 (로컬 개발용).
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { createRemoteJWKSet, jwtVerify, errors as joseErrors, type JWTPayload, type JWTVerifyGetKey } from "jose";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InvalidTokenError,
+  InsufficientScopeError,
+  OAuthError,
+  ServerError
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { DEFAULT_TIMEOUT, SERVER_INFO } from "./constants.js";
+import { logger } from "./services/index.js";
+
+// ===== 타입 정의 =====
+
+declare module "express-serve-static-core" {
+  interface Request {
+    /** 인증된 클라이언트 정보 (StreamableHTTPServerTransport가 extra.authInfo로 전달) */
+    auth?: AuthInfo;
+  }
+}
+
+/** OAuth 2.1 리소스 서버 설정 */
+export interface OAuthResourceConfig {
+  /** 인가 서버 issuer (토큰 iss와 일치해야 함) */
+  issuer: string;
+  /** 이 MCP 서버의 리소스 식별자 (토큰 aud와 일치해야 함, 예: https://example.com/mcp) */
+  resource: string;
+  /** JWKS URL (생략 시 인가 서버 메타데이터에서 조회) */
+  jwksUrl?: string;
+  /** 필수 scope */
+  requiredScopes: string[];
+}
+
+/** 인증 설정 */
+export interface AuthConfig {
+  /** API 키 → 클라이언트 ID */
+  apiKeys: Map<string, string>;
+  oauth?: OAuthResourceConfig;
+}
+
+/** 인증 실패 HTTP 응답 */
+export interface AuthErrorResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// ===== 설정 =====
+
+/**
+ * 환경 변수에서 인증 설정 로드
+ *
+ * - MCP_API_KEYS: `클라이언트ID:키` 쉼표 구분 목록 (ID 생략 시 client-1, client-2, ...)
+ * - MCP_OAUTH_ISSUER, MCP_OAUTH_RESOURCE: 둘 다 설정 시 OAuth 토큰 검증 활성화
+ * - MCP_OAUTH_JWKS_URL, MCP_OAUTH_SCOPES: JWKS URL, 필수 scope (공백/쉼표 구분)
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const apiKeys = new Map<string, string>();
+
+  (env.MCP_API_KEYS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry, index) => {
+      const separator = entry.indexOf(":");
+      const clientId = separator > 0 ? entry.slice(0, separator).trim() : `client-${index + 1}`;
+      const key = separator > 0 ? entry.slice(separator + 1).trim() : entry;
+      if (key) {
+        apiKeys.set(key, clientId);
+      }
+    });
+
+  const issuer = env.MCP_OAUTH_ISSUER?.trim();
+  const resource = env.MCP_OAUTH_RESOURCE?.trim();
+
+  return {
+    apiKeys,
+    oauth: issuer && resource
+      ? {
+        issuer,
+        resource,
+        jwksUrl: env.MCP_OAUTH_JWKS_URL?.trim() || undefined,
+        requiredScopes: (env.MCP_OAUTH_SCOPES ?? "").split(/[\s,]+/u).filter(Boolean)
+      }
+      : undefined
+  };
+}
+
+// ===== 인증기 =====
+
+/** 두 문자열의 상수 시간 비교 (길이 노출 방지를 위해 해시 비교) */
+function safeEqual(a: string, b: string): boolean {
+  const hash = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(hash(a), hash(b));
+}
+
+/**
+ * 요청 헤더에서 자격 증명 추출
+ *
+ * @throws InvalidTokenError Authorization 헤더 형식이 잘못된 경우
+ */
+function extractCredential(headers: IncomingHttpHeaders): string | undefined {
+  const apiKey = headers["x-api-key"];
+  if (typeof apiKey === "string" && apiKey.trim()) {
+    return apiKey.trim();
+  }
+
+  const authorization = headers.authorization;
+  if (!authorization) {
+    return undefined;
+  }
+  const [scheme, token] = authorization.trim().split(/\s+/u);
+  if (scheme.toLowerCase() !== "bearer" || !token) {
+    throw new InvalidTokenError("Authorization 헤더는 'Bearer <토큰>' 형식이어야 합니다.");
+  }
+  return token;
+}
+
+/** JWT scope 클레임 (scope 문자열 또는 scp 배열) */
+function getTokenScopes(payload: JWTPayload): string[] {
+  if (typeof payload.scope === "string") {
+    return payload.scope.split(" ").filter(Boolean);
+  }
+  return Array.isArray(payload.scp) ? payload.scp.map(String) : [];
+}
+
+/**
+ * MCP 엔드포인트 인증기
+ *
+ * 프레임워크와 무관하게 요청 헤더로 클라이언트를 식별하며, Express 미들웨어와
+ * Vercel 핸들러가 함께 사용합니다.
+ */
+export class McpAuthenticator {
+  private keySet?: JWTVerifyGetKey;
+
+  /**
+   * @param keySet - JWT 검증 키 (생략 시 JWKS URL에서 조회, 테스트용)
+   */
+  constructor(
+    private readonly config: AuthConfig = loadAuthConfig(),
+    keySet?: JWTVerifyGetKey
+  ) {
+    this.keySet = keySet;
+  }
+
+  /** 인증 사용 여부 (API 키 또는 OAuth 설정이 있는 경우) */
+  get enabled(): boolean {
+    return this.config.apiKeys.size > 0 || this.config.oauth !== undefined;
+  }
+
+  /** OAuth Protected Resource Metadata URL (RFC 9728) */
+  get resourceMetadataUrl(): string | undefined {
+    const { oauth } = this.config;
+    return oauth ? getOAuthProtectedResourceMetadataUrl(new URL(oauth.resource)) : undefined;
+  }
+
+  /**
+   * OAuth Protected Resource Metadata (RFC 9728)
+   *
+   * OAuth를 사용하지 않으면 undefined
+   */
+  getResourceMetadata(): Record<string, unknown> | undefined {
+    const { oauth } = this.config;
+    if (!oauth) {
+      return undefined;
+    }
+    return {
+      resource: oauth.resource,
+      authorization_servers: [oauth.issuer],
+      scopes_supported: oauth.requiredScopes.length > 0 ? oauth.requiredScopes : undefined,
+      bearer_methods_supported: ["header"],
+      resource_name: SERVER_INFO.NAME
+    };
+  }
+
+  /**
+   * 요청 인증
+   *
+   * @returns 클라이언트 정보 (인증을 사용하지 않으면 undefined)
+   * @throws InvalidTokenError 자격 증명이 없거나 유효하지 않은 경우
+   * @throws InsufficientScopeError 토큰에 필수 scope가 없는 경우
+   */
+  async authenticate(headers: IncomingHttpHeaders): Promise<AuthInfo | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const credential = extractCredential(headers);
+    if (!credential) {
+      throw new InvalidTokenError("인증 정보가 없습니다. Authorization: Bearer 또는 X-API-Key 헤더가 필요합니다.");
+    }
+
+    for (const [key, clientId] of this.config.apiKeys) {
+      if (safeEqual(credential, key)) {
+        return { token: credential, clientId, scopes: [], extra: { authMethod: "api_key" } };
+      }
+    }
+
+    if (this.config.oauth && credential.split(".").length === 3) {
+      return this.verifyAccessToken(credential, this.config.oauth);
+    }
+
+    throw new InvalidTokenError("유효하지 않은 API 키 또는 액세스 토큰입니다.");
+  }
+
+  /**
+   * OAuth 액세스 토큰(JWT) 검증
+   *
+   * 서명(JWKS), issuer, audience(리소스 식별자), 만료 시각, 필수 scope를 확인합니다.
+   */
+  private async verifyAccessToken(token: string, oauth: OAuthResourceConfig): Promise<AuthInfo> {
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(token, await this.getKeySet(oauth), {
+        issuer: oauth.issuer,
+        audience: oauth.resource,
+        requiredClaims: ["exp"]
+      }));
+    } catch (error) {
+      if (error instanceof joseErrors.JOSEError && !(error instanceof joseErrors.JWKSTimeout)) {
+        throw new InvalidTokenError(error instanceof joseErrors.JWTExpired
+          ? "액세스 토큰이 만료되었습니다."
+          : "유효하지 않은 액세스 토큰입니다.");
+      }
+      throw error instanceof OAuthError ? error : new ServerError("액세스 토큰 검증 키를 가져오지 못했습니다.");
+    }
+
+    const scopes = getTokenScopes(payload);
+    const missing = oauth.requiredScopes.filter((scope) => !scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new InsufficientScopeError(`필요한 scope가 없습니다: ${missing.join(" ")}`);
+    }
+
+    const clientId = [payload.client_id, payload.azp, payload.sub].find((v) => typeof v === "string");
+    return {
+      token,
+      clientId: (clientId as string | undefined) ?? "unknown",
+      scopes,
+      expiresAt: payload.exp,
+      resource: new URL(oauth.resource),
+      extra: { authMethod: "oauth", subject: payload.sub }
+    };
+  }
+
+  /**
+   * JWT 검증 키 (JWKS URL 미설정 시 인가 서버 메타데이터의 jwks_uri 사용)
+   */
+  private async getKeySet(oauth: OAuthResourceConfig): Promise<JWTVerifyGetKey> {
+    if (!this.keySet) {
+      const jwksUrl = oauth.jwksUrl ?? await discoverJwksUrl(oauth.issuer);
+      this.keySet = createRemoteJWKSet(new URL(jwksUrl), { timeoutDuration: DEFAULT_TIMEOUT });
+    }
+    return this.keySet;
+  }
+
+  /**
+   * 인증 실패 응답 (OAuth 오류 형식 + WWW-Authenticate 헤더)
+   */
+  toErrorResponse(error: unknown): AuthErrorResponse {
+    const oauthError = error instanceof OAuthError ? error : new ServerError("Internal Server Error");
+    const status = oauthError instanceof InvalidTokenError ? 401
+      : oauthError instanceof InsufficientScopeError ? 403
+        : oauthError instanceof ServerError ? 500 : 400;
+
+    const headers: Record<string, string> = {};
+    if (status === 401 || status === 403) {
+      const params = [`error="${oauthError.errorCode}"`];
+      const scopes = this.config.oauth?.requiredScopes ?? [];
+      if (scopes.length > 0) {
+        params.push(`scope="${scopes.join(" ")}"`);
+      }
+      if (this.resourceMetadataUrl) {
+        params.push(`resource_metadata="${this.resourceMetadataUrl}"`);
+      }
+      headers["WWW-Authenticate"] = `Bearer ${params.join(", ")}`;
+    }
+
+    return { status, headers, body: oauthError.toResponseObject() };
+  }
+}
+
+/**
+ * 인가 서버 메타데이터에서 jwks_uri 조회 (RFC 8414, OpenID Connect Discovery 순)
+ */
+async function discoverJwksUrl(issuer: string): Promise<string> {
+  const base = issuer.replace(/\/$/u, "");
+
+  for (const path of ["/.well-known/oauth-authorization-server", "/.well-known/openid-configuration"]) {
+    try {
+      const response = await fetch(`${base}${path}`, { signal: AbortSignal.timeout(DEFAULT_TIMEOUT) });
+      if (response.ok) {
+        const metadata = await response.json() as { jwks_uri?: string };
+        if (metadata.jwks_uri) {
+          return metadata.jwks_uri;
+        }
+      }
+    } catch {
+      // 다음 메타데이터 경로 시도
+    }
+  }
+
+  throw new ServerError("인가 서버 메타데이터에서 jwks_uri를 찾을 수 없습니다. MCP_OAUTH_JWKS_URL을 설정해주세요.");
+}
+
+// ===== Express 미들웨어 =====
+
+/**
+ * /mcp 인증 미들웨어
+ *
+ * 인증에 성공하면 req.auth에 클라이언트 정보를 담아 transport가 도구 핸들러(extra.authInfo)로 전달합니다.
+ */
+export function createAuthMiddleware(authenticator: McpAuthenticator): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      req.auth = await authenticator.authenticate(req.headers);
+      next();
+    } catch (error) {
+      const { status, headers, body } = authenticator.toErrorResponse(error);
+      logger.warn("MCP 인증 실패", { ip: req.ip, status, reason: error instanceof Error ? error.message : String(error) });
+      res.status(status).set(headers).json(body);
+    }
+  };
+}
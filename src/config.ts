@@ -4,6 +4,9 @@
  * 환경 변수 검증 및 설정 관리
  */
 
+import { SESSION } from "./constants.js";
+import { logger } from "./services/index.js";
+
 export interface EnvConfig {
   SEOUL_API_KEY: string;
   DATA_GO_KR_API_KEY: string;
@@ -25,7 +28,7 @@ export function validateEnvironment(): EnvConfig {
 
   // 선택적 환경 변수 경고 (에러는 아님)
   if (!process.env.DATA_GO_KR_API_KEY) {
-    console.warn("⚠️ DATA_GO_KR_API_KEY가 설정되지 않았습니다. 버스 도착정보 기능이 제한됩니다.");
+    logger.warn("DATA_GO_KR_API_KEY가 설정되지 않았습니다. 버스 도착정보 기능이 제한됩니다.");
   }
 
   // 필수 환경 변수 누락 시 에러
@@ -36,6 +39,11 @@ export function validateEnvironment(): EnvConfig {
     );
   }
 
+  // 설정 값 범위 확인
+  if (SESSION.MAX_SESSIONS < 1) {
+    throw new Error(`MCP_MAX_SESSIONS는 1 이상이어야 합니다 (현재: ${SESSION.MAX_SESSIONS})`);
+  }
+
   return {
     SEOUL_API_KEY: process.env.SEOUL_API_KEY!,
     DATA_GO_KR_API_KEY: process.env.DATA_GO_KR_API_KEY || "",
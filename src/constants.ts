@@ -10,14 +10,14 @@ export const SERVER_INFO = {
   VERSION: "1.0.0"
 } as const;
 
-// ===== API Base URLs =====
+// ===== API Base URLs (환경변수로 재정의 가능, 예: 테스트용 픽스처 서버) =====
 export const API_URLS = {
   /** 서울 열린데이터광장 지하철 API */
-  SEOUL_SUBWAY: "http://swopenapi.seoul.go.kr/api/subway",
+  SEOUL_SUBWAY: process.env.SEOUL_SUBWAY_API_URL || "http://swopenapi.seoul.go.kr/api/subway",
   /** 서울 열린데이터광장 일반 API */
-  SEOUL_DATA: "http://openapi.seoul.go.kr:8088",
+  SEOUL_DATA: process.env.SEOUL_DATA_API_URL || "http://openapi.seoul.go.kr:8088",
   /** 공공데이터포털 버스 API */
-  BUS_API: "http://ws.bus.go.kr/api/rest"
+  BUS_API: process.env.BUS_API_URL || "http://ws.bus.go.kr/api/rest"
 } as const;
 
 // ===== API 엔드포인트 (환경변수 기반) =====
@@ -26,21 +26,115 @@ const DATA_GO_KR_API_KEY = process.env.DATA_GO_KR_API_KEY || "";
 
 export const API_ENDPOINTS = {
   SUBWAY_ARRIVAL: `${API_URLS.SEOUL_SUBWAY}/${SEOUL_API_KEY}/json/realtimeStationArrival`,
-  SUBWAY_STATUS: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/subwayStatus/1/20`,
+  SUBWAY_STATUS: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/subwayStatus`,
   BUS_ARRIVAL: `${API_URLS.BUS_API}/stationinfo/getStationByUid?serviceKey=${DATA_GO_KR_API_KEY}&resultType=json&arsId`,
+  BUS_ROUTE_LIST: `${API_URLS.BUS_API}/busRouteInfo/getBusRouteList?serviceKey=${DATA_GO_KR_API_KEY}&resultType=json&strSrch`,
+  BUS_ROUTE_STATIONS: `${API_URLS.BUS_API}/busRouteInfo/getStaionByRoute?serviceKey=${DATA_GO_KR_API_KEY}&resultType=json&busRouteId`,
   BUS_STATION_SEARCH: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/busStopLocationXyInfo`,
-  BIKE_STATION: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/bikeList`
+  BIKE_STATION: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/bikeList`,
+  SUBWAY_STATION_MASTER: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/subwayStationMaster`,
+  SUBWAY_STATION_INFO: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/SearchInfoBySubwayNameService`,
+  SUBWAY_STATION_LIST: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/SearchSTNBySubwayLineInfo`,
+  SUBWAY_TIMETABLE: `${API_URLS.SEOUL_DATA}/${SEOUL_API_KEY}/json/SearchSTNTimeTableByIDService`
 } as const;
 
 // ===== 응답 제한 =====
 /** 최대 응답 문자 수 (초과 시 truncation) */
 export const CHARACTER_LIMIT = 25000;
 
-/** API 요청 기본 타임아웃 (ms) */
-export const DEFAULT_TIMEOUT = 10000;
+/** API 요청 기본 타임아웃 (ms, API_TIMEOUT_MS 환경변수로 재정의 가능) */
+export const DEFAULT_TIMEOUT = Number(process.env.API_TIMEOUT_MS) || 10000;
 
-/** 지하철 API 타임아웃 (ms) - 응답이 느려서 더 길게 설정 */
-export const SUBWAY_TIMEOUT = 15000;
+/** 지하철 API 타임아웃 (ms, SUBWAY_TIMEOUT_MS로 재정의 가능) - 응답이 느려서 기본 타임아웃의 1.5배 */
+export const SUBWAY_TIMEOUT = Number(process.env.SUBWAY_TIMEOUT_MS) || Math.round(DEFAULT_TIMEOUT * 1.5);
+
+// ===== 재시도 / 서킷 브레이커 =====
+
+/** 숫자 환경변수 (0 허용, 미설정/잘못된 값이면 기본값) */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** 업스트림 요청 재시도 (일시적 오류에만 적용) */
+export const RETRY = {
+  /** 최대 재시도 횟수 (API_MAX_RETRIES, 0이면 재시도 안 함) */
+  MAX_RETRIES: envNumber("API_MAX_RETRIES", 2),
+  /** 지수 백오프 기준 지연 (ms, API_RETRY_BASE_MS) */
+  BASE_DELAY_MS: envNumber("API_RETRY_BASE_MS", 300),
+  /** 최대 지연 (ms) */
+  MAX_DELAY_MS: 3000
+} as const;
+
+/** 호스트별 서킷 브레이커 */
+export const CIRCUIT_BREAKER = {
+  /** 연속 실패 시 차단 기준 (CIRCUIT_FAILURE_THRESHOLD) */
+  FAILURE_THRESHOLD: envNumber("CIRCUIT_FAILURE_THRESHOLD", 5),
+  /** 차단 유지 시간 (ms, CIRCUIT_RESET_TIMEOUT_MS) - 이후 시험 요청 1건 허용 */
+  RESET_TIMEOUT_MS: envNumber("CIRCUIT_RESET_TIMEOUT_MS", 30 * 1000)
+} as const;
+
+// ===== HTTP 세션 =====
+
+/** Streamable HTTP 세션 (Mcp-Session-Id) */
+export const SESSION = {
+  /** 세션 없이 요청마다 처리 (MCP_STATELESS=true, 서버리스용) */
+  STATELESS: process.env.MCP_STATELESS === "true",
+  /** 유휴 세션 만료 시간 (ms, MCP_SESSION_IDLE_TIMEOUT_MS) */
+  IDLE_TIMEOUT_MS: envNumber("MCP_SESSION_IDLE_TIMEOUT_MS", 30 * 60 * 1000),
+  /** 최대 동시 세션 수 (MCP_MAX_SESSIONS, 1 이상) - 도달하면 새 세션 거부 */
+  MAX_SESSIONS: envNumber("MCP_MAX_SESSIONS", 1000),
+  /** 세션별 SSE 재개용 이벤트 보관 개수 */
+  MAX_EVENTS_PER_SESSION: 200,
+  /** 유휴 세션 정리 주기 (ms) */
+  SWEEP_INTERVAL_MS: 60 * 1000
+} as const;
+
+// ===== 요청 제한 / 호출 한도 =====
+
+/** /mcp 클라이언트별 요청 제한 (토큰 버킷) */
+export const RATE_LIMIT = {
+  /** 분당 허용 요청 수 (MCP_RATE_LIMIT_PER_MINUTE, 0이면 제한 안 함) */
+  REQUESTS_PER_MINUTE: envNumber("MCP_RATE_LIMIT_PER_MINUTE", 60),
+  /** 순간 최대 요청 수 (MCP_RATE_LIMIT_BURST) */
+  BURST: envNumber("MCP_RATE_LIMIT_BURST", 20),
+  /** 요청 제한 초과 JSON-RPC 오류 코드 (구현 정의 서버 오류 범위) */
+  JSON_RPC_ERROR_CODE: -32029,
+  /** 유휴 버킷 정리 주기 (ms) */
+  IDLE_TTL_MS: 10 * 60 * 1000
+} as const;
+
+/** 업스트림 API 키별 일일 호출 한도 (0이면 제한 없이 집계만) */
+export const DAILY_QUOTA = {
+  /** 서울 열린데이터광장 (SEOUL_API_DAILY_LIMIT) */
+  SEOUL: envNumber("SEOUL_API_DAILY_LIMIT", 0),
+  /** 공공데이터포털 (DATA_GO_KR_API_DAILY_LIMIT) */
+  DATA_GO_KR: envNumber("DATA_GO_KR_API_DAILY_LIMIT", 0)
+} as const;
+
+// ===== 메트릭 =====
+
+/** Prometheus 메트릭 (/metrics) */
+export const METRICS = {
+  /** 메트릭 이름 접두사 */
+  PREFIX: "transit_",
+  /** 지연 시간 히스토그램 구간 (초) */
+  LATENCY_BUCKETS_SECONDS: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+} as const;
+
+// ===== 로그 =====
+
+/** 구조화된(JSON) 로그 */
+export const LOGGING = {
+  /**
+   * LOG_LEVEL(debug, info, warn, error, silent) 미설정 시 최소 로그 레벨
+   *
+   * LOG_LEVEL은 import 시점이 아니라 처음 로그를 출력할 때 읽으므로 dotenv(.env) 설정도 반영됩니다.
+   */
+  DEFAULT_LEVEL: "info",
+  /** 필드/오류 cause 직렬화 최대 깊이 */
+  MAX_DEPTH: 5
+} as const;
 
 // ===== 지하철 호선 매핑 =====
 export const SUBWAY_LINE_MAP: Record<string, string> = {
@@ -63,14 +157,38 @@ export const SUBWAY_LINE_MAP: Record<string, string> = {
 } as const;
 
 // ===== 버스 유형 매핑 =====
+/** 서울 버스 API 노선 유형 코드(routeType) → 노선 유형 */
 export const BUS_TYPE_MAP: Record<string, string> = {
-  "1": "일반",
-  "2": "좌석",
-  "3": "마을",
-  "4": "광역",
-  "5": "공항",
-  "6": "간선",
-  "7": "지선"
+  "1": "공항",
+  "2": "마을",
+  "3": "간선",
+  "4": "지선",
+  "5": "순환",
+  "6": "광역",
+  "7": "인천",
+  "8": "경기",
+  "9": "폐지",
+  "0": "공용"
+} as const;
+
+// ===== 지하철 도착정보 =====
+export const SUBWAY_ARRIVAL = {
+  /** 필터/그룹 적용 시 원본 조회 개수 (필터 적용 후 limit 적용) */
+  FETCH_LIMIT: 50
+} as const;
+
+// ===== 도착 알림 (transit_watch_arrival) =====
+export const ARRIVAL_WATCH = {
+  /** 조회 간격 (ms) - 실시간 도착정보 캐시 TTL(15초)보다 길게 설정 */
+  POLL_INTERVAL_MS: Number(process.env.WATCH_POLL_INTERVAL_MS) || 20 * 1000,
+  /** 기본 알림 기준 (도착까지 남은 분) */
+  DEFAULT_THRESHOLD_MINUTES: 3,
+  /** 기본 최대 대기 시간 (분) */
+  DEFAULT_TIMEOUT_MINUTES: 10,
+  /** 최대 대기 시간 상한 (분) */
+  MAX_TIMEOUT_MINUTES: 30,
+  /** 지켜보던 열차/버스가 이 횟수만큼 연속으로 목록에 없으면 지나간 것으로 판단 */
+  PASSED_MISSED_POLLS: 2
 } as const;
 
 // ===== 페이지네이션 기본값 =====
@@ -84,5 +202,168 @@ export const PAGINATION = {
   /** 서울 API 페이지 크기 */
   SEOUL_API_PAGE_SIZE: 1000,
   /** 최대 페이지 수 (API 부하 방지) */
-  MAX_PAGES: 12
+  MAX_PAGES: 12,
+  /** 전체 데이터 색인 시 최대 페이지 수 */
+  INDEX_MAX_PAGES: 30,
+  /** 따릉이 대여소 조회 시 최대 페이지 수 */
+  BIKE_MAX_PAGES: 8,
+  /** 동시 페이지 요청 수 */
+  CONCURRENCY: 4
+} as const;
+
+// ===== 버스 정류장 색인 =====
+/** 버스 정류장 색인 갱신 주기 (ms) - 정류장 위치 데이터는 일 1회 갱신 */
+export const BUS_STOP_INDEX_REFRESH_INTERVAL = 6 * 60 * 60 * 1000;
+
+// ===== 캐시 설정 =====
+/** 엔드포인트별 응답 캐시 TTL (ms) */
+export const CACHE_TTL = {
+  /** 지하철 도착정보 - 실시간 */
+  SUBWAY_ARRIVAL: 15 * 1000,
+  /** 지하철 운행상태 */
+  SUBWAY_STATUS: 60 * 1000,
+  /** 버스 도착정보 - 실시간 */
+  BUS_ARRIVAL: 15 * 1000,
+  /** 버스 노선 목록 */
+  BUS_ROUTE_LIST: 6 * 60 * 60 * 1000,
+  /** 버스 노선별 경유 정류장 */
+  BUS_ROUTE_STATIONS: 6 * 60 * 60 * 1000,
+  /** 버스 정류장 위치 - 일 1회 갱신 */
+  BUS_STATION_SEARCH: 6 * 60 * 60 * 1000,
+  /** 따릉이 대여 현황 */
+  BIKE_STATION: 60 * 1000,
+  /** 지하철 역사 마스터 (위치 정보) */
+  SUBWAY_STATION_MASTER: 24 * 60 * 60 * 1000,
+  /** 지하철 역명별 역 코드 */
+  SUBWAY_STATION_INFO: 24 * 60 * 60 * 1000,
+  /** 지하철 전체 역 목록 (역 레지스트리) */
+  SUBWAY_STATION_LIST: 24 * 60 * 60 * 1000,
+  /** 지하철 시간표 - 개정 시에만 변경 */
+  SUBWAY_TIMETABLE: 24 * 60 * 60 * 1000
+} as const;
+
+/** 메모리 캐시 최대 항목 수 */
+export const CACHE_MAX_ENTRIES = 500;
+
+// ===== 주변 검색 =====
+export const NEARBY = {
+  /** 기본 검색 반경 (m) */
+  DEFAULT_RADIUS: 500,
+  /** 최대 검색 반경 (m) */
+  MAX_RADIUS: 2000,
+  /** 도보 속도 (m/분, 약 4km/h) */
+  WALKING_SPEED_M_PER_MIN: 67,
+  /** 직선 거리 대비 실제 보행 경로 비율 */
+  WALKING_ROUTE_FACTOR: 1.3,
+  /** 공간 색인 격자 크기 (도, 약 1km) */
+  GRID_CELL_DEGREES: 0.01
+} as const;
+
+// ===== 버스 노선 =====
+export const BUS_ROUTE = {
+  /** 정류장 목록을 함께 조회할 최대 노선 수 (동일 번호 노선) */
+  MAX_DETAILED_ROUTES: 3,
+  /** 번호 불일치 시 제시할 최대 후보 노선 수 */
+  MAX_CANDIDATES: 5
+} as const;
+
+// ===== 지하철 시간표 =====
+export const SUBWAY_TIMETABLE = {
+  /** 요일 구분 코드 (WEEK_TAG) */
+  WEEK_TAG: {
+    weekday: "1",
+    saturday: "2",
+    holiday: "3"
+  },
+  /** 방향 구분 코드 (INOUT_TAG) */
+  INOUT_TAG: {
+    up: "1",
+    down: "2"
+  },
+  /** 운행일 시작 시각 (시) - 이 시각 이전 열차는 전날 시간표에 속함 */
+  SERVICE_DAY_START_HOUR: 4,
+  /** 기본 조회 열차 수 (방향별) */
+  DEFAULT_LIMIT: 10,
+  /** 최대 조회 열차 수 (방향별) */
+  MAX_LIMIT: 60
 } as const;
+
+// ===== 공휴일 =====
+/** 양력 고정 공휴일 (MM-DD) */
+export const FIXED_PUBLIC_HOLIDAYS: readonly string[] = [
+  "01-01", // 신정
+  "03-01", // 삼일절
+  "05-05", // 어린이날
+  "06-06", // 현충일
+  "08-15", // 광복절
+  "10-03", // 개천절
+  "10-09", // 한글날
+  "12-25" // 성탄절
+];
+
+/**
+ * 연도별 음력 공휴일, 대체공휴일, 임시공휴일 (MM-DD)
+ *
+ * 설날/추석/부처님오신날은 음력 기준이므로 연도별로 관리합니다.
+ * 목록에 없는 연도는 양력 고정 공휴일과 일요일만 휴일로 처리됩니다.
+ */
+export const VARIABLE_PUBLIC_HOLIDAYS: Readonly<Record<number, readonly string[]>> = {
+  2025: [
+    "01-27", // 임시공휴일
+    "01-28", "01-29", "01-30", // 설날
+    "03-03", // 삼일절 대체공휴일
+    "05-06", // 어린이날·부처님오신날 대체공휴일
+    "06-03", // 대통령 선거일
+    "10-05", "10-06", "10-07", // 추석
+    "10-08" // 추석 대체공휴일
+  ],
+  2026: [
+    "02-16", "02-17", "02-18", // 설날
+    "03-02", // 삼일절 대체공휴일
+    "05-24", // 부처님오신날
+    "05-25", // 부처님오신날 대체공휴일
+    "06-03", // 전국동시지방선거일
+    "08-17", // 광복절 대체공휴일
+    "09-24", "09-25", "09-26", // 추석
+    "10-05" // 개천절 대체공휴일
+  ],
+  2027: [
+    "02-06", "02-07", "02-08", // 설날
+    "02-09", // 설날 대체공휴일
+    "05-13", // 부처님오신날
+    "08-16", // 광복절 대체공휴일
+    "09-14", "09-15", "09-16", // 추석
+    "10-04", // 개천절 대체공휴일
+    "10-11", // 한글날 대체공휴일
+    "12-27" // 성탄절 대체공휴일
+  ]
+};
+
+// ===== 역 레지스트리 =====
+export const STATION_REGISTRY = {
+  /** "혹시 이 역?" 제안 최대 개수 */
+  MAX_SUGGESTIONS: 5,
+  /** 오타 허용 비율 (자모 수 대비 편집 거리) */
+  FUZZY_DISTANCE_RATIO: 0.25
+} as const;
+
+/**
+ * 역 별칭 (공식 역명 → 통칭/약칭)
+ *
+ * 괄호가 포함된 역명(예: "총신대입구(이수)")은 괄호 안팎의 이름이 자동으로 별칭에 추가됩니다.
+ */
+export const STATION_ALIASES: Readonly<Record<string, readonly string[]>> = {
+  "서울": ["서울역", "Seoul Station"],
+  "고속터미널": ["고터", "고속버스터미널", "강남고속터미널"],
+  "동대문역사문화공원": ["동역사", "DDP"],
+  "디지털미디어시티": ["디엠씨", "DMC"],
+  "홍대입구": ["홍대"],
+  "건대입구": ["건대"],
+  "서울대입구": ["서울대"],
+  "인천공항1터미널": ["인천공항", "인천국제공항"],
+  "김포공항": ["김포"],
+  "월드컵경기장": ["상암"],
+  "경기도청북부청사": ["의정부 도청"],
+  "올림픽공원": ["올공"],
+  "종합운동장": ["잠실종합운동장"]
+};
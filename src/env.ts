@@ -0,0 +1,13 @@
+/**
+ * Korea Transit MCP Server - Environment
+ *
+ * .env 파일 로드
+ *
+ * constants.ts는 모듈을 평가할 때 환경 변수를 읽고, ESM은 import한 모듈을 진입점 본문보다 먼저 평가합니다.
+ * 따라서 진입점(src/index.ts)의 첫 번째 import로 불러와야 .env 값이 모든 설정에 반영됩니다.
+ */
+
+import dotenv from "dotenv";
+
+// dotenv 안내 메시지가 stdout(stdio 모드의 MCP 스트림)에 출력되지 않도록 quiet
+dotenv.config({ quiet: true });
@@ -4,50 +4,49 @@
  * 서울시 대중교통 실시간 정보를 제공하는 MCP 서버
  *
  * 제공 도구:
- * - transit_get_subway_arrival: 지하철 실시간 도착정보
- * - transit_get_subway_status: 지하철 운행상태
- * - transit_get_bus_arrival: 버스 실시간 도착정보
- * - transit_search_bus_station: 버스 정류장 검색
- * - transit_get_bike_station: 따릉이 대여소 검색
- * - transit_get_combined_info: 통합 교통정보 조회
+ * - 공통 도구: src/tools/index.ts의 ALL_TOOLS
+ * - transit_watch_arrival: 지하철/버스 도착 알림 (stdio/세션 모드 전용, 진행 알림 필요)
+ * - transit_get_diagnostics: 서버 진단 정보 (stdio 모드 전용, HTTP 모드는 /metrics)
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+// .env는 다른 모듈(상수)보다 먼저 로드
+import "./env.js";
+
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import express, { Request, Response } from "express";
-import dotenv from "dotenv";
 
 import { SERVER_INFO } from "./constants.js";
-import { registerAllTools } from "./tools/index.js";
+import { createTransitServer } from "./server.js";
+import { ALL_TOOLS, watchTools } from "./tools/index.js";
 import { validateEnvironment, isDevelopment } from "./config.js";
+import {
+  getCircuitBreakerStates,
+  getQuotaLedger,
+  registerGauge,
+  renderPrometheusMetrics,
+  configureLogger,
+  logger
+} from "./services/index.js";
+import { McpAuthenticator, createAuthMiddleware } from "./auth.js";
+import { TokenBucketRateLimiter, createRateLimitMiddleware } from "./rate-limit.js";
+import { McpSessionManager } from "./sessions.js";
+import { createRequestLogMiddleware } from "./request-logging.js";
+
+const isStdioMode = process.argv.includes("--stdio");
 
-// 환경 변수 로드
-dotenv.config();
+// stdio 모드는 stdout이 MCP 프로토콜 스트림이므로 로그를 모두 stderr로 출력
+configureLogger({ stderrOnly: isStdioMode });
 
 // 환경 변수 검증
 try {
   validateEnvironment();
 } catch (error) {
-  const message = error instanceof Error ? error.message : String(error);
-  console.error(`❌ 환경 변수 오류: ${message}`);
+  logger.error("환경 변수 오류", { error });
   process.exit(1);
 }
 
-// ===== MCP 서버 생성 =====
-
-const server = new McpServer({
-  name: SERVER_INFO.NAME,
-  version: SERVER_INFO.VERSION,
-});
-
-// 모든 도구 등록
-registerAllTools(server);
-
 // ===== 서버 실행 모드 분기 =====
 
-const isStdioMode = process.argv.includes("--stdio");
-
 if (isStdioMode) {
   // stdio 모드 (로컬 MCP 클라이언트용)
   runStdioServer();
@@ -59,11 +58,13 @@ if (isStdioMode) {
 // ===== stdio 서버 =====
 
 async function runStdioServer(): Promise<void> {
+  // 모든 도구 + 진단 도구 + 도착 알림 도구 등록
+  const server = createTransitServer({ diagnostics: true, watch: true });
   const transport = new StdioServerTransport();
 
   await server.connect(transport);
 
-  console.error(`🚀 ${SERVER_INFO.NAME} v${SERVER_INFO.VERSION} (stdio mode)`);
+  logger.info("서버 시작", { name: SERVER_INFO.NAME, version: SERVER_INFO.VERSION, mode: "stdio" });
 
   // 종료 시그널 처리
   process.on("SIGINT", async () => {
@@ -77,49 +78,70 @@ async function runStdioServer(): Promise<void> {
 function runHttpServer(): void {
   const app = express();
   app.use(express.json());
+  app.use(createRequestLogMiddleware());
+
+  // /mcp 인증 (MCP_API_KEYS 또는 MCP_OAUTH_* 설정 시)
+  const authenticator = new McpAuthenticator();
+  if (!authenticator.enabled) {
+    logger.warn("MCP 인증이 설정되지 않았습니다. 누구나 /mcp를 호출할 수 있습니다.");
+  }
+
+  // OAuth Protected Resource Metadata (RFC 9728)
+  const resourceMetadata = authenticator.getResourceMetadata();
+  if (resourceMetadata && authenticator.resourceMetadataUrl) {
+    const metadataPath = new URL(authenticator.resourceMetadataUrl).pathname;
+    app.get([metadataPath, "/.well-known/oauth-protected-resource"], (_req: Request, res: Response) => {
+      res.json(resourceMetadata);
+    });
+  }
 
-  // 세션별 Transport 관리
-  const transports = new Map<string, StreamableHTTPServerTransport>();
+  // 클라이언트별 요청 제한
+  const rateLimiter = new TokenBucketRateLimiter();
 
-  // MCP 엔드포인트
-  app.post("/mcp", async (req: Request, res: Response) => {
-    try {
-      const sessionId = (req.headers["x-session-id"] as string) || "default";
-
-      let transport = transports.get(sessionId);
-      if (!transport) {
-        transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => sessionId,
-        });
-        transports.set(sessionId, transport);
-        await server.connect(transport);
-      }
+  // 세션별 MCP 서버/Transport 관리 (MCP_STATELESS=true면 요청마다 생성)
+  const sessions = new McpSessionManager();
+  sessions.startSweeper();
+  registerGauge("mcp_sessions_active", "활성 MCP 세션 수", () => sessions.size);
+
+  // 등록되는 도구 (도착 알림 도구는 진행 알림을 스트리밍할 수 있는 세션 모드에서만 등록)
+  const tools = sessions.getStats().mode === "stateful" ? [...ALL_TOOLS, ...watchTools] : ALL_TOOLS;
 
-      await transport.handleRequest(req, res, req.body);
+  // MCP 엔드포인트 (POST: 요청, GET: SSE 스트림, DELETE: 세션 종료)
+  const mcpMiddleware = [createAuthMiddleware(authenticator), createRateLimitMiddleware(rateLimiter)];
+  const handleMcpRequest = async (req: Request, res: Response) => {
+    try {
+      await sessions.handleRequest(req, res);
     } catch (error) {
-      console.error("MCP Error:", error);
-      const message = error instanceof Error ? error.message : "Unknown error";
-      res.status(500).json({ error: message });
+      logger.error("MCP 요청 처리 실패", { clientId: req.auth?.clientId, error });
+      if (!res.headersSent) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        res.status(500).json({ jsonrpc: "2.0", id: null, error: { code: -32603, message } });
+      }
     }
-  });
+  };
+  app.post("/mcp", ...mcpMiddleware, handleMcpRequest);
+  app.get("/mcp", ...mcpMiddleware, handleMcpRequest);
+  app.delete("/mcp", ...mcpMiddleware, handleMcpRequest);
 
-  // Health check 엔드포인트
+  // Health check 엔드포인트 (업스트림 서킷이 열려 있으면 degraded)
   app.get("/health", (_req: Request, res: Response) => {
+    const upstreams = getCircuitBreakerStates();
     res.json({
-      status: "ok",
+      status: upstreams.some((u) => u.state !== "closed") ? "degraded" : "ok",
       name: SERVER_INFO.NAME,
       version: SERVER_INFO.VERSION,
-      tools: [
-        "transit_get_subway_arrival - 지하철 실시간 도착정보",
-        "transit_get_subway_status - 지하철 운행상태",
-        "transit_get_bus_arrival - 버스 정류장 도착정보",
-        "transit_search_bus_station - 버스 정류장 검색",
-        "transit_get_bike_station - 따릉이 대여소 현황",
-        "transit_get_combined_info - 통합 교통정보",
-      ],
+      sessions: sessions.getStats(),
+      quota: getQuotaLedger().snapshot(),
+      tools: tools.map((t) => t.name),
+      upstreams,
     });
   });
 
+  // Prometheus 메트릭 엔드포인트
+  app.get("/metrics", (_req: Request, res: Response) => {
+    res.type("text/plain; version=0.0.4; charset=utf-8").send(renderPrometheusMetrics());
+  });
+
   // 루트 엔드포인트
   app.get("/", (_req: Request, res: Response) => {
     res.json({
@@ -127,8 +149,9 @@ function runHttpServer(): void {
       version: SERVER_INFO.VERSION,
       description: "서울시 대중교통 실시간 정보 MCP 서버",
       endpoints: {
-        mcp: "POST /mcp",
+        mcp: "POST/GET/DELETE /mcp",
         health: "GET /health",
+        metrics: "GET /metrics",
       },
     });
   });
@@ -136,13 +159,27 @@ function runHttpServer(): void {
   // 서버 시작
   const PORT = process.env.PORT || 3000;
   app.listen(PORT, () => {
-    // 개발 환경에서만 상세 로그 출력
-    if (isDevelopment()) {
-      console.log(`🚀 ${SERVER_INFO.NAME} v${SERVER_INFO.VERSION} running on port ${PORT}`);
-      console.log(`📍 MCP Endpoint: http://localhost:${PORT}/mcp`);
-      console.log(`❤️ Health Check: http://localhost:${PORT}/health`);
-    } else {
-      console.log(`${SERVER_INFO.NAME} v${SERVER_INFO.VERSION} started on port ${PORT}`);
-    }
+    logger.info("서버 시작", {
+      name: SERVER_INFO.NAME,
+      version: SERVER_INFO.VERSION,
+      mode: "http",
+      port: Number(PORT),
+      // 개발 환경에서만 로컬 엔드포인트 안내
+      endpoints: isDevelopment()
+        ? {
+          mcp: `http://localhost:${PORT}/mcp`,
+          health: `http://localhost:${PORT}/health`,
+          metrics: `http://localhost:${PORT}/metrics`
+        }
+        : undefined
+    });
   });
+
+  // 종료 시그널 처리 (열린 세션과 SSE 스트림 정리)
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, async () => {
+      await sessions.closeAll();
+      process.exit(0);
+    });
+  }
 }
@@ -0,0 +1,81 @@
+/**
+ * Korea Transit MCP Server - Prompt Definition
+ *
+ * 모든 진입점(stdio, Express, Vercel)이 공유하는 프롬프트 정의 형식
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// ===== 타입 정의 =====
+
+/** MCP 프롬프트 정의 (이름, 표시 이름, 설명, 인자 스키마, 메시지 생성) */
+export interface PromptDefinition {
+  /** 프롬프트 이름 (예: "transit_commute_check") */
+  name: string;
+  /** 프롬프트 선택기에 표시되는 이름 (예: "출근길 체크") */
+  title: string;
+  /** 프롬프트 설명 */
+  description: string;
+  /** 인자 스키마 (문자열 인자만 사용) */
+  argsSchema: z.ZodObject<z.ZodRawShape>;
+  /** 인자 자동 완성 */
+  complete?: Record<string, (value: string) => Promise<string[]>>;
+  /** 인자로 사용자 메시지(도구 호출 지시문) 생성 (입력 검증 포함) */
+  build: (args: unknown) => string;
+}
+
+// ===== 등록 함수 =====
+
+/**
+ * 자동 완성이 연결된 인자 스키마 (프롬프트별로 한 번만 생성)
+ *
+ * completable()은 스키마에 자동 완성 정보를 직접 기록하므로, 서버를 여러 개 만드는
+ * 세션 모드에서 같은 스키마에 다시 호출하면 실패합니다.
+ */
+const argsShapes = new WeakMap<PromptDefinition, z.ZodRawShape>();
+
+function toArgsShape(prompt: PromptDefinition): z.ZodRawShape {
+  let shape = argsShapes.get(prompt);
+  if (!shape) {
+    shape = Object.fromEntries(
+      Object.entries(prompt.argsSchema.shape).map(([key, schema]) => {
+        const complete = prompt.complete?.[key];
+        return [key, complete ? completable(schema, (value) => complete(String(value ?? ""))) : schema];
+      })
+    );
+    argsShapes.set(prompt, shape);
+  }
+  return shape;
+}
+
+/**
+ * 프롬프트 정의 목록을 MCP 서버에 등록
+ *
+ * 프롬프트는 도구를 직접 실행하지 않고, 클라이언트 모델이 기존 transit_* 도구를
+ * 순서대로 호출하도록 지시하는 사용자 메시지 하나를 반환합니다.
+ */
+export function registerPromptDefinitions(
+  server: McpServer,
+  prompts: readonly PromptDefinition[]
+): void {
+  for (const prompt of prompts) {
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: toArgsShape(prompt)
+      },
+      (args: unknown): GetPromptResult => ({
+        description: prompt.description,
+        messages: [{
+          role: "user",
+          content: { type: "text", text: prompt.build(args) }
+        }]
+      })
+    );
+  }
+}
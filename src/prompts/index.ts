@@ -0,0 +1,35 @@
+/**
+ * Korea Transit MCP Server - Prompts Index
+ *
+ * 모든 프롬프트 등록 함수 통합
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerPromptDefinitions, type PromptDefinition } from "./definition.js";
+import { riderPrompts } from "./rider.js";
+
+/**
+ * 전체 프롬프트 정의 목록
+ *
+ * 등록되는 프롬프트:
+ * - transit_commute_check: 출근길 체크 (출발역 운행상태/도착정보 + 회사 근처 정류장 버스)
+ * - transit_last_train_check: 막차 확인 (시간표 + 운행상태 + 실시간 도착정보)
+ * - transit_nearby_summary: 주변 교통 요약 (지하철/버스/따릉이)
+ */
+export const ALL_PROMPTS: readonly PromptDefinition[] = [
+  ...riderPrompts
+];
+
+/**
+ * 모든 MCP 프롬프트를 서버에 등록
+ */
+export function registerAllPrompts(server: McpServer): void {
+  registerPromptDefinitions(server, ALL_PROMPTS);
+}
+
+// 개별 등록 함수도 export
+export { registerRiderPrompts } from "./rider.js";
+export {
+  registerPromptDefinitions,
+  type PromptDefinition
+} from "./definition.js";
@@ -0,0 +1,179 @@
+/**
+ * Korea Transit MCP Server - Rider Prompts
+ *
+ * 출근길 체크, 막차 확인, 주변 교통 요약 MCP 프롬프트 정의
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CommuteCheckPromptSchema,
+  LastTrainPromptSchema,
+  NearbySummaryPromptSchema
+} from "../schemas/index.js";
+import { getStationRegistry } from "../services/index.js";
+import { registerPromptDefinitions, type PromptDefinition } from "./definition.js";
+
+/** 역 이름 자동 완성 최대 개수 */
+const MAX_COMPLETIONS = 10;
+
+/** 막차 조회 시작 시각 (이후 열차 중 마지막 열차가 막차) */
+const LAST_TRAIN_FROM_TIME = "23:00";
+
+/** 막차 조회 열차 수 (방향별) */
+const LAST_TRAIN_LIMIT = 30;
+
+// ===== 헬퍼 =====
+
+/**
+ * 역 이름 자동 완성 (레지스트리를 불러올 수 없으면 빈 목록)
+ */
+async function completeStationName(value: string): Promise<string[]> {
+  if (!value.trim()) {
+    return [];
+  }
+  try {
+    const { registry } = await getStationRegistry();
+    return registry.search(value, MAX_COMPLETIONS).map((match) => match.station.name);
+  } catch {
+    return [];
+  }
+}
+
+/** 운행상태 도구 인자 (호선 번호만 전달, 예: "2호선" → line: "2") */
+function statusArgs(line: string | undefined): string {
+  const number = line && /^0*(\d+)/u.exec(line.trim())?.[1];
+  return number ? `\`line: "${number}"\`` : "인자 없이 (전체 호선)";
+}
+
+/** 도구 인자 목록 (값이 없는 인자는 생략) */
+function toolArgs(args: Record<string, string | number | undefined>): string {
+  return Object.entries(args)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(", ");
+}
+
+/** 공통 안내 (도구 오류 처리) */
+const ERROR_GUIDE = "도구가 오류를 반환하면 오류 코드와 함께 확인하지 못한 정보를 알려 주고, 나머지 결과로 답해 주세요.";
+
+// ===== transit_commute_check =====
+
+export const commuteCheckPrompt: PromptDefinition = {
+  name: "transit_commute_check",
+  title: "출근길 체크",
+  description: "출발역의 운행상태와 열차 도착정보, 회사 근처 정류장의 버스 도착정보를 한 번에 확인합니다.",
+  argsSchema: CommuteCheckPromptSchema,
+  complete: {
+    home_station: completeStationName
+  },
+  build: (args) => {
+    const input = CommuteCheckPromptSchema.parse(args);
+    const isArsId = /^\d{5}$/u.test(input.work_stop.trim());
+
+    return [
+      "출근길 교통 상황을 확인해 주세요.",
+      "",
+      `- 출발역: ${input.home_station}`,
+      `- 회사 근처 정류장: ${input.work_stop}`,
+      ...(input.line ? [`- 이용 호선: ${input.line}`] : []),
+      "",
+      "다음 순서로 도구를 호출하세요.",
+      `1. \`transit_get_subway_status\`를 ${statusArgs(input.line)} 호출해 지연/운행 중단 여부를 확인합니다.`,
+      `2. \`transit_get_subway_arrival\`을 \`${toolArgs({ station_name: input.home_station, line: input.line, group_by: "line_direction" })}\`로 호출해 출발역 열차 도착정보를 확인합니다.`,
+      isArsId
+        ? `3. \`transit_get_bus_arrival\`을 \`${toolArgs({ ars_id: input.work_stop.trim() })}\`로 호출해 회사 근처 정류장의 버스 도착정보를 확인합니다.`
+        : `3. \`transit_search_bus_station\`을 \`${toolArgs({ query: input.work_stop })}\`로 호출해 정류장 번호를 찾고, 가장 알맞은 정류장으로 \`transit_get_bus_arrival\`을 호출합니다. 후보가 여러 곳이면 어느 정류장인지 먼저 물어봐 주세요.`,
+      "",
+      "다음 내용을 짧게 정리해 주세요.",
+      "- 운행상태 (지연/중단이 있으면 가장 먼저)",
+      "- 지금 출발하면 탈 수 있는 열차와 도착까지 남은 시간 (방향별)",
+      "- 회사 근처 정류장의 버스 도착 예정",
+      "- 지연/중단 시 대안 (다른 호선, 버스, 따릉이 등)",
+      "",
+      ERROR_GUIDE
+    ].join("\n");
+  }
+};
+
+// ===== transit_last_train_check =====
+
+export const lastTrainCheckPrompt: PromptDefinition = {
+  name: "transit_last_train_check",
+  title: "막차 확인",
+  description: "역의 오늘 막차 시각과 행선지를 시간표로 확인하고, 현재 운행상태와 실시간 도착정보로 탈 수 있는지 알려줍니다.",
+  argsSchema: LastTrainPromptSchema,
+  complete: {
+    station_name: completeStationName
+  },
+  build: (args) => {
+    const input = LastTrainPromptSchema.parse(args);
+    const direction = input.direction === "상행" ? "up" : input.direction === "하행" ? "down" : undefined;
+
+    return [
+      "오늘 막차를 확인해 주세요.",
+      "",
+      `- 역: ${input.station_name}`,
+      ...(input.line ? [`- 호선: ${input.line}`] : []),
+      ...(input.direction ? [`- 방향: ${input.direction}`] : []),
+      "",
+      "다음 순서로 도구를 호출하세요.",
+      `1. \`transit_get_subway_timetable\`을 \`${toolArgs({ station_name: input.station_name, line: input.line, direction, from_time: LAST_TRAIN_FROM_TIME, limit: LAST_TRAIN_LIMIT })}\`로 호출합니다. 방향별 마지막 열차가 막차이며, 자정 이후 출발 열차도 오늘 운행일에 포함됩니다.`,
+      `2. \`transit_get_subway_status\`를 ${statusArgs(input.line)} 호출해 막차 운행에 영향을 주는 지연/운행 중단이 있는지 확인합니다.`,
+      "3. 막차 출발까지 30분 이내라면 `transit_get_subway_arrival`로 실시간 도착정보를 확인해 막차가 지나갔는지 알려 줍니다.",
+      "",
+      "다음 내용을 정리해 주세요.",
+      "- 방향별 막차 출발 시각과 행선지 (행선지가 종점이 아니면 어디까지 가는지 강조)",
+      "- 막차까지 남은 시간",
+      "- 막차를 놓쳤거나 지연이 있으면 대안 (다른 방향/호선, 심야버스 등)",
+      "",
+      ERROR_GUIDE
+    ].join("\n");
+  }
+};
+
+// ===== transit_nearby_summary =====
+
+export const nearbySummaryPrompt: PromptDefinition = {
+  name: "transit_nearby_summary",
+  title: "주변 교통 요약",
+  description: "위치 주변의 지하철, 버스, 따릉이 정보를 한 번에 조회해 지금 이용하기 좋은 교통수단을 요약합니다.",
+  argsSchema: NearbySummaryPromptSchema,
+  complete: {
+    location: completeStationName
+  },
+  build: (args) => {
+    const input = NearbySummaryPromptSchema.parse(args);
+
+    return [
+      `${input.location} 주변 교통 상황을 요약해 주세요.`,
+      "",
+      "다음 순서로 도구를 호출하세요.",
+      `1. \`transit_get_combined_info\`를 \`${toolArgs({ location: input.location })}\`로 호출해 지하철, 버스 정류장, 따릉이 정보를 한 번에 조회합니다.`,
+      "2. 결과가 부족하고 위치의 좌표(위도/경도)를 알고 있다면 `transit_find_nearby`로 반경 안의 교통수단을 보충합니다.",
+      "",
+      "다음 형식으로 짧게 정리해 주세요.",
+      "- 지하철: 호선별 다음 열차와 도착까지 남은 시간",
+      "- 버스: 가까운 정류장과 곧 도착하는 노선",
+      "- 따릉이: 대여 가능한 자전거가 있는 가까운 대여소",
+      "- 지금 가장 빨리 이용할 수 있는 교통수단 추천",
+      "",
+      ERROR_GUIDE
+    ].join("\n");
+  }
+};
+
+/**
+ * 이용자 프롬프트 목록
+ */
+export const riderPrompts: readonly PromptDefinition[] = [
+  commuteCheckPrompt,
+  lastTrainCheckPrompt,
+  nearbySummaryPrompt
+];
+
+/**
+ * 이용자 MCP 프롬프트를 서버에 등록
+ */
+export function registerRiderPrompts(server: McpServer): void {
+  registerPromptDefinitions(server, riderPrompts);
+}
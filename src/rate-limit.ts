@@ -0,0 +1,170 @@
+/**
+ * Korea Transit MCP Server - Rate Limiting
+ *
+ * /mcp 요청 제한 (클라이언트별 토큰 버킷)
+ *
+ * 인증된 요청은 클라이언트 ID별, 인증이 없으면 IP별로 버킷을 나눕니다.
+ * 버킷은 프로세스(Vercel은 인스턴스) 단위로 유지됩니다.
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { RATE_LIMIT } from "./constants.js";
+import { logger } from "./services/index.js";
+
+// ===== 타입 정의 =====
+
+/** 토큰 버킷 설정 */
+export interface RateLimiterOptions {
+  /** 분당 충전 토큰 수 (0이면 제한 안 함) */
+  requestsPerMinute?: number;
+  /** 버킷 용량 (순간 최대 요청 수) */
+  burst?: number;
+  /** 현재 시각 (테스트용) */
+  now?: () => number;
+}
+
+/** 요청 제한 판정 결과 */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** 버킷 용량 */
+  limit: number;
+  /** 남은 요청 수 */
+  remaining: number;
+  /** 다음 요청이 허용될 때까지 남은 시간 (초, 허용 시 0) */
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// ===== 토큰 버킷 =====
+
+/**
+ * 키별 토큰 버킷 요청 제한기
+ *
+ * 버킷은 burst개의 토큰으로 시작해 분당 requestsPerMinute개씩 충전되며, 요청마다 1개를 씁니다.
+ */
+export class TokenBucketRateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly refillPerMs: number;
+  private readonly capacity: number;
+  private readonly now: () => number;
+  private lastPrunedAt: number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    const requestsPerMinute = options.requestsPerMinute ?? RATE_LIMIT.REQUESTS_PER_MINUTE;
+    this.refillPerMs = requestsPerMinute / 60_000;
+    this.capacity = Math.max(options.burst ?? RATE_LIMIT.BURST, 1);
+    this.now = options.now ?? Date.now;
+    this.lastPrunedAt = this.now();
+  }
+
+  /** 요청 제한 사용 여부 */
+  get enabled(): boolean {
+    return this.refillPerMs > 0;
+  }
+
+  /**
+   * 요청 1건 소비
+   */
+  consume(key: string): RateLimitResult {
+    if (!this.enabled) {
+      return { allowed: true, limit: this.capacity, remaining: this.capacity, retryAfterSeconds: 0 };
+    }
+
+    const now = this.now();
+    this.prune(now);
+
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false,
+        limit: this.capacity,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((1 - bucket.tokens) / this.refillPerMs / 1000)
+      };
+    }
+
+    bucket.tokens -= 1;
+    return { allowed: true, limit: this.capacity, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+  }
+
+  /** 가득 찬 채로 오래 쓰이지 않은 버킷 정리 */
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < RATE_LIMIT.IDLE_TTL_MS) {
+      return;
+    }
+    this.lastPrunedAt = now;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= RATE_LIMIT.IDLE_TTL_MS) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+// ===== HTTP 헬퍼 =====
+
+/**
+ * 요청 제한 키 (인증된 클라이언트 ID, 없으면 IP)
+ */
+export function resolveRateLimitKey(clientId: string | undefined, ip: string | undefined): string {
+  return clientId ? `client:${clientId}` : `ip:${ip || "unknown"}`;
+}
+
+/**
+ * 요청 제한 응답 헤더 (RateLimit-*, 초과 시 Retry-After)
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining)
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(result.retryAfterSeconds);
+  }
+  return headers;
+}
+
+/**
+ * 요청 제한 초과 JSON-RPC 오류 응답 본문
+ */
+export function createRateLimitError(id: unknown, result: RateLimitResult) {
+  return {
+    jsonrpc: "2.0" as const,
+    id: typeof id === "string" || typeof id === "number" ? id : null,
+    error: {
+      code: RATE_LIMIT.JSON_RPC_ERROR_CODE,
+      message: `요청이 너무 많습니다. ${result.retryAfterSeconds}초 후 다시 시도해주세요.`,
+      data: { retryAfterSeconds: result.retryAfterSeconds, limit: result.limit }
+    }
+  };
+}
+
+// ===== Express 미들웨어 =====
+
+/**
+ * /mcp 요청 제한 미들웨어 (인증 미들웨어 뒤에 등록)
+ *
+ * 초과 시 HTTP 429, Retry-After 헤더, JSON-RPC 오류를 반환합니다.
+ */
+export function createRateLimitMiddleware(limiter: TokenBucketRateLimiter): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = resolveRateLimitKey(req.auth?.clientId, req.ip);
+    const result = limiter.consume(key);
+    res.set(getRateLimitHeaders(result));
+
+    if (!result.allowed) {
+      logger.warn("MCP 요청 제한 초과", { key, retryAfterSeconds: result.retryAfterSeconds });
+      res.status(429).json(createRateLimitError(req.body?.id, result));
+      return;
+    }
+    next();
+  };
+}
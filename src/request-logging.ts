@@ -0,0 +1,68 @@
+/**
+ * Korea Transit MCP Server - Request Logging
+ *
+ * HTTP 요청 ID 발급과 요청 단위 구조화 로그
+ *
+ * 요청 ID는 클라이언트가 보낸 X-Request-Id를 그대로 쓰거나 새로 발급하며, 응답 헤더로 돌려줍니다.
+ * 요청 처리 중의 모든 로그(도구 호출, 업스트림 요청)에 requestId/sessionId가 함께 기록됩니다.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { logger, runWithRequestContext } from "./services/index.js";
+
+/** 클라이언트가 보낸 요청 ID로 허용하는 형식 (로그 오염 방지) */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/u;
+
+// ===== 헬퍼 =====
+
+/** 단일 헤더 값 */
+export function getHeaderValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * 요청 ID (올바른 X-Request-Id면 그대로, 아니면 새로 발급)
+ */
+export function resolveRequestId(header: string | string[] | undefined): string {
+  const value = getHeaderValue(header);
+  return value && REQUEST_ID_PATTERN.test(value) ? value : randomUUID();
+}
+
+// ===== Express 미들웨어 =====
+
+/**
+ * 요청 ID 발급 및 요청 완료 로그 미들웨어 (express.json() 뒤에 등록)
+ *
+ * /mcp 요청은 info, 그 외(/health, /metrics 등)는 debug 레벨로 기록합니다.
+ */
+export function createRequestLogMiddleware(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const requestId = resolveRequestId(req.headers["x-request-id"]);
+    const sessionId = getHeaderValue(req.headers["mcp-session-id"]);
+    const startedAt = Date.now();
+    res.set("X-Request-Id", requestId);
+
+    res.on("finish", () => {
+      const fields = {
+        requestId,
+        // initialize 요청은 응답 헤더로 새 세션 ID를 받음
+        sessionId: sessionId ?? getHeaderValue(res.getHeader("mcp-session-id") as string | string[] | undefined),
+        clientId: req.auth?.clientId,
+        method: req.method,
+        path: req.path,
+        rpcMethod: typeof req.body?.method === "string" ? req.body.method : undefined,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+        outcome: res.statusCode < 400 ? "success" : "error"
+      };
+      if (req.path === "/mcp") {
+        logger.info("HTTP 요청", fields);
+      } else {
+        logger.debug("HTTP 요청", fields);
+      }
+    });
+
+    runWithRequestContext({ requestId, sessionId }, next);
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Korea Transit MCP Server - Bike Station Resources
+ *
+ * 따릉이 대여소 정보 MCP 리소스 정의
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getBikeStationSnapshot, parseCoordinate } from "../services/index.js";
+import {
+  registerResourceDefinitions,
+  ResourceNotFoundError,
+  type ResourceDefinition
+} from "./definition.js";
+
+/** 대여소 ID 자동 완성 최대 개수 */
+const MAX_COMPLETIONS = 20;
+
+// ===== transit://bike-stations/{id} =====
+
+export const bikeStationResource: ResourceDefinition = {
+  name: "transit-bike-station",
+  uri: "transit://bike-stations/{id}",
+  title: "따릉이 대여소 정보",
+  description: "따릉이 대여소의 이름, ID, 거치대 수, 좌표입니다. id는 대여소 ID(예: ST-4)입니다. 실시간 대여 가능 자전거 수는 transit_get_bike_station 도구로 조회합니다.",
+  complete: {
+    id: async (value) => {
+      const { snapshot } = await getBikeStationSnapshot();
+      const prefix = value.toUpperCase();
+      return snapshot.stations
+        .filter((station) => station.stationId.toUpperCase().startsWith(prefix))
+        .map((station) => station.stationId)
+        .slice(0, MAX_COMPLETIONS);
+    }
+  },
+  read: async ({ id }) => {
+    const { snapshot } = await getBikeStationSnapshot();
+    const station = snapshot.stations.find((s) => s.stationId === id);
+    if (!station) {
+      throw new ResourceNotFoundError(`ID ${id}에 해당하는 따릉이 대여소가 없습니다.`);
+    }
+
+    return {
+      id: station.stationId,
+      name: station.stationName,
+      rackCount: Number(station.rackTotCnt),
+      latitude: parseCoordinate(station.stationLatitude),
+      longitude: parseCoordinate(station.stationLongitude)
+    };
+  }
+};
+
+/**
+ * 따릉이 리소스 목록
+ */
+export const bikeResources: readonly ResourceDefinition[] = [bikeStationResource];
+
+/**
+ * 따릉이 관련 MCP 리소스를 서버에 등록
+ */
+export function registerBikeResources(server: McpServer): void {
+  registerResourceDefinitions(server, bikeResources);
+}
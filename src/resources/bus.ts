@@ -0,0 +1,64 @@
+/**
+ * Korea Transit MCP Server - Bus Stop Resources
+ *
+ * 버스 정류장 정보 MCP 리소스 정의
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getBusStopIndex, parseCoordinate } from "../services/index.js";
+import {
+  registerResourceDefinitions,
+  ResourceNotFoundError,
+  type ResourceDefinition
+} from "./definition.js";
+
+/** 정류장 번호 자동 완성 최대 개수 */
+const MAX_COMPLETIONS = 20;
+
+// ===== transit://bus-stops/{arsId} =====
+
+export const busStopResource: ResourceDefinition = {
+  name: "transit-bus-stop",
+  uri: "transit://bus-stops/{arsId}",
+  title: "버스 정류장 정보",
+  description: "버스 정류장의 이름, 정류장 번호, 다음 정류장, 주요 노선, 좌표입니다. arsId는 5자리 정류장 번호(예: 22341)입니다. 실시간 도착정보는 transit_get_bus_arrival 도구로 조회합니다.",
+  complete: {
+    arsId: async (value) => {
+      if (!/^\d+$/u.test(value)) {
+        return [];
+      }
+      const { index } = await getBusStopIndex();
+      return index.search(value, MAX_COMPLETIONS).map((match) => match.station.arsId);
+    }
+  },
+  read: async ({ arsId }) => {
+    const { index } = await getBusStopIndex();
+    const station = /^\d{1,5}$/u.test(arsId) ? index.findByArsId(arsId.padStart(5, "0")) : undefined;
+    if (!station) {
+      throw new ResourceNotFoundError(`정류장 번호 ${arsId}에 해당하는 버스 정류장이 없습니다.`);
+    }
+
+    return {
+      arsId: station.arsId,
+      name: station.stNm,
+      nextStop: station.nxtStn,
+      routes: station.busRouteAbrv,
+      stopType: station.STOPS_TYPE,
+      nodeId: station.NODE_ID,
+      latitude: parseCoordinate(station.YCRD),
+      longitude: parseCoordinate(station.XCRD)
+    };
+  }
+};
+
+/**
+ * 버스 리소스 목록
+ */
+export const busResources: readonly ResourceDefinition[] = [busStopResource];
+
+/**
+ * 버스 관련 MCP 리소스를 서버에 등록
+ */
+export function registerBusResources(server: McpServer): void {
+  registerResourceDefinitions(server, busResources);
+}
@@ -0,0 +1,154 @@
+/**
+ * Korea Transit MCP Server - Resource Definition
+ *
+ * 모든 진입점(stdio, Express, Vercel)이 공유하는 리소스 정의 형식
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { runWithRequestContext, getRequestContext } from "../services/request-context.js";
+import { describeError } from "../services/api-client.js";
+import { logger } from "../services/logger.js";
+
+// ===== 타입 정의 =====
+
+/** URI 템플릿 변수 (예: { code: "1002" }) */
+export type ResourceVariables = Record<string, string>;
+
+/** 템플릿 리소스 목록 항목 */
+export interface ResourceListItem {
+  uri: string;
+  name: string;
+  description?: string;
+}
+
+/** MCP 리소스 정의 (이름, URI 또는 URI 템플릿, 설명, 조회 핸들러) */
+export interface ResourceDefinition {
+  /** 리소스 이름 (예: "subway-line-stations") */
+  name: string;
+  /** 고정 URI 또는 URI 템플릿 (예: "transit://lines/{code}/stations") */
+  uri: string;
+  /** 표시 이름 */
+  title: string;
+  /** 리소스 설명 */
+  description: string;
+  /** 템플릿에 해당하는 리소스 목록 (항목이 너무 많으면 생략) */
+  list?: () => Promise<ResourceListItem[]>;
+  /** 템플릿 변수 자동 완성 */
+  complete?: Record<string, (value: string) => Promise<string[]>>;
+  /**
+   * 조회 핸들러 (JSON으로 직렬화할 값 반환)
+   *
+   * @throws ResourceNotFoundError 해당 리소스가 없는 경우
+   */
+  read: (variables: ResourceVariables) => Promise<unknown>;
+}
+
+// ===== 에러 타입 =====
+
+/** 존재하지 않는 리소스 (JSON-RPC -32002) */
+export class ResourceNotFoundError extends McpError {
+  constructor(message: string) {
+    super(-32002, message);
+    this.name = "ResourceNotFoundError";
+  }
+}
+
+// ===== 등록 함수 =====
+
+/** URI 디코딩 (잘못된 인코딩이면 원본 유지) */
+function decodeVariable(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/** 템플릿 변수 값 (배열이면 첫 번째 값) */
+function toVariables(variables: Record<string, string | string[]>): ResourceVariables {
+  return Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => [key, decodeVariable(Array.isArray(value) ? value[0] : value)])
+  );
+}
+
+/**
+ * 핸들러 실행 및 로그 기록
+ *
+ * 업스트림 오류는 오류 코드와 함께 JSON-RPC 오류(-32603)로 변환합니다.
+ */
+async function readResource(
+  resource: ResourceDefinition,
+  uri: URL,
+  variables: ResourceVariables
+): Promise<ReadResourceResult> {
+  const startedAt = Date.now();
+  try {
+    const data = await resource.read(variables);
+    logger.info("리소스 조회", { durationMs: Date.now() - startedAt, outcome: "success" });
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2)
+      }]
+    };
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    if (error instanceof McpError) {
+      logger.info("리소스 조회", { durationMs, outcome: "error", errorCode: error.code });
+      throw error;
+    }
+    const info = describeError(error);
+    logger.warn("리소스 조회 실패", { durationMs, outcome: "error", errorCode: info.code, error });
+    throw new McpError(ErrorCode.InternalError, info.message, info);
+  }
+}
+
+/**
+ * 리소스 정의 목록을 MCP 서버에 등록
+ *
+ * URI에 `{변수}`가 있으면 리소스 템플릿으로 등록합니다.
+ * 핸들러는 리소스 조회 컨텍스트(HTTP 요청 ID, 세션, 리소스 URI, 인증된 클라이언트) 안에서 실행됩니다.
+ */
+export function registerResourceDefinitions(
+  server: McpServer,
+  resources: readonly ResourceDefinition[]
+): void {
+  for (const resource of resources) {
+    const metadata = {
+      title: resource.title,
+      description: resource.description,
+      mimeType: "application/json"
+    };
+
+    const run = <T>(uri: URL, extra: { sessionId?: string; authInfo?: { clientId: string } }, fn: () => T): T =>
+      runWithRequestContext(
+        {
+          ...getRequestContext(),
+          sessionId: extra.sessionId,
+          resource: uri.href,
+          clientId: extra.authInfo?.clientId
+        },
+        fn
+      );
+
+    if (!resource.uri.includes("{")) {
+      server.registerResource(resource.name, resource.uri, metadata, (uri, extra) =>
+        run(uri, extra, () => readResource(resource, uri, {}))
+      );
+      continue;
+    }
+
+    const { list, complete } = resource;
+    const template = new ResourceTemplate(resource.uri, {
+      list: list && (async () => ({
+        resources: (await list()).map((item) => ({ ...item, mimeType: "application/json" }))
+      })),
+      complete
+    });
+    server.registerResource(resource.name, template, metadata, (uri, variables, extra) =>
+      run(uri, extra, () => readResource(resource, uri, toVariables(variables)))
+    );
+  }
+}
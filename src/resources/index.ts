@@ -0,0 +1,45 @@
+/**
+ * Korea Transit MCP Server - Resources Index
+ *
+ * 모든 리소스 등록 함수 통합
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerResourceDefinitions, type ResourceDefinition } from "./definition.js";
+import { lineResources } from "./subway.js";
+import { busResources } from "./bus.js";
+import { bikeResources } from "./bike.js";
+
+/**
+ * 전체 리소스 정의 목록
+ *
+ * 등록되는 리소스:
+ * - transit://lines: 지하철 호선 및 버스 유형 목록
+ * - transit://lines/{code}/stations: 지하철 호선별 역 목록
+ * - transit://bus-stops/{arsId}: 버스 정류장 정보
+ * - transit://bike-stations/{id}: 따릉이 대여소 정보
+ */
+export const ALL_RESOURCES: readonly ResourceDefinition[] = [
+  ...lineResources,
+  ...busResources,
+  ...bikeResources
+];
+
+/**
+ * 모든 MCP 리소스를 서버에 등록
+ */
+export function registerAllResources(server: McpServer): void {
+  registerResourceDefinitions(server, ALL_RESOURCES);
+}
+
+// 개별 등록 함수도 export
+export { registerLineResources } from "./subway.js";
+export { registerBusResources } from "./bus.js";
+export { registerBikeResources } from "./bike.js";
+export {
+  registerResourceDefinitions,
+  ResourceNotFoundError,
+  type ResourceDefinition,
+  type ResourceListItem,
+  type ResourceVariables
+} from "./definition.js";
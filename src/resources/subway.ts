@@ -0,0 +1,99 @@
+/**
+ * Korea Transit MCP Server - Line Resources
+ *
+ * 지하철 호선/버스 유형 및 호선별 역 목록 MCP 리소스 정의
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getStationRegistry, matchesStationLine } from "../services/index.js";
+import { BUS_TYPE_MAP, SUBWAY_LINE_MAP } from "../constants.js";
+import {
+  registerResourceDefinitions,
+  ResourceNotFoundError,
+  type ResourceDefinition
+} from "./definition.js";
+
+/** 호선 코드 자동 완성 최대 개수 */
+const MAX_COMPLETIONS = 20;
+
+/** 호선별 역 목록 리소스 URI */
+function lineStationsUri(code: string): string {
+  return `transit://lines/${code}/stations`;
+}
+
+// ===== transit://lines =====
+
+export const linesResource: ResourceDefinition = {
+  name: "transit-lines",
+  uri: "transit://lines",
+  title: "지하철 호선 및 버스 유형 목록",
+  description: "서울 지하철 호선 코드(예: 1002 = 2호선)와 버스 유형 코드 목록입니다. 호선별 역 목록은 transit://lines/{code}/stations에서 조회합니다.",
+  read: async () => ({
+    subwayLines: Object.entries(SUBWAY_LINE_MAP).map(([code, name]) => ({
+      code,
+      name,
+      stationsUri: lineStationsUri(code)
+    })),
+    busTypes: Object.entries(BUS_TYPE_MAP).map(([code, name]) => ({ code, name }))
+  })
+};
+
+// ===== transit://lines/{code}/stations =====
+
+export const lineStationsResource: ResourceDefinition = {
+  name: "transit-line-stations",
+  uri: "transit://lines/{code}/stations",
+  title: "지하철 호선별 역 목록",
+  description: "지하철 호선의 역 목록(역명, 영문명, 역 코드, 외부 역번호, 환승 호선)입니다. code는 transit://lines의 호선 코드(예: 1002)입니다.",
+  list: async () => Object.entries(SUBWAY_LINE_MAP).map(([code, name]) => ({
+    uri: lineStationsUri(code),
+    name: `${name} 역 목록`
+  })),
+  complete: {
+    code: async (value) => Object.entries(SUBWAY_LINE_MAP)
+      .filter(([code, name]) => code.startsWith(value) || name.startsWith(value))
+      .map(([code]) => code)
+      .slice(0, MAX_COMPLETIONS)
+  },
+  read: async ({ code }) => {
+    const lineName = SUBWAY_LINE_MAP[code];
+    if (!lineName) {
+      throw new ResourceNotFoundError(`알 수 없는 호선 코드입니다: ${code} (transit://lines 참고)`);
+    }
+
+    const { registry } = await getStationRegistry();
+    const stations = registry.stations.flatMap((record) =>
+      record.stations
+        .filter((station) => matchesStationLine(station, lineName))
+        .map((station) => ({
+          name: record.name,
+          englishName: record.englishName,
+          stationCode: station.STATION_CD,
+          frCode: station.FR_CODE,
+          transferLines: record.lines.filter((line) => line !== lineName)
+        }))
+    );
+    stations.sort((a, b) => (a.frCode ?? "").localeCompare(b.frCode ?? "", "en", { numeric: true }));
+
+    return {
+      line: { code, name: lineName },
+      stationCount: stations.length,
+      stations
+    };
+  }
+};
+
+/**
+ * 호선 리소스 목록
+ */
+export const lineResources: readonly ResourceDefinition[] = [
+  linesResource,
+  lineStationsResource
+];
+
+/**
+ * 호선 관련 MCP 리소스를 서버에 등록
+ */
+export function registerLineResources(server: McpServer): void {
+  registerResourceDefinitions(server, lineResources);
+}
@@ -45,3 +45,20 @@ export const BusStationSearchInputSchema = z.object({
 
 /** 버스 정류장 검색 입력 타입 */
 export type BusStationSearchInput = z.infer<typeof BusStationSearchInputSchema>;
+
+// ===== transit_get_bus_route 스키마 =====
+
+/** 버스 노선 조회 입력 스키마 */
+export const BusRouteInputSchema = z.object({
+  /** 노선 번호 */
+  route_number: z.string()
+    .trim()
+    .regex(/^[0-9A-Za-z가-힣-]{1,10}$/, "노선 번호는 10자 이하의 숫자/문자여야 합니다 (예: '472', 'N13')")
+    .describe("조회할 버스 노선 번호 (예: '472', '7016', 'N13', '강남01')"),
+
+  /** 응답 형식 */
+  response_format: ResponseFormatSchema
+}).strict();
+
+/** 버스 노선 조회 입력 타입 */
+export type BusRouteInput = z.infer<typeof BusRouteInputSchema>;
@@ -0,0 +1,19 @@
+/**
+ * Korea Transit MCP Server - Diagnostics Schemas
+ *
+ * 서버 진단 도구의 입력 스키마 정의
+ */
+
+import { z } from "zod";
+import { ResponseFormatSchema } from "./common.js";
+
+// ===== transit_get_diagnostics 스키마 =====
+
+/** 서버 진단 정보 조회 입력 스키마 */
+export const DiagnosticsInputSchema = z.object({
+  /** 응답 형식 */
+  response_format: ResponseFormatSchema
+}).strict();
+
+/** 서버 진단 정보 조회 입력 타입 */
+export type DiagnosticsInput = z.infer<typeof DiagnosticsInputSchema>;
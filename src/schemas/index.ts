@@ -17,16 +17,20 @@ export {
 export {
   SubwayArrivalInputSchema,
   SubwayStatusInputSchema,
+  SubwayTimetableInputSchema,
   type SubwayArrivalInput,
-  type SubwayStatusInput
+  type SubwayStatusInput,
+  type SubwayTimetableInput
 } from "./subway.js";
 
 // Bus
 export {
   BusArrivalInputSchema,
   BusStationSearchInputSchema,
+  BusRouteInputSchema,
   type BusArrivalInput,
-  type BusStationSearchInput
+  type BusStationSearchInput,
+  type BusRouteInput
 } from "./bus.js";
 
 // Bike
@@ -36,3 +40,60 @@ export {
   type BikeStationInput,
   type CombinedTransitInput
 } from "./bike.js";
+
+// Nearby
+export {
+  NearbyTransitType,
+  NearbyInputSchema,
+  type NearbyInput
+} from "./nearby.js";
+
+// Arrival Watch
+export {
+  WatchArrivalInputSchema,
+  type WatchArrivalInput
+} from "./watch.js";
+
+// Diagnostics
+export {
+  DiagnosticsInputSchema,
+  type DiagnosticsInput
+} from "./diagnostics.js";
+
+// Prompts
+export {
+  CommuteCheckPromptSchema,
+  LastTrainPromptSchema,
+  NearbySummaryPromptSchema,
+  type CommuteCheckPromptArgs,
+  type LastTrainPromptArgs,
+  type NearbySummaryPromptArgs
+} from "./prompts.js";
+
+// Output
+export {
+  CacheMetaSchema,
+  SubwayArrivalOutputSchema,
+  SubwayStatusOutputSchema,
+  SubwayTimetableOutputSchema,
+  BusArrivalEtaSchema,
+  BusArrivalOutputSchema,
+  BusStationSearchOutputSchema,
+  BusRouteOutputSchema,
+  BikeStationOutputSchema,
+  CombinedTransitOutputSchema,
+  NearbyTransitOutputSchema,
+  DiagnosticsOutputSchema,
+  WatchArrivalOutputSchema,
+  type SubwayArrivalOutput,
+  type SubwayStatusOutput,
+  type SubwayTimetableOutput,
+  type BusArrivalOutput,
+  type BusStationSearchOutput,
+  type BusRouteOutput,
+  type BikeStationOutput,
+  type CombinedTransitOutput,
+  type NearbyTransitOutput,
+  type DiagnosticsOutput,
+  type WatchArrivalOutput
+} from "./output.js";
@@ -0,0 +1,56 @@
+/**
+ * Korea Transit MCP Server - Nearby Schemas
+ *
+ * 위치 기반 주변 검색 도구의 입력 스키마 정의
+ */
+
+import { z } from "zod";
+import { ResponseFormatSchema, LimitSchema } from "./common.js";
+import { NEARBY } from "../constants.js";
+
+// ===== transit_find_nearby 스키마 =====
+
+/** 주변 검색 대상 교통수단 */
+export enum NearbyTransitType {
+  SUBWAY = "subway",
+  BUS = "bus",
+  BIKE = "bike"
+}
+
+/** 주변 교통수단 검색 입력 스키마 */
+export const NearbyInputSchema = z.object({
+  /** 위도 */
+  latitude: z.number()
+    .min(33, "위도는 33 이상이어야 합니다 (대한민국 범위)")
+    .max(39, "위도는 39 이하여야 합니다 (대한민국 범위)")
+    .describe("현재 위치의 위도 (WGS84, 예: 37.4979)"),
+
+  /** 경도 */
+  longitude: z.number()
+    .min(124, "경도는 124 이상이어야 합니다 (대한민국 범위)")
+    .max(132, "경도는 132 이하여야 합니다 (대한민국 범위)")
+    .describe("현재 위치의 경도 (WGS84, 예: 127.0276)"),
+
+  /** 검색 반경 (m) */
+  radius: z.number()
+    .int("정수만 입력 가능합니다")
+    .min(50, "검색 반경은 최소 50m입니다")
+    .max(NEARBY.MAX_RADIUS, `검색 반경은 최대 ${NEARBY.MAX_RADIUS}m입니다`)
+    .default(NEARBY.DEFAULT_RADIUS)
+    .describe(`검색 반경 (m, 50-${NEARBY.MAX_RADIUS}, 기본값: ${NEARBY.DEFAULT_RADIUS})`),
+
+  /** 검색 대상 */
+  types: z.array(z.nativeEnum(NearbyTransitType))
+    .min(1, "검색 대상은 최소 1개 이상이어야 합니다")
+    .default([NearbyTransitType.SUBWAY, NearbyTransitType.BUS, NearbyTransitType.BIKE])
+    .describe("검색 대상: 'subway'(지하철역), 'bus'(버스 정류장), 'bike'(따릉이 대여소). 기본값: 전체"),
+
+  /** 교통수단별 최대 결과 수 */
+  limit: LimitSchema,
+
+  /** 응답 형식 */
+  response_format: ResponseFormatSchema
+}).strict();
+
+/** 주변 교통수단 검색 입력 타입 */
+export type NearbyInput = z.infer<typeof NearbyInputSchema>;
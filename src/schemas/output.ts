@@ -0,0 +1,341 @@
+/**
+ * Korea Transit MCP Server - Output Schemas
+ *
+ * 도구 출력(structuredContent) 스키마 정의
+ */
+
+import { z } from "zod";
+
+// ===== 공통 스키마 =====
+
+/** 응답 캐시 메타데이터 스키마 */
+export const CacheMetaSchema = z.object({
+  hit: z.boolean().describe("캐시 적중 여부"),
+  ageSeconds: z.number().describe("데이터 경과 시간 (초)"),
+  ttlSeconds: z.number().describe("적용된 TTL (초)")
+});
+
+// ===== 지하철 출력 스키마 =====
+
+/** 지하철 도착 열차 스키마 */
+const SubwayArrivalItemSchema = z.object({
+  line: z.string().describe("호선명 (예: '2호선')"),
+  destination: z.string().describe("행선지"),
+  message: z.string().describe("도착 예정 메시지"),
+  direction: z.string().describe("상행/하행/내선/외선"),
+  trainNumber: z.string().optional(),
+  state: z.enum(["진입", "도착", "출발", "전역출발", "전역진입", "전역도착", "운행중"]).optional()
+    .describe("도착 상태"),
+  etaSeconds: z.number().int().optional().describe("현재 시각 기준 도착까지 남은 시간 (초)"),
+  arrivalTime: z.string().optional().describe("도착 예정 시각 (KST, ISO 8601)"),
+  stationsAway: z.number().int().optional().describe("남은 정거장 수 (0: 해당 역)"),
+  ordinal: z.number().int().optional().describe("같은 방향 도착 순번 (1: 첫 번째 열차)"),
+  receivedAt: z.string().optional().describe("도착정보 생성 시각 (KST, ISO 8601)"),
+  lastTrain: z.boolean().describe("막차 여부")
+});
+
+/** 지하철 도착정보 출력 스키마 */
+export const SubwayArrivalOutputSchema = z.object({
+  station: z.string(),
+  count: z.number().int(),
+  filter: z.object({
+    line: z.string().optional(),
+    direction: z.string().optional(),
+    destination: z.string().optional()
+  }).optional().describe("적용된 필터"),
+  arrivals: z.array(SubwayArrivalItemSchema),
+  groups: z.array(z.object({
+    line: z.string(),
+    direction: z.string(),
+    count: z.number().int(),
+    arrivals: z.array(SubwayArrivalItemSchema)
+  })).optional().describe("호선/방향별 묶음 (group_by: 'line_direction')"),
+  cache: CacheMetaSchema.optional()
+});
+
+/** 지하철 운행상태 출력 스키마 */
+export const SubwayStatusOutputSchema = z.object({
+  filter: z.string(),
+  count: z.number().int(),
+  disruptionCount: z.number().int(),
+  statuses: z.array(z.object({
+    line: z.string(),
+    type: z.enum(["정상", "지연", "운행중단"]),
+    status: z.string(),
+    section: z.string().optional(),
+    cause: z.string().optional(),
+    reportedAt: z.string().optional()
+  })),
+  cache: CacheMetaSchema.optional()
+});
+
+/** 지하철 시간표 출력 스키마 */
+export const SubwayTimetableOutputSchema = z.object({
+  station: z.string(),
+  date: z.string().describe("운행일 (YYYY-MM-DD, KST)"),
+  dayType: z.enum(["weekday", "saturday", "holiday"]),
+  dayTypeName: z.string(),
+  fromTime: z.string().optional(),
+  toTime: z.string().optional(),
+  timetables: z.array(z.object({
+    line: z.string(),
+    stationCode: z.string(),
+    direction: z.enum(["up", "down"]),
+    directionName: z.string(),
+    count: z.number().int(),
+    trains: z.array(z.object({
+      time: z.string().describe("출발 시각 (HH:MM)"),
+      destination: z.string(),
+      trainNo: z.string(),
+      express: z.boolean()
+    }))
+  })),
+  cache: CacheMetaSchema.optional()
+});
+
+// ===== 버스 출력 스키마 =====
+
+/** 버스 한 대의 도착 예정 정보 스키마 */
+export const BusArrivalEtaSchema = z.object({
+  status: z.enum(["운행중", "곧도착", "출발대기", "회차대기", "운행종료", "정보없음"]).describe("도착 상태"),
+  etaSeconds: z.number().int().optional().describe("도착까지 남은 시간 (초)"),
+  stopsRemaining: z.number().int().optional().describe("남은 정류장 수"),
+  plateNumber: z.string().optional().describe("차량 번호"),
+  lowFloor: z.boolean().optional().describe("저상버스 여부"),
+  congestion: z.enum(["여유", "보통", "혼잡", "매우혼잡"]).optional().describe("혼잡도"),
+  lastBus: z.boolean().describe("막차 여부")
+});
+
+/** 버스 도착정보 출력 스키마 */
+export const BusArrivalOutputSchema = z.object({
+  station: z.string(),
+  arsId: z.string(),
+  count: z.number().int(),
+  arrivals: z.array(z.object({
+    busNumber: z.string(),
+    type: z.string().describe("버스 유형 (간선, 지선 등)"),
+    message1: z.string().describe("첫 번째 버스 도착 메시지"),
+    message2: z.string().describe("두 번째 버스 도착 메시지"),
+    destination: z.string().optional(),
+    first: BusArrivalEtaSchema.describe("첫 번째 버스"),
+    second: BusArrivalEtaSchema.describe("두 번째 버스")
+  })),
+  cache: CacheMetaSchema.optional()
+});
+
+/** 버스 정류장 검색 출력 스키마 */
+export const BusStationSearchOutputSchema = z.object({
+  query: z.string(),
+  count: z.number().int(),
+  stations: z.array(z.object({
+    name: z.string(),
+    arsId: z.string().describe("정류장 번호 (도착정보 조회용)"),
+    nextStation: z.string().optional(),
+    direction: z.string().optional()
+  })),
+  cache: CacheMetaSchema.optional()
+});
+
+/** 버스 노선 조회 출력 스키마 */
+export const BusRouteOutputSchema = z.object({
+  query: z.string(),
+  count: z.number().int(),
+  routes: z.array(z.object({
+    busRouteId: z.string(),
+    busNumber: z.string(),
+    type: z.string(),
+    startStation: z.string(),
+    endStation: z.string(),
+    firstBus: z.string().optional().describe("첫차 (HH:MM)"),
+    lastBus: z.string().optional().describe("막차 (HH:MM)"),
+    headwayMinutes: z.number().optional(),
+    company: z.string().optional(),
+    stopCount: z.number().int(),
+    stops: z.array(z.object({
+      seq: z.number().int(),
+      name: z.string(),
+      arsId: z.string(),
+      direction: z.string().optional(),
+      turnaround: z.boolean()
+    }))
+  })),
+  candidates: z.array(z.object({
+    busRouteId: z.string(),
+    busNumber: z.string(),
+    type: z.string()
+  })),
+  cache: CacheMetaSchema.optional()
+});
+
+// ===== 따릉이 출력 스키마 =====
+
+/**
+ * 따릉이 대여소 출력 스키마
+ *
+ * 원본 API는 수량을 문자열로 반환하므로 출력 시 숫자로 변환합니다.
+ */
+export const BikeStationOutputSchema = z.object({
+  query: z.string(),
+  count: z.number().int(),
+  stations: z.array(z.object({
+    name: z.string(),
+    id: z.string(),
+    available: z.number().describe("대여 가능 자전거 수"),
+    rackTotal: z.number().describe("거치대 수"),
+    shared: z.number().optional().describe("거치율 (%)")
+  })),
+  cache: CacheMetaSchema.optional()
+});
+
+// ===== 통합/주변 출력 스키마 =====
+
+/** 통합 교통정보 출력 스키마 */
+export const CombinedTransitOutputSchema = z.object({
+  location: z.string(),
+  subway: z.object({
+    count: z.number().int(),
+    arrivals: z.array(z.object({
+      line: z.string(),
+      destination: z.string(),
+      message: z.string(),
+      etaSeconds: z.number().int().optional(),
+      arrivalTime: z.string().optional()
+    }))
+  }),
+  bus: z.object({
+    stationCount: z.number().int(),
+    stations: z.array(z.object({
+      name: z.string(),
+      arsId: z.string(),
+      arrivals: z.array(z.object({
+        busNumber: z.string(),
+        message: z.string(),
+        etaSeconds: z.number().int().optional(),
+        stopsRemaining: z.number().int().optional()
+      }))
+    }))
+  }),
+  bike: z.object({
+    count: z.number().int(),
+    stations: z.array(z.object({
+      name: z.string(),
+      available: z.number(),
+      total: z.number()
+    }))
+  }),
+  cache: CacheMetaSchema.optional()
+});
+
+/** 주변 교통수단 출력 스키마 */
+export const NearbyTransitOutputSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  radius: z.number().describe("검색 반경 (m)"),
+  subway: z.array(z.object({
+    name: z.string(),
+    line: z.string(),
+    distance: z.number().describe("직선 거리 (m)"),
+    walkingMinutes: z.number()
+  })),
+  bus: z.array(z.object({
+    name: z.string(),
+    arsId: z.string(),
+    distance: z.number(),
+    walkingMinutes: z.number()
+  })),
+  bike: z.array(z.object({
+    name: z.string(),
+    id: z.string(),
+    available: z.number(),
+    rackTotal: z.number(),
+    distance: z.number(),
+    walkingMinutes: z.number()
+  })),
+  failed: z.array(z.object({
+    type: z.enum(["subway", "bus", "bike"]),
+    code: z.string().describe("오류 코드 (예: 'UPSTREAM_UNAVAILABLE')"),
+    message: z.string(),
+    retryable: z.boolean()
+  })).describe("조회에 실패한 데이터셋 (해당 목록이 비어 있는 것은 주변에 없다는 뜻이 아님)"),
+  cache: CacheMetaSchema.optional()
+});
+
+// ===== 진단 출력 스키마 =====
+
+/** 오류 코드별 횟수 스키마 */
+const ErrorCountsSchema = z.record(z.string(), z.number().int()).describe("오류 코드별 횟수");
+
+/** 서버 진단 정보 출력 스키마 */
+export const DiagnosticsOutputSchema = z.object({
+  server: z.object({
+    name: z.string(),
+    version: z.string(),
+    startedAt: z.string().describe("메트릭 집계 시작 시각 (ISO 8601)"),
+    uptimeSeconds: z.number().int()
+  }),
+  tools: z.array(z.object({
+    tool: z.string(),
+    calls: z.number().int(),
+    errors: z.number().int(),
+    errorsByCode: ErrorCountsSchema,
+    avgLatencyMs: z.number().describe("평균 처리 시간 (ms)")
+  })),
+  upstreams: z.array(z.object({
+    endpoint: z.string().describe("API 엔드포인트 (예: SUBWAY_ARRIVAL)"),
+    requests: z.number().int().describe("실제 요청 수 (재시도 포함)"),
+    errors: z.number().int(),
+    errorsByCode: ErrorCountsSchema,
+    avgLatencyMs: z.number().describe("평균 응답 시간 (ms)"),
+    cacheHits: z.number().int(),
+    cacheMisses: z.number().int(),
+    cacheHitRatio: z.number().optional().describe("캐시 적중률 (0~1)")
+  })),
+  circuitBreakers: z.array(z.object({
+    host: z.string(),
+    state: z.enum(["closed", "open", "half_open"]),
+    consecutiveFailures: z.number().int(),
+    retryAt: z.string().optional().describe("시험 요청 허용 시각 (ISO 8601)"),
+    lastError: z.string().optional()
+  })),
+  quota: z.array(z.object({
+    key: z.enum(["seoul", "data_go_kr"]),
+    date: z.string().describe("집계 날짜 (KST)"),
+    used: z.number().int(),
+    limit: z.number().int().optional(),
+    remaining: z.number().int().optional()
+  }))
+});
+
+// ===== 도착 알림 =====
+
+/** 도착 알림 출력 스키마 */
+export const WatchArrivalOutputSchema = z.object({
+  mode: z.enum(["subway", "bus"]),
+  target: z.string().describe("알림 대상 (예: '강남 2호선 내선 성수행', '22341 정류장 140번')"),
+  outcome: z.enum(["reached", "passed", "timeout", "cancelled"])
+    .describe("종료 사유: reached(기준 시간 이내 도착), passed(지켜보던 열차/버스가 지나감), timeout(최대 대기 시간 경과), cancelled(요청 취소)"),
+  thresholdMinutes: z.number().int(),
+  polls: z.number().int().describe("도착정보 조회 횟수"),
+  elapsedSeconds: z.number().int(),
+  vehicle: z.object({
+    label: z.string().describe("열차/버스 표시 이름 (예: '2호선 성수행', '140번')"),
+    vehicleId: z.string().optional().describe("열차 번호 또는 차량 번호"),
+    message: z.string().describe("원본 도착 메시지"),
+    etaSeconds: z.number().int().optional().describe("마지막 조회 기준 도착까지 남은 시간 (초)"),
+    stopsAway: z.number().int().optional().describe("남은 정거장/정류장 수")
+  }).optional().describe("마지막으로 확인한 열차/버스 (passed면 지나간 열차/버스)")
+});
+
+// ===== 타입 추출 =====
+
+export type SubwayArrivalOutput = z.infer<typeof SubwayArrivalOutputSchema>;
+export type SubwayStatusOutput = z.infer<typeof SubwayStatusOutputSchema>;
+export type SubwayTimetableOutput = z.infer<typeof SubwayTimetableOutputSchema>;
+export type BusArrivalOutput = z.infer<typeof BusArrivalOutputSchema>;
+export type BusStationSearchOutput = z.infer<typeof BusStationSearchOutputSchema>;
+export type BusRouteOutput = z.infer<typeof BusRouteOutputSchema>;
+export type BikeStationOutput = z.infer<typeof BikeStationOutputSchema>;
+export type CombinedTransitOutput = z.infer<typeof CombinedTransitOutputSchema>;
+export type NearbyTransitOutput = z.infer<typeof NearbyTransitOutputSchema>;
+export type DiagnosticsOutput = z.infer<typeof DiagnosticsOutputSchema>;
+export type WatchArrivalOutput = z.infer<typeof WatchArrivalOutputSchema>;
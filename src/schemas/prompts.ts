@@ -0,0 +1,72 @@
+/**
+ * Korea Transit MCP Server - Prompt Schemas
+ *
+ * 프롬프트 인자 스키마 정의 (MCP 프롬프트 인자는 모두 문자열)
+ */
+
+import { z } from "zod";
+
+// ===== transit_commute_check 스키마 =====
+
+/** 출근길 체크 프롬프트 인자 스키마 */
+export const CommuteCheckPromptSchema = z.object({
+  /** 출발역 */
+  home_station: z.string()
+    .min(1, "출발역을 입력해 주세요")
+    .max(50, "역 이름은 50자를 초과할 수 없습니다")
+    .describe("집 근처 출발 지하철역 (예: '신도림', '홍대입구')"),
+
+  /** 회사 근처 정류장 */
+  work_stop: z.string()
+    .min(1, "회사 근처 정류장을 입력해 주세요")
+    .max(50, "정류장 이름은 50자를 초과할 수 없습니다")
+    .describe("회사 근처에서 갈아탈 버스 정류장 번호(5자리) 또는 정류장 이름 (예: '22341', '강남역')"),
+
+  /** 호선 */
+  line: z.string()
+    .max(20, "호선은 20자를 초과할 수 없습니다")
+    .optional()
+    .describe("이용 호선 (예: '2호선'). 생략시 출발역의 모든 호선 확인")
+});
+
+/** 출근길 체크 프롬프트 인자 타입 */
+export type CommuteCheckPromptArgs = z.infer<typeof CommuteCheckPromptSchema>;
+
+// ===== transit_last_train_check 스키마 =====
+
+/** 막차 확인 프롬프트 인자 스키마 */
+export const LastTrainPromptSchema = z.object({
+  /** 역 이름 */
+  station_name: z.string()
+    .min(1, "역 이름을 입력해 주세요")
+    .max(50, "역 이름은 50자를 초과할 수 없습니다")
+    .describe("막차를 확인할 지하철역 (예: '강남')"),
+
+  /** 호선 */
+  line: z.string()
+    .max(20, "호선은 20자를 초과할 수 없습니다")
+    .optional()
+    .describe("호선 (예: '2호선'). 생략시 역을 지나는 모든 호선 확인"),
+
+  /** 방향 */
+  direction: z.enum(["상행", "하행"])
+    .optional()
+    .describe("방향 ('상행', '하행', 2호선은 상행=내선/하행=외선). 생략시 양방향 확인")
+});
+
+/** 막차 확인 프롬프트 인자 타입 */
+export type LastTrainPromptArgs = z.infer<typeof LastTrainPromptSchema>;
+
+// ===== transit_nearby_summary 스키마 =====
+
+/** 주변 교통 요약 프롬프트 인자 스키마 */
+export const NearbySummaryPromptSchema = z.object({
+  /** 위치명 */
+  location: z.string()
+    .min(2, "위치명은 최소 2자 이상이어야 합니다")
+    .max(100, "위치명은 100자를 초과할 수 없습니다")
+    .describe("위치명 (예: '강남역', '홍대입구')")
+});
+
+/** 주변 교통 요약 프롬프트 인자 타입 */
+export type NearbySummaryPromptArgs = z.infer<typeof NearbySummaryPromptSchema>;
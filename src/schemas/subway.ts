@@ -6,6 +6,7 @@
 
 import { z } from "zod";
 import { ResponseFormatSchema, LimitSchema } from "./common.js";
+import { PAGINATION, SUBWAY_TIMETABLE } from "../constants.js";
 
 // ===== transit_get_subway_arrival 스키마 =====
 
@@ -15,10 +16,33 @@ export const SubwayArrivalInputSchema = z.object({
   station_name: z.string()
     .min(1, "역 이름은 필수입니다")
     .max(50, "역 이름은 50자를 초과할 수 없습니다")
-    .describe("지하철역 이름 (예: '강남', '홍대입구', '서울역'). '역' 접미사는 자동 제거됩니다."),
+    .describe("지하철역 이름 (예: '강남', '홍대입구', '서울역'). 별칭('홍대'), 영문명('Gangnam'), 초성('ㄱㄴ'), 오타도 인식하며 모호하면 후보 역을 제안합니다."),
+
+  /** 호선 필터 (선택) */
+  line: z.string()
+    .max(20, "호선명은 20자를 초과할 수 없습니다")
+    .optional()
+    .describe("호선 필터 (예: '2호선', '2', '신분당선'). 환승역에서 특정 호선만 조회할 때 사용"),
+
+  /** 방향 필터 (선택) */
+  direction: z.enum(["상행", "하행", "내선", "외선"])
+    .optional()
+    .describe("방향 필터: '상행', '하행', 2호선은 '내선'(상행과 동일), '외선'(하행과 동일)"),
+
+  /** 행선지 필터 (선택) */
+  destination: z.string()
+    .max(50, "행선지는 50자를 초과할 수 없습니다")
+    .optional()
+    .describe("행선지 필터 (부분 일치, 예: '성수', '인천')"),
 
   /** 최대 도착정보 수 */
-  limit: LimitSchema,
+  limit: LimitSchema
+    .describe(`조회할 최대 열차 수 (필터 적용 후, group_by가 'line_direction'이면 호선/방향별 최대 개수, 1-${PAGINATION.MAX_LIMIT}, 기본값: ${PAGINATION.DEFAULT_LIMIT})`),
+
+  /** 묶음 방식 */
+  group_by: z.enum(["none", "line_direction"])
+    .default("none")
+    .describe("출력 묶음: 'none'은 도착 순 목록, 'line_direction'은 호선/방향별로 묶어서 표시"),
 
   /** 응답 형식 */
   response_format: ResponseFormatSchema
@@ -43,3 +67,64 @@ export const SubwayStatusInputSchema = z.object({
 
 /** 지하철 운행상태 조회 입력 타입 */
 export type SubwayStatusInput = z.infer<typeof SubwayStatusInputSchema>;
+
+// ===== transit_get_subway_timetable 스키마 =====
+
+/** 시각 입력 형식 (HH:MM) */
+const ClockTimeSchema = z.string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "시각은 HH:MM 형식이어야 합니다 (예: '07:00')");
+
+/** 지하철 시간표 조회 입력 스키마 */
+export const SubwayTimetableInputSchema = z.object({
+  /** 지하철역 이름 */
+  station_name: z.string()
+    .min(1, "역 이름은 필수입니다")
+    .max(50, "역 이름은 50자를 초과할 수 없습니다")
+    .describe("지하철역 이름 (예: '강남', '홍대입구', '서울역')"),
+
+  /** 호선 (선택) */
+  line: z.string()
+    .max(20, "호선명은 20자를 초과할 수 없습니다")
+    .optional()
+    .describe("호선 (예: '2호선', '2', '신분당선'). 생략시 역을 지나는 모든 호선 조회"),
+
+  /** 방향 (선택) */
+  direction: z.enum(["up", "down"])
+    .optional()
+    .describe("방향: 'up'은 상행(2호선 내선), 'down'은 하행(2호선 외선). 생략시 양방향 조회"),
+
+  /** 조회 날짜 (선택) */
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "날짜는 YYYY-MM-DD 형식이어야 합니다 (예: '2025-01-06')")
+    .optional()
+    .describe("조회 날짜 (YYYY-MM-DD, KST). 생략시 오늘. 공휴일 여부에 따라 평일/토요일/휴일 시간표가 자동 선택됩니다."),
+
+  /** 시간표 구분 (선택) */
+  day_type: z.enum(["weekday", "saturday", "holiday"])
+    .optional()
+    .describe("시간표 구분을 직접 지정 ('weekday', 'saturday', 'holiday'). 생략시 날짜로 자동 판정"),
+
+  /** 조회 시작 시각 (선택) */
+  from_time: ClockTimeSchema
+    .optional()
+    .describe("이 시각 이후 출발 열차부터 조회 (HH:MM). 생략시 오늘은 현재 시각, 다른 날짜는 첫차부터"),
+
+  /** 조회 종료 시각 (선택) */
+  to_time: ClockTimeSchema
+    .optional()
+    .describe("이 시각 이전 출발 열차까지 조회 (HH:MM, 예: 7시대는 from_time '07:00', to_time '07:59')"),
+
+  /** 방향별 최대 열차 수 */
+  limit: z.number()
+    .int("정수만 입력 가능합니다")
+    .min(1, "최소 1개 이상 조회해야 합니다")
+    .max(SUBWAY_TIMETABLE.MAX_LIMIT, `최대 ${SUBWAY_TIMETABLE.MAX_LIMIT}개까지 조회 가능합니다`)
+    .default(SUBWAY_TIMETABLE.DEFAULT_LIMIT)
+    .describe(`방향별 최대 열차 수 (1-${SUBWAY_TIMETABLE.MAX_LIMIT}, 기본값: ${SUBWAY_TIMETABLE.DEFAULT_LIMIT})`),
+
+  /** 응답 형식 */
+  response_format: ResponseFormatSchema
+}).strict();
+
+/** 지하철 시간표 조회 입력 타입 */
+export type SubwayTimetableInput = z.infer<typeof SubwayTimetableInputSchema>;
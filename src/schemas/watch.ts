@@ -0,0 +1,87 @@
+/**
+ * Korea Transit MCP Server - Arrival Watch Schemas
+ *
+ * 도착 알림 도구의 입력 스키마 정의
+ */
+
+import { z } from "zod";
+import { ResponseFormatSchema } from "./common.js";
+import { ARRIVAL_WATCH } from "../constants.js";
+
+// ===== transit_watch_arrival 스키마 =====
+
+/** 도착 알림 입력 스키마 */
+export const WatchArrivalInputSchema = z.object({
+  /** 교통수단 */
+  mode: z.enum(["subway", "bus"])
+    .describe("교통수단: 'subway'는 지하철역(station_name), 'bus'는 버스 정류장(ars_id)과 노선(route_number) 필요"),
+
+  /** 지하철역 이름 */
+  station_name: z.string()
+    .min(1, "역 이름을 입력해 주세요")
+    .max(50, "역 이름은 50자를 초과할 수 없습니다")
+    .optional()
+    .describe("지하철역 이름 (mode가 'subway'일 때 필수, 예: '강남')"),
+
+  /** 호선 */
+  line: z.string()
+    .max(20, "호선은 20자를 초과할 수 없습니다")
+    .optional()
+    .describe("호선 필터 (예: '2호선', '2')"),
+
+  /** 방향 */
+  direction: z.enum(["상행", "하행", "내선", "외선"])
+    .optional()
+    .describe("방향 필터: '상행', '하행', 2호선은 '내선', '외선'"),
+
+  /** 행선지 */
+  destination: z.string()
+    .max(50, "행선지는 50자를 초과할 수 없습니다")
+    .optional()
+    .describe("행선지 필터 (부분 일치, 예: '잠실', '성수')"),
+
+  /** 버스 정류장 ID */
+  ars_id: z.string()
+    .regex(/^\d{5}$/, "정류장 ID는 5자리 숫자여야 합니다 (예: '16165')")
+    .optional()
+    .describe("버스 정류장 ID (mode가 'bus'일 때 필수, 5자리 숫자)"),
+
+  /** 버스 노선 번호 */
+  route_number: z.string()
+    .min(1, "노선 번호를 입력해 주세요")
+    .max(20, "노선 번호는 20자를 초과할 수 없습니다")
+    .optional()
+    .describe("버스 노선 번호 (mode가 'bus'일 때 필수, 예: '140')"),
+
+  /** 알림 기준 */
+  threshold_minutes: z.number()
+    .int("정수만 입력 가능합니다")
+    .min(0, "0분 이상이어야 합니다")
+    .max(30, "최대 30분까지 설정 가능합니다")
+    .default(ARRIVAL_WATCH.DEFAULT_THRESHOLD_MINUTES)
+    .describe(`도착까지 남은 시간이 이 값(분) 이하가 되면 완료 (0-30, 기본값: ${ARRIVAL_WATCH.DEFAULT_THRESHOLD_MINUTES})`),
+
+  /** 최대 대기 시간 */
+  timeout_minutes: z.number()
+    .int("정수만 입력 가능합니다")
+    .min(1, "최소 1분 이상이어야 합니다")
+    .max(ARRIVAL_WATCH.MAX_TIMEOUT_MINUTES, `최대 ${ARRIVAL_WATCH.MAX_TIMEOUT_MINUTES}분까지 설정 가능합니다`)
+    .default(ARRIVAL_WATCH.DEFAULT_TIMEOUT_MINUTES)
+    .describe(`최대 대기 시간 (분, 1-${ARRIVAL_WATCH.MAX_TIMEOUT_MINUTES}, 기본값: ${ARRIVAL_WATCH.DEFAULT_TIMEOUT_MINUTES})`),
+
+  /** 응답 형식 */
+  response_format: ResponseFormatSchema
+}).strict().superRefine((input, ctx) => {
+  if (input.mode === "subway" && !input.station_name) {
+    ctx.addIssue({ code: "custom", path: ["station_name"], message: "지하철 도착 알림에는 역 이름(station_name)이 필요합니다" });
+  }
+  if (input.mode === "bus" && !input.ars_id) {
+    ctx.addIssue({ code: "custom", path: ["ars_id"], message: "버스 도착 알림에는 정류장 ID(ars_id)가 필요합니다" });
+  }
+  if (input.mode === "bus" && !input.route_number) {
+    ctx.addIssue({ code: "custom", path: ["route_number"], message: "버스 도착 알림에는 노선 번호(route_number)가 필요합니다" });
+  }
+});
+
+/** 도착 알림 입력 타입 */
+export type WatchArrivalInput = z.infer<typeof WatchArrivalInputSchema>;
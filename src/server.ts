@@ -0,0 +1,48 @@
+/**
+ * Korea Transit MCP Server - Server Factory
+ *
+ * 도구/리소스/프롬프트가 등록된 MCP 서버 인스턴스 생성
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SERVER_INFO } from "./constants.js";
+import { registerAllTools, registerDiagnosticsTools, registerWatchTools } from "./tools/index.js";
+import { registerAllResources } from "./resources/index.js";
+import { registerAllPrompts } from "./prompts/index.js";
+
+/** MCP 서버 생성 옵션 */
+export interface TransitServerOptions {
+  /** 진단 도구(transit_get_diagnostics) 등록 여부 - HTTP 모드는 /metrics로 대신 제공 */
+  diagnostics?: boolean;
+  /**
+   * 진행 알림이 필요한 장시간 도구(transit_watch_arrival) 등록 여부
+   *
+   * 진행 알림을 스트리밍할 수 있는 stdio/세션 모드에서만 등록합니다. JSON 응답 모드
+   * (stateless, Vercel)에서는 SDK가 진행 알림을 버리고 요청 하나가 함수 실행 시간 제한을 넘길 수 있습니다.
+   */
+  watch?: boolean;
+}
+
+/**
+ * 모든 도구, 리소스, 프롬프트가 등록된 MCP 서버 생성
+ *
+ * stdio/Express 진입점(src/index.ts)과 Vercel 핸들러(api/index.ts)가 공유합니다.
+ */
+export function createTransitServer(options: TransitServerOptions = {}): McpServer {
+  const server = new McpServer({
+    name: SERVER_INFO.NAME,
+    version: SERVER_INFO.VERSION,
+  });
+
+  registerAllTools(server);
+  registerAllResources(server);
+  registerAllPrompts(server);
+  if (options.diagnostics) {
+    registerDiagnosticsTools(server);
+  }
+  if (options.watch) {
+    registerWatchTools(server);
+  }
+
+  return server;
+}
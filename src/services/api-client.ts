@@ -5,48 +5,105 @@
  */
 
 import { DEFAULT_TIMEOUT, CHARACTER_LIMIT } from "../constants.js";
+import {
+  getCacheBackend,
+  resolveCacheTtl,
+  createCacheMeta,
+  type CacheEntry,
+  type CacheMeta
+} from "./cache.js";
+import {
+  UpstreamError,
+  MalformedResponseError,
+  classifyHttpStatus,
+  type UpstreamErrorCode
+} from "./upstream-errors.js";
+import { getCircuitBreaker, withRetry, isTransientError } from "./resilience.js";
+import { getQuotaLedger, DailyQuotaExceededError } from "./quota.js";
+import { recordUpstreamRequest, recordCacheLookup, resolveEndpointName } from "./metrics.js";
+import { logger } from "./logger.js";
 
 // ===== 에러 타입 =====
 
-/** API 에러 클래스 */
-export class ApiError extends Error {
+/** HTTP 오류 응답 (4xx/5xx) */
+export class ApiError extends UpstreamError {
   constructor(
-    message: string,
-    public readonly statusCode?: number,
-    public readonly endpoint?: string
+    public readonly statusCode: number,
+    statusText: string,
+    endpoint?: string
   ) {
-    super(message);
+    super(classifyHttpStatus(statusCode), "http", {
+      upstreamCode: `HTTP ${statusCode}`,
+      upstreamMessage: statusText,
+      // 429는 일시적인 요청 제한이므로 재시도 가능
+      retryable: statusCode === 429 || statusCode >= 500,
+      endpoint
+    });
     this.name = "ApiError";
   }
 }
 
 /** 타임아웃 에러 클래스 */
-export class TimeoutError extends Error {
-  constructor(message: string, public readonly timeout: number) {
-    super(message);
+export class TimeoutError extends UpstreamError {
+  constructor(public readonly timeout: number, endpoint?: string) {
+    super("TIMEOUT", "http", {
+      upstreamMessage: `요청 시간 초과 (${timeout}ms)`,
+      endpoint
+    });
     this.name = "TimeoutError";
   }
 }
 
+/** 연결 실패 (DNS, 연결 거부/재설정 등) */
+export class NetworkError extends UpstreamError {
+  constructor(endpoint: string, cause?: unknown) {
+    super("UPSTREAM_UNAVAILABLE", "http", {
+      upstreamMessage: cause instanceof Error ? cause.message : undefined,
+      endpoint,
+      cause
+    });
+    this.name = "NetworkError";
+  }
+}
+
 // ===== API 요청 함수 =====
 
 /** API 요청 옵션 */
 export interface FetchOptions {
   timeout?: number;
   headers?: Record<string, string>;
+  /** 캐시 TTL (ms). 생략 시 엔드포인트별 기본값, 0이면 캐시 사용 안 함 */
+  cacheTtl?: number;
+  /** 응답 캐시 여부 판단 (API 오류 응답 캐시 방지용) */
+  shouldCache?: (data: unknown) => boolean;
+  /** 일시적 오류 시 최대 재시도 횟수. 생략 시 RETRY.MAX_RETRIES, 0이면 재시도 안 함 */
+  retries?: number;
+  /** 요청 취소 신호 (취소되면 진행 중인 요청을 중단하고 재시도하지 않음) */
+  signal?: AbortSignal;
+}
+
+/** 캐시 메타데이터가 포함된 JSON 응답 */
+export interface CachedJson<T> {
+  data: T;
+  cache?: CacheMeta;
 }
 
 /**
- * 타임아웃이 적용된 fetch 요청
+ * 타임아웃이 적용된 fetch 요청 (단일 시도)
+ *
+ * 취소 신호를 받으면 요청을 중단하고 취소 사유를 그대로 던집니다.
  */
 export async function fetchWithTimeout(
   url: string,
   options: FetchOptions = {}
 ): Promise<Response> {
-  const { timeout = DEFAULT_TIMEOUT, headers = {} } = options;
+  const { timeout = DEFAULT_TIMEOUT, headers = {}, signal } = options;
+  signal?.throwIfAborted();
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
 
   try {
     const response = await fetch(url, {
@@ -58,24 +115,149 @@ export async function fetchWithTimeout(
     });
 
     if (!response.ok) {
-      throw new ApiError(
-        `API 요청 실패: ${response.status} ${response.statusText}`,
-        response.status,
-        url
-      );
+      throw new ApiError(response.status, response.statusText, url);
     }
 
     return response;
   } catch (error) {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
     if (error instanceof Error && error.name === "AbortError") {
-      throw new TimeoutError(`요청 시간 초과 (${timeout}ms)`, timeout);
+      throw new TimeoutError(timeout, url);
+    }
+    if (error instanceof TypeError) {
+      // fetch는 연결 실패를 TypeError("fetch failed")로 알림
+      throw new NetworkError(url, error.cause ?? error);
     }
     throw error;
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
   }
 }
 
+/**
+ * 응답 본문을 JSON으로 파싱 (JSON이 아니거나 잘린 응답은 MalformedResponseError)
+ */
+async function parseJsonResponse(response: Response, url: string): Promise<unknown> {
+  try {
+    return await response.json() as unknown;
+  } catch (error) {
+    throw new MalformedResponseError(url, error);
+  }
+}
+
+/**
+ * 재시도, 서킷 브레이커, 일일 호출 한도가 적용된 JSON 요청
+ *
+ * 일일 호출 한도를 모두 썼거나(재시도마다 다시 확인) 호스트의 서킷이 열려 있으면 요청하지 않고
+ * 바로 실패하며, 일시적 오류는 지수 백오프로 재시도합니다. 재시도를 포함한 모든 요청은 호출 집계,
+ * 메트릭, 로그(API 키를 가린 URL)에 기록됩니다.
+ * 재시도 후에도 일시적 오류면 서킷 브레이커에 실패로 기록하고, 업스트림이 응답한 경우
+ * (인증 오류 등 포함) 성공으로 기록합니다. 취소된 요청은 어느 쪽으로도 기록하지 않습니다.
+ *
+ * @throws DailyQuotaExceededError 일일 호출 한도를 모두 사용한 경우
+ * @throws CircuitOpenError 서킷이 열려 있는 경우
+ */
+async function requestJson(url: string, options: FetchOptions): Promise<unknown> {
+  const ledger = getQuotaLedger();
+  const breaker = getCircuitBreaker(url);
+  ledger.assertAvailable(url);
+  breaker.acquire(url);
+
+  const upstream = { url, endpoint: resolveEndpointName(url) };
+  let attempt = 0;
+
+  try {
+    const data = await withRetry(async () => {
+      options.signal?.throwIfAborted();
+      ledger.assertAvailable(url);
+      ledger.record(url);
+      attempt++;
+      const startedAt = Date.now();
+      try {
+        const response = await fetchWithTimeout(url, options);
+        const json = await parseJsonResponse(response, url);
+        const durationMs = Date.now() - startedAt;
+        recordUpstreamRequest(url, durationMs);
+        logger.debug("업스트림 요청", { ...upstream, attempt, durationMs, outcome: "success" });
+        return json;
+      } catch (error) {
+        if (options.signal?.aborted) {
+          logger.debug("업스트림 요청 취소", { ...upstream, attempt });
+          throw error;
+        }
+        const durationMs = Date.now() - startedAt;
+        recordUpstreamRequest(url, durationMs, error);
+        logger.warn("업스트림 요청 실패", { ...upstream, attempt, durationMs, outcome: "error", error });
+        throw error;
+      }
+    }, { retries: options.retries, signal: options.signal });
+    breaker.recordSuccess();
+    return data;
+  } catch (error) {
+    if (options.signal?.aborted || error instanceof DailyQuotaExceededError) {
+      breaker.release();
+    } else if (isTransientError(error)) {
+      breaker.recordFailure(error);
+    } else {
+      breaker.recordSuccess();
+    }
+    throw error;
+  }
+}
+
+/** 동일 URL 동시 요청 병합용 */
+const inflightRequests = new Map<string, Promise<CacheEntry>>();
+
+/**
+ * JSON 응답을 가져오는 fetch 요청 (캐시 메타데이터 포함)
+ *
+ * 엔드포인트별 TTL 동안 응답을 캐시하며, 같은 URL의 동시 요청은 하나로 병합합니다.
+ * 캐시에 없으면 재시도/서킷 브레이커가 적용된 요청으로 가져옵니다.
+ * 취소 신호가 있는 요청은 다른 요청의 취소에 영향을 주거나 받지 않도록 병합하지 않습니다.
+ */
+export async function fetchJsonCached<T>(
+  url: string,
+  options: FetchOptions = {}
+): Promise<CachedJson<T>> {
+  const ttl = options.cacheTtl ?? resolveCacheTtl(url);
+
+  if (ttl <= 0) {
+    return { data: await requestJson(url, options) as T };
+  }
+
+  const backend = getCacheBackend();
+  const cached = await backend.get<T>(url);
+  recordCacheLookup(url, cached !== undefined);
+  if (cached) {
+    return { data: cached.value, cache: createCacheMeta(cached, true) };
+  }
+
+  const shared = options.signal === undefined;
+  let pending = shared ? inflightRequests.get(url) : undefined;
+  if (!pending) {
+    pending = (async () => {
+      const data = await requestJson(url, options);
+      const storedAt = Date.now();
+      const entry: CacheEntry = { value: data, storedAt, expiresAt: storedAt + ttl };
+
+      if (!options.shouldCache || options.shouldCache(data)) {
+        await backend.set(url, entry);
+      }
+      return entry;
+    })();
+    if (shared) {
+      pending = pending.finally(() => inflightRequests.delete(url));
+      inflightRequests.set(url, pending);
+    }
+  }
+
+  const entry = await pending;
+  return { data: entry.value as T, cache: createCacheMeta(entry, false) };
+}
+
 /**
  * JSON 응답을 가져오는 fetch 요청
  */
@@ -83,8 +265,8 @@ export async function fetchJson<T>(
   url: string,
   options: FetchOptions = {}
 ): Promise<T> {
-  const response = await fetchWithTimeout(url, options);
-  return response.json() as Promise<T>;
+  const { data } = await fetchJsonCached<T>(url, options);
+  return data;
 }
 
 // ===== 응답 처리 유틸리티 =====
@@ -104,34 +286,56 @@ export function truncateResponse(
   return `${truncated}\n\n... (응답이 ${limit.toLocaleString()}자 제한으로 잘렸습니다)`;
 }
 
+/** 도구 오류 응답의 구조화된 오류 정보 (_meta.error) */
+export interface ToolErrorInfo {
+  /** 오류 코드 (업스트림 오류 코드, 입력 오류는 INVALID_INPUT, 그 외 REQUEST_FAILED) */
+  code: UpstreamErrorCode | "INVALID_INPUT" | "REQUEST_FAILED";
+  message: string;
+  retryable: boolean;
+  /** 원본 결과 코드 (예: "INFO-100", "bus:7", "HTTP 503") */
+  upstreamCode?: string;
+  /** 재시도까지 기다려야 하는 시간 (초, 호출 한도/서킷 차단 시) */
+  retryAfterSeconds?: number;
+}
+
 /**
  * 에러를 사용자 친화적인 메시지로 변환
+ *
+ * 업스트림 오류는 안내 메시지 뒤에 원본 결과 코드/메시지를 덧붙입니다.
  */
 export function formatErrorMessage(error: unknown): string {
-  if (error instanceof ApiError) {
-    if (error.statusCode === 404) {
-      return "요청한 데이터를 찾을 수 없습니다.";
-    }
-    if (error.statusCode === 429) {
-      return "API 요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.";
-    }
-    if (error.statusCode && error.statusCode >= 500) {
-      return "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
-    }
-    return error.message;
-  }
-
-  if (error instanceof TimeoutError) {
-    return "요청 시간이 초과되었습니다. 네트워크 상태를 확인해주세요.";
+  if (error instanceof UpstreamError) {
+    const detail = [error.upstreamCode, error.upstreamMessage].filter(Boolean).join(" ");
+    return detail ? `${error.message} (${detail})` : error.message;
   }
 
   if (error instanceof Error) {
-    return `오류 발생: ${error.message}`;
+    return error.message;
   }
 
   return "알 수 없는 오류가 발생했습니다.";
 }
 
+/**
+ * 에러를 구조화된 오류 정보로 변환
+ */
+export function describeError(error: unknown): ToolErrorInfo {
+  if (error instanceof UpstreamError) {
+    return {
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      upstreamCode: error.upstreamCode,
+      retryAfterSeconds: error.retryAfterSeconds
+    };
+  }
+  return {
+    code: error instanceof Error && error.name === "ZodError" ? "INVALID_INPUT" : "REQUEST_FAILED",
+    message: formatErrorMessage(error),
+    retryable: false
+  };
+}
+
 /**
  * MCP 도구 응답 생성
  */
@@ -149,11 +353,34 @@ export function createToolResponse(
 
 /**
  * 에러 응답 생성
+ *
+ * 텍스트에는 안내 메시지와 오류 코드를, _meta.error에는 구조화된 오류 정보를 담습니다.
+ * 힌트는 사용자 입력으로 해결할 수 있는 오류(업스트림 장애/인증 오류가 아닌 경우)에만 표시합니다.
+ *
+ * @param context - 실패한 작업 (예: "지하철 정보 조회 실패")
+ * @param hint - 입력 오류 시 안내 (예: "정류장 번호가 올바른지 확인해 주세요.")
  */
-export function createErrorResponse(error: unknown): {
+export function createErrorResponse(
+  error: unknown,
+  context?: string,
+  hint?: string
+): {
   content: Array<{ type: "text"; text: string }>;
   isError: boolean;
+  _meta: { error: ToolErrorInfo };
 } {
+  const info = describeError(error);
   const message = formatErrorMessage(error);
-  return createToolResponse(`❌ ${message}`, true);
+  const showHint = hint && (!(error instanceof UpstreamError)
+    || error.code === "INVALID_REQUEST" || error.code === "NO_DATA");
+
+  let text = context ? `❌ ${context}: ${message}` : `❌ ${message}`;
+  if (error instanceof UpstreamError) {
+    text += ` [${info.code}]`;
+  }
+  if (showHint) {
+    text += `\n\n💡 ${hint}`;
+  }
+
+  return { ...createToolResponse(text, true), _meta: { error: info } };
 }
@@ -0,0 +1,252 @@
+/**
+ * Korea Transit MCP Server - Arrival Watch
+ *
+ * 지하철/버스 도착정보를 주기적으로 조회해 목표 열차·버스가 기준 시간 안에 도착하거나
+ * 지나가거나, 최대 대기 시간이 지날 때까지 기다리는 유틸리티
+ */
+
+import { setTimeout as sleepFor } from "node:timers/promises";
+import { ARRIVAL_WATCH, SUBWAY_ARRIVAL, SUBWAY_LINE_MAP } from "../constants.js";
+import { fetchBusArrivals, fetchSubwayArrivals } from "./realtime.js";
+import { filterSubwayArrivals, parseSubwayArrivalEta } from "./subway-arrival.js";
+import { parseBusArrivalEtas } from "./bus-arrival.js";
+import { normalizeRouteNumber } from "./bus-routes.js";
+import { UpstreamError } from "./upstream-errors.js";
+import { logger } from "./logger.js";
+import type { SubwayArrivalFilter } from "../types.js";
+
+// ===== 타입 정의 =====
+
+/** 한 번의 조회에서 확인한 도착 예정 열차/버스 */
+export interface ArrivalObservation {
+  /** 열차 번호/차량 번호 (지나갔는지 판별용) */
+  vehicleId?: string;
+  /** 표시 이름 (예: "2호선 성수행", "140번") */
+  label: string;
+  /** 원본 도착 메시지 */
+  message: string;
+  /** 도착까지 남은 시간 (초) */
+  etaSeconds?: number;
+  /** 남은 정거장/정류장 수 */
+  stopsAway?: number;
+}
+
+/** 도착 알림 종료 사유 */
+export type ArrivalWatchOutcome = "reached" | "passed" | "timeout" | "cancelled";
+
+/** 조회마다 전달되는 진행 상황 */
+export interface ArrivalWatchUpdate {
+  /** 조회 횟수 (1부터) */
+  poll: number;
+  /** 경과 시간 (ms) */
+  elapsedMs: number;
+  /** 목표 열차/버스 (목록에 없거나 조회 실패 시 undefined) */
+  observation?: ArrivalObservation;
+  /** 조회 실패 시 오류 (다음 조회에서 재시도) */
+  error?: unknown;
+}
+
+/** 도착 알림 옵션 */
+export interface ArrivalWatchOptions {
+  /** 도착까지 남은 시간이 이 값(초) 이하가 되면 종료 */
+  thresholdSeconds: number;
+  /** 최대 대기 시간 (ms) */
+  timeoutMs: number;
+  /** 조회 간격 (ms, 기본값: ARRIVAL_WATCH.POLL_INTERVAL_MS) */
+  intervalMs?: number;
+  /** 취소 신호 */
+  signal?: AbortSignal;
+  /** 조회마다 호출 (진행 알림 전송용) */
+  onUpdate?: (update: ArrivalWatchUpdate) => void | Promise<void>;
+  /** 현재 시각 (테스트용) */
+  now?: () => number;
+  /** 대기 함수 (테스트용, 취소 시 reject) */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/** 도착 알림 결과 */
+export interface ArrivalWatchResult {
+  outcome: ArrivalWatchOutcome;
+  /** 조회 횟수 */
+  polls: number;
+  /** 경과 시간 (ms) */
+  elapsedMs: number;
+  /** 마지막으로 확인한 목표 열차/버스 (passed면 지나간 열차/버스) */
+  observation?: ArrivalObservation;
+  /** 마지막 조회 오류 (마지막 조회가 성공했으면 undefined) */
+  lastError?: unknown;
+  /** 한 번이라도 조회에 성공했는지 여부 */
+  observed: boolean;
+}
+
+// ===== 조회 함수 =====
+
+/**
+ * 지하철역 도착정보에서 조건에 맞는 열차 목록 (도착 예정 시간 순)
+ *
+ * 도착 예정 시간을 알 수 없는 열차는 제외합니다.
+ */
+export async function observeSubwayArrival(
+  stationName: string,
+  filter: SubwayArrivalFilter,
+  signal?: AbortSignal
+): Promise<ArrivalObservation[]> {
+  const result = await fetchSubwayArrivals(stationName, SUBWAY_ARRIVAL.FETCH_LIMIT, signal);
+  const now = new Date();
+
+  return filterSubwayArrivals(result.items, filter)
+    .map((arrival) => ({ arrival, eta: parseSubwayArrivalEta(arrival, now) }))
+    .filter(({ eta }) => eta.etaSeconds !== undefined)
+    .map(({ arrival, eta }) => ({
+      vehicleId: arrival.btrainNo || undefined,
+      label: `${SUBWAY_LINE_MAP[arrival.subwayId] || arrival.subwayId} ${arrival.bstatnNm}행`,
+      message: arrival.arvlMsg2,
+      etaSeconds: eta.etaSeconds,
+      stopsAway: eta.stationsAway
+    }))
+    .sort(byEta);
+}
+
+/**
+ * 버스 정류장 도착정보에서 해당 노선의 버스 목록 (첫번째/두번째 버스, 도착 예정 시간 순)
+ *
+ * 노선 번호는 대소문자/공백/'번' 접미사를 무시하고 비교하며(예: "n13", "140번"),
+ * 출발대기/운행종료 등 도착 예정 시간을 알 수 없는 버스는 제외합니다.
+ */
+export async function observeBusArrival(
+  arsId: string,
+  routeNumber: string,
+  signal?: AbortSignal
+): Promise<ArrivalObservation[]> {
+  const result = await fetchBusArrivals(arsId, signal);
+  const target = normalizeRouteNumber(routeNumber);
+
+  return result.items
+    .filter((item) => normalizeRouteNumber(item.rtNm) === target)
+    .flatMap((arrival) => parseBusArrivalEtas(arrival)
+      .filter((eta) => eta.etaSeconds !== undefined)
+      .map((eta) => ({
+        vehicleId: eta.plateNumber,
+        label: `${arrival.rtNm}번`,
+        message: eta.message,
+        etaSeconds: eta.etaSeconds,
+        stopsAway: eta.stopsRemaining
+      })))
+    .sort(byEta);
+}
+
+/** 도착 예정 시간 순 정렬 */
+function byEta(a: ArrivalObservation, b: ArrivalObservation): number {
+  return (a.etaSeconds ?? Infinity) - (b.etaSeconds ?? Infinity);
+}
+
+// ===== 도착 알림 =====
+
+/**
+ * 목표 열차/버스가 도착할 때까지 주기적으로 조회
+ *
+ * 처음 조회에서 가장 먼저 도착하는 열차/버스를 목표로 정하고, 이후에는 열차 번호/차량 번호로
+ * 목록 전체에서 같은 열차/버스를 찾아 추적합니다. 번호가 없으면 매번 가장 먼저 도착하는 열차/버스를 봅니다.
+ *
+ * 종료 조건:
+ * - reached: 도착까지 남은 시간이 기준 이하
+ * - passed: 지켜보던 열차/버스가 연속 ARRIVAL_WATCH.PASSED_MISSED_POLLS회 목록에 없음
+ *   (목록이 잠시 비거나 차량 번호가 한 번 빠지는 경우는 지나간 것으로 보지 않음)
+ * - timeout: 최대 대기 시간 경과
+ * - cancelled: 취소 신호 수신
+ *
+ * 일시적인 업스트림 오류는 다음 조회에서 재시도하고, 재시도해도 소용없는 오류(인증 오류 등)는 그대로 던집니다.
+ * 조회 함수에는 취소 신호가 전달되며, 조회 중에 취소되면 바로 cancelled로 종료합니다.
+ */
+export async function watchArrival(
+  observe: (signal?: AbortSignal) => Promise<ArrivalObservation[]>,
+  options: ArrivalWatchOptions
+): Promise<ArrivalWatchResult> {
+  const {
+    thresholdSeconds,
+    timeoutMs,
+    intervalMs = ARRIVAL_WATCH.POLL_INTERVAL_MS,
+    signal,
+    onUpdate,
+    now = Date.now,
+    sleep = (ms, abortSignal) => sleepFor(ms, undefined, { signal: abortSignal })
+  } = options;
+
+  const startedAt = now();
+  let polls = 0;
+  let tracked: ArrivalObservation | undefined;
+  let missedPolls = 0;
+  let observed = false;
+  let lastError: unknown;
+
+  const finish = (outcome: ArrivalWatchOutcome, observation?: ArrivalObservation): ArrivalWatchResult => ({
+    outcome,
+    polls,
+    elapsedMs: now() - startedAt,
+    observation,
+    lastError,
+    observed
+  });
+
+  while (!signal?.aborted) {
+    polls += 1;
+    let candidates: ArrivalObservation[] | undefined;
+    try {
+      candidates = await observe(signal);
+      observed = true;
+      lastError = undefined;
+    } catch (error) {
+      if (signal?.aborted) {
+        break;
+      }
+      if (error instanceof UpstreamError && !error.retryable) {
+        throw error;
+      }
+      lastError = error;
+      logger.warn("도착 알림 조회 실패", { poll: polls, error });
+    }
+
+    if (signal?.aborted) {
+      break;
+    }
+
+    let observation: ArrivalObservation | undefined;
+    if (candidates) {
+      observation = tracked?.vehicleId
+        ? candidates.find((candidate) => candidate.vehicleId === tracked?.vehicleId)
+        : candidates[0];
+      if (observation) {
+        tracked = observation;
+        missedPolls = 0;
+      } else if (tracked?.vehicleId && ++missedPolls >= ARRIVAL_WATCH.PASSED_MISSED_POLLS) {
+        return finish("passed", tracked);
+      }
+    }
+
+    await onUpdate?.({
+      poll: polls,
+      elapsedMs: now() - startedAt,
+      observation,
+      error: lastError
+    });
+
+    if (observation?.etaSeconds !== undefined && observation.etaSeconds <= thresholdSeconds) {
+      return finish("reached", observation);
+    }
+
+    const remainingMs = timeoutMs - (now() - startedAt);
+    if (remainingMs <= 0) {
+      return finish("timeout", tracked);
+    }
+    try {
+      await sleep(Math.min(intervalMs, remainingMs), signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        break;
+      }
+      throw error;
+    }
+  }
+
+  return finish("cancelled", tracked);
+}
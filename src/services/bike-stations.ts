@@ -0,0 +1,104 @@
+/**
+ * Korea Transit MCP Server - Bike Stations
+ *
+ * 따릉이 대여소 전체 현황 조회 및 검색 유틸리티
+ */
+
+import { fetchPageRanges, type PaginatedResult } from "./pagination.js";
+import { SnapshotLoader, type CacheMeta } from "./cache.js";
+import { SpatialIndex, parseCoordinate } from "./geo.js";
+import { API_ENDPOINTS, CACHE_TTL, PAGINATION } from "../constants.js";
+import type { BikeStation } from "../types.js";
+
+/** 따릉이 대여소 스냅샷 */
+export interface BikeStationSnapshot {
+  stations: BikeStation[];
+  spatial: SpatialIndex<BikeStation>;
+}
+
+/**
+ * bikeList API는 범위당 최대 1000건만 반환하므로 모든 범위(1-1000, 1001-2000, ...)를
+ * 병렬로 조회한 뒤 대여소 ID 기준으로 중복을 제거해 하나의 스냅샷으로 병합합니다.
+ * 병합 결과와 공간 색인은 따릉이 TTL 동안 재사용합니다.
+ */
+const bikeStationLoader = new SnapshotLoader<BikeStationSnapshot>(async () => {
+  const result = await fetchPageRanges<BikeStation>(
+    API_ENDPOINTS.BIKE_STATION,
+    { apiKey: "rentBikeStatus", cacheTtl: 0 },
+    PAGINATION.BIKE_MAX_PAGES
+  );
+
+  const byId = new Map<string, BikeStation>();
+  for (const station of result.items) {
+    if (station.stationId && !byId.has(station.stationId)) {
+      byId.set(station.stationId, station);
+    }
+  }
+  const stations = [...byId.values()];
+
+  const spatial = new SpatialIndex(stations, (s) => {
+    const latitude = parseCoordinate(s.stationLatitude);
+    const longitude = parseCoordinate(s.stationLongitude);
+    return latitude !== undefined && longitude !== undefined
+      ? { latitude, longitude }
+      : undefined;
+  });
+
+  return { stations, spatial };
+}, CACHE_TTL.BIKE_STATION);
+
+/**
+ * 전체 따릉이 대여소 스냅샷 조회 (대여소 목록 + 공간 색인)
+ */
+export async function getBikeStationSnapshot(): Promise<{
+  snapshot: BikeStationSnapshot;
+  cache: CacheMeta;
+}> {
+  const { value, cache } = await bikeStationLoader.get();
+  return { snapshot: value, cache };
+}
+
+/**
+ * 전체 따릉이 대여소 현황 조회
+ */
+export async function fetchBikeStations(): Promise<PaginatedResult<BikeStation>> {
+  const { snapshot, cache } = await getBikeStationSnapshot();
+  const items = snapshot.stations;
+
+  return {
+    items,
+    totalCount: items.length,
+    returnedCount: items.length,
+    cache
+  };
+}
+
+/**
+ * 대여소 이름으로 검색 (대소문자/공백 무시)
+ *
+ * 검색어로 시작하는 대여소(번호 접두어 제외)를 우선 정렬합니다.
+ */
+export function searchBikeStations(
+  stations: BikeStation[],
+  query: string,
+  limit: number
+): BikeStation[] {
+  const normalize = (value: string) => value.replace(/\s/gu, "").toLowerCase();
+  // 대여소명의 번호 접두어 제거 (예: "102. 망원역 1번출구 앞")
+  const stripNumber = (value: string) => value.replace(/^\d+\.\s*/u, "");
+
+  const normalizedQuery = normalize(query);
+  if (!normalizedQuery) {
+    return [];
+  }
+
+  return stations
+    .filter((s) => s.stationName && normalize(s.stationName).includes(normalizedQuery))
+    .map((s) => ({
+      station: s,
+      starts: normalize(stripNumber(s.stationName)).startsWith(normalizedQuery)
+    }))
+    .sort((a, b) => Number(b.starts) - Number(a.starts))
+    .slice(0, limit)
+    .map((m) => m.station);
+}
@@ -0,0 +1,132 @@
+/**
+ * Korea Transit MCP Server - Bus Arrival
+ *
+ * 버스 도착 메시지("5분12초후[3번째 전]", "곧 도착" 등)를 남은 시간/정류장 수/상태로 해석하는 유틸리티
+ */
+
+import type {
+  BusArrival,
+  BusArrivalEta,
+  BusArrivalStatus,
+  BusCongestion
+} from "../types.js";
+
+// ===== 패턴 정의 =====
+
+/** 남은 시간 패턴 (예: "5분12초후", "5분후", "40초후") */
+const REMAINING_TIME_PATTERN = /(\d+)\s*분(?:\s*(\d+)\s*초)?\s*후|(\d+)\s*초\s*후/u;
+
+/** 남은 정류장 패턴 (예: "[3번째 전]") */
+const STOPS_REMAINING_PATTERN = /(\d+)\s*번째\s*전/u;
+
+/** 상태 메시지 패턴 (메시지 전체가 상태를 나타내는 경우) */
+const STATUS_PATTERNS: [RegExp, BusArrivalStatus][] = [
+  [/곧\s*도착/u, "곧도착"],
+  [/운행\s*종료/u, "운행종료"],
+  [/출발\s*대기/u, "출발대기"],
+  [/회차\s*대기/u, "회차대기"]
+];
+
+/** 막차 표시 패턴 */
+const LAST_BUS_PATTERN = /막차/u;
+
+/** 혼잡도 코드 → 혼잡도 */
+const CONGESTION_LEVELS: Record<string, BusCongestion> = {
+  "3": "여유",
+  "4": "보통",
+  "5": "혼잡",
+  "6": "매우혼잡"
+};
+
+/** 저상버스 차량 유형 코드 */
+const LOW_FLOOR_BUS_TYPE = "1";
+
+// ===== 파싱 함수 =====
+
+/**
+ * 도착 메시지에서 상태, 남은 시간(초), 남은 정류장 수 추출
+ */
+export function parseBusArrivalMessage(message: string): Pick<
+  BusArrivalEta,
+  "status" | "etaSeconds" | "stopsRemaining"
+> {
+  const text = message?.trim() ?? "";
+  const time = text.match(REMAINING_TIME_PATTERN);
+  const stops = text.match(STOPS_REMAINING_PATTERN);
+  const stopsRemaining = stops ? Number(stops[1]) : undefined;
+
+  if (time) {
+    const etaSeconds = time[3] !== undefined
+      ? Number(time[3])
+      : Number(time[1]) * 60 + Number(time[2] ?? 0);
+    return { status: "운행중", etaSeconds, stopsRemaining };
+  }
+
+  for (const [pattern, status] of STATUS_PATTERNS) {
+    if (pattern.test(text)) {
+      return status === "곧도착"
+        ? { status, etaSeconds: 0, stopsRemaining: stopsRemaining ?? 0 }
+        : { status };
+    }
+  }
+
+  return stopsRemaining !== undefined
+    ? { status: "운행중", stopsRemaining }
+    : { status: "정보없음" };
+}
+
+/**
+ * 숫자 필드 파싱 (빈 값/숫자가 아닌 값은 undefined)
+ */
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * 첫번째(1) 또는 두번째(2) 버스의 도착 예정 정보
+ *
+ * 메시지에 남은 시간이 없으면 traTime, 남은 정류장 수가 없으면 정류장 순번 차이를 사용합니다.
+ */
+function parseBusArrivalSlot(arrival: BusArrival, slot: 1 | 2): BusArrivalEta {
+  const message = (slot === 1 ? arrival.arrmsg1 : arrival.arrmsg2) ?? "";
+  const parsed = parseBusArrivalMessage(message);
+  const running = parsed.status === "운행중" || parsed.status === "곧도착";
+
+  const travelTime = toNumber(slot === 1 ? arrival.traTime1 : arrival.traTime2);
+  const sectOrd = toNumber(slot === 1 ? arrival.sectOrd1 : arrival.sectOrd2);
+  const staOrd = toNumber(arrival.staOrd);
+
+  const etaSeconds = parsed.etaSeconds
+    ?? (running && travelTime !== undefined && travelTime > 0 ? travelTime : undefined);
+  const stopsRemaining = parsed.stopsRemaining
+    ?? (running && sectOrd !== undefined && staOrd !== undefined && staOrd >= sectOrd
+      ? staOrd - sectOrd
+      : undefined);
+
+  const plate = (slot === 1 ? arrival.plainNo1 : arrival.plainNo2)?.trim();
+  const busType = slot === 1 ? arrival.busType1 : arrival.busType2;
+  const congestion = slot === 1 ? arrival.congestion1 : arrival.congestion2;
+  const isLast = slot === 1 ? arrival.isLast1 : arrival.isLast2;
+
+  return {
+    message,
+    status: parsed.status,
+    etaSeconds,
+    stopsRemaining,
+    plateNumber: running && plate && plate !== "0" ? plate : undefined,
+    lowFloor: running && busType ? busType.trim() === LOW_FLOOR_BUS_TYPE : undefined,
+    congestion: running && congestion ? CONGESTION_LEVELS[congestion.trim()] : undefined,
+    lastBus: isLast === "1" || LAST_BUS_PATTERN.test(message)
+  };
+}
+
+/**
+ * 버스 도착정보를 첫번째/두번째 버스 도착 예정 정보로 해석
+ */
+export function parseBusArrivalEtas(arrival: BusArrival): [BusArrivalEta, BusArrivalEta] {
+  return [parseBusArrivalSlot(arrival, 1), parseBusArrivalSlot(arrival, 2)];
+}
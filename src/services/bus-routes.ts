@@ -0,0 +1,62 @@
+/**
+ * Korea Transit MCP Server - Bus Routes
+ *
+ * 버스 노선 검색 및 경유 정류장 조회 유틸리티
+ */
+
+import { fetchBusApiItems, type RealtimeResult } from "./realtime.js";
+import { encodeSearchQuery } from "./pagination.js";
+import { API_ENDPOINTS } from "../constants.js";
+import type { BusRoute, BusRouteStop } from "../types.js";
+
+/** 노선 번호 검색 결과 */
+export interface BusRouteLookup {
+  /** 노선 번호가 정확히 일치하는 노선 */
+  exact: BusRoute[];
+  /** 번호가 일부 일치하는 후보 노선 */
+  candidates: BusRoute[];
+}
+
+/**
+ * 노선 번호 정규화 (대소문자/공백/하이픈/'번' 접미사 무시, 예: "n13" → "N13", "140번" → "140")
+ */
+export function normalizeRouteNumber(value: string): string {
+  return value.replace(/[\s-]/gu, "").replace(/번$/u, "").toUpperCase();
+}
+
+/**
+ * 노선 번호로 노선 검색 (정규화한 번호로 검색, 예: "140번" → "140")
+ *
+ * @param routeNumber - 노선 번호 (예: "472", "N13")
+ */
+export async function lookupBusRoutes(
+  routeNumber: string
+): Promise<RealtimeResult<BusRoute> & BusRouteLookup> {
+  const target = normalizeRouteNumber(routeNumber);
+  const url = `${API_ENDPOINTS.BUS_ROUTE_LIST}=${encodeSearchQuery(target)}`;
+  const result = await fetchBusApiItems<BusRoute>(url);
+
+  const exact = result.items.filter((r) => normalizeRouteNumber(r.busRouteNm) === target);
+  const candidates = result.items
+    .filter((r) => normalizeRouteNumber(r.busRouteNm) !== target)
+    .sort((a, b) => a.busRouteNm.length - b.busRouteNm.length);
+
+  return { ...result, exact, candidates };
+}
+
+/**
+ * 노선 경유 정류장 목록 조회 (순번 순)
+ *
+ * @param busRouteId - 노선 ID
+ */
+export async function fetchBusRouteStops(
+  busRouteId: string
+): Promise<RealtimeResult<BusRouteStop>> {
+  const url = `${API_ENDPOINTS.BUS_ROUTE_STATIONS}=${encodeSearchQuery(busRouteId)}`;
+  const result = await fetchBusApiItems<BusRouteStop>(url);
+
+  return {
+    ...result,
+    items: [...result.items].sort((a, b) => Number(a.seq) - Number(b.seq))
+  };
+}
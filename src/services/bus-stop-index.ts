@@ -0,0 +1,241 @@
+/**
+ * Korea Transit MCP Server - Bus Stop Index
+ *
+ * 서울시 전체 버스 정류장 색인 (전체 페이지 조회 후 로컬 검색)
+ */
+
+import { fetchAllPages } from "./pagination.js";
+import type { CacheMeta } from "./cache.js";
+import { SpatialIndex, parseCoordinate } from "./geo.js";
+import { logger } from "./logger.js";
+import {
+  API_ENDPOINTS,
+  PAGINATION,
+  BUS_STOP_INDEX_REFRESH_INTERVAL
+} from "../constants.js";
+import type { BusStation } from "../types.js";
+
+// ===== 타입 정의 =====
+
+/** 검색 일치 유형 (우선순위 순) */
+export type BusStopMatchType = "number" | "exact" | "prefix" | "substring";
+
+/** 정류장 검색 결과 */
+export interface BusStopMatch {
+  station: BusStation;
+  matchType: BusStopMatchType;
+}
+
+/** 색인 항목 */
+interface IndexedBusStop {
+  station: BusStation;
+  /** 정규화된 정류장명 */
+  normalizedName: string;
+}
+
+/** 일치 유형별 정렬 우선순위 */
+const MATCH_PRIORITY: Record<BusStopMatchType, number> = {
+  number: 0,
+  exact: 1,
+  prefix: 2,
+  substring: 3
+};
+
+// ===== 정규화 =====
+
+/**
+ * 검색용 정류장명 정규화 (공백/구두점 제거, 소문자)
+ */
+export function normalizeStopName(name: string): string {
+  return name
+    .replace(/[\s.·,()\-_/]/gu, "")
+    .toLowerCase();
+}
+
+/**
+ * 원본 행을 BusStation 형식으로 변환
+ */
+function toBusStation(row: BusStation): BusStation {
+  return {
+    ...row,
+    stNm: row.STOPS_NM || row.stNm || "",
+    arsId: row.STOPS_NO || row.arsId || ""
+  };
+}
+
+// ===== 색인 =====
+
+/**
+ * 버스 정류장 색인
+ */
+export class BusStopIndex {
+  private readonly stops: IndexedBusStop[];
+  private readonly byArsId = new Map<string, BusStation>();
+  private spatialIndex: SpatialIndex<BusStation> | undefined;
+
+  constructor(
+    rows: BusStation[],
+    /** 색인 생성 시각 (epoch ms) */
+    public readonly builtAt: number = Date.now()
+  ) {
+    this.stops = rows
+      .map(toBusStation)
+      .filter((s) => s.stNm && s.arsId)
+      .map((station) => ({
+        station,
+        normalizedName: normalizeStopName(station.stNm)
+      }));
+
+    for (const { station } of this.stops) {
+      this.byArsId.set(station.arsId, station);
+    }
+  }
+
+  /** 색인된 정류장 수 */
+  get size(): number {
+    return this.stops.length;
+  }
+
+  /** 전체 정류장 목록 */
+  get stations(): BusStation[] {
+    return this.stops.map((s) => s.station);
+  }
+
+  /** 좌표 기반 공간 색인 (최초 접근 시 생성) */
+  get spatial(): SpatialIndex<BusStation> {
+    if (!this.spatialIndex) {
+      this.spatialIndex = new SpatialIndex(this.stations, (s) => {
+        const latitude = parseCoordinate(s.YCRD);
+        const longitude = parseCoordinate(s.XCRD);
+        return latitude !== undefined && longitude !== undefined
+          ? { latitude, longitude }
+          : undefined;
+      });
+    }
+    return this.spatialIndex;
+  }
+
+  /**
+   * 정류장 번호로 조회
+   */
+  findByArsId(arsId: string): BusStation | undefined {
+    return this.byArsId.get(arsId);
+  }
+
+  /**
+   * 정류장 검색
+   *
+   * 우선순위: 정류장 번호 일치 > 이름 완전 일치 > 이름 접두 일치 > 이름 부분 일치
+   * 같은 우선순위 내에서는 이름이 짧을수록 앞에 옵니다.
+   */
+  search(query: string, limit: number): BusStopMatch[] {
+    const trimmed = query.trim();
+    const normalizedQuery = normalizeStopName(trimmed);
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    const isNumeric = /^\d+$/u.test(trimmed);
+    const matches: BusStopMatch[] = [];
+
+    for (const { station, normalizedName } of this.stops) {
+      let matchType: BusStopMatchType | undefined;
+
+      if (isNumeric && station.arsId === trimmed.padStart(5, "0")) {
+        matchType = "number";
+      } else if (normalizedName === normalizedQuery) {
+        matchType = "exact";
+      } else if (normalizedName.startsWith(normalizedQuery)
+        || (isNumeric && station.arsId.startsWith(trimmed))) {
+        matchType = "prefix";
+      } else if (normalizedName.includes(normalizedQuery)) {
+        matchType = "substring";
+      }
+
+      if (matchType) {
+        matches.push({ station, matchType });
+      }
+    }
+
+    matches.sort((a, b) =>
+      MATCH_PRIORITY[a.matchType] - MATCH_PRIORITY[b.matchType]
+      || a.station.stNm.length - b.station.stNm.length
+      || a.station.stNm.localeCompare(b.station.stNm, "ko")
+    );
+
+    return matches.slice(0, limit);
+  }
+
+  /**
+   * 색인 상태를 캐시 메타데이터 형식으로 반환
+   */
+  toCacheMeta(hit: boolean): CacheMeta {
+    return {
+      hit,
+      ageSeconds: Math.max(0, Math.round((Date.now() - this.builtAt) / 1000)),
+      ttlSeconds: Math.round(BUS_STOP_INDEX_REFRESH_INTERVAL / 1000)
+    };
+  }
+}
+
+// ===== 색인 관리 =====
+
+let currentIndex: BusStopIndex | undefined;
+let pendingBuild: Promise<BusStopIndex> | undefined;
+
+/**
+ * 전체 페이지를 조회하여 새 색인 생성
+ */
+export async function buildBusStopIndex(): Promise<BusStopIndex> {
+  const result = await fetchAllPages<BusStation>(
+    API_ENDPOINTS.BUS_STATION_SEARCH,
+    {
+      limit: PAGINATION.PAGE_SIZE * PAGINATION.INDEX_MAX_PAGES,
+      apiKey: "busStopLocationXyInfo",
+      // 색인 자체가 캐시 역할을 하므로 페이지 응답은 캐시하지 않음
+      cacheTtl: 0
+    },
+    PAGINATION.INDEX_MAX_PAGES
+  );
+
+  return new BusStopIndex(result.items);
+}
+
+/**
+ * 색인 재생성 (동시 요청은 하나로 병합)
+ */
+function refreshBusStopIndex(): Promise<BusStopIndex> {
+  if (!pendingBuild) {
+    pendingBuild = buildBusStopIndex()
+      .then((index) => {
+        currentIndex = index;
+        return index;
+      })
+      .finally(() => {
+        pendingBuild = undefined;
+      });
+  }
+  return pendingBuild;
+}
+
+/**
+ * 버스 정류장 색인 반환
+ *
+ * 색인이 없으면 생성을 기다리고, 갱신 주기가 지났으면
+ * 기존 색인을 반환하면서 백그라운드에서 갱신합니다.
+ *
+ * @returns 색인과 기존 색인 사용 여부
+ */
+export async function getBusStopIndex(): Promise<{ index: BusStopIndex; hit: boolean }> {
+  if (!currentIndex) {
+    return { index: await refreshBusStopIndex(), hit: false };
+  }
+
+  if (Date.now() - currentIndex.builtAt > BUS_STOP_INDEX_REFRESH_INTERVAL) {
+    refreshBusStopIndex().catch((error) => {
+      logger.error("버스 정류장 색인 갱신 실패", { error });
+    });
+  }
+
+  return { index: currentIndex, hit: true };
+}
@@ -0,0 +1,214 @@
+/**
+ * Korea Transit MCP Server - Response Cache
+ *
+ * 엔드포인트별 TTL이 적용된 API 응답 캐시
+ */
+
+import { API_ENDPOINTS, CACHE_TTL, CACHE_MAX_ENTRIES } from "../constants.js";
+
+// ===== 타입 정의 =====
+
+/** 캐시 항목 */
+export interface CacheEntry<T = unknown> {
+  /** 캐시된 값 */
+  value: T;
+  /** 저장 시각 (epoch ms) */
+  storedAt: number;
+  /** 만료 시각 (epoch ms) */
+  expiresAt: number;
+}
+
+/**
+ * 캐시 저장소 인터페이스
+ *
+ * 기본값은 메모리 LRU이며, Redis 등 외부 저장소로 교체할 수 있습니다.
+ */
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** 응답 캐시 메타데이터 (JSON 응답에 포함) */
+export interface CacheMeta {
+  /** 캐시 적중 여부 */
+  hit: boolean;
+  /** 데이터 경과 시간 (초) */
+  ageSeconds: number;
+  /** 적용된 TTL (초) */
+  ttlSeconds: number;
+}
+
+// ===== 메모리 LRU 저장소 =====
+
+/**
+ * 메모리 기반 LRU 캐시
+ *
+ * Map의 삽입 순서를 이용해 가장 오래 사용되지 않은 항목부터 제거합니다.
+ */
+export class MemoryLruCache implements CacheBackend {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = CACHE_MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // 최근 사용 항목으로 갱신
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /** 현재 저장된 항목 수 */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// ===== 캐시 저장소 관리 =====
+
+let cacheBackend: CacheBackend = new MemoryLruCache();
+
+/**
+ * 캐시 저장소 교체
+ */
+export function setCacheBackend(backend: CacheBackend): void {
+  cacheBackend = backend;
+}
+
+/**
+ * 현재 캐시 저장소 반환
+ */
+export function getCacheBackend(): CacheBackend {
+  return cacheBackend;
+}
+
+// ===== TTL 및 메타데이터 =====
+
+/**
+ * URL에 해당하는 엔드포인트의 TTL(ms) 반환
+ *
+ * @returns TTL (캐시 대상이 아니면 0)
+ */
+export function resolveCacheTtl(url: string): number {
+  for (const key of Object.keys(CACHE_TTL) as Array<keyof typeof CACHE_TTL>) {
+    if (url.startsWith(API_ENDPOINTS[key])) {
+      return CACHE_TTL[key];
+    }
+  }
+  return 0;
+}
+
+/**
+ * 캐시 항목으로부터 메타데이터 생성
+ */
+export function createCacheMeta(
+  entry: CacheEntry,
+  hit: boolean
+): CacheMeta {
+  return {
+    hit,
+    ageSeconds: Math.max(0, Math.round((Date.now() - entry.storedAt) / 1000)),
+    ttlSeconds: Math.round((entry.expiresAt - entry.storedAt) / 1000)
+  };
+}
+
+/**
+ * 여러 요청의 캐시 메타데이터 병합
+ *
+ * 모든 요청이 적중한 경우에만 hit이며, 경과 시간은 가장 오래된 값을 사용합니다.
+ */
+export function mergeCacheMeta(
+  metas: Array<CacheMeta | undefined>
+): CacheMeta | undefined {
+  const defined = metas.filter((m): m is CacheMeta => m !== undefined);
+  if (defined.length === 0) {
+    return undefined;
+  }
+
+  return {
+    hit: defined.every((m) => m.hit),
+    ageSeconds: Math.max(...defined.map((m) => m.ageSeconds)),
+    ttlSeconds: Math.min(...defined.map((m) => m.ttlSeconds))
+  };
+}
+
+// ===== 스냅샷 로더 =====
+
+/**
+ * TTL 동안 가공된 데이터 스냅샷(색인 등)을 메모리에 보관하는 로더
+ *
+ * 원본 응답이 아닌 가공 결과를 재사용해야 할 때 사용하며,
+ * 같은 시점의 동시 요청은 하나의 로드로 병합합니다.
+ */
+export class SnapshotLoader<T> {
+  private entry: CacheEntry<T> | undefined;
+  private pending: Promise<CacheEntry<T>> | undefined;
+
+  constructor(
+    private readonly load: () => Promise<T>,
+    private readonly ttl: number
+  ) {}
+
+  /**
+   * 스냅샷 반환 (만료 시 다시 로드)
+   */
+  async get(): Promise<{ value: T; cache: CacheMeta }> {
+    if (this.entry && this.entry.expiresAt > Date.now()) {
+      return { value: this.entry.value, cache: createCacheMeta(this.entry, true) };
+    }
+
+    if (!this.pending) {
+      this.pending = this.load()
+        .then((value) => {
+          const storedAt = Date.now();
+          this.entry = { value, storedAt, expiresAt: storedAt + this.ttl };
+          return this.entry;
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+
+    const entry = await this.pending;
+    return { value: entry.value, cache: createCacheMeta(entry, false) };
+  }
+
+  /**
+   * 보관 중인 스냅샷 폐기
+   */
+  invalidate(): void {
+    this.entry = undefined;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Korea Transit MCP Server - Calendar
+ *
+ * 한국 표준시(KST) 날짜 계산 및 공휴일 판정 유틸리티
+ */
+
+import {
+  FIXED_PUBLIC_HOLIDAYS,
+  VARIABLE_PUBLIC_HOLIDAYS,
+  SUBWAY_TIMETABLE
+} from "../constants.js";
+import type { SubwayDayType } from "../types.js";
+
+// ===== 타입 정의 =====
+
+/** KST 기준 날짜와 시각 */
+export interface KstDateTime {
+  /** 날짜 (YYYY-MM-DD) */
+  date: string;
+  /** 자정 이후 경과 분 */
+  minutes: number;
+}
+
+/** KST 오프셋 (ms) */
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** 하루 (ms) */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===== 날짜 계산 =====
+
+/**
+ * 현재 KST 날짜와 시각
+ */
+export function getKstNow(now: Date = new Date()): KstDateTime {
+  const kst = new Date(now.getTime() + KST_OFFSET_MS);
+  return {
+    date: kst.toISOString().slice(0, 10),
+    minutes: kst.getUTCHours() * 60 + kst.getUTCMinutes()
+  };
+}
+
+/**
+ * 현재 열차 운행일 (KST)
+ *
+ * 새벽(SUBWAY_TIMETABLE.SERVICE_DAY_START_HOUR 이전)은 전날 운행일로 보고,
+ * 시각은 24시 이후 값(예: 00:30 → 24:30)으로 반환합니다.
+ */
+export function getServiceDayNow(now: Date = new Date()): KstDateTime {
+  const kst = getKstNow(now);
+  if (kst.minutes < SUBWAY_TIMETABLE.SERVICE_DAY_START_HOUR * 60) {
+    return { date: addDays(kst.date, -1), minutes: kst.minutes + 24 * 60 };
+  }
+  return kst;
+}
+
+/**
+ * KST 일시 문자열 파싱
+ *
+ * @param text - "YYYY-MM-DD HH:MM:SS" 또는 "YYYY-MM-DDTHH:MM:SS" (KST, 오프셋 없음)
+ */
+export function parseKstDateTime(text: string): Date | undefined {
+  const match = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2})?)/u.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  const parsed = Date.parse(`${match[1]}T${match[2]}+09:00`);
+  return Number.isNaN(parsed) ? undefined : new Date(parsed);
+}
+
+/**
+ * 시각을 KST ISO 8601 문자열로 변환 (예: "2025-01-06T08:12:00+09:00")
+ */
+export function formatKstDateTime(date: Date): string {
+  const kst = new Date(date.getTime() + KST_OFFSET_MS);
+  return `${kst.toISOString().slice(0, 19)}+09:00`;
+}
+
+/**
+ * 날짜 문자열(YYYY-MM-DD)에 일 수 더하기
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * 유효한 날짜 문자열(YYYY-MM-DD)인지 확인
+ */
+export function isValidDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/u.test(date)) {
+    return false;
+  }
+  const parsed = Date.parse(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed) && new Date(parsed).toISOString().startsWith(date);
+}
+
+// ===== 공휴일 =====
+
+/**
+ * 공휴일 여부 (일요일 제외)
+ *
+ * @param date - 날짜 (YYYY-MM-DD)
+ */
+export function isPublicHoliday(date: string): boolean {
+  const year = Number(date.slice(0, 4));
+  const monthDay = date.slice(5);
+  return FIXED_PUBLIC_HOLIDAYS.includes(monthDay)
+    || (VARIABLE_PUBLIC_HOLIDAYS[year]?.includes(monthDay) ?? false);
+}
+
+/**
+ * 날짜에 적용되는 지하철 시간표 구분
+ *
+ * 일요일과 공휴일은 휴일, 공휴일이 아닌 토요일은 토요일 시간표를 사용합니다.
+ *
+ * @param date - 날짜 (YYYY-MM-DD, KST)
+ */
+export function getSubwayDayType(date: string): SubwayDayType {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (weekday === 0 || isPublicHoliday(date)) {
+    return "holiday";
+  }
+  return weekday === 6 ? "saturday" : "weekday";
+}
@@ -4,14 +4,46 @@
  * 응답 포맷팅 유틸리티 (Markdown/JSON)
  */
 
-import { SUBWAY_LINE_MAP, BUS_TYPE_MAP } from "../constants.js";
+import { SUBWAY_LINE_MAP, BUS_TYPE_MAP, SERVER_INFO } from "../constants.js";
 import { ResponseFormat } from "../schemas/common.js";
+import type { CacheMeta } from "./cache.js";
+import type { StationMatchType } from "./station-registry.js";
+import type { MetricsSummary } from "./metrics.js";
+import type { CircuitBreakerSnapshot } from "./resilience.js";
+import type { QuotaUsage } from "./quota.js";
+import type { ArrivalObservation, ArrivalWatchResult } from "./arrival-watch.js";
+import { parseSubwayArrivalEta, toSubwayDirection } from "./subway-arrival.js";
+import { normalizeLineName } from "./subway-timetable.js";
+import { parseBusArrivalEtas } from "./bus-arrival.js";
+import type {
+  SubwayArrivalOutput,
+  SubwayStatusOutput,
+  SubwayTimetableOutput,
+  BusArrivalOutput,
+  BusStationSearchOutput,
+  BusRouteOutput,
+  BikeStationOutput,
+  CombinedTransitOutput,
+  NearbyTransitOutput,
+  DiagnosticsOutput,
+  WatchArrivalOutput
+} from "../schemas/output.js";
 import type {
   SubwayArrival,
+  SubwayArrivalFilter,
+  SubwayArrivalGroup,
   SubwayStatus,
+  SubwayDayType,
+  SubwayTimetableResult,
+  StationRecord,
   BusArrival,
+  BusArrivalEta,
   BusStation,
-  BikeStation
+  BusRoute,
+  BusRouteDetail,
+  BikeStation,
+  NearbySourceFailure,
+  NearbyTransitResult
 } from "../types.js";
 
 // ===== 호선/버스 매핑 =====
@@ -32,110 +64,376 @@ export function getBusTypeName(typeCode: string): string {
 
 // ===== 지하철 포맷터 =====
 
+/**
+ * 입력한 역명이 다른 역명으로 해석된 경우의 안내 문구 (Markdown)
+ *
+ * @returns 안내 문구 (역명이 그대로 일치하면 빈 문자열)
+ */
+export function formatStationCorrection(
+  query: string,
+  station: StationRecord,
+  matchType: StationMatchType
+): string {
+  if (matchType === "exact") {
+    return "";
+  }
+  return `> 💡 '${query.trim()}' → '${station.name}'역 (${station.lines.join("·")})으로 조회했습니다.\n\n`;
+}
+
+/**
+ * 남은 시간 표시 (예: "약 3분 20초 후", "곧 도착")
+ */
+function formatEtaSeconds(seconds: number): string {
+  if (seconds < 30) {
+    return "곧 도착";
+  }
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (minutes === 0) {
+    return `약 ${rest}초 후`;
+  }
+  return rest > 0 ? `약 ${minutes}분 ${rest}초 후` : `약 ${minutes}분 후`;
+}
+
+/** 지하철 도착정보 표시 옵션 */
+export interface SubwayArrivalDisplayOptions {
+  /** 적용된 필터 */
+  filter?: SubwayArrivalFilter;
+  /** 호선/방향별 묶음 (지정 시 묶음 단위로 표시) */
+  groups?: SubwayArrivalGroup[];
+}
+
+/**
+ * 지하철 도착 열차 출력 항목
+ */
+function toSubwayArrivalItem(arr: SubwayArrival): SubwayArrivalOutput["arrivals"][number] {
+  return {
+    line: getSubwayLineName(arr.subwayId),
+    destination: arr.bstatnNm,
+    message: arr.arvlMsg2,
+    direction: arr.updnLine,
+    trainNumber: arr.btrainNo,
+    ...parseSubwayArrivalEta(arr)
+  };
+}
+
+/**
+ * 적용된 필터 (필터가 없으면 undefined)
+ */
+function getActiveFilter(filter?: SubwayArrivalFilter): SubwayArrivalFilter | undefined {
+  return filter && (filter.line || filter.direction || filter.destination) ? filter : undefined;
+}
+
+/**
+ * 지하철 도착정보 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toSubwayArrivalOutput(
+  arrivals: SubwayArrival[],
+  stationName: string,
+  cache?: CacheMeta,
+  options: SubwayArrivalDisplayOptions = {}
+): SubwayArrivalOutput {
+  return {
+    station: stationName,
+    count: arrivals.length,
+    filter: getActiveFilter(options.filter),
+    arrivals: arrivals.map(toSubwayArrivalItem),
+    groups: options.groups?.map((group) => ({
+      line: group.line,
+      direction: group.direction,
+      count: group.arrivals.length,
+      arrivals: group.arrivals.map(toSubwayArrivalItem)
+    })),
+    cache
+  };
+}
+
+/**
+ * 지하철 도착 열차 상세 (Markdown)
+ */
+function formatSubwayArrivalDetails(arr: SubwayArrival): string {
+  let md = `- **도착**: ${arr.arvlMsg2}\n`;
+  const eta = parseSubwayArrivalEta(arr);
+  if (eta.arrivalTime && eta.etaSeconds !== undefined) {
+    md += `- **예상 도착**: ${eta.arrivalTime.slice(11, 19)} (${formatEtaSeconds(eta.etaSeconds)})\n`;
+  }
+  if (eta.lastTrain) {
+    md += "- **막차**\n";
+  }
+  const arrow = toSubwayDirection(arr.updnLine) === "up" ? "⬆️" : "⬇️";
+  md += `- **방향**: ${arrow} ${arr.updnLine}\n`;
+  if (arr.btrainNo) {
+    md += `- **열차번호**: ${arr.btrainNo}\n`;
+  }
+  return md;
+}
+
 /**
  * 지하철 도착정보 포맷팅
  */
 export function formatSubwayArrivals(
   arrivals: SubwayArrival[],
   stationName: string,
-  format: ResponseFormat
+  format: ResponseFormat,
+  cache?: CacheMeta,
+  options: SubwayArrivalDisplayOptions = {}
 ): string {
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
-      station: stationName,
-      count: arrivals.length,
-      arrivals: arrivals.map((arr) => ({
-        line: getSubwayLineName(arr.subwayId),
-        destination: arr.bstatnNm,
-        message: arr.arvlMsg2,
-        direction: arr.updnLine,
-        trainNumber: arr.btrainNo
-      }))
-    }, null, 2);
+    return JSON.stringify(toSubwayArrivalOutput(arrivals, stationName, cache, options), null, 2);
   }
 
   // Markdown 형식
+  const filter = getActiveFilter(options.filter);
+  const filterText = filter
+    ? [
+      filter.line && normalizeLineName(filter.line),
+      filter.direction,
+      filter.destination && `${filter.destination}행`
+    ]
+      .filter(Boolean)
+      .join(" · ")
+    : "";
+
   if (arrivals.length === 0) {
-    return `## 🚇 ${stationName}역 도착정보\n\n현재 도착 예정 열차가 없습니다.`;
+    const suffix = filterText ? ` (필터: ${filterText})` : "";
+    return `## 🚇 ${stationName}역 도착정보\n\n현재 도착 예정 열차가 없습니다${suffix}.`;
   }
 
   let md = `## 🚇 ${stationName}역 실시간 도착정보\n\n`;
-  md += `> 총 ${arrivals.length}개의 열차 정보\n\n`;
+  md += `> 총 ${arrivals.length}개의 열차 정보${filterText ? ` | 필터: ${filterText}` : ""}\n\n`;
+
+  if (options.groups) {
+    options.groups.forEach((group) => {
+      md += `### ${group.line} ${group.direction}\n\n`;
+      group.arrivals.forEach((arr, idx) => {
+        md += `#### ${idx + 1}. ${arr.bstatnNm}행\n`;
+        md += formatSubwayArrivalDetails(arr);
+        md += "\n";
+      });
+    });
+    return md;
+  }
 
   arrivals.forEach((arr, idx) => {
     const lineName = getSubwayLineName(arr.subwayId);
     md += `### ${idx + 1}. ${lineName} - ${arr.bstatnNm}행\n`;
-    md += `- **도착**: ${arr.arvlMsg2}\n`;
-    md += `- **방향**: ${arr.updnLine === "상행" ? "⬆️ 상행" : "⬇️ 하행"}\n`;
-    if (arr.btrainNo) {
-      md += `- **열차번호**: ${arr.btrainNo}\n`;
-    }
+    md += formatSubwayArrivalDetails(arr);
     md += "\n";
   });
 
   return md;
 }
 
+/**
+ * 지하철 운행상태 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toSubwayStatusOutput(
+  statuses: SubwayStatus[],
+  line: string | undefined,
+  cache?: CacheMeta
+): SubwayStatusOutput {
+  return {
+    filter: line ? `${line}호선` : "전체",
+    count: statuses.length,
+    disruptionCount: statuses.filter((s) => s.statusType !== "정상").length,
+    statuses: statuses.map((s) => ({
+      line: s.subwayLine,
+      type: s.statusType,
+      status: s.subwayStatusMessage,
+      section: s.affectedSection,
+      cause: s.cause,
+      reportedAt: s.reportedAt
+    })),
+    cache
+  };
+}
+
 /**
  * 지하철 운행상태 포맷팅
  */
 export function formatSubwayStatus(
   statuses: SubwayStatus[],
   line: string | undefined,
-  format: ResponseFormat
+  format: ResponseFormat,
+  cache?: CacheMeta
 ): string {
+  const disrupted = statuses.filter((s) => s.statusType !== "정상");
+
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
-      filter: line ? `${line}호선` : "전체",
-      count: statuses.length,
-      statuses: statuses.map((s) => ({
-        line: s.subwayLine,
-        status: s.subwayStatusMessage
-      }))
-    }, null, 2);
+    return JSON.stringify(toSubwayStatusOutput(statuses, line, cache), null, 2);
   }
 
   // Markdown 형식
   const title = line ? `${line}호선` : "전체 호선";
   let md = `## 🚇 지하철 운행상태 (${title})\n\n`;
 
-  if (statuses.length === 0) {
-    md += "운행상태 정보가 없습니다.";
-    return md;
+  if (disrupted.length === 0) {
+    md += "✅ 현재 보고된 운행장애가 없습니다.\n\n";
   }
 
   statuses.forEach((s) => {
-    const statusEmoji = s.subwayStatusMessage.includes("정상") ? "✅" : "⚠️";
-    md += `- **${s.subwayLine}**: ${statusEmoji} ${s.subwayStatusMessage}\n`;
+    const statusEmoji = s.statusType === "운행중단" ? "⛔" : s.statusType === "지연" ? "⚠️" : "✅";
+    md += `### ${statusEmoji} ${s.subwayLine} - ${s.statusType}\n`;
+    md += `- **내용**: ${s.subwayStatusMessage}\n`;
+    if (s.affectedSection) {
+      md += `- **구간**: ${s.affectedSection}\n`;
+    }
+    if (s.cause) {
+      md += `- **원인**: ${s.cause}\n`;
+    }
+    if (s.reportedAt) {
+      md += `- **발생 시각**: ${s.reportedAt}\n`;
+    }
+    md += "\n";
   });
 
+  md += "> 출처: 서울 열린데이터광장 실시간 운행상태";
+
+  return md;
+}
+
+/** 시간표 구분 표시명 */
+const DAY_TYPE_NAMES: Record<SubwayDayType, string> = {
+  weekday: "평일",
+  saturday: "토요일",
+  holiday: "휴일"
+};
+
+/**
+ * 지하철 시간표 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toSubwayTimetableOutput(
+  result: SubwayTimetableResult,
+  cache?: CacheMeta
+): SubwayTimetableOutput {
+  return {
+    station: result.stationName,
+    date: result.date,
+    dayType: result.dayType,
+    dayTypeName: DAY_TYPE_NAMES[result.dayType],
+    fromTime: result.fromTime,
+    toTime: result.toTime,
+    timetables: result.timetables.map((t) => ({
+      line: t.line,
+      stationCode: t.stationCode,
+      direction: t.direction,
+      directionName: t.directionName,
+      count: t.entries.length,
+      trains: t.entries.map((e) => ({
+        time: e.time,
+        destination: e.destination,
+        trainNo: e.trainNo,
+        express: e.express
+      }))
+    })),
+    cache
+  };
+}
+
+/**
+ * 지하철 시간표 포맷팅
+ */
+export function formatSubwayTimetable(
+  result: SubwayTimetableResult,
+  format: ResponseFormat,
+  cache?: CacheMeta
+): string {
+  const dayTypeName = DAY_TYPE_NAMES[result.dayType];
+
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(toSubwayTimetableOutput(result, cache), null, 2);
+  }
+
+  // Markdown 형식
+  const range = result.fromTime || result.toTime
+    ? ` | ${result.fromTime ?? "첫차"} ~ ${result.toTime ?? "막차"}`
+    : "";
+  const title = result.stationName.endsWith("역") ? result.stationName : `${result.stationName}역`;
+  let md = `## 🕐 ${title} 시간표\n\n`;
+  md += `> ${result.date} (${dayTypeName} 시간표)${range}\n\n`;
+
+  result.timetables.forEach((t) => {
+    md += `### ${t.line} ${t.directionName}\n`;
+    if (t.entries.length === 0) {
+      md += "해당 시간대에 운행하는 열차가 없습니다.\n\n";
+      return;
+    }
+    t.entries.forEach((e) => {
+      const express = e.express ? " (급행)" : "";
+      md += `- **${e.time}** ${e.destination}행${express}\n`;
+    });
+    md += "\n";
+  });
+
+  md += "> 출처: 서울 열린데이터광장 역별 열차 시간표 (실제 운행은 지연될 수 있습니다)";
+
   return md;
 }
 
 // ===== 버스 포맷터 =====
 
 /**
- * 버스 도착정보 포맷팅
+ * 버스 한 대의 도착 예정 정보 출력 데이터 (원본 메시지 제외)
  */
-export function formatBusArrivals(
+function toBusArrivalEtaOutput(eta: BusArrivalEta): Omit<BusArrivalEta, "message"> {
+  const { message: _message, ...output } = eta;
+  return output;
+}
+
+/**
+ * 버스 도착 부가 정보 표시 (예: " · 저상 · 혼잡 · 서울74사1234")
+ */
+function formatBusArrivalExtras(eta: BusArrivalEta): string {
+  const extras = [
+    eta.lastBus ? "막차" : undefined,
+    eta.lowFloor ? "저상" : undefined,
+    eta.congestion,
+    eta.plateNumber
+  ].filter((e): e is string => Boolean(e));
+  return extras.map((e) => ` · ${e}`).join("");
+}
+
+/**
+ * 버스 도착정보 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toBusArrivalOutput(
   arrivals: BusArrival[],
   stationName: string,
   arsId: string,
-  format: ResponseFormat
-): string {
-  if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
-      station: stationName,
-      arsId,
-      count: arrivals.length,
-      arrivals: arrivals.map((arr) => ({
+  cache?: CacheMeta
+): BusArrivalOutput {
+  return {
+    station: stationName,
+    arsId,
+    count: arrivals.length,
+    arrivals: arrivals.map((arr) => {
+      const [first, second] = parseBusArrivalEtas(arr);
+      return {
         busNumber: arr.rtNm,
         type: getBusTypeName(arr.routeType),
         message1: arr.arrmsg1,
         message2: arr.arrmsg2,
-        destination: arr.adirection
-      }))
-    }, null, 2);
+        destination: arr.adirection,
+        first: toBusArrivalEtaOutput(first),
+        second: toBusArrivalEtaOutput(second)
+      };
+    }),
+    cache
+  };
+}
+
+/**
+ * 버스 도착정보 포맷팅
+ */
+export function formatBusArrivals(
+  arrivals: BusArrival[],
+  stationName: string,
+  arsId: string,
+  format: ResponseFormat,
+  cache?: CacheMeta
+): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(toBusArrivalOutput(arrivals, stationName, arsId, cache), null, 2);
   }
 
   // Markdown 형식
@@ -149,33 +447,47 @@ export function formatBusArrivals(
   arrivals.forEach((arr, idx) => {
     const busType = getBusTypeName(arr.routeType);
     md += `### ${idx + 1}. ${arr.rtNm}번 (${busType})\n`;
-    md += `- **첫 번째 버스**: ${arr.arrmsg1}\n`;
-    md += `- **두 번째 버스**: ${arr.arrmsg2}\n`;
+    const [first, second] = parseBusArrivalEtas(arr);
+    md += `- **첫 번째 버스**: ${arr.arrmsg1}${formatBusArrivalExtras(first)}\n`;
+    md += `- **두 번째 버스**: ${arr.arrmsg2}${formatBusArrivalExtras(second)}\n`;
     md += `- **종점**: ${arr.adirection}\n\n`;
   });
 
   return md;
 }
 
+/**
+ * 버스 정류장 검색 결과 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toBusStationSearchOutput(
+  stations: BusStation[],
+  query: string,
+  cache?: CacheMeta
+): BusStationSearchOutput {
+  return {
+    query,
+    count: stations.length,
+    stations: stations.map((s) => ({
+      name: s.stNm,
+      arsId: s.arsId,
+      nextStation: s.nxtStn,
+      direction: s.busRouteAbrv
+    })),
+    cache
+  };
+}
+
 /**
  * 버스 정류장 검색 결과 포맷팅
  */
 export function formatBusStations(
   stations: BusStation[],
   query: string,
-  format: ResponseFormat
+  format: ResponseFormat,
+  cache?: CacheMeta
 ): string {
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
-      query,
-      count: stations.length,
-      stations: stations.map((s) => ({
-        name: s.stNm,
-        arsId: s.arsId,
-        nextStation: s.nxtStn,
-        direction: s.busRouteAbrv
-      }))
-    }, null, 2);
+    return JSON.stringify(toBusStationSearchOutput(stations, query, cache), null, 2);
   }
 
   // Markdown 형식
@@ -204,28 +516,162 @@ export function formatBusStations(
   return md;
 }
 
+/**
+ * 버스 API 시각 문자열을 HH:MM으로 변환
+ *
+ * "20250106043000"(yyyyMMddHHmmss) 또는 "0430"(HHmm) 형식을 지원합니다.
+ */
+function formatBusTime(raw: string | undefined): string | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  const digits = raw.replace(/\D/gu, "");
+  if (digits.length >= 12) {
+    return `${digits.slice(8, 10)}:${digits.slice(10, 12)}`;
+  }
+  if (digits.length === 4) {
+    return `${digits.slice(0, 2)}:${digits.slice(2, 4)}`;
+  }
+  return raw;
+}
+
+/**
+ * 버스 노선 조회 결과 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toBusRouteOutput(
+  details: BusRouteDetail[],
+  candidates: BusRoute[],
+  routeNumber: string,
+  cache?: CacheMeta
+): BusRouteOutput {
+  return {
+    query: routeNumber,
+    count: details.length,
+    routes: details.map(({ route, stops }) => ({
+      busRouteId: route.busRouteId,
+      busNumber: route.busRouteNm,
+      type: getBusTypeName(route.routeType),
+      startStation: route.stStationNm,
+      endStation: route.edStationNm,
+      firstBus: formatBusTime(route.firstBusTm),
+      lastBus: formatBusTime(route.lastBusTm),
+      headwayMinutes: route.term ? Number(route.term) : undefined,
+      company: route.corpNm,
+      stopCount: stops.length,
+      stops: stops.map((stop) => ({
+        seq: Number(stop.seq),
+        name: stop.stationNm,
+        arsId: stop.arsId,
+        direction: stop.direction,
+        turnaround: stop.transYn === "Y"
+      }))
+    })),
+    candidates: candidates.map((route) => ({
+      busRouteId: route.busRouteId,
+      busNumber: route.busRouteNm,
+      type: getBusTypeName(route.routeType)
+    })),
+    cache
+  };
+}
+
+/**
+ * 버스 노선 조회 결과 포맷팅
+ *
+ * @param details - 번호가 일치하는 노선과 경유 정류장
+ * @param candidates - 번호가 일부 일치하는 후보 노선
+ */
+export function formatBusRoutes(
+  details: BusRouteDetail[],
+  candidates: BusRoute[],
+  routeNumber: string,
+  format: ResponseFormat,
+  cache?: CacheMeta
+): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(toBusRouteOutput(details, candidates, routeNumber, cache), null, 2);
+  }
+
+  // Markdown 형식
+  if (details.length === 0) {
+    let md = `## 🚌 버스 노선 검색: "${routeNumber}"\n\n`;
+    if (candidates.length === 0) {
+      return md + "검색 결과가 없습니다.";
+    }
+    md += "번호가 정확히 일치하는 노선이 없습니다. 다음 노선을 찾았습니다:\n\n";
+    candidates.forEach((route) => {
+      md += `- **${route.busRouteNm}번** (${getBusTypeName(route.routeType)}) `;
+      md += `${route.stStationNm} ↔ ${route.edStationNm}\n`;
+    });
+    return md;
+  }
+
+  let md = "";
+  details.forEach(({ route, stops }) => {
+    md += `## 🚌 ${route.busRouteNm}번 (${getBusTypeName(route.routeType)})\n\n`;
+    md += `> ${route.stStationNm} ↔ ${route.edStationNm} | 정류장 ${stops.length}개\n\n`;
+
+    const firstBus = formatBusTime(route.firstBusTm);
+    const lastBus = formatBusTime(route.lastBusTm);
+    if (firstBus || lastBus) {
+      md += `- **운행 시간**: ${firstBus ?? "-"} ~ ${lastBus ?? "-"}\n`;
+    }
+    if (route.term) {
+      md += `- **배차 간격**: ${route.term}분\n`;
+    }
+    if (route.corpNm) {
+      md += `- **운수사**: ${route.corpNm}\n`;
+    }
+    md += "\n### 경유 정류장\n\n";
+
+    stops.forEach((stop) => {
+      const turnaround = stop.transYn === "Y" ? " 🔄 회차" : "";
+      md += `${stop.seq}. ${stop.stationNm} (\`${stop.arsId}\`)${turnaround}\n`;
+    });
+    md += "\n";
+  });
+
+  md += "---\n";
+  md += "> 💡 **Tip**: 정류장 번호(arsId)로 도착정보를 조회할 수 있습니다.\n";
+
+  return md;
+}
+
 // ===== 따릉이 포맷터 =====
 
+/**
+ * 따릉이 대여소 정보 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toBikeStationOutput(
+  stations: BikeStation[],
+  query: string,
+  cache?: CacheMeta
+): BikeStationOutput {
+  return {
+    query,
+    count: stations.length,
+    stations: stations.map((s) => ({
+      name: s.stationName,
+      id: s.stationId,
+      available: Number(s.parkingBikeTotCnt),
+      rackTotal: Number(s.rackTotCnt),
+      shared: s.shared !== undefined ? Number(s.shared) : undefined
+    })),
+    cache
+  };
+}
+
 /**
  * 따릉이 대여소 정보 포맷팅
  */
 export function formatBikeStations(
   stations: BikeStation[],
   query: string,
-  format: ResponseFormat
+  format: ResponseFormat,
+  cache?: CacheMeta
 ): string {
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
-      query,
-      count: stations.length,
-      stations: stations.map((s) => ({
-        name: s.stationName,
-        id: s.stationId,
-        available: s.parkingBikeTotCnt,
-        rackTotal: s.rackTotCnt,
-        shared: s.shared
-      }))
-    }, null, 2);
+    return JSON.stringify(toBikeStationOutput(stations, query, cache), null, 2);
   }
 
   // Markdown 형식
@@ -256,6 +702,59 @@ export function formatBikeStations(
 
 // ===== 통합 포맷터 =====
 
+/**
+ * 통합 교통정보 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toCombinedTransitOutput(
+  location: string,
+  subway: SubwayArrival[],
+  bus: { stations: BusStation[]; arrivals: Map<string, BusArrival[]> },
+  bike: BikeStation[],
+  cache?: CacheMeta
+): CombinedTransitOutput {
+  return {
+    location,
+    subway: {
+      count: subway.length,
+      arrivals: subway.slice(0, 5).map((arr) => {
+        const { etaSeconds, arrivalTime } = parseSubwayArrivalEta(arr);
+        return {
+          line: getSubwayLineName(arr.subwayId),
+          destination: arr.bstatnNm,
+          message: arr.arvlMsg2,
+          etaSeconds,
+          arrivalTime
+        };
+      })
+    },
+    bus: {
+      stationCount: bus.stations.length,
+      stations: bus.stations.slice(0, 3).map((s) => ({
+        name: s.stNm,
+        arsId: s.arsId,
+        arrivals: (bus.arrivals.get(s.arsId) || []).slice(0, 3).map((arr) => {
+          const [{ etaSeconds, stopsRemaining }] = parseBusArrivalEtas(arr);
+          return {
+            busNumber: arr.rtNm,
+            message: arr.arrmsg1,
+            etaSeconds,
+            stopsRemaining
+          };
+        })
+      }))
+    },
+    bike: {
+      count: bike.length,
+      stations: bike.slice(0, 3).map((s) => ({
+        name: s.stationName,
+        available: Number(s.parkingBikeTotCnt),
+        total: Number(s.rackTotCnt)
+      }))
+    },
+    cache
+  };
+}
+
 /**
  * 통합 교통정보 포맷팅
  */
@@ -264,39 +763,11 @@ export function formatCombinedTransit(
   subway: SubwayArrival[],
   bus: { stations: BusStation[]; arrivals: Map<string, BusArrival[]> },
   bike: BikeStation[],
-  format: ResponseFormat
+  format: ResponseFormat,
+  cache?: CacheMeta
 ): string {
   if (format === ResponseFormat.JSON) {
-    return JSON.stringify({
-      location,
-      subway: {
-        count: subway.length,
-        arrivals: subway.slice(0, 5).map((arr) => ({
-          line: getSubwayLineName(arr.subwayId),
-          destination: arr.bstatnNm,
-          message: arr.arvlMsg2
-        }))
-      },
-      bus: {
-        stationCount: bus.stations.length,
-        stations: bus.stations.slice(0, 3).map((s) => ({
-          name: s.stNm,
-          arsId: s.arsId,
-          arrivals: (bus.arrivals.get(s.arsId) || []).slice(0, 3).map((arr) => ({
-            busNumber: arr.rtNm,
-            message: arr.arrmsg1
-          }))
-        }))
-      },
-      bike: {
-        count: bike.length,
-        stations: bike.slice(0, 3).map((s) => ({
-          name: s.stationName,
-          available: s.parkingBikeTotCnt,
-          total: s.rackTotCnt
-        }))
-      }
-    }, null, 2);
+    return JSON.stringify(toCombinedTransitOutput(location, subway, bus, bike, cache), null, 2);
   }
 
   // Markdown 형식
@@ -349,3 +820,291 @@ export function formatCombinedTransit(
 
   return md;
 }
+
+// ===== 주변 검색 포맷터 =====
+
+/**
+ * 주변 교통수단 검색 결과 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toNearbyTransitOutput(
+  result: NearbyTransitResult,
+  cache?: CacheMeta
+): NearbyTransitOutput {
+  return {
+    latitude: result.latitude,
+    longitude: result.longitude,
+    radius: result.radiusMeters,
+    subway: result.subwayStations.map((p) => ({
+      name: p.item.BLDN_NM,
+      line: p.item.ROUTE,
+      distance: p.distanceMeters,
+      walkingMinutes: p.walkingMinutes
+    })),
+    bus: result.busStations.map((p) => ({
+      name: p.item.stNm,
+      arsId: p.item.arsId,
+      distance: p.distanceMeters,
+      walkingMinutes: p.walkingMinutes
+    })),
+    bike: result.bikeStations.map((p) => ({
+      name: p.item.stationName,
+      id: p.item.stationId,
+      available: Number(p.item.parkingBikeTotCnt),
+      rackTotal: Number(p.item.rackTotCnt),
+      distance: p.distanceMeters,
+      walkingMinutes: p.walkingMinutes
+    })),
+    failed: result.failed,
+    cache
+  };
+}
+
+/** 주변 검색 데이터셋이 비었을 때 안내 (조회 실패면 실패 사유) */
+function formatNearbyEmpty(
+  result: NearbyTransitResult,
+  type: NearbySourceFailure["type"],
+  emptyMessage: string
+): string {
+  const failure = result.failed.find((f) => f.type === type);
+  return failure
+    ? `⚠️ 정보를 불러오지 못했습니다 (${failure.code}: ${failure.message})\n`
+    : `${emptyMessage}\n`;
+}
+
+/**
+ * 주변 교통수단 검색 결과 포맷팅
+ */
+export function formatNearbyTransit(
+  result: NearbyTransitResult,
+  format: ResponseFormat,
+  cache?: CacheMeta
+): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(toNearbyTransitOutput(result, cache), null, 2);
+  }
+
+  // Markdown 형식
+  let md = `# 📍 주변 교통수단 (반경 ${result.radiusMeters}m)\n\n`;
+  md += `> 기준 위치: ${result.latitude}, ${result.longitude}\n\n`;
+
+  md += `## 🚇 지하철역\n\n`;
+  if (result.subwayStations.length === 0) {
+    md += formatNearbyEmpty(result, "subway", "반경 내 지하철역이 없습니다.") + "\n";
+  } else {
+    result.subwayStations.forEach((p) => {
+      md += `- **${p.item.BLDN_NM}** (${p.item.ROUTE}) - ${p.distanceMeters}m, 도보 약 ${p.walkingMinutes}분\n`;
+    });
+    md += "\n";
+  }
+
+  md += `## 🚌 버스 정류장\n\n`;
+  if (result.busStations.length === 0) {
+    md += formatNearbyEmpty(result, "bus", "반경 내 버스 정류장이 없습니다.") + "\n";
+  } else {
+    result.busStations.forEach((p) => {
+      md += `- **${p.item.stNm}** (\`${p.item.arsId}\`) - ${p.distanceMeters}m, 도보 약 ${p.walkingMinutes}분\n`;
+    });
+    md += "\n";
+  }
+
+  md += `## 🚲 따릉이 대여소\n\n`;
+  if (result.bikeStations.length === 0) {
+    md += formatNearbyEmpty(result, "bike", "반경 내 따릉이 대여소가 없습니다.");
+  } else {
+    result.bikeStations.forEach((p) => {
+      md += `- **${p.item.stationName}**: ${p.item.parkingBikeTotCnt}대 이용가능 - ${p.distanceMeters}m, 도보 약 ${p.walkingMinutes}분\n`;
+    });
+  }
+
+  return md;
+}
+
+// ===== 진단 포맷터 =====
+
+/** 오류 코드별 횟수 표시 (예: "TIMEOUT 3, NO_DATA 1") */
+function formatErrorCounts(errorsByCode: Record<string, number>): string {
+  const entries = Object.entries(errorsByCode);
+  return entries.length > 0
+    ? entries.map(([code, count]) => `${code} ${count}`).join(", ")
+    : "-";
+}
+
+/**
+ * 서버 진단 정보 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toDiagnosticsOutput(
+  metrics: MetricsSummary,
+  circuitBreakers: CircuitBreakerSnapshot[],
+  quota: QuotaUsage[]
+): DiagnosticsOutput {
+  return {
+    server: {
+      name: SERVER_INFO.NAME,
+      version: SERVER_INFO.VERSION,
+      startedAt: metrics.startedAt,
+      uptimeSeconds: metrics.uptimeSeconds
+    },
+    tools: metrics.tools,
+    upstreams: metrics.upstreams,
+    circuitBreakers: circuitBreakers.map((b) => ({
+      host: b.host,
+      state: b.state,
+      consecutiveFailures: b.consecutiveFailures,
+      retryAt: b.retryAt,
+      lastError: b.lastError
+    })),
+    quota: quota.map((q) => ({
+      key: q.key,
+      date: q.date,
+      used: q.used,
+      limit: q.limit,
+      remaining: q.remaining
+    }))
+  };
+}
+
+/**
+ * 서버 진단 정보 포맷팅
+ */
+export function formatDiagnostics(
+  output: DiagnosticsOutput,
+  format: ResponseFormat
+): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(output, null, 2);
+  }
+
+  // Markdown 형식
+  let md = `# 🩺 ${output.server.name} v${output.server.version} 진단 정보\n\n`;
+  md += `> 집계 시작: ${output.server.startedAt} (${output.server.uptimeSeconds}초 경과)\n\n`;
+
+  md += `## 🛠️ 도구 호출\n\n`;
+  if (output.tools.length === 0) {
+    md += "아직 호출된 도구가 없습니다.\n\n";
+  } else {
+    md += "| 도구 | 호출 | 오류 | 평균(ms) | 오류 코드 |\n|------|------|------|----------|-----------|\n";
+    output.tools.forEach((t) => {
+      md += `| ${t.tool} | ${t.calls} | ${t.errors} | ${t.avgLatencyMs} | ${formatErrorCounts(t.errorsByCode)} |\n`;
+    });
+    md += "\n";
+  }
+
+  md += `## 🌐 업스트림 API\n\n`;
+  if (output.upstreams.length === 0) {
+    md += "아직 업스트림 요청이 없습니다.\n\n";
+  } else {
+    md += "| 엔드포인트 | 요청 | 오류 | 평균(ms) | 캐시 적중률 | 오류 코드 |\n|------------|------|------|----------|-------------|-----------|\n";
+    output.upstreams.forEach((u) => {
+      const hitRatio = u.cacheHitRatio !== undefined ? `${Math.round(u.cacheHitRatio * 100)}%` : "-";
+      md += `| ${u.endpoint} | ${u.requests} | ${u.errors} | ${u.avgLatencyMs} | ${hitRatio} | ${formatErrorCounts(u.errorsByCode)} |\n`;
+    });
+    md += "\n";
+  }
+
+  md += `## 🔌 서킷 브레이커\n\n`;
+  if (output.circuitBreakers.length === 0) {
+    md += "요청한 호스트가 없습니다.\n\n";
+  } else {
+    output.circuitBreakers.forEach((b) => {
+      const emoji = b.state === "closed" ? "🟢" : b.state === "half_open" ? "🟡" : "🔴";
+      md += `- ${emoji} **${b.host}**: ${b.state} (연속 실패 ${b.consecutiveFailures}회)`;
+      if (b.retryAt) {
+        md += `, 재시도 ${b.retryAt}`;
+      }
+      if (b.lastError) {
+        md += `, 마지막 오류 ${b.lastError}`;
+      }
+      md += "\n";
+    });
+    md += "\n";
+  }
+
+  md += `## 📊 일일 호출 수 (KST)\n\n`;
+  output.quota.forEach((q) => {
+    const limit = q.limit !== undefined ? ` / ${q.limit}회 (남은 호출 ${q.remaining}회)` : "회";
+    md += `- **${q.key}** (${q.date}): ${q.used}${limit}\n`;
+  });
+
+  return md;
+}
+
+// ===== 도착 알림 포맷터 =====
+
+/** 도착 알림 종료 사유 표시 */
+const WATCH_OUTCOME_LABELS: Record<WatchArrivalOutput["outcome"], string> = {
+  reached: "✅ 곧 도착합니다",
+  passed: "⚠️ 지켜보던 열차/버스가 지나갔습니다",
+  timeout: "⏰ 최대 대기 시간이 지났습니다",
+  cancelled: "🛑 알림이 취소되었습니다"
+};
+
+/**
+ * 도착 알림 진행 메시지 (예: "2호선 성수행 약 4분 후 (2정거장 전)")
+ */
+export function formatArrivalWatchProgress(observation: ArrivalObservation | undefined): string {
+  if (!observation) {
+    return "도착 예정인 열차/버스를 찾는 중";
+  }
+  let text = `${observation.label} ${observation.etaSeconds !== undefined ? formatEtaSeconds(observation.etaSeconds) : observation.message}`;
+  if (observation.stopsAway !== undefined && observation.stopsAway > 0) {
+    text += ` (${observation.stopsAway}정거장 전)`;
+  }
+  return text;
+}
+
+/**
+ * 도착 알림 출력 데이터 (structuredContent 및 JSON 응답)
+ */
+export function toWatchArrivalOutput(
+  mode: WatchArrivalOutput["mode"],
+  target: string,
+  thresholdMinutes: number,
+  result: ArrivalWatchResult
+): WatchArrivalOutput {
+  const vehicle = result.observation;
+  return {
+    mode,
+    target,
+    outcome: result.outcome,
+    thresholdMinutes,
+    polls: result.polls,
+    elapsedSeconds: Math.round(result.elapsedMs / 1000),
+    vehicle: vehicle && {
+      label: vehicle.label,
+      vehicleId: vehicle.vehicleId,
+      message: vehicle.message,
+      etaSeconds: vehicle.etaSeconds,
+      stopsAway: vehicle.stopsAway
+    }
+  };
+}
+
+/**
+ * 도착 알림 결과 포맷팅
+ */
+export function formatWatchArrival(
+  output: WatchArrivalOutput,
+  format: ResponseFormat
+): string {
+  if (format === ResponseFormat.JSON) {
+    return JSON.stringify(output, null, 2);
+  }
+
+  // Markdown 형식
+  let md = `# 🔔 ${output.target} 도착 알림\n\n`;
+  md += `**${WATCH_OUTCOME_LABELS[output.outcome]}**\n\n`;
+  if (output.vehicle) {
+    md += `- 열차/버스: ${output.vehicle.label}`;
+    if (output.vehicle.vehicleId) {
+      md += ` (${output.vehicle.vehicleId})`;
+    }
+    md += "\n";
+    md += `- 마지막 도착정보: ${formatArrivalWatchProgress(output.vehicle)}\n`;
+  } else {
+    md += "- 기준 시간 안에 도착 예정인 열차/버스를 찾지 못했습니다\n";
+  }
+  md += `- 알림 기준: 도착 ${output.thresholdMinutes}분 전\n`;
+  md += `- 확인 횟수: ${output.polls}회 (${output.elapsedSeconds}초 경과)\n`;
+
+  return md;
+}
@@ -0,0 +1,142 @@
+/**
+ * Korea Transit MCP Server - Geo
+ *
+ * 거리 계산 및 격자 기반 공간 색인 유틸리티
+ */
+
+import { NEARBY } from "../constants.js";
+import type { NearbyPlace } from "../types.js";
+
+// ===== 타입 정의 =====
+
+/** 위경도 좌표 */
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// ===== 거리 계산 =====
+
+/** 지구 반지름 (m) */
+const EARTH_RADIUS_METERS = 6371000;
+
+/** 위도 1도당 거리 (m) */
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * 두 좌표 사이의 직선 거리 (Haversine, m)
+ */
+export function haversineDistance(a: Coordinates, b: Coordinates): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * 직선 거리로부터 도보 시간(분) 추정
+ *
+ * 실제 보행 경로는 직선보다 길기 때문에 NEARBY.WALKING_ROUTE_FACTOR를 곱합니다.
+ */
+export function estimateWalkingMinutes(distanceMeters: number): number {
+  const routeMeters = distanceMeters * NEARBY.WALKING_ROUTE_FACTOR;
+  return Math.max(1, Math.ceil(routeMeters / NEARBY.WALKING_SPEED_M_PER_MIN));
+}
+
+/**
+ * 문자열/숫자 좌표를 숫자로 변환 (유효하지 않으면 undefined)
+ */
+export function parseCoordinate(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) && parsed !== 0 ? parsed : undefined;
+}
+
+// ===== 공간 색인 =====
+
+/**
+ * 격자 기반 공간 색인
+ *
+ * 좌표를 NEARBY.GRID_CELL_DEGREES 크기의 격자로 나누어 저장하고,
+ * 반경 검색 시 반경에 걸치는 격자만 확인합니다.
+ */
+export class SpatialIndex<T> {
+  private readonly cells = new Map<string, Array<{ item: T; point: Coordinates }>>();
+  private count = 0;
+
+  constructor(
+    items: T[],
+    locate: (item: T) => Coordinates | undefined,
+    private readonly cellDegrees: number = NEARBY.GRID_CELL_DEGREES
+  ) {
+    for (const item of items) {
+      const point = locate(item);
+      if (!point) {
+        continue;
+      }
+      const key = this.cellKey(this.cellOf(point.latitude), this.cellOf(point.longitude));
+      const bucket = this.cells.get(key);
+      if (bucket) {
+        bucket.push({ item, point });
+      } else {
+        this.cells.set(key, [{ item, point }]);
+      }
+      this.count++;
+    }
+  }
+
+  /** 색인된 항목 수 */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * 반경 내 항목을 거리순으로 조회
+   */
+  nearby(center: Coordinates, radiusMeters: number, limit: number): NearbyPlace<T>[] {
+    const latDelta = radiusMeters / METERS_PER_DEGREE;
+    const lngDelta = radiusMeters
+      / (METERS_PER_DEGREE * Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01));
+
+    const minLat = this.cellOf(center.latitude - latDelta);
+    const maxLat = this.cellOf(center.latitude + latDelta);
+    const minLng = this.cellOf(center.longitude - lngDelta);
+    const maxLng = this.cellOf(center.longitude + lngDelta);
+
+    const results: NearbyPlace<T>[] = [];
+    for (let latCell = minLat; latCell <= maxLat; latCell++) {
+      for (let lngCell = minLng; lngCell <= maxLng; lngCell++) {
+        const bucket = this.cells.get(this.cellKey(latCell, lngCell));
+        if (!bucket) {
+          continue;
+        }
+        for (const { item, point } of bucket) {
+          const distanceMeters = haversineDistance(center, point);
+          if (distanceMeters <= radiusMeters) {
+            results.push({
+              item,
+              distanceMeters: Math.round(distanceMeters),
+              walkingMinutes: estimateWalkingMinutes(distanceMeters)
+            });
+          }
+        }
+      }
+    }
+
+    return results
+      .sort((a, b) => a.distanceMeters - b.distanceMeters)
+      .slice(0, limit);
+  }
+
+  private cellOf(degrees: number): number {
+    return Math.floor(degrees / this.cellDegrees);
+  }
+
+  private cellKey(latCell: number, lngCell: number): string {
+    return `${latCell}:${lngCell}`;
+  }
+}
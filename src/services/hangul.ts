@@ -0,0 +1,103 @@
+/**
+ * Korea Transit MCP Server - Hangul
+ *
+ * 한글 초성 추출, 자모 분해, 편집 거리 계산 유틸리티
+ */
+
+/** 한글 음절 범위 */
+const SYLLABLE_START = 0xac00;
+const SYLLABLE_END = 0xd7a3;
+
+/** 중성 × 종성 조합 수 */
+const JUNG_JONG_COUNT = 21 * 28;
+
+/** 초성 (호환용 자모) */
+const CHOSEONG = [
+  "ㄱ", "ㄲ", "ㄴ", "ㄷ", "ㄸ", "ㄹ", "ㅁ", "ㅂ", "ㅃ", "ㅅ",
+  "ㅆ", "ㅇ", "ㅈ", "ㅉ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ"
+];
+
+/** 중성 (호환용 자모) */
+const JUNGSEONG = [
+  "ㅏ", "ㅐ", "ㅑ", "ㅒ", "ㅓ", "ㅔ", "ㅕ", "ㅖ", "ㅗ", "ㅘ",
+  "ㅙ", "ㅚ", "ㅛ", "ㅜ", "ㅝ", "ㅞ", "ㅟ", "ㅠ", "ㅡ", "ㅢ", "ㅣ"
+];
+
+/** 종성 (호환용 자모, 첫 항목은 받침 없음) */
+const JONGSEONG = [
+  "", "ㄱ", "ㄲ", "ㄳ", "ㄴ", "ㄵ", "ㄶ", "ㄷ", "ㄹ", "ㄺ",
+  "ㄻ", "ㄼ", "ㄽ", "ㄾ", "ㄿ", "ㅀ", "ㅁ", "ㅂ", "ㅄ", "ㅅ",
+  "ㅆ", "ㅇ", "ㅈ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ"
+];
+
+/**
+ * 한글 음절 여부
+ */
+function isSyllable(code: number): boolean {
+  return code >= SYLLABLE_START && code <= SYLLABLE_END;
+}
+
+/**
+ * 초성 추출 (한글 음절이 아닌 문자는 그대로 유지)
+ *
+ * @example getChoseong("강남") // "ㄱㄴ"
+ */
+export function getChoseong(text: string): string {
+  return Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    return isSyllable(code)
+      ? CHOSEONG[Math.floor((code - SYLLABLE_START) / JUNG_JONG_COUNT)]
+      : char;
+  }).join("");
+}
+
+/**
+ * 초성으로만 이루어진 문자열인지 확인
+ */
+export function isChoseongOnly(text: string): boolean {
+  return text.length > 0 && Array.from(text).every((char) => CHOSEONG.includes(char));
+}
+
+/**
+ * 한글 음절을 자모 단위로 분해 (오타 비교용)
+ *
+ * @example decomposeHangul("강") // "ㄱㅏㅇ"
+ */
+export function decomposeHangul(text: string): string {
+  return Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    if (!isSyllable(code)) {
+      return char;
+    }
+    const offset = code - SYLLABLE_START;
+    return CHOSEONG[Math.floor(offset / JUNG_JONG_COUNT)]
+      + JUNGSEONG[Math.floor((offset % JUNG_JONG_COUNT) / 28)]
+      + JONGSEONG[offset % 28];
+  }).join("");
+}
+
+/**
+ * 두 문자열 사이의 편집 거리 (Levenshtein)
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  const source = Array.from(a);
+  const target = Array.from(b);
+
+  let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[target.length];
+}
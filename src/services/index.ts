@@ -8,33 +8,287 @@
 export {
   ApiError,
   TimeoutError,
+  NetworkError,
   fetchWithTimeout,
   fetchJson,
+  fetchJsonCached,
   truncateResponse,
   formatErrorMessage,
+  describeError,
   createToolResponse,
   createErrorResponse,
-  type FetchOptions
+  type FetchOptions,
+  type CachedJson,
+  type ToolErrorInfo
 } from "./api-client.js";
 
+// Upstream Errors
+export {
+  UpstreamError,
+  SeoulApiResultError,
+  BusApiResultError,
+  MalformedResponseError,
+  UPSTREAM_ERROR_INFO,
+  classifyHttpStatus,
+  classifySeoulResultCode,
+  classifyBusHeaderCode,
+  type UpstreamErrorCode,
+  type UpstreamSource,
+  type UpstreamErrorDetails
+} from "./upstream-errors.js";
+
+// Resilience
+export {
+  CircuitBreaker,
+  CircuitOpenError,
+  getCircuitBreaker,
+  getCircuitBreakerStates,
+  resetCircuitBreakers,
+  computeBackoffDelay,
+  withRetry,
+  isTransientError,
+  type CircuitState,
+  type CircuitBreakerOptions,
+  type CircuitBreakerSnapshot,
+  type RetryOptions
+} from "./resilience.js";
+
+// Quota
+export {
+  QuotaLedger,
+  DailyQuotaExceededError,
+  getQuotaLedger,
+  setQuotaLedger,
+  resolveUpstreamKey,
+  type UpstreamKeyId,
+  type QuotaUsage
+} from "./quota.js";
+
+// Metrics
+export {
+  resolveEndpointName,
+  recordToolCall,
+  recordUpstreamRequest,
+  recordCacheLookup,
+  registerGauge,
+  renderPrometheusMetrics,
+  getMetricsSummary,
+  resetMetrics,
+  type MetricLabels,
+  type GaugeSample,
+  type ToolMetricsSummary,
+  type UpstreamMetricsSummary,
+  type MetricsSummary
+} from "./metrics.js";
+
+// Logger
+export {
+  Logger,
+  logger,
+  configureLogger,
+  resetLogger,
+  serializeError,
+  type LogLevel,
+  type LogFields,
+  type LogWriter,
+  type LoggerOptions
+} from "./logger.js";
+
+// Redaction
+export { redactSecrets } from "./redact.js";
+
+// Request Context
+export {
+  runWithRequestContext,
+  getRequestContext,
+  type RequestContext
+} from "./request-context.js";
+
+// Cache
+export {
+  MemoryLruCache,
+  setCacheBackend,
+  getCacheBackend,
+  resolveCacheTtl,
+  createCacheMeta,
+  mergeCacheMeta,
+  SnapshotLoader,
+  type CacheBackend,
+  type CacheEntry,
+  type CacheMeta
+} from "./cache.js";
+
 // Pagination
 export {
   fetchPaginatedData,
   fetchAllPages,
+  fetchPageRanges,
   encodeSearchQuery,
   type SeoulApiResponse,
   type PaginationOptions,
   type PaginatedResult
 } from "./pagination.js";
 
+// Realtime
+export {
+  fetchSubwayArrivals,
+  fetchBusArrivals,
+  fetchBusApiItems,
+  type SubwayRealtimeResponse,
+  type RealtimeResult,
+  type BusApiResponse
+} from "./realtime.js";
+
+// Subway Arrival
+export {
+  parseSubwayArrivalEta,
+  parseArrivalState,
+  toSubwayDirection,
+  matchesArrivalLine,
+  filterSubwayArrivals,
+  groupSubwayArrivals
+} from "./subway-arrival.js";
+
+// Bus Arrival
+export {
+  parseBusArrivalMessage,
+  parseBusArrivalEtas
+} from "./bus-arrival.js";
+
+// Bus Stop Index
+export {
+  BusStopIndex,
+  buildBusStopIndex,
+  getBusStopIndex,
+  normalizeStopName,
+  type BusStopMatch,
+  type BusStopMatchType
+} from "./bus-stop-index.js";
+
+// Bus Routes
+export {
+  lookupBusRoutes,
+  fetchBusRouteStops,
+  normalizeRouteNumber,
+  type BusRouteLookup
+} from "./bus-routes.js";
+
+// Bike Stations
+export {
+  fetchBikeStations,
+  getBikeStationSnapshot,
+  searchBikeStations,
+  type BikeStationSnapshot
+} from "./bike-stations.js";
+
+// Arrival Watch
+export {
+  observeSubwayArrival,
+  observeBusArrival,
+  watchArrival,
+  type ArrivalObservation,
+  type ArrivalWatchOutcome,
+  type ArrivalWatchUpdate,
+  type ArrivalWatchOptions,
+  type ArrivalWatchResult
+} from "./arrival-watch.js";
+
+// Subway Stations
+export {
+  getSubwayStations,
+  type SubwayStationSnapshot
+} from "./subway-stations.js";
+
+// Subway Timetable
+export {
+  findSubwayStationCodes,
+  fetchSubwayTimetable,
+  normalizeLineName,
+  matchesStationLine,
+  getDirectionName,
+  parseTimetableMinutes,
+  formatTimetableMinutes,
+  type SubwayStationLookup
+} from "./subway-timetable.js";
+
+// Station Registry
+export {
+  StationRegistry,
+  StationResolutionError,
+  buildStationRecords,
+  getStationRegistry,
+  resolveSubwayStation,
+  normalizeStationName,
+  describeStation,
+  type StationMatch,
+  type StationMatchType,
+  type ResolvedStation
+} from "./station-registry.js";
+
+// Hangul
+export {
+  getChoseong,
+  isChoseongOnly,
+  decomposeHangul,
+  editDistance
+} from "./hangul.js";
+
+// Calendar
+export {
+  getKstNow,
+  getServiceDayNow,
+  parseKstDateTime,
+  formatKstDateTime,
+  addDays,
+  isValidDate,
+  isPublicHoliday,
+  getSubwayDayType,
+  type KstDateTime
+} from "./calendar.js";
+
+// Geo
+export {
+  SpatialIndex,
+  haversineDistance,
+  estimateWalkingMinutes,
+  parseCoordinate,
+  type Coordinates
+} from "./geo.js";
+
+// Subway Status
+export {
+  classifySubwayStatus,
+  parseSubwayStatus,
+  matchesSubwayLine
+} from "./subway-status.js";
+
 // Formatters
 export {
   getSubwayLineName,
   getBusTypeName,
+  formatStationCorrection,
   formatSubwayArrivals,
   formatSubwayStatus,
+  formatSubwayTimetable,
   formatBusArrivals,
   formatBusStations,
+  formatBusRoutes,
   formatBikeStations,
-  formatCombinedTransit
+  formatCombinedTransit,
+  formatNearbyTransit,
+  formatDiagnostics,
+  formatWatchArrival,
+  formatArrivalWatchProgress,
+  toSubwayArrivalOutput,
+  toSubwayStatusOutput,
+  toSubwayTimetableOutput,
+  toBusArrivalOutput,
+  toBusStationSearchOutput,
+  toBusRouteOutput,
+  toBikeStationOutput,
+  toCombinedTransitOutput,
+  toNearbyTransitOutput,
+  toDiagnosticsOutput,
+  toWatchArrivalOutput,
+  type SubwayArrivalDisplayOptions
 } from "./formatters.js";
@@ -0,0 +1,196 @@
+/**
+ * Korea Transit MCP Server - Logger
+ *
+ * 구조화된(JSON 한 줄) 로그
+ *
+ * - 요청/도구 호출 컨텍스트(requestId, sessionId, tool, clientId)를 자동으로 포함
+ * - 모든 문자열 필드와 오류 메시지/스택에서 API 키를 가림
+ * - stdio 모드에서는 MCP 프로토콜 스트림(stdout)을 침범하지 않도록 모두 stderr로 출력
+ */
+
+import { LOGGING } from "../constants.js";
+import { getRequestContext } from "./request-context.js";
+import { redactSecrets } from "./redact.js";
+import { UpstreamError } from "./upstream-errors.js";
+
+// ===== 타입 정의 =====
+
+/** 로그 레벨 (silent는 출력하지 않음) */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/** 로그 필드 */
+export type LogFields = Record<string, unknown>;
+
+/** 로그 한 줄 출력 함수 */
+export type LogWriter = (level: Exclude<LogLevel, "silent">, line: string) => void;
+
+/** 로거 설정 */
+export interface LoggerOptions {
+  /** 최소 로그 레벨 */
+  level?: LogLevel;
+  /** 모든 로그를 stderr로 출력 (stdio 모드) */
+  stderrOnly?: boolean;
+  /** 출력 함수 (테스트용) */
+  writer?: LogWriter;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+// ===== 설정 =====
+
+function parseLogLevel(value: string): LogLevel {
+  return value in LEVEL_PRIORITY ? value as LogLevel : "info";
+}
+
+/** 기본 출력 (warn/error는 stderr, stderrOnly면 모두 stderr) */
+function createStreamWriter(stderrOnly: boolean): LogWriter {
+  return (level, line) => {
+    const stream = stderrOnly || level === "warn" || level === "error" ? process.stderr : process.stdout;
+    stream.write(`${line}\n`);
+  };
+}
+
+/** 최소 로그 레벨 (configureLogger로 지정하지 않으면 처음 출력할 때 LOG_LEVEL에서 결정) */
+let minLevel: LogLevel | undefined;
+let writeLine = createStreamWriter(false);
+
+function getMinLevel(): LogLevel {
+  minLevel ??= parseLogLevel(process.env.LOG_LEVEL || LOGGING.DEFAULT_LEVEL);
+  return minLevel;
+}
+
+/**
+ * 로거 설정 변경
+ *
+ * 생략한 항목은 기존 설정을 유지합니다. writer를 지정하면 stderrOnly는 무시됩니다.
+ */
+export function configureLogger(options: LoggerOptions): void {
+  if (options.level) {
+    minLevel = options.level;
+  }
+  if (options.writer) {
+    writeLine = options.writer;
+  } else if (options.stderrOnly !== undefined) {
+    writeLine = createStreamWriter(options.stderrOnly);
+  }
+}
+
+/**
+ * 로거 설정 초기화 (테스트용)
+ */
+export function resetLogger(): void {
+  minLevel = undefined;
+  writeLine = createStreamWriter(false);
+}
+
+// ===== 직렬화 =====
+
+/**
+ * 오류를 로그 필드로 변환 (API 키 가림, cause 포함)
+ */
+export function serializeError(error: unknown, depth: number = 0): LogFields {
+  if (!(error instanceof Error)) {
+    return { message: redactSecrets(String(error)) };
+  }
+
+  const fields: LogFields = {
+    name: error.name,
+    message: redactSecrets(error.message)
+  };
+  if (error instanceof UpstreamError) {
+    fields.code = error.code;
+    fields.upstreamCode = error.upstreamCode;
+    fields.upstreamMessage = error.upstreamMessage && redactSecrets(error.upstreamMessage);
+    fields.endpoint = error.endpoint;
+  } else if (error.stack) {
+    fields.stack = redactSecrets(error.stack);
+  }
+  if (error.cause !== undefined && depth < LOGGING.MAX_DEPTH) {
+    fields.cause = serializeError(error.cause, depth + 1);
+  }
+  return fields;
+}
+
+/** 필드 값 정리 (문자열 API 키 가림, 오류 직렬화) */
+function sanitize(value: unknown, depth: number = 0): unknown {
+  if (typeof value === "string") {
+    return redactSecrets(value);
+  }
+  if (value instanceof Error) {
+    return serializeError(value);
+  }
+  if (value instanceof URL) {
+    return redactSecrets(value.href);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= LOGGING.MAX_DEPTH) {
+    return "[Object]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, sanitize(item, depth + 1)])
+  );
+}
+
+// ===== 로거 =====
+
+/**
+ * 구조화된 로거
+ *
+ * 출력 형식: `{"time":"...","level":"info","msg":"...","requestId":"...","tool":"...",...}`
+ */
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  /**
+   * 고정 필드가 추가된 로거 (예: { component: "auth" })
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write("error", msg, fields);
+  }
+
+  private write(level: Exclude<LogLevel, "silent">, msg: string, fields: LogFields = {}): void {
+    if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[getMinLevel()]) {
+      return;
+    }
+
+    const record = sanitize({
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...getRequestContext(),
+      ...this.bindings,
+      ...fields
+    }) as LogFields;
+    writeLine(level, JSON.stringify(record));
+  }
+}
+
+/** 기본 로거 */
+export const logger = new Logger();
@@ -0,0 +1,369 @@
+/**
+ * Korea Transit MCP Server - Metrics
+ *
+ * 도구/업스트림/캐시 메트릭 집계와 Prometheus 텍스트 형식 출력 (/metrics)
+ *
+ * 집계는 프로세스(Vercel은 인스턴스) 단위이며, stdio 모드에서는 진단 도구로 요약을 제공합니다.
+ */
+
+import { API_ENDPOINTS, METRICS } from "../constants.js";
+import { getCircuitBreakerStates } from "./resilience.js";
+import { getQuotaLedger } from "./quota.js";
+import { UpstreamError } from "./upstream-errors.js";
+
+// ===== 타입 정의 =====
+
+/** 메트릭 레이블 */
+export type MetricLabels = Record<string, string>;
+
+/** 게이지 값 (레이블별) */
+export interface GaugeSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+/** 도구별 호출 요약 */
+export interface ToolMetricsSummary {
+  tool: string;
+  calls: number;
+  errors: number;
+  /** 오류 코드별 횟수 (예: TIMEOUT, NO_DATA) */
+  errorsByCode: Record<string, number>;
+  /** 평균 처리 시간 (ms) */
+  avgLatencyMs: number;
+}
+
+/** 업스트림 엔드포인트별 요청 요약 */
+export interface UpstreamMetricsSummary {
+  /** API_ENDPOINTS 항목 이름 (예: SUBWAY_ARRIVAL) */
+  endpoint: string;
+  /** 실제 요청 수 (재시도 포함) */
+  requests: number;
+  errors: number;
+  errorsByCode: Record<string, number>;
+  /** 평균 응답 시간 (ms) */
+  avgLatencyMs: number;
+  cacheHits: number;
+  cacheMisses: number;
+  /** 캐시 적중률 (0~1, 캐시 조회가 없으면 생략) */
+  cacheHitRatio?: number;
+}
+
+/** 메트릭 요약 (진단 도구용) */
+export interface MetricsSummary {
+  /** 집계 시작 시각 (ISO 8601) */
+  startedAt: string;
+  uptimeSeconds: number;
+  tools: ToolMetricsSummary[];
+  upstreams: UpstreamMetricsSummary[];
+}
+
+interface CounterSeries {
+  labels: MetricLabels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  /** 구간별 누적 횟수 (le 이하) */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+// ===== 메트릭 종류 =====
+
+function seriesKey(labels: MetricLabels): string {
+  return Object.entries(labels).map(([name, value]) => `${name}=${value}`).join(",");
+}
+
+/** 레이블 값 이스케이프 (\, ", 줄바꿈) */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/gu, "\\\\").replace(/"/gu, "\\\"").replace(/\n/gu, "\\n");
+}
+
+function formatLabels(labels: MetricLabels = {}): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatHeader(name: string, help: string, type: "counter" | "histogram" | "gauge"): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/** 누적 카운터 */
+class Counter {
+  private readonly series = new Map<string, CounterSeries>();
+
+  constructor(readonly name: string, private readonly help: string) {}
+
+  inc(labels: MetricLabels, value: number = 1): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  values(): CounterSeries[] {
+    return [...this.series.values()];
+  }
+
+  render(): string[] {
+    return [
+      ...formatHeader(this.name, this.help, "counter"),
+      ...this.values().map((s) => `${this.name}${formatLabels(s.labels)} ${s.value}`)
+    ];
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/** 지연 시간 히스토그램 (초 단위) */
+class Histogram {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly bounds: readonly number[] = METRICS.LATENCY_BUCKETS_SECONDS
+  ) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  values(): HistogramSeries[] {
+    return [...this.series.values()];
+  }
+
+  render(): string[] {
+    const lines = formatHeader(this.name, this.help, "histogram");
+    for (const s of this.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: String(bound) })} ${s.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+      lines.push(`${this.name}_sum${formatLabels(s.labels)} ${s.sum}`);
+      lines.push(`${this.name}_count${formatLabels(s.labels)} ${s.count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+// ===== 메트릭 정의 =====
+
+const name = (suffix: string) => `${METRICS.PREFIX}${suffix}`;
+
+const toolCalls = new Counter(name("tool_calls_total"), "도구 호출 수");
+const toolErrors = new Counter(name("tool_errors_total"), "도구 오류 응답 수 (오류 코드별)");
+const toolDuration = new Histogram(name("tool_duration_seconds"), "도구 처리 시간 (초)");
+const upstreamRequests = new Counter(name("upstream_requests_total"), "업스트림 API 요청 수 (재시도 포함, 캐시 적중 제외)");
+const upstreamErrors = new Counter(name("upstream_errors_total"), "업스트림 API 요청 실패 수 (오류 코드별)");
+const upstreamDuration = new Histogram(name("upstream_request_duration_seconds"), "업스트림 API 응답 시간 (초)");
+const cacheRequests = new Counter(name("cache_requests_total"), "응답 캐시 조회 수 (result: hit/miss)");
+
+/** 출력 시점에 값을 읽는 게이지 (이름 → 도움말, 수집 함수) */
+const gauges = new Map<string, { help: string; collect: () => number | GaugeSample[] }>();
+
+let startedAt = Date.now();
+
+// ===== 집계 =====
+
+/**
+ * 요청 URL에 해당하는 API_ENDPOINTS 항목 이름
+ *
+ * @returns 항목 이름 (해당 없으면 "OTHER")
+ */
+export function resolveEndpointName(url: string): string {
+  for (const key of Object.keys(API_ENDPOINTS) as Array<keyof typeof API_ENDPOINTS>) {
+    if (url.startsWith(API_ENDPOINTS[key])) {
+      return key;
+    }
+  }
+  return "OTHER";
+}
+
+/**
+ * 도구 호출 기록
+ *
+ * @param errorCode - 오류 응답의 오류 코드 (성공 시 생략)
+ */
+export function recordToolCall(tool: string, durationMs: number, errorCode?: string): void {
+  toolCalls.inc({ tool });
+  toolDuration.observe({ tool }, durationMs / 1000);
+  if (errorCode) {
+    toolErrors.inc({ tool, code: errorCode });
+  }
+}
+
+/**
+ * 업스트림 요청 1회(재시도 1회 포함) 기록
+ *
+ * @param error - 실패한 경우 오류 (UpstreamError면 오류 코드로 분류)
+ */
+export function recordUpstreamRequest(url: string, durationMs: number, error?: unknown): void {
+  const endpoint = resolveEndpointName(url);
+  upstreamRequests.inc({ endpoint });
+  upstreamDuration.observe({ endpoint }, durationMs / 1000);
+  if (error !== undefined) {
+    upstreamErrors.inc({ endpoint, code: error instanceof UpstreamError ? error.code : "REQUEST_FAILED" });
+  }
+}
+
+/**
+ * 응답 캐시 조회 기록
+ */
+export function recordCacheLookup(url: string, hit: boolean): void {
+  cacheRequests.inc({ endpoint: resolveEndpointName(url), result: hit ? "hit" : "miss" });
+}
+
+/**
+ * 출력 시점에 값을 읽는 게이지 등록 (같은 이름이면 교체)
+ *
+ * @param suffix - 접두사를 제외한 메트릭 이름 (예: "mcp_sessions_active")
+ */
+export function registerGauge(
+  suffix: string,
+  help: string,
+  collect: () => number | GaugeSample[]
+): void {
+  gauges.set(name(suffix), { help, collect });
+}
+
+// 기본 게이지: 업스트림 서킷 상태, 일일 호출 수
+registerGauge("upstream_circuit_open", "업스트림 호스트 서킷 차단 여부 (1: open/half_open)", () =>
+  getCircuitBreakerStates().map((s) => ({ labels: { host: s.host }, value: s.state === "closed" ? 0 : 1 }))
+);
+registerGauge("upstream_quota_used", "업스트림 API 키별 오늘(KST) 호출 수", () =>
+  getQuotaLedger().snapshot().map((usage) => ({ labels: { key: usage.key }, value: usage.used }))
+);
+
+// ===== 출력 =====
+
+/**
+ * Prometheus 텍스트 형식 (text/plain; version=0.0.4)
+ */
+export function renderPrometheusMetrics(): string {
+  const lines = [
+    ...toolCalls.render(),
+    ...toolErrors.render(),
+    ...toolDuration.render(),
+    ...upstreamRequests.render(),
+    ...upstreamErrors.render(),
+    ...upstreamDuration.render(),
+    ...cacheRequests.render()
+  ];
+
+  for (const [gaugeName, { help, collect }] of gauges) {
+    const value = collect();
+    const samples = typeof value === "number" ? [{ value }] : value;
+    lines.push(...formatHeader(gaugeName, help, "gauge"));
+    lines.push(...samples.map((s) => `${gaugeName}${formatLabels(s.labels)} ${s.value}`));
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** 레이블 값별 카운터 합계 */
+function sumBy(series: CounterSeries[], label: string): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const s of series) {
+    totals.set(s.labels[label], (totals.get(s.labels[label]) ?? 0) + s.value);
+  }
+  return totals;
+}
+
+/** 특정 레이블 값의 오류 코드별 횟수 */
+function errorsByCode(series: CounterSeries[], label: string, value: string): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const s of series) {
+    if (s.labels[label] === value) {
+      result[s.labels.code] = (result[s.labels.code] ?? 0) + s.value;
+    }
+  }
+  return result;
+}
+
+function averageMs(series: HistogramSeries | undefined): number {
+  return series && series.count > 0 ? Math.round((series.sum / series.count) * 1000) : 0;
+}
+
+/**
+ * 메트릭 요약 (진단 도구용)
+ */
+export function getMetricsSummary(): MetricsSummary {
+  const toolErrorSeries = toolErrors.values();
+  const toolDurations = new Map(toolDuration.values().map((s) => [s.labels.tool, s]));
+  const tools = toolCalls.values().map(({ labels, value }): ToolMetricsSummary => {
+    const byCode = errorsByCode(toolErrorSeries, "tool", labels.tool);
+    return {
+      tool: labels.tool,
+      calls: value,
+      errors: Object.values(byCode).reduce((sum, count) => sum + count, 0),
+      errorsByCode: byCode,
+      avgLatencyMs: averageMs(toolDurations.get(labels.tool))
+    };
+  });
+
+  const requests = sumBy(upstreamRequests.values(), "endpoint");
+  const upstreamErrorSeries = upstreamErrors.values();
+  const upstreamDurations = new Map(upstreamDuration.values().map((s) => [s.labels.endpoint, s]));
+  const cacheSeries = cacheRequests.values();
+  const endpoints = new Set([...requests.keys(), ...cacheSeries.map((s) => s.labels.endpoint)]);
+
+  const upstreams = [...endpoints].map((endpoint): UpstreamMetricsSummary => {
+    const byCode = errorsByCode(upstreamErrorSeries, "endpoint", endpoint);
+    const cacheCount = (result: string) => cacheSeries
+      .filter((s) => s.labels.endpoint === endpoint && s.labels.result === result)
+      .reduce((sum, s) => sum + s.value, 0);
+    const cacheHits = cacheCount("hit");
+    const cacheMisses = cacheCount("miss");
+    const lookups = cacheHits + cacheMisses;
+
+    return {
+      endpoint,
+      requests: requests.get(endpoint) ?? 0,
+      errors: Object.values(byCode).reduce((sum, count) => sum + count, 0),
+      errorsByCode: byCode,
+      avgLatencyMs: averageMs(upstreamDurations.get(endpoint)),
+      cacheHits,
+      cacheMisses,
+      cacheHitRatio: lookups > 0 ? Math.round((cacheHits / lookups) * 1000) / 1000 : undefined
+    };
+  });
+
+  return {
+    startedAt: new Date(startedAt).toISOString(),
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    tools,
+    upstreams
+  };
+}
+
+/**
+ * 집계 초기화 (테스트용, 등록된 게이지는 유지)
+ */
+export function resetMetrics(): void {
+  for (const metric of [toolCalls, toolErrors, toolDuration, upstreamRequests, upstreamErrors, upstreamDuration, cacheRequests]) {
+    metric.reset();
+  }
+  startedAt = Date.now();
+}
@@ -4,7 +4,9 @@
  * 서울 열린데이터광장 API 페이지네이션 유틸리티
  */
 
-import { fetchJson } from "./api-client.js";
+import { fetchJsonCached } from "./api-client.js";
+import { mergeCacheMeta, type CacheMeta } from "./cache.js";
+import { SeoulApiResultError } from "./upstream-errors.js";
 import { PAGINATION } from "../constants.js";
 
 // ===== 타입 정의 =====
@@ -21,6 +23,18 @@ export interface SeoulApiResponse<T> {
   };
 }
 
+/**
+ * 서울 열린데이터 API 최상위 결과 (인증키 오류, 데이터 없음 등)
+ *
+ * 서비스 키 없이 { RESULT: { CODE, MESSAGE } } 형태로만 반환됩니다.
+ */
+interface SeoulApiTopLevelResult {
+  RESULT?: {
+    CODE: string;
+    MESSAGE: string;
+  };
+}
+
 /** 페이지네이션 옵션 */
 export interface PaginationOptions {
   /** 최대 조회 개수 */
@@ -29,6 +43,10 @@ export interface PaginationOptions {
   apiKey: string;
   /** 요청 타임아웃 (ms) */
   timeout?: number;
+  /** 캐시 TTL (ms). 0이면 캐시 사용 안 함 */
+  cacheTtl?: number;
+  /** start/end 인덱스 뒤에 붙는 요청 인자 (예: "/0222/1/1") */
+  pathSuffix?: string;
 }
 
 /** 페이지네이션 결과 */
@@ -39,6 +57,34 @@ export interface PaginatedResult<T> {
   totalCount: number;
   /** 실제 반환된 개수 */
   returnedCount: number;
+  /** 응답 캐시 메타데이터 */
+  cache?: CacheMeta;
+}
+
+// ===== 응답 검증 =====
+
+/**
+ * 캐시 가능한 서울 API 응답인지 확인 (정상 또는 데이터 없음)
+ */
+function isCacheableSeoulResponse(apiKey: string): (data: unknown) => boolean {
+  return (data: unknown) => {
+    const code = (data as SeoulApiResponse<unknown>)?.[apiKey]?.RESULT?.CODE;
+    return code === "INFO-000" || code === "INFO-200";
+  };
+}
+
+/**
+ * 서비스 키가 없는 응답 확인
+ *
+ * 최상위 RESULT가 오류 코드(INFO-200 데이터 없음 제외)이면 에러를 던집니다.
+ *
+ * @throws SeoulApiResultError
+ */
+function assertNoTopLevelError(response: unknown, url: string): void {
+  const result = (response as SeoulApiTopLevelResult | undefined)?.RESULT;
+  if (result && result.CODE !== "INFO-000" && result.CODE !== "INFO-200") {
+    throw new SeoulApiResultError(result.CODE, result.MESSAGE, url);
+  }
 }
 
 // ===== 페이지네이션 함수 =====
@@ -62,26 +108,30 @@ export async function fetchPaginatedData<T>(
   baseUrl: string,
   options: PaginationOptions
 ): Promise<PaginatedResult<T>> {
-  const { limit = PAGINATION.DEFAULT_LIMIT, apiKey, timeout } = options;
+  const { limit = PAGINATION.DEFAULT_LIMIT, apiKey, timeout, pathSuffix = "" } = options;
   const effectiveLimit = Math.min(limit, PAGINATION.MAX_LIMIT);
 
   // 첫 페이지 요청으로 전체 개수 확인
-  const firstPageUrl = `${baseUrl}/1/${effectiveLimit}`;
-  const response = await fetchJson<SeoulApiResponse<T>>(firstPageUrl, { timeout });
+  const firstPageUrl = `${baseUrl}/1/${effectiveLimit}${pathSuffix}`;
+  const { data: response, cache } = await fetchJsonCached<SeoulApiResponse<T>>(firstPageUrl, {
+    timeout,
+    shouldCache: isCacheableSeoulResponse(apiKey)
+  });
 
   const apiData = response[apiKey];
 
   if (!apiData) {
-    return { items: [], totalCount: 0, returnedCount: 0 };
+    assertNoTopLevelError(response, firstPageUrl);
+    return { items: [], totalCount: 0, returnedCount: 0, cache };
   }
 
   // 에러 응답 처리
   if (apiData.RESULT.CODE !== "INFO-000") {
     // INFO-200: 데이터 없음
     if (apiData.RESULT.CODE === "INFO-200") {
-      return { items: [], totalCount: 0, returnedCount: 0 };
+      return { items: [], totalCount: 0, returnedCount: 0, cache };
     }
-    throw new Error(`API 오류: ${apiData.RESULT.MESSAGE}`);
+    throw new SeoulApiResultError(apiData.RESULT.CODE, apiData.RESULT.MESSAGE, firstPageUrl);
   }
 
   const items = apiData.row || [];
@@ -90,65 +140,148 @@ export async function fetchPaginatedData<T>(
   return {
     items: items.slice(0, effectiveLimit),
     totalCount,
-    returnedCount: Math.min(items.length, effectiveLimit)
+    returnedCount: Math.min(items.length, effectiveLimit),
+    cache
   };
 }
 
+/** 단일 페이지 조회 결과 */
+interface PageResult<T> {
+  rows: T[];
+  totalCount: number;
+  cache?: CacheMeta;
+}
+
+/**
+ * 서울 열린데이터 API 단일 페이지(1000건 단위) 조회
+ */
+async function fetchSinglePage<T>(
+  baseUrl: string,
+  page: number,
+  options: PaginationOptions
+): Promise<PageResult<T>> {
+  const { limit = Infinity, apiKey, timeout, cacheTtl, pathSuffix = "" } = options;
+  const pageSize = PAGINATION.PAGE_SIZE;
+  const start = (page - 1) * pageSize + 1;
+  const end = Math.min(start + pageSize - 1, limit);
+
+  const url = `${baseUrl}/${start}/${end}${pathSuffix}`;
+  const { data: response, cache } = await fetchJsonCached<SeoulApiResponse<T>>(url, {
+    timeout,
+    cacheTtl,
+    shouldCache: isCacheableSeoulResponse(apiKey)
+  });
+  const apiData = response[apiKey];
+
+  if (!apiData) {
+    assertNoTopLevelError(response, url);
+    return { rows: [], totalCount: 0, cache };
+  }
+
+  // 에러 응답 처리
+  if (apiData.RESULT.CODE !== "INFO-000") {
+    // INFO-200: 데이터 없음
+    if (apiData.RESULT.CODE === "INFO-200") {
+      return { rows: [], totalCount: 0, cache };
+    }
+    throw new SeoulApiResultError(apiData.RESULT.CODE, apiData.RESULT.MESSAGE, url);
+  }
+
+  return { rows: apiData.row || [], totalCount: apiData.list_total_count, cache };
+}
+
 /**
  * 여러 페이지에 걸쳐 데이터 조회 (대량 데이터용)
  *
+ * 첫 페이지의 list_total_count로 필요한 페이지 수를 계산한 뒤,
+ * 나머지 페이지는 PAGINATION.CONCURRENCY개씩 병렬로 조회합니다.
+ *
  * @param baseUrl - 기본 API URL
  * @param options - 페이지네이션 옵션
- * @param maxPages - 최대 페이지 수 (기본값: 5)
+ * @param maxPages - 최대 페이지 수 (기본값: PAGINATION.MAX_PAGES)
  * @returns 모든 페이지의 데이터
  */
 export async function fetchAllPages<T>(
   baseUrl: string,
   options: PaginationOptions,
-  maxPages: number = 5
+  maxPages: number = PAGINATION.MAX_PAGES
 ): Promise<PaginatedResult<T>> {
-  const { limit = PAGINATION.MAX_LIMIT, apiKey, timeout } = options;
+  const { limit = PAGINATION.MAX_LIMIT } = options;
   const pageSize = PAGINATION.PAGE_SIZE;
 
-  const allItems: T[] = [];
-  let totalCount = 0;
-  let currentPage = 1;
-
-  while (currentPage <= maxPages && allItems.length < limit) {
-    const start = (currentPage - 1) * pageSize + 1;
-    const end = Math.min(start + pageSize - 1, limit);
+  const fetchPage = (page: number) => fetchSinglePage<T>(baseUrl, page, { ...options, limit });
 
-    const url = `${baseUrl}/${start}/${end}`;
-    const response = await fetchJson<SeoulApiResponse<T>>(url, { timeout });
-    const apiData = response[apiKey];
+  // 첫 페이지로 전체 개수 확인
+  const firstPage = await fetchPage(1);
+  const totalCount = firstPage.totalCount;
+  const pageCount = Math.min(
+    maxPages,
+    Math.ceil(Math.min(limit, totalCount) / pageSize)
+  );
 
-    if (!apiData || apiData.RESULT.CODE !== "INFO-000") {
-      break;
+  // 나머지 페이지 병렬 조회
+  const pages = [firstPage];
+  for (let page = 2; page <= pageCount; page += PAGINATION.CONCURRENCY) {
+    const batch: number[] = [];
+    for (let p = page; p < page + PAGINATION.CONCURRENCY && p <= pageCount; p++) {
+      batch.push(p);
     }
+    pages.push(...await Promise.all(batch.map(fetchPage)));
+  }
 
-    totalCount = apiData.list_total_count;
-    const items = apiData.row || [];
+  const limitedItems = pages.flatMap((p) => p.rows).slice(0, limit);
 
-    if (items.length === 0) {
-      break;
-    }
+  return {
+    items: limitedItems,
+    totalCount,
+    returnedCount: limitedItems.length,
+    cache: mergeCacheMeta(pages.map((p) => p.cache))
+  };
+}
+
+/**
+ * 고정 범위(1-1000, 1001-2000, ...)를 병렬 조회하여 병합
+ *
+ * list_total_count가 전체 개수가 아닌 해당 페이지 건수만 반환하는 API(예: bikeList)용.
+ * PAGINATION.CONCURRENCY개 범위를 동시에 조회하고, 마지막 범위가 가득 찬 경우에만
+ * 다음 범위들을 이어서 조회합니다.
+ *
+ * @param baseUrl - 기본 API URL
+ * @param options - 페이지네이션 옵션 (limit은 무시됨)
+ * @param maxPages - 최대 페이지 수 (기본값: PAGINATION.INDEX_MAX_PAGES)
+ * @returns 모든 범위의 데이터
+ */
+export async function fetchPageRanges<T>(
+  baseUrl: string,
+  options: PaginationOptions,
+  maxPages: number = PAGINATION.INDEX_MAX_PAGES
+): Promise<PaginatedResult<T>> {
+  const pageOptions = { ...options, limit: undefined };
+  const pages: PageResult<T>[] = [];
 
-    allItems.push(...items);
+  for (let page = 1; page <= maxPages; page += PAGINATION.CONCURRENCY) {
+    const batch: number[] = [];
+    for (let p = page; p < page + PAGINATION.CONCURRENCY && p <= maxPages; p++) {
+      batch.push(p);
+    }
+    const results = await Promise.all(
+      batch.map((p) => fetchSinglePage<T>(baseUrl, p, pageOptions))
+    );
+    pages.push(...results);
 
-    // 더 이상 데이터가 없거나 limit에 도달한 경우 중단
-    if (items.length < pageSize || allItems.length >= totalCount) {
+    // 마지막 범위가 가득 차지 않았으면 더 이상 데이터 없음
+    if (results[results.length - 1].rows.length < PAGINATION.PAGE_SIZE) {
       break;
     }
-
-    currentPage++;
   }
 
-  const limitedItems = allItems.slice(0, limit);
+  const items = pages.flatMap((p) => p.rows);
 
   return {
-    items: limitedItems,
-    totalCount,
-    returnedCount: limitedItems.length
+    items,
+    totalCount: items.length,
+    returnedCount: items.length,
+    cache: mergeCacheMeta(pages.map((p) => p.cache))
   };
 }
 
@@ -0,0 +1,190 @@
+/**
+ * Korea Transit MCP Server - Quota Ledger
+ *
+ * 업스트림 API 키별 일일 호출 집계 (도구별 호출 수 포함)
+ *
+ * 서울 열린데이터광장/공공데이터포털 키는 일일 호출 한도가 있으므로, 실제 업스트림 요청
+ * (캐시 적중 제외, 재시도 포함)을 KST 날짜 기준으로 집계하고 한도에 도달하면 요청 전에 차단합니다.
+ * 집계는 프로세스 단위입니다.
+ */
+
+import { API_URLS, DAILY_QUOTA } from "../constants.js";
+import { getKstNow } from "./calendar.js";
+import { getRequestContext } from "./request-context.js";
+import { UpstreamError } from "./upstream-errors.js";
+
+// ===== 타입 정의 =====
+
+/** 업스트림 API 키 (원본 키 대신 식별자만 노출) */
+export type UpstreamKeyId = "seoul" | "data_go_kr";
+
+/** API 키별 일일 사용량 */
+export interface QuotaUsage {
+  key: UpstreamKeyId;
+  /** 집계 날짜 (KST, YYYY-MM-DD) */
+  date: string;
+  /** 오늘 호출 수 */
+  used: number;
+  /** 일일 한도 (미설정 시 생략) */
+  limit?: number;
+  remaining?: number;
+  /** 도구별 호출 수 (도구 호출 밖의 요청은 "background") */
+  byTool: Record<string, number>;
+}
+
+// ===== 오류 =====
+
+/** 일일 호출 한도 소진 (업스트림에 요청하지 않음) */
+export class DailyQuotaExceededError extends UpstreamError {
+  constructor(
+    public readonly key: UpstreamKeyId,
+    limit: number,
+    retryAfterSeconds: number,
+    endpoint?: string
+  ) {
+    super("QUOTA_EXCEEDED", key === "seoul" ? "seoul" : "bus", {
+      upstreamCode: "DAILY_QUOTA",
+      upstreamMessage: `${key} 일일 호출 한도 ${limit}회 소진`,
+      endpoint,
+      retryAfterSeconds
+    }, "오늘 공공데이터 API 호출 한도를 모두 사용했습니다. 자정(KST) 이후 다시 시도해주세요.");
+    this.name = "DailyQuotaExceededError";
+  }
+}
+
+// ===== 집계 =====
+
+/**
+ * 요청 URL이 사용하는 업스트림 API 키
+ *
+ * 버스/지하철 실시간 API 주소가 일반 API 주소의 하위 경로일 수 있으므로 먼저 확인합니다.
+ */
+export function resolveUpstreamKey(url: string): UpstreamKeyId | undefined {
+  if (url.startsWith(API_URLS.BUS_API)) {
+    return "data_go_kr";
+  }
+  if (url.startsWith(API_URLS.SEOUL_SUBWAY) || url.startsWith(API_URLS.SEOUL_DATA)) {
+    return "seoul";
+  }
+  return undefined;
+}
+
+/** 현재 호출 주체 (도구 이름, 리소스 URI, 요청 밖이면 "background") */
+function getCaller(): string {
+  const context = getRequestContext();
+  return context?.tool ?? context?.resource ?? "background";
+}
+
+/**
+ * 업스트림 API 키별 일일 호출 집계
+ */
+export class QuotaLedger {
+  private date: string;
+  private readonly usage = new Map<UpstreamKeyId, Map<string, number>>();
+
+  /**
+   * @param limits - API 키별 일일 한도 (0이면 집계만)
+   * @param now - 현재 시각 (테스트용)
+   */
+  constructor(
+    private readonly limits: Record<UpstreamKeyId, number> = {
+      seoul: DAILY_QUOTA.SEOUL,
+      data_go_kr: DAILY_QUOTA.DATA_GO_KR
+    },
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.date = getKstNow(this.now()).date;
+  }
+
+  /** KST 날짜가 바뀌면 집계 초기화 */
+  private rollover(): void {
+    const today = getKstNow(this.now()).date;
+    if (today !== this.date) {
+      this.date = today;
+      this.usage.clear();
+    }
+  }
+
+  private used(key: UpstreamKeyId): number {
+    let total = 0;
+    for (const count of this.usage.get(key)?.values() ?? []) {
+      total += count;
+    }
+    return total;
+  }
+
+  /**
+   * 호출 가능 여부 확인
+   *
+   * @throws DailyQuotaExceededError 일일 한도를 모두 사용한 경우
+   */
+  assertAvailable(url: string): void {
+    const key = resolveUpstreamKey(url);
+    if (!key) {
+      return;
+    }
+    this.rollover();
+
+    const limit = this.limits[key];
+    if (limit > 0 && this.used(key) >= limit) {
+      const secondsUntilMidnight = 24 * 60 * 60 - getKstNow(this.now()).minutes * 60;
+      throw new DailyQuotaExceededError(key, limit, secondsUntilMidnight, url);
+    }
+  }
+
+  /**
+   * 업스트림 호출 1건 기록
+   *
+   * @param tool - 호출한 도구 (생략 시 현재 도구 호출/리소스 조회 컨텍스트)
+   */
+  record(url: string, tool: string = getCaller()): void {
+    const key = resolveUpstreamKey(url);
+    if (!key) {
+      return;
+    }
+    this.rollover();
+
+    let byTool = this.usage.get(key);
+    if (!byTool) {
+      byTool = new Map();
+      this.usage.set(key, byTool);
+    }
+    byTool.set(tool, (byTool.get(tool) ?? 0) + 1);
+  }
+
+  /**
+   * API 키별 오늘 사용량
+   */
+  snapshot(): QuotaUsage[] {
+    this.rollover();
+
+    return (Object.keys(this.limits) as UpstreamKeyId[]).map((key) => {
+      const used = this.used(key);
+      const limit = this.limits[key] > 0 ? this.limits[key] : undefined;
+      return {
+        key,
+        date: this.date,
+        used,
+        limit,
+        remaining: limit !== undefined ? Math.max(limit - used, 0) : undefined,
+        byTool: Object.fromEntries(this.usage.get(key) ?? [])
+      };
+    });
+  }
+}
+
+let ledger = new QuotaLedger();
+
+/**
+ * 프로세스 공용 호출 집계
+ */
+export function getQuotaLedger(): QuotaLedger {
+  return ledger;
+}
+
+/**
+ * 호출 집계 교체 (테스트용, 생략 시 초기화)
+ */
+export function setQuotaLedger(next: QuotaLedger = new QuotaLedger()): void {
+  ledger = next;
+}
@@ -0,0 +1,158 @@
+/**
+ * Korea Transit MCP Server - Realtime APIs
+ *
+ * 지하철/버스 실시간 도착정보 API 조회 유틸리티
+ *
+ * NOTE: 지하철 실시간 API와 서울 버스 API는 서울 열린데이터광장 일반 API와 응답 형식이 달라
+ * fetchPaginatedData 대신 이 모듈의 함수를 사용합니다.
+ */
+
+import { fetchJsonCached } from "./api-client.js";
+import { encodeSearchQuery } from "./pagination.js";
+import { SeoulApiResultError, BusApiResultError, MalformedResponseError } from "./upstream-errors.js";
+import type { CacheMeta } from "./cache.js";
+import { API_ENDPOINTS, SUBWAY_TIMEOUT } from "../constants.js";
+import type { SubwayArrival, BusArrival } from "../types.js";
+
+// ===== 타입 정의 =====
+
+/** 지하철 실시간 API 결과 코드 */
+interface SubwayRealtimeStatus {
+  status: number;
+  code: string;
+  message: string;
+  total: number;
+}
+
+/**
+ * 지하철 실시간 도착정보 API 응답 형식
+ *
+ * 정상 응답은 errorMessage에 결과 코드를 담고, 인증키 오류/데이터 없음 등은
+ * 결과 코드 필드(status, code, message)만 최상위에 반환합니다.
+ */
+export interface SubwayRealtimeResponse extends Partial<SubwayRealtimeStatus> {
+  errorMessage?: SubwayRealtimeStatus;
+  realtimeArrivalList?: SubwayArrival[];
+}
+
+/** 서울 버스 API 응답 형식 */
+export interface BusApiResponse<T> {
+  msgHeader?: {
+    headerCd: string;
+    headerMsg: string;
+    itemCount: number;
+  };
+  msgBody?: {
+    itemList: T[] | null;
+  };
+}
+
+/** 실시간 조회 결과 */
+export interface RealtimeResult<T> {
+  items: T[];
+  /** 응답 캐시 메타데이터 */
+  cache?: CacheMeta;
+}
+
+// ===== 응답 검증 =====
+
+/**
+ * 지하철 실시간 API 결과 코드 추출 (errorMessage 또는 최상위 필드)
+ */
+function getSubwayRealtimeStatus(response: SubwayRealtimeResponse): SubwayRealtimeStatus | undefined {
+  if (response.errorMessage) {
+    return response.errorMessage;
+  }
+  return response.code
+    ? {
+      status: response.status ?? 0,
+      code: response.code,
+      message: response.message ?? "",
+      total: response.total ?? 0
+    }
+    : undefined;
+}
+
+// ===== 조회 함수 =====
+
+/**
+ * 지하철역 실시간 도착정보 조회
+ *
+ * @param stationName - 역 이름 ('역' 접미사 제거된 형태)
+ * @param limit - 최대 조회 개수
+ * @param signal - 요청 취소 신호
+ * @throws SeoulApiResultError 결과 코드가 정상/데이터 없음이 아닌 경우
+ */
+export async function fetchSubwayArrivals(
+  stationName: string,
+  limit: number,
+  signal?: AbortSignal
+): Promise<RealtimeResult<SubwayArrival>> {
+  const url = `${API_ENDPOINTS.SUBWAY_ARRIVAL}/0/${limit}/${encodeSearchQuery(stationName)}`;
+  const { data: response, cache } = await fetchJsonCached<SubwayRealtimeResponse>(url, {
+    // 지하철 실시간 API는 응답이 느려 별도 타임아웃 적용
+    timeout: SUBWAY_TIMEOUT,
+    signal,
+    shouldCache: (data) => {
+      const status = getSubwayRealtimeStatus(data as SubwayRealtimeResponse);
+      return !status || status.code === "INFO-000" || status.code === "INFO-200";
+    }
+  });
+
+  const status = getSubwayRealtimeStatus(response);
+  if (status && status.code !== "INFO-000") {
+    // INFO-200: 데이터 없음
+    if (status.code === "INFO-200") {
+      return { items: [], cache };
+    }
+    throw new SeoulApiResultError(status.code, status.message, url);
+  }
+
+  return {
+    items: (response.realtimeArrivalList || []).slice(0, limit),
+    cache
+  };
+}
+
+/**
+ * 서울 버스 API 조회 (msgHeader/msgBody 형식 공통 처리)
+ *
+ * @param url - 요청 URL (serviceKey 포함)
+ * @param signal - 요청 취소 신호
+ * @throws BusApiResultError headerCd가 정상(0)/결과 없음(4)이 아닌 경우
+ */
+export async function fetchBusApiItems<T>(url: string, signal?: AbortSignal): Promise<RealtimeResult<T>> {
+  const { data: response, cache } = await fetchJsonCached<BusApiResponse<T>>(url, {
+    signal,
+    shouldCache: (data) => {
+      const headerCd = (data as BusApiResponse<T>).msgHeader?.headerCd;
+      return headerCd === "0" || headerCd === "4";
+    }
+  });
+
+  if (!response.msgHeader) {
+    throw new MalformedResponseError(url);
+  }
+  if (response.msgHeader.headerCd !== "0") {
+    // 4: 결과 없음
+    if (response.msgHeader.headerCd === "4") {
+      return { items: [], cache };
+    }
+    throw new BusApiResultError(response.msgHeader.headerCd, response.msgHeader.headerMsg, url);
+  }
+
+  return { items: response.msgBody?.itemList || [], cache };
+}
+
+/**
+ * 버스 정류장 실시간 도착정보 조회
+ *
+ * @param arsId - 5자리 정류장 번호
+ * @param signal - 요청 취소 신호
+ */
+export async function fetchBusArrivals(
+  arsId: string,
+  signal?: AbortSignal
+): Promise<RealtimeResult<BusArrival>> {
+  return fetchBusApiItems<BusArrival>(`${API_ENDPOINTS.BUS_ARRIVAL}=${arsId}`, signal);
+}
@@ -0,0 +1,47 @@
+/**
+ * Korea Transit MCP Server - Redaction
+ *
+ * 로그/오류에 남는 문자열에서 업스트림 API 키 제거
+ *
+ * 서울 열린데이터광장 키는 URL 경로(`/{KEY}/json/...`)에, 공공데이터포털 키는
+ * `serviceKey` 쿼리 파라미터에 포함되므로 URL을 그대로 남기면 키가 노출됩니다.
+ */
+
+// ===== 상수 =====
+
+/** 가림 표시 */
+const MASK = "***";
+
+/** 값 자체를 가릴 비밀 환경변수 */
+const SECRET_ENV_NAMES = ["SEOUL_API_KEY", "DATA_GO_KR_API_KEY"] as const;
+
+/** 키/토큰 쿼리 파라미터 */
+const SECRET_QUERY_PATTERN = /([?&](?:serviceKey|service_key|apiKey|api_key|key|token|access_token)=)[^&#\s"']*/giu;
+
+/** 서울 열린데이터광장 URL의 키 경로 (`/{KEY}/json/`, `/{KEY}/xml/`) */
+const SEOUL_KEY_PATH_PATTERN = /\/[A-Za-z0-9%+=_-]+(?=\/(?:json|xml)\/)/gu;
+
+// ===== 가림 함수 =====
+
+/** 현재 설정된 비밀 값 (URL 인코딩된 형태 포함) */
+function getSecretValues(): string[] {
+  const values = SECRET_ENV_NAMES
+    .map((name) => process.env[name])
+    .filter((value): value is string => value !== undefined && value.length >= 4);
+  return [...new Set(values.flatMap((value) => [value, encodeURIComponent(value)]))];
+}
+
+/**
+ * 문자열에서 API 키 제거
+ *
+ * 설정된 키 값, 키/토큰 쿼리 파라미터, 서울 API URL의 키 경로를 `***`로 바꿉니다.
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+  for (const secret of getSecretValues()) {
+    result = result.split(secret).join(MASK);
+  }
+  return result
+    .replace(SECRET_QUERY_PATTERN, `$1${MASK}`)
+    .replace(SEOUL_KEY_PATH_PATTERN, `/${MASK}`);
+}
@@ -0,0 +1,44 @@
+/**
+ * Korea Transit MCP Server - Request Context
+ *
+ * 요청/도구 호출 단위 컨텍스트 (HTTP 요청 ID, 세션, 호출 중인 도구/리소스, 클라이언트)
+ *
+ * AsyncLocalStorage로 전달되므로 서비스 함수에 인자를 추가하지 않고도
+ * 업스트림 호출을 어느 요청/도구/클라이언트가 일으켰는지 알 수 있습니다.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// ===== 타입 정의 =====
+
+/** 요청/도구 호출 컨텍스트 */
+export interface RequestContext {
+  /** HTTP 요청 ID (X-Request-Id) */
+  requestId?: string;
+  /** MCP 세션 ID */
+  sessionId?: string;
+  /** 호출 중인 도구 이름 */
+  tool?: string;
+  /** 조회 중인 리소스 URI */
+  resource?: string;
+  /** 인증된 클라이언트 ID */
+  clientId?: string;
+}
+
+// ===== 컨텍스트 =====
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * 컨텍스트 안에서 함수 실행
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * 현재 요청/도구 호출 컨텍스트 (요청 밖이면 undefined)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
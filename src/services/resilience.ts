@@ -0,0 +1,277 @@
+/**
+ * Korea Transit MCP Server - Resilience
+ *
+ * 업스트림 요청 재시도(지수 백오프 + 지터)와 호스트별 서킷 브레이커
+ */
+
+import { setTimeout as sleepFor } from "node:timers/promises";
+import { RETRY, CIRCUIT_BREAKER } from "../constants.js";
+import { UpstreamError } from "./upstream-errors.js";
+
+// ===== 타입 정의 =====
+
+/** 서킷 브레이커 상태 (closed: 정상, open: 차단, half_open: 시험 요청 허용) */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/** 서킷 브레이커 설정 */
+export interface CircuitBreakerOptions {
+  /** 연속 실패 시 차단 기준 (0 이하면 차단하지 않음) */
+  failureThreshold?: number;
+  /** 차단 유지 시간 (ms) */
+  resetTimeoutMs?: number;
+  /** 현재 시각 (테스트용) */
+  now?: () => number;
+}
+
+/** 서킷 브레이커 상태 요약 (/health 응답용) */
+export interface CircuitBreakerSnapshot {
+  host: string;
+  state: CircuitState;
+  /** 연속 실패 횟수 */
+  consecutiveFailures: number;
+  /** 차단 시작 시각 (ISO 8601) */
+  openedAt?: string;
+  /** 시험 요청 허용 시각 (ISO 8601) */
+  retryAt?: string;
+  /** 마지막 실패 사유 */
+  lastError?: string;
+}
+
+/** 재시도 설정 */
+export interface RetryOptions {
+  /** 최대 재시도 횟수 (첫 시도 제외) */
+  retries?: number;
+  /** 지수 백오프 기준 지연 (ms) */
+  baseDelayMs?: number;
+  /** 최대 지연 (ms) */
+  maxDelayMs?: number;
+  /** 재시도 대상 판단 (기본: 일시적 오류) */
+  shouldRetry?: (error: unknown) => boolean;
+  /** 취소 신호 (재시도 대기 중에도 즉시 중단) */
+  signal?: AbortSignal;
+}
+
+// ===== 오류 =====
+
+/** 서킷 브레이커가 열려 요청을 보내지 않은 경우 */
+export class CircuitOpenError extends UpstreamError {
+  constructor(
+    public readonly host: string,
+    public readonly retryAfterMs: number,
+    endpoint?: string
+  ) {
+    super("UPSTREAM_UNAVAILABLE", "http", {
+      upstreamCode: "CIRCUIT_OPEN",
+      upstreamMessage: `${host} 연속 장애로 요청 일시 중단`,
+      endpoint,
+      retryAfterSeconds: Math.ceil(retryAfterMs / 1000)
+    }, `공공데이터 API 서버 장애가 계속되어 요청을 잠시 중단했습니다. 약 ${Math.ceil(retryAfterMs / 1000)}초 후 다시 시도해주세요.`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * 재시도/차단 대상인 일시적 오류 여부
+ *
+ * 타임아웃, HTTP 5xx/429, 네트워크 오류, 잘린 응답 등 UpstreamError.retryable인 경우입니다.
+ * 인증 오류나 잘못된 요청은 업스트림이 정상 응답한 것이므로 해당하지 않습니다.
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof UpstreamError && error.retryable && !(error instanceof CircuitOpenError);
+}
+
+// ===== 서킷 브레이커 =====
+
+/**
+ * 호스트별 서킷 브레이커
+ *
+ * 연속 실패가 기준에 도달하면 차단(open)하고, 차단 유지 시간이 지나면 시험 요청 1건만
+ * 허용(half_open)합니다. 시험 요청이 성공하면 정상(closed)으로, 실패하면 다시 차단합니다.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+  private lastError?: string;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    public readonly host: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? CIRCUIT_BREAKER.FAILURE_THRESHOLD;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? CIRCUIT_BREAKER.RESET_TIMEOUT_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * 현재 상태 (차단 유지 시간이 지나면 half_open으로 전환)
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && this.now() - (this.openedAt ?? 0) >= this.resetTimeoutMs) {
+      this.state = "half_open";
+      this.trialInFlight = false;
+    }
+    return this.state;
+  }
+
+  /**
+   * 요청 허용 확인
+   *
+   * @throws CircuitOpenError 차단 중이거나 시험 요청이 이미 진행 중인 경우
+   */
+  acquire(endpoint?: string): void {
+    const state = this.getState();
+
+    if (state === "open" || (state === "half_open" && this.trialInFlight)) {
+      const retryAfterMs = state === "open"
+        ? (this.openedAt ?? 0) + this.resetTimeoutMs - this.now()
+        : this.resetTimeoutMs;
+      throw new CircuitOpenError(this.host, Math.max(retryAfterMs, 0), endpoint);
+    }
+    if (state === "half_open") {
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * 요청 성공 (업스트림이 응답한 경우) 기록
+   */
+  recordSuccess(): void {
+    this.state = "closed";
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * 요청 취소 기록 (성공/실패로 보지 않고 시험 요청 기회만 반환)
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * 요청 실패 (일시적 오류) 기록
+   */
+  recordFailure(error?: unknown): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (error instanceof Error) {
+      this.lastError = error instanceof UpstreamError && error.upstreamCode
+        ? `${error.code} (${error.upstreamCode})`
+        : error.message;
+    }
+
+    const tripped = this.failureThreshold > 0 && this.failures >= this.failureThreshold;
+    if (this.state === "half_open" || tripped) {
+      this.state = "open";
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * 상태 요약
+   */
+  snapshot(): CircuitBreakerSnapshot {
+    const state = this.getState();
+    const isOpen = state !== "closed" && this.openedAt !== undefined;
+
+    return {
+      host: this.host,
+      state,
+      consecutiveFailures: this.failures,
+      openedAt: isOpen ? new Date(this.openedAt!).toISOString() : undefined,
+      retryAt: isOpen ? new Date(this.openedAt! + this.resetTimeoutMs).toISOString() : undefined,
+      lastError: this.lastError
+    };
+  }
+}
+
+/** 호스트별 서킷 브레이커 (프로세스 단위 유지) */
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * 요청 URL의 호스트에 해당하는 서킷 브레이커
+ */
+export function getCircuitBreaker(url: string): CircuitBreaker {
+  const host = new URL(url).host;
+  let breaker = breakers.get(host);
+  if (!breaker) {
+    breaker = new CircuitBreaker(host);
+    breakers.set(host, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * 전체 서킷 브레이커 상태 (/health 응답용)
+ */
+export function getCircuitBreakerStates(): CircuitBreakerSnapshot[] {
+  return [...breakers.values()].map((breaker) => breaker.snapshot());
+}
+
+/**
+ * 서킷 브레이커 초기화 (테스트용)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
+
+// ===== 재시도 =====
+
+/**
+ * 재시도 대기 시간 (full jitter 지수 백오프)
+ *
+ * 0 ~ min(maxDelay, baseDelay × 2^attempt) 사이의 임의 값으로, 동시에 실패한 요청들이
+ * 같은 시각에 몰리지 않도록 분산합니다.
+ *
+ * @param attempt - 재시도 순번 (0부터)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  baseDelayMs: number = RETRY.BASE_DELAY_MS,
+  maxDelayMs: number = RETRY.MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/** 취소 가능한 대기 (취소되면 signal.reason을 던짐) */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return sleepFor(ms, undefined, { signal }).catch(() => signal?.throwIfAborted());
+}
+
+/**
+ * 일시적 오류 시 지수 백오프로 재시도
+ *
+ * 멱등 요청(GET)에만 사용하세요.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const {
+    retries = RETRY.MAX_RETRIES,
+    baseDelayMs = RETRY.BASE_DELAY_MS,
+    maxDelayMs = RETRY.MAX_DELAY_MS,
+    shouldRetry = isTransientError,
+    signal
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+      signal?.throwIfAborted();
+      await sleep(computeBackoffDelay(attempt, baseDelayMs, maxDelayMs), signal);
+    }
+  }
+}
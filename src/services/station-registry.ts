@@ -0,0 +1,369 @@
+/**
+ * Korea Transit MCP Server - Station Registry
+ *
+ * 지하철 역 레지스트리 (공식 역명, 별칭, 영문명, 호선, 역 코드)와
+ * 오타/초성/별칭을 허용하는 역명 해석
+ */
+
+import { fetchAllPages } from "./pagination.js";
+import { SnapshotLoader, type CacheMeta } from "./cache.js";
+import { logger } from "./logger.js";
+import { normalizeLineName } from "./subway-timetable.js";
+import {
+  getChoseong,
+  isChoseongOnly,
+  decomposeHangul,
+  editDistance
+} from "./hangul.js";
+import {
+  API_ENDPOINTS,
+  CACHE_TTL,
+  PAGINATION,
+  STATION_ALIASES,
+  STATION_REGISTRY
+} from "../constants.js";
+import type { StationRecord, SubwayStationListRow } from "../types.js";
+
+// ===== 타입 정의 =====
+
+/** 역명 일치 유형 (우선순위 순) */
+export type StationMatchType =
+  | "exact"
+  | "alias"
+  | "choseong"
+  | "prefix"
+  | "substring"
+  | "fuzzy";
+
+/** 역 검색 결과 */
+export interface StationMatch {
+  station: StationRecord;
+  matchType: StationMatchType;
+  /** 정렬 점수 (낮을수록 우선) */
+  score: number;
+}
+
+/** 역명 해석 결과 */
+export interface ResolvedStation {
+  station: StationRecord;
+  matchType: StationMatchType;
+  cache: CacheMeta;
+}
+
+/** 검색 키 (역명/별칭/영문명) */
+interface StationKey {
+  normalized: string;
+  choseong: string;
+  jamo: string;
+  /** 공식 역명 여부 */
+  official: boolean;
+}
+
+/** 색인 항목 */
+interface IndexedStation {
+  station: StationRecord;
+  keys: StationKey[];
+}
+
+/** 일치 유형별 기본 점수 */
+const MATCH_SCORE: Record<StationMatchType, number> = {
+  exact: 0,
+  alias: 1,
+  choseong: 2,
+  prefix: 3,
+  substring: 4,
+  fuzzy: 5
+};
+
+// ===== 에러 타입 =====
+
+/** 역명 해석 실패 에러 (일치하는 역이 없거나 여러 곳인 경우) */
+export class StationResolutionError extends Error {
+  constructor(
+    public readonly query: string,
+    public readonly suggestions: StationRecord[],
+    public readonly ambiguous: boolean
+  ) {
+    super(StationResolutionError.describe(query, suggestions, ambiguous));
+    this.name = "StationResolutionError";
+  }
+
+  private static describe(query: string, suggestions: StationRecord[], ambiguous: boolean): string {
+    const list = suggestions.map(describeStation).join(", ");
+    if (ambiguous) {
+      return `'${query}'와(과) 일치하는 역이 여러 곳입니다. 다음 중 하나를 지정해 주세요: ${list}`;
+    }
+    return suggestions.length > 0
+      ? `'${query}' 역을 찾을 수 없습니다. 혹시 다음 역을 찾으셨나요? ${list}`
+      : `'${query}' 역을 찾을 수 없습니다.`;
+  }
+}
+
+// ===== 정규화 =====
+
+/**
+ * 검색용 역명 정규화 (공백/구두점 제거, 소문자, '역'/'station' 접미사 제거)
+ */
+export function normalizeStationName(name: string): string {
+  const compact = name
+    .toLowerCase()
+    .replace(/\s*(station|stn\.?)$/u, "")
+    .replace(/[\s.·,()\-_/']/gu, "");
+  return compact.length > 2 ? compact.replace(/역$/u, "") : compact;
+}
+
+/**
+ * 역 표시명 (예: "강남 (2호선·신분당선)")
+ */
+export function describeStation(station: StationRecord): string {
+  return `${station.name} (${station.lines.join("·")})`;
+}
+
+/**
+ * 검색 키 생성
+ */
+function toStationKey(text: string, official: boolean): StationKey {
+  const normalized = normalizeStationName(text);
+  return {
+    normalized,
+    choseong: getChoseong(normalized),
+    jamo: decomposeHangul(normalized),
+    official
+  };
+}
+
+// ===== 레지스트리 =====
+
+/**
+ * 원본 행을 역명별 레지스트리 항목으로 묶기
+ *
+ * "서울역"처럼 '역'으로 끝나는 역명은 실시간 API 기준 이름("서울")을 공식 역명으로 사용하고,
+ * "총신대입구(이수)"처럼 괄호가 있는 역명은 괄호 안팎의 이름을 별칭으로 추가합니다.
+ */
+export function buildStationRecords(rows: SubwayStationListRow[]): StationRecord[] {
+  const records = new Map<string, StationRecord>();
+
+  for (const row of rows) {
+    const rawName = row.STATION_NM?.trim();
+    if (!rawName) {
+      continue;
+    }
+    const name = rawName.length > 2 ? rawName.replace(/역$/u, "") : rawName;
+
+    let record = records.get(name);
+    if (!record) {
+      record = { name, aliases: [], lines: [], stations: [] };
+      records.set(name, record);
+    }
+
+    const aliases = new Set(record.aliases);
+    if (rawName !== name) {
+      aliases.add(rawName);
+    }
+    const parenthesized = /^(.+?)\((.+)\)$/u.exec(name);
+    const baseNames = parenthesized ? [parenthesized[1], parenthesized[2]] : [];
+    for (const base of [name, ...baseNames]) {
+      if (base !== name) {
+        aliases.add(base);
+      }
+      for (const alias of STATION_ALIASES[base] ?? []) {
+        aliases.add(alias);
+      }
+    }
+    record.aliases = [...aliases];
+
+    record.englishName ??= row.STATION_NM_ENG?.trim() || undefined;
+
+    const line = normalizeLineName(row.LINE_NUM);
+    if (!record.lines.includes(line)) {
+      record.lines.push(line);
+    }
+    record.stations.push({
+      STATION_CD: row.STATION_CD,
+      STATION_NM: row.STATION_NM,
+      LINE_NUM: row.LINE_NUM,
+      FR_CODE: row.FR_CODE
+    });
+  }
+
+  return [...records.values()];
+}
+
+/**
+ * 지하철 역 레지스트리
+ */
+export class StationRegistry {
+  private readonly entries: IndexedStation[];
+
+  constructor(records: StationRecord[]) {
+    this.entries = records.map((station) => ({
+      station,
+      keys: [
+        toStationKey(station.name, true),
+        ...station.aliases.map((alias) => toStationKey(alias, false)),
+        ...(station.englishName ? [toStationKey(station.englishName, false)] : [])
+      ].filter((key) => key.normalized)
+    }));
+  }
+
+  /** 등록된 역 수 */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** 전체 역 목록 */
+  get stations(): StationRecord[] {
+    return this.entries.map((e) => e.station);
+  }
+
+  /**
+   * 역 검색
+   *
+   * 우선순위: 역명 일치 > 별칭/영문명 일치 > 초성 일치 > 접두 일치 > 부분 일치 > 오타 허용 일치
+   */
+  search(query: string, limit: number): StationMatch[] {
+    const target = toStationKey(query, false);
+    if (!target.normalized) {
+      return [];
+    }
+
+    const choseongQuery = isChoseongOnly(target.normalized);
+    const maxDistance = Math.max(
+      1,
+      Math.round(Array.from(target.jamo).length * STATION_REGISTRY.FUZZY_DISTANCE_RATIO)
+    );
+
+    const matches: StationMatch[] = [];
+    for (const { station, keys } of this.entries) {
+      let best: Omit<StationMatch, "station"> | undefined;
+
+      for (const key of keys) {
+        const candidate = this.matchKey(key, target, choseongQuery, maxDistance);
+        if (candidate && (!best || candidate.score < best.score)) {
+          best = candidate;
+        }
+      }
+
+      if (best) {
+        matches.push({ station, ...best });
+      }
+    }
+
+    matches.sort((a, b) =>
+      a.score - b.score
+      || a.station.name.length - b.station.name.length
+      || a.station.name.localeCompare(b.station.name, "ko")
+    );
+
+    return matches.slice(0, limit);
+  }
+
+  /**
+   * 역명 해석
+   *
+   * 역명/별칭/초성/접두 일치 중 가장 우선하는 역이 하나이거나 후보가 하나뿐이면 해당 역을 반환하고,
+   * 그 외에는 후보 목록과 함께 StationResolutionError를 던집니다.
+   *
+   * @throws StationResolutionError
+   */
+  resolve(query: string): StationMatch {
+    const matches = this.search(query, STATION_REGISTRY.MAX_SUGGESTIONS);
+    const [best, runnerUp] = matches;
+
+    if (!best) {
+      throw new StationResolutionError(query.trim(), [], false);
+    }
+
+    const unique = !runnerUp || best.score < runnerUp.score;
+    if (matches.length === 1 || (unique && best.score <= MATCH_SCORE.prefix)) {
+      return best;
+    }
+
+    // 오타 허용 일치만 있으면 "혹시 이 역?", 그 외에는 여러 역과 일치
+    const ambiguous = best.score < MATCH_SCORE.fuzzy;
+    throw new StationResolutionError(query.trim(), matches.map((m) => m.station), ambiguous);
+  }
+
+  private matchKey(
+    key: StationKey,
+    target: StationKey,
+    choseongQuery: boolean,
+    maxDistance: number
+  ): Omit<StationMatch, "station"> | undefined {
+    if (key.normalized === target.normalized) {
+      return key.official
+        ? { matchType: "exact", score: MATCH_SCORE.exact }
+        : { matchType: "alias", score: MATCH_SCORE.alias };
+    }
+    if (choseongQuery) {
+      if (key.choseong === target.normalized) {
+        return { matchType: "choseong", score: MATCH_SCORE.choseong };
+      }
+      return key.choseong.startsWith(target.normalized)
+        ? { matchType: "prefix", score: MATCH_SCORE.prefix }
+        : undefined;
+    }
+    if (key.normalized.startsWith(target.normalized)) {
+      return { matchType: "prefix", score: MATCH_SCORE.prefix };
+    }
+    if (key.normalized.includes(target.normalized)) {
+      return { matchType: "substring", score: MATCH_SCORE.substring };
+    }
+    const distance = editDistance(key.jamo, target.jamo);
+    return distance <= maxDistance
+      ? { matchType: "fuzzy", score: MATCH_SCORE.fuzzy + distance }
+      : undefined;
+  }
+}
+
+// ===== 레지스트리 관리 =====
+
+const registryLoader = new SnapshotLoader<StationRegistry>(async () => {
+  const result = await fetchAllPages<SubwayStationListRow>(
+    API_ENDPOINTS.SUBWAY_STATION_LIST,
+    {
+      limit: PAGINATION.PAGE_SIZE * 2,
+      apiKey: "SearchSTNBySubwayLineInfo",
+      cacheTtl: 0
+    }
+  );
+
+  return new StationRegistry(buildStationRecords(result.items));
+}, CACHE_TTL.SUBWAY_STATION_LIST);
+
+/**
+ * 지하철 역 레지스트리 조회
+ */
+export async function getStationRegistry(): Promise<{
+  registry: StationRegistry;
+  cache: CacheMeta;
+}> {
+  const { value, cache } = await registryLoader.get();
+  return { registry: value, cache };
+}
+
+/**
+ * 사용자 입력 역명을 레지스트리의 역으로 해석
+ *
+ * 레지스트리를 불러올 수 없는 경우(API 장애 등)에는 undefined를 반환하며,
+ * 호출 측은 입력값을 그대로 사용해야 합니다.
+ *
+ * @throws StationResolutionError 일치하는 역이 없거나 여러 곳과 일치하는 경우
+ */
+export async function resolveSubwayStation(query: string): Promise<ResolvedStation | undefined> {
+  let loaded: Awaited<ReturnType<typeof getStationRegistry>>;
+  try {
+    loaded = await getStationRegistry();
+  } catch (error) {
+    logger.warn("지하철 역 레지스트리 조회 실패", { error });
+    return undefined;
+  }
+
+  // 레지스트리가 비어 있으면 해석하지 않음
+  if (loaded.registry.size === 0) {
+    return undefined;
+  }
+
+  const { station, matchType } = loaded.registry.resolve(query);
+  return { station, matchType, cache: loaded.cache };
+}
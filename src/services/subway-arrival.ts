@@ -0,0 +1,248 @@
+/**
+ * Korea Transit MCP Server - Subway Arrival
+ *
+ * 지하철 실시간 도착정보의 도착 코드/메시지 해석(도착 예정 시간 계산)과 호선/방향/행선지 필터링 유틸리티
+ */
+
+import { parseKstDateTime, formatKstDateTime } from "./calendar.js";
+import { normalizeLineName } from "./subway-timetable.js";
+import { normalizeStationName } from "./station-registry.js";
+import { SUBWAY_LINE_MAP } from "../constants.js";
+import type {
+  SubwayArrival,
+  SubwayArrivalEta,
+  SubwayArrivalFilter,
+  SubwayArrivalGroup,
+  SubwayArrivalState,
+  SubwayDirection
+} from "../types.js";
+
+// ===== 패턴 정의 =====
+
+/** 도착 코드(arvlCd) → 도착 상태 */
+const ARRIVAL_CODE_STATES: Record<string, SubwayArrivalState> = {
+  "0": "진입",
+  "1": "도착",
+  "2": "출발",
+  "3": "전역출발",
+  "4": "전역진입",
+  "5": "전역도착",
+  "99": "운행중"
+};
+
+/** 남은 시간 패턴 (예: "3분 20초 후 (역삼)", "3분 후", "40초 후") */
+const REMAINING_TIME_PATTERN = /(\d+)\s*분(?:\s*(\d+)\s*초)?\s*후|(\d+)\s*초\s*후/u;
+
+/** 남은 정거장 패턴 (예: "[5]번째 전역 (수유)") */
+const STATIONS_AWAY_PATTERN = /\[(\d+)\]\s*번째\s*전역/u;
+
+/** 진입/도착/출발 메시지 패턴 (예: "전역 도착", "강남 진입") */
+const STATE_MESSAGE_PATTERN = /(전역)?\s*(진입|도착|출발)\s*$/u;
+
+/** 순번 키 패턴 (상하행 1자리 + 순번 1자리 + 남은 정거장 수 3자리) */
+const ORDKEY_PATTERN = /^\d(\d)(\d{3})/u;
+
+/** 방향 표시명 → 운행 방향 (2호선 내선/외선은 상행/하행과 같은 방향으로 취급) */
+const DIRECTION_LABELS: Record<string, SubwayDirection> = {
+  "상행": "up",
+  "내선": "up",
+  "하행": "down",
+  "외선": "down"
+};
+
+// ===== 파싱 함수 =====
+
+/**
+ * 도착 상태 판별 (도착 코드 우선, 없으면 메시지로 판별)
+ */
+export function parseArrivalState(arrival: SubwayArrival): SubwayArrivalState | undefined {
+  const byCode = arrival.arvlCd ? ARRIVAL_CODE_STATES[arrival.arvlCd.trim()] : undefined;
+  if (byCode) {
+    return byCode;
+  }
+
+  const message = arrival.arvlMsg2?.trim() ?? "";
+  if (REMAINING_TIME_PATTERN.test(message) || STATIONS_AWAY_PATTERN.test(message)) {
+    return "운행중";
+  }
+  const match = message.match(STATE_MESSAGE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  return `${match[1] ?? ""}${match[2]}` as SubwayArrivalState;
+}
+
+/**
+ * 메시지에서 남은 시간(초) 추출
+ */
+function extractRemainingSeconds(message: string): number | undefined {
+  const match = message.match(REMAINING_TIME_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  if (match[3] !== undefined) {
+    return Number(match[3]);
+  }
+  return Number(match[1]) * 60 + Number(match[2] ?? 0);
+}
+
+/**
+ * 남은 정거장 수 추출 (순번 키 > 메시지 > 도착 상태 순)
+ */
+function extractStationsAway(
+  arrival: SubwayArrival,
+  state: SubwayArrivalState | undefined
+): number | undefined {
+  const ordkey = arrival.ordkey?.match(ORDKEY_PATTERN);
+  if (ordkey) {
+    return Number(ordkey[2]);
+  }
+  const message = arrival.arvlMsg2?.match(STATIONS_AWAY_PATTERN);
+  if (message) {
+    return Number(message[1]);
+  }
+  switch (state) {
+    case "진입":
+    case "도착":
+    case "출발":
+      return 0;
+    case "전역출발":
+    case "전역진입":
+    case "전역도착":
+      return 1;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 도착정보 생성 시각 기준 도착까지 남은 시간(초)
+ *
+ * barvlDt가 "0"이면 정보 없음으로 보고 메시지에서 추출합니다.
+ */
+function extractEtaSeconds(
+  arrival: SubwayArrival,
+  state: SubwayArrivalState | undefined
+): number | undefined {
+  const barvlDt = Number(arrival.barvlDt);
+  if (Number.isFinite(barvlDt) && barvlDt > 0) {
+    return barvlDt;
+  }
+  const fromMessage = extractRemainingSeconds(arrival.arvlMsg2 ?? "");
+  if (fromMessage !== undefined) {
+    return fromMessage;
+  }
+  return state === "진입" || state === "도착" ? 0 : undefined;
+}
+
+/**
+ * 지하철 도착정보를 도착 예정 정보로 해석
+ *
+ * 원본 도착 예정 시간은 도착정보 생성 시각(recptnDt) 기준이므로,
+ * 현재 시각까지 경과한 시간을 빼서 남은 시간을 계산합니다.
+ *
+ * @param now - 기준 시각 (기본값: 현재 시각)
+ */
+export function parseSubwayArrivalEta(
+  arrival: SubwayArrival,
+  now: Date = new Date()
+): SubwayArrivalEta {
+  const state = parseArrivalState(arrival);
+  const eta = extractEtaSeconds(arrival, state);
+  const received = arrival.recptnDt ? parseKstDateTime(arrival.recptnDt) : undefined;
+  const ordinal = arrival.ordkey?.match(ORDKEY_PATTERN);
+
+  const result: SubwayArrivalEta = {
+    state,
+    stationsAway: extractStationsAway(arrival, state),
+    ordinal: ordinal && Number(ordinal[1]) > 0 ? Number(ordinal[1]) : undefined,
+    receivedAt: received ? formatKstDateTime(received) : undefined,
+    lastTrain: arrival.lstcarAt === "1"
+  };
+
+  if (eta !== undefined) {
+    const base = received ?? now;
+    const elapsedSeconds = Math.max(0, (now.getTime() - base.getTime()) / 1000);
+    result.etaSeconds = Math.max(0, Math.round(eta - elapsedSeconds));
+    result.arrivalTime = formatKstDateTime(new Date(base.getTime() + eta * 1000));
+  }
+
+  return result;
+}
+
+// ===== 필터링 =====
+
+/**
+ * 방향 표시명(상행/하행/내선/외선)을 운행 방향으로 변환
+ */
+export function toSubwayDirection(label: string): SubwayDirection | undefined {
+  return DIRECTION_LABELS[label.trim()];
+}
+
+/**
+ * 도착 열차가 요청한 호선과 일치하는지 확인
+ *
+ * 호선 코드가 같거나 정규화한 호선명이 같아야 합니다 ("분당선"은 "신분당선"과 일치하지 않음).
+ *
+ * @param line - 호선명 또는 호선 코드 (예: "2호선", "2", "신분당선", "1002")
+ */
+export function matchesArrivalLine(arrival: SubwayArrival, line: string): boolean {
+  const requested = line.trim();
+  if (arrival.subwayId === requested) {
+    return true;
+  }
+  return normalizeLineName(SUBWAY_LINE_MAP[arrival.subwayId] || arrival.subwayId) === normalizeLineName(requested);
+}
+
+/**
+ * 호선/방향/행선지 필터 적용 (원본 순서 유지)
+ */
+export function filterSubwayArrivals(
+  arrivals: SubwayArrival[],
+  filter: SubwayArrivalFilter
+): SubwayArrival[] {
+  const direction = filter.direction ? toSubwayDirection(filter.direction) : undefined;
+  const destination = filter.destination ? normalizeStationName(filter.destination) : "";
+
+  return arrivals.filter((arr) =>
+    (!filter.line || matchesArrivalLine(arr, filter.line))
+    && (!direction || toSubwayDirection(arr.updnLine) === direction)
+    && (!destination || normalizeStationName(arr.bstatnNm).includes(destination))
+  );
+}
+
+/**
+ * 호선/방향별로 묶기 (호선 코드, 상행/내선 우선 순)
+ *
+ * @param limitPerGroup - 묶음별 최대 열차 수
+ */
+export function groupSubwayArrivals(
+  arrivals: SubwayArrival[],
+  limitPerGroup: number
+): SubwayArrivalGroup[] {
+  const groups = new Map<string, SubwayArrivalGroup & { subwayId: string }>();
+
+  for (const arr of arrivals) {
+    const key = `${arr.subwayId}|${arr.updnLine}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        subwayId: arr.subwayId,
+        line: SUBWAY_LINE_MAP[arr.subwayId] || arr.subwayId,
+        direction: arr.updnLine,
+        arrivals: []
+      };
+      groups.set(key, group);
+    }
+    if (group.arrivals.length < limitPerGroup) {
+      group.arrivals.push(arr);
+    }
+  }
+
+  const directionRank = (group: SubwayArrivalGroup) =>
+    toSubwayDirection(group.direction) === "up" ? 0 : 1;
+
+  return [...groups.values()]
+    .sort((a, b) => a.subwayId.localeCompare(b.subwayId) || directionRank(a) - directionRank(b))
+    .map(({ subwayId: _subwayId, ...group }) => group);
+}
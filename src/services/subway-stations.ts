@@ -0,0 +1,50 @@
+/**
+ * Korea Transit MCP Server - Subway Stations
+ *
+ * 지하철 역사 마스터(위치 정보) 조회 및 공간 색인
+ */
+
+import { fetchAllPages } from "./pagination.js";
+import { SnapshotLoader, type CacheMeta } from "./cache.js";
+import { SpatialIndex, parseCoordinate } from "./geo.js";
+import { API_ENDPOINTS, CACHE_TTL, PAGINATION } from "../constants.js";
+import type { SubwayStationMaster } from "../types.js";
+
+/** 지하철 역사 스냅샷 */
+export interface SubwayStationSnapshot {
+  stations: SubwayStationMaster[];
+  spatial: SpatialIndex<SubwayStationMaster>;
+}
+
+const subwayStationLoader = new SnapshotLoader<SubwayStationSnapshot>(async () => {
+  const result = await fetchAllPages<SubwayStationMaster>(
+    API_ENDPOINTS.SUBWAY_STATION_MASTER,
+    {
+      limit: PAGINATION.PAGE_SIZE * PAGINATION.MAX_PAGES,
+      apiKey: "subwayStationMaster",
+      cacheTtl: 0
+    }
+  );
+
+  const stations = result.items;
+  const spatial = new SpatialIndex(stations, (s) => {
+    const latitude = parseCoordinate(s.LAT);
+    const longitude = parseCoordinate(s.LOT);
+    return latitude !== undefined && longitude !== undefined
+      ? { latitude, longitude }
+      : undefined;
+  });
+
+  return { stations, spatial };
+}, CACHE_TTL.SUBWAY_STATION_MASTER);
+
+/**
+ * 지하철 역사 스냅샷 조회 (역사 목록 + 공간 색인)
+ */
+export async function getSubwayStations(): Promise<{
+  snapshot: SubwayStationSnapshot;
+  cache: CacheMeta;
+}> {
+  const { value, cache } = await subwayStationLoader.get();
+  return { snapshot: value, cache };
+}
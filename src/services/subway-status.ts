@@ -0,0 +1,117 @@
+/**
+ * Korea Transit MCP Server - Subway Status
+ *
+ * 지하철 운행상태 원본 데이터 파싱 유틸리티
+ */
+
+import { getSubwayLineName } from "./formatters.js";
+import type {
+  SubwayStatus,
+  SubwayStatusRow,
+  SubwayStatusType
+} from "../types.js";
+
+// ===== 패턴 정의 =====
+
+/** 운행중단 판별 패턴 */
+const SUSPENSION_PATTERN = /운행\s*(중단|중지|불가)|운행을\s*중단|단전|불통/u;
+
+/** 지연 판별 패턴 ("혼잡"은 승객 혼잡 안내라 운행 지연으로 보지 않음) */
+const DELAY_PATTERN = /지연|서행|장애|고장|감속/u;
+
+/** 장애 구간 패턴 (예: "신도림~대림", "신도림역-대림역 구간") */
+const SECTION_PATTERN = /([가-힣A-Za-z0-9]+?)(?:역)?\s*[~\-↔]\s*([가-힣A-Za-z0-9]+?)(?:역)?(?=\s|구간|$|[,.)])/u;
+
+/** 장애 원인 패턴 (예: "신호장애로 인해", "(차량고장)") */
+const CAUSE_PATTERNS = [
+  /([가-힣A-Za-z0-9]+?)(?:으)?로\s*인(?:해|한)/u,
+  /\(([^)]+)\)/u
+];
+
+/** 발생 시각 패턴 (예: "08:12", "8시 12분") */
+const TIME_PATTERN = /(\d{1,2}):(\d{2})|(\d{1,2})시\s*(\d{1,2})분/u;
+
+// ===== 파싱 함수 =====
+
+/**
+ * 운행상태 메시지에서 상태 구분 판별
+ */
+export function classifySubwayStatus(message: string): SubwayStatusType {
+  if (SUSPENSION_PATTERN.test(message)) {
+    return "운행중단";
+  }
+  if (DELAY_PATTERN.test(message)) {
+    return "지연";
+  }
+  return "정상";
+}
+
+/**
+ * 메시지에서 장애 구간 추출
+ */
+function extractSection(message: string): string | undefined {
+  const match = message.match(SECTION_PATTERN);
+  return match ? `${match[1]}~${match[2]}` : undefined;
+}
+
+/**
+ * 메시지에서 장애 원인 추출
+ */
+function extractCause(message: string): string | undefined {
+  for (const pattern of CAUSE_PATTERNS) {
+    const match = message.match(pattern);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 메시지에서 발생 시각 추출 (HH:MM)
+ */
+function extractTime(message: string): string | undefined {
+  const match = message.match(TIME_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const hour = match[1] ?? match[3];
+  const minute = match[2] ?? match[4];
+  return `${hour.padStart(2, "0")}:${minute.padStart(2, "0")}`;
+}
+
+/**
+ * 운행상태 원본 행을 SubwayStatus 레코드로 변환
+ *
+ * 구간/원인/시각 필드가 비어 있으면 운행상태 메시지에서 추출합니다.
+ */
+export function parseSubwayStatus(row: SubwayStatusRow): SubwayStatus {
+  const message = (row.subwayStatusMessage || "").trim();
+  const statusType = classifySubwayStatus(message);
+  const isDisrupted = statusType !== "정상";
+
+  const subwayLine = row.subwayLine
+    || (row.subwayId ? getSubwayLineName(row.subwayId) : "알 수 없음");
+
+  return {
+    subwayLine,
+    subwayStatusMessage: message || "정상 운행",
+    statusType,
+    affectedSection: row.sectionNm || (isDisrupted ? extractSection(message) : undefined),
+    cause: row.causeNm || (isDisrupted ? extractCause(message) : undefined),
+    reportedAt: row.occrrncDt || (isDisrupted ? extractTime(message) : undefined)
+  };
+}
+
+/**
+ * 운행상태가 지정 호선(1-9)에 해당하는지 확인
+ */
+export function matchesSubwayLine(
+  row: SubwayStatusRow,
+  line: string
+): boolean {
+  if (row.subwayId) {
+    return row.subwayId === `100${line}`;
+  }
+  return (row.subwayLine || "").replace(/\s/gu, "").startsWith(`${line}호선`);
+}
@@ -0,0 +1,156 @@
+/**
+ * Korea Transit MCP Server - Subway Timetable
+ *
+ * 지하철 역 코드 검색 및 역/방향/요일별 시간표 조회 유틸리티
+ */
+
+import { fetchAllPages, encodeSearchQuery } from "./pagination.js";
+import { mergeCacheMeta, type CacheMeta } from "./cache.js";
+import { API_ENDPOINTS, SUBWAY_TIMETABLE } from "../constants.js";
+import type {
+  SubwayStationInfo,
+  SubwayTimetableRow,
+  SubwayTimetable,
+  SubwayTimetableEntry,
+  SubwayDayType,
+  SubwayDirection
+} from "../types.js";
+
+/** 역 코드 검색 결과 */
+export interface SubwayStationLookup {
+  stations: SubwayStationInfo[];
+  cache?: CacheMeta;
+}
+
+// ===== 정규화 =====
+
+/**
+ * 호선명 정규화 ("02호선", "2", "2 호선" → "2호선")
+ */
+export function normalizeLineName(line: string): string {
+  const compact = line.replace(/\s/gu, "");
+  const numbered = /^0*(\d+)(?:호선)?$/u.exec(compact);
+  return numbered ? `${numbered[1]}호선` : compact;
+}
+
+/**
+ * 역 호선이 요청한 호선과 일치하는지 확인
+ *
+ * 부분 일치를 허용하면 "분당선"이 "신분당선"과 같이 다른 호선에 걸리므로 정규화한 이름이 같아야 합니다.
+ */
+export function matchesStationLine(station: SubwayStationInfo, line: string): boolean {
+  return normalizeLineName(station.LINE_NUM) === normalizeLineName(line);
+}
+
+/**
+ * 방향 표시명 (2호선은 내선/외선, 그 외 상행/하행)
+ */
+export function getDirectionName(line: string, direction: SubwayDirection): string {
+  if (normalizeLineName(line) === "2호선") {
+    return direction === "up" ? "내선" : "외선";
+  }
+  return direction === "up" ? "상행" : "하행";
+}
+
+/**
+ * 시간표 시각(HH:MM[:SS])을 운행일 자정 기준 경과 분으로 변환
+ *
+ * SUBWAY_TIMETABLE.SERVICE_DAY_START_HOUR 이전 시각은 다음날 새벽으로 간주합니다.
+ */
+export function parseTimetableMinutes(time: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})/u.exec(time.trim());
+  if (!match) {
+    return undefined;
+  }
+  const hours = Number(match[1]);
+  const minutes = hours * 60 + Number(match[2]);
+  return hours < SUBWAY_TIMETABLE.SERVICE_DAY_START_HOUR ? minutes + 24 * 60 : minutes;
+}
+
+/**
+ * 운행일 경과 분을 HH:MM으로 변환
+ */
+export function formatTimetableMinutes(minutes: number): string {
+  const normalized = minutes % (24 * 60);
+  const hh = String(Math.floor(normalized / 60)).padStart(2, "0");
+  const mm = String(normalized % 60).padStart(2, "0");
+  return `${hh}:${mm}`;
+}
+
+/**
+ * 시간표 행을 열차 항목으로 변환 (시각을 알 수 없는 행은 제외)
+ */
+function toTimetableEntry(row: SubwayTimetableRow): SubwayTimetableEntry | undefined {
+  // 종착 열차는 출발 시각이 "00:00:00"이므로 도착 시각 사용
+  const raw = row.LEFTTIME && row.LEFTTIME !== "00:00:00" ? row.LEFTTIME : row.ARRIVETIME;
+  const minutes = raw ? parseTimetableMinutes(raw) : undefined;
+  if (minutes === undefined) {
+    return undefined;
+  }
+  return {
+    time: formatTimetableMinutes(minutes),
+    minutes,
+    destination: row.SUBWAYENAME,
+    trainNo: row.TRAIN_NO,
+    express: row.EXPRESS_YN === "Y" || row.EXPRESS_YN === "G"
+  };
+}
+
+// ===== 조회 =====
+
+/**
+ * 역명으로 호선별 역 코드 검색
+ *
+ * 역명이 '역'으로 끝나는데 결과가 없으면 접미사를 제거하고 다시 검색합니다.
+ */
+export async function findSubwayStationCodes(stationName: string): Promise<SubwayStationLookup> {
+  const search = (name: string) => fetchAllPages<SubwayStationInfo>(API_ENDPOINTS.SUBWAY_STATION_INFO, {
+    limit: 50,
+    apiKey: "SearchInfoBySubwayNameService",
+    pathSuffix: `/${encodeSearchQuery(name)}`
+  });
+
+  const name = stationName.trim();
+  const result = await search(name);
+  if (result.items.length > 0 || !/.역$/u.test(name)) {
+    return { stations: result.items, cache: result.cache };
+  }
+
+  const retry = await search(name.replace(/역$/u, ""));
+  return { stations: retry.items, cache: mergeCacheMeta([result.cache, retry.cache]) };
+}
+
+/**
+ * 역/방향/요일별 전체 시간표 조회 (출발 시각 순)
+ */
+export async function fetchSubwayTimetable(
+  station: SubwayStationInfo,
+  dayType: SubwayDayType,
+  direction: SubwayDirection
+): Promise<{ timetable: SubwayTimetable; cache?: CacheMeta }> {
+  const weekTag = SUBWAY_TIMETABLE.WEEK_TAG[dayType];
+  const inoutTag = SUBWAY_TIMETABLE.INOUT_TAG[direction];
+
+  const result = await fetchAllPages<SubwayTimetableRow>(API_ENDPOINTS.SUBWAY_TIMETABLE, {
+    limit: 1000,
+    apiKey: "SearchSTNTimeTableByIDService",
+    pathSuffix: `/${encodeSearchQuery(station.STATION_CD)}/${weekTag}/${inoutTag}`
+  });
+
+  const entries = result.items
+    .map(toTimetableEntry)
+    .filter((e): e is SubwayTimetableEntry => e !== undefined)
+    .sort((a, b) => a.minutes - b.minutes);
+
+  return {
+    timetable: {
+      stationName: station.STATION_NM,
+      line: normalizeLineName(station.LINE_NUM),
+      stationCode: station.STATION_CD,
+      direction,
+      directionName: getDirectionName(station.LINE_NUM, direction),
+      entries
+    },
+    cache: result.cache
+  };
+}
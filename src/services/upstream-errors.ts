@@ -0,0 +1,229 @@
+/**
+ * Korea Transit MCP Server - Upstream Errors
+ *
+ * 서울 열린데이터광장 결과 코드(INFO-xxx/ERROR-xxx)와 서울 버스 API headerCd를
+ * 안정적인 오류 코드, 사용자 안내 메시지, 재시도 가능 여부로 분류하는 오류 체계
+ */
+
+import { redactSecrets } from "./redact.js";
+
+// ===== 타입 정의 =====
+
+/**
+ * 업스트림 오류 코드 (클라이언트가 분기할 수 있는 안정적인 코드)
+ *
+ * - INVALID_API_KEY: 인증키 누락/미등록/사용 중지/권한 없음
+ * - QUOTA_EXCEEDED: 호출 한도 초과
+ * - INVALID_REQUEST: 필수 값 누락, 잘못된 요청 값
+ * - RANGE_TOO_LARGE: 한 번에 조회 가능한 범위(1000건) 초과
+ * - NO_DATA: 해당하는 데이터 없음
+ * - UPSTREAM_UNAVAILABLE: 업스트림 서버/DB 오류, HTTP 5xx
+ * - TIMEOUT: 응답 시간 초과
+ * - MALFORMED_RESPONSE: JSON이 아니거나 잘린 응답
+ * - UNKNOWN: 분류되지 않은 결과 코드
+ */
+export type UpstreamErrorCode =
+  | "INVALID_API_KEY"
+  | "QUOTA_EXCEEDED"
+  | "INVALID_REQUEST"
+  | "RANGE_TOO_LARGE"
+  | "NO_DATA"
+  | "UPSTREAM_UNAVAILABLE"
+  | "TIMEOUT"
+  | "MALFORMED_RESPONSE"
+  | "UNKNOWN";
+
+/** 업스트림 API 계열 */
+export type UpstreamSource = "seoul" | "bus" | "http";
+
+/** 업스트림 오류 부가 정보 */
+export interface UpstreamErrorDetails {
+  /** 원본 결과 코드 (예: "INFO-100", "bus:7", "HTTP 503") */
+  upstreamCode?: string;
+  /** 원본 결과 메시지 */
+  upstreamMessage?: string;
+  /** 재시도 가능 여부 (생략 시 오류 코드 기본값) */
+  retryable?: boolean;
+  /** 요청 URL (API 키는 가려서 보관) */
+  endpoint?: string;
+  /** 재시도까지 기다려야 하는 시간 (초) */
+  retryAfterSeconds?: number;
+  cause?: unknown;
+}
+
+// ===== 코드 정의 =====
+
+/** 오류 코드별 사용자 안내 메시지와 기본 재시도 가능 여부 */
+export const UPSTREAM_ERROR_INFO: Record<UpstreamErrorCode, { message: string; retryable: boolean }> = {
+  INVALID_API_KEY: {
+    message: "API 인증키가 유효하지 않습니다. 서버의 API 키 설정을 확인해주세요.",
+    retryable: false
+  },
+  QUOTA_EXCEEDED: {
+    message: "공공데이터 API 호출 한도를 초과했습니다. 잠시 후 다시 시도해주세요.",
+    retryable: false
+  },
+  INVALID_REQUEST: {
+    message: "요청 값이 올바르지 않습니다.",
+    retryable: false
+  },
+  RANGE_TOO_LARGE: {
+    message: "한 번에 조회할 수 있는 범위(최대 1000건)를 초과했습니다.",
+    retryable: false
+  },
+  NO_DATA: {
+    message: "해당하는 데이터가 없습니다.",
+    retryable: false
+  },
+  UPSTREAM_UNAVAILABLE: {
+    message: "공공데이터 API 서버에 일시적인 문제가 있습니다. 잠시 후 다시 시도해주세요.",
+    retryable: true
+  },
+  TIMEOUT: {
+    message: "요청 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.",
+    retryable: true
+  },
+  MALFORMED_RESPONSE: {
+    message: "공공데이터 API 응답 형식이 올바르지 않습니다. 잠시 후 다시 시도해주세요.",
+    retryable: true
+  },
+  UNKNOWN: {
+    message: "알 수 없는 API 오류가 발생했습니다.",
+    retryable: false
+  }
+};
+
+/** 서울 열린데이터광장/지하철 실시간 API 결과 코드 → 오류 코드 */
+const SEOUL_RESULT_CODES: Record<string, UpstreamErrorCode> = {
+  "INFO-100": "INVALID_API_KEY",
+  "INFO-200": "NO_DATA",
+  "INFO-300": "QUOTA_EXCEEDED",
+  "INFO-400": "INVALID_API_KEY",
+  "INFO-500": "UPSTREAM_UNAVAILABLE",
+  "ERROR-300": "INVALID_REQUEST",
+  "ERROR-301": "INVALID_REQUEST",
+  "ERROR-310": "INVALID_REQUEST",
+  "ERROR-331": "INVALID_REQUEST",
+  "ERROR-332": "INVALID_REQUEST",
+  "ERROR-333": "INVALID_REQUEST",
+  "ERROR-334": "INVALID_REQUEST",
+  "ERROR-335": "RANGE_TOO_LARGE",
+  "ERROR-336": "RANGE_TOO_LARGE",
+  "ERROR-500": "UPSTREAM_UNAVAILABLE",
+  "ERROR-600": "UPSTREAM_UNAVAILABLE",
+  "ERROR-601": "UPSTREAM_UNAVAILABLE"
+};
+
+/** 서울 버스 API headerCd → 오류 코드 */
+const BUS_HEADER_CODES: Record<string, UpstreamErrorCode> = {
+  "1": "UPSTREAM_UNAVAILABLE",
+  "2": "INVALID_REQUEST",
+  "3": "INVALID_REQUEST",
+  "4": "NO_DATA",
+  "5": "INVALID_API_KEY",
+  "6": "INVALID_API_KEY",
+  "7": "INVALID_API_KEY",
+  "8": "QUOTA_EXCEEDED",
+  "20": "INVALID_REQUEST",
+  "21": "INVALID_REQUEST",
+  "22": "INVALID_REQUEST",
+  "23": "INVALID_REQUEST"
+};
+
+// ===== 오류 클래스 =====
+
+/**
+ * 업스트림 API 오류 기본 클래스
+ *
+ * message는 사용자 안내 메시지이며, 원본 결과 코드/메시지는 upstreamCode/upstreamMessage에 보존합니다.
+ */
+export class UpstreamError extends Error {
+  readonly upstreamCode?: string;
+  readonly upstreamMessage?: string;
+  readonly retryable: boolean;
+  readonly endpoint?: string;
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    public readonly code: UpstreamErrorCode,
+    public readonly source: UpstreamSource,
+    details: UpstreamErrorDetails = {},
+    message: string = UPSTREAM_ERROR_INFO[code].message
+  ) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = "UpstreamError";
+    this.upstreamCode = details.upstreamCode;
+    this.upstreamMessage = details.upstreamMessage;
+    this.retryable = details.retryable ?? UPSTREAM_ERROR_INFO[code].retryable;
+    this.endpoint = details.endpoint !== undefined ? redactSecrets(details.endpoint) : undefined;
+    this.retryAfterSeconds = details.retryAfterSeconds;
+  }
+}
+
+/** 서울 열린데이터광장/지하철 실시간 API 결과 코드 오류 */
+export class SeoulApiResultError extends UpstreamError {
+  constructor(resultCode: string, resultMessage: string, endpoint?: string) {
+    super(classifySeoulResultCode(resultCode), "seoul", {
+      upstreamCode: resultCode,
+      upstreamMessage: resultMessage,
+      endpoint
+    });
+    this.name = "SeoulApiResultError";
+  }
+}
+
+/** 서울 버스 API headerCd 오류 */
+export class BusApiResultError extends UpstreamError {
+  constructor(headerCd: string, headerMsg: string, endpoint?: string) {
+    super(classifyBusHeaderCode(headerCd), "bus", {
+      upstreamCode: `bus:${headerCd}`,
+      upstreamMessage: headerMsg,
+      endpoint
+    });
+    this.name = "BusApiResultError";
+  }
+}
+
+/** JSON이 아니거나 잘린 응답 */
+export class MalformedResponseError extends UpstreamError {
+  constructor(endpoint: string, cause?: unknown) {
+    super("MALFORMED_RESPONSE", "http", {
+      upstreamMessage: cause instanceof Error ? cause.message : undefined,
+      endpoint,
+      cause
+    });
+    this.name = "MalformedResponseError";
+  }
+}
+
+// ===== 분류 함수 =====
+
+/**
+ * HTTP 상태 코드 → 오류 코드
+ */
+export function classifyHttpStatus(status: number): UpstreamErrorCode {
+  if (status === 401 || status === 403) {
+    return "INVALID_API_KEY";
+  }
+  if (status === 429) {
+    return "QUOTA_EXCEEDED";
+  }
+  if (status >= 500) {
+    return "UPSTREAM_UNAVAILABLE";
+  }
+  return status >= 400 ? "INVALID_REQUEST" : "UNKNOWN";
+}
+
+/**
+ * 서울 열린데이터광장 결과 코드 → 오류 코드
+ */
+export function classifySeoulResultCode(resultCode: string): UpstreamErrorCode {
+  return SEOUL_RESULT_CODES[resultCode] ?? "UNKNOWN";
+}
+
+/**
+ * 서울 버스 API headerCd → 오류 코드
+ */
+export function classifyBusHeaderCode(headerCd: string): UpstreamErrorCode {
+  return BUS_HEADER_CODES[headerCd] ?? "UNKNOWN";
+}
@@ -0,0 +1,332 @@
+/**
+ * Korea Transit MCP Server - HTTP Sessions
+ *
+ * Streamable HTTP 세션 관리 (MCP 스펙의 Mcp-Session-Id)
+ *
+ * - initialize 요청마다 새 세션 ID를 발급하고 세션별 MCP 서버/transport를 생성
+ * - GET(SSE 스트림), DELETE(세션 종료)를 세션 transport로 전달
+ * - 유휴 세션 만료, 최대 세션 수에 도달하면 새 세션 거부 (인증된 클라이언트는 자신의 가장 오래된 세션을 정리)
+ * - 세션별 이벤트 저장소로 끊긴 SSE 스트림 재개 (Last-Event-ID)
+ * - stateless 모드: 세션 없이 요청마다 서버/transport 생성 (서버리스용)
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Request, Response } from "express";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest, type JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { SESSION } from "./constants.js";
+import { createTransitServer, type TransitServerOptions } from "./server.js";
+
+// ===== 타입 정의 =====
+
+/** 세션 관리 설정 */
+export interface SessionManagerOptions {
+  /** 세션 없이 요청마다 처리 (서버리스용) */
+  stateless?: boolean;
+  /** 유휴 세션 만료 시간 (ms) */
+  idleTimeoutMs?: number;
+  /** 최대 동시 세션 수 */
+  maxSessions?: number;
+  /** 세션별 SSE 재개용 이벤트 보관 개수 */
+  maxEventsPerSession?: number;
+  /** MCP 서버 생성 (테스트용) */
+  createServer?: (options: TransitServerOptions) => McpServer;
+  /** 현재 시각 (테스트용) */
+  now?: () => number;
+}
+
+/** 세션 상태 요약 (/health 응답용) */
+export interface SessionStats {
+  mode: "stateful" | "stateless";
+  active: number;
+  maxSessions: number;
+  idleTimeoutSeconds: number;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** 세션을 만든 클라이언트 (다른 클라이언트의 세션 사용 방지) */
+  clientId?: string;
+  /** 마지막 요청 시작/응답 종료 시각 */
+  lastActiveAt: number;
+  /** 진행 중인 요청 수 (SSE 스트림, 오래 걸리는 도구 호출 포함) */
+  openRequests: number;
+}
+
+// ===== 이벤트 저장소 =====
+
+/**
+ * 메모리 기반 SSE 이벤트 저장소 (세션 단위)
+ *
+ * 최근 maxEvents개만 보관하며, 이벤트 ID는 `<스트림ID>_<순번>` 형식입니다.
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly events: { eventId: EventId; streamId: StreamId; message: JSONRPCMessage }[] = [];
+  private sequence = 0;
+
+  constructor(private readonly maxEvents: number = SESSION.MAX_EVENTS_PER_SESSION) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.sequence}`;
+    this.events.push({ eventId, streamId, message });
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find((event) => event.eventId === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex((event) => event.eventId === lastEventId);
+    if (index < 0) {
+      return "";
+    }
+
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+}
+
+// ===== 세션 관리 =====
+
+/** JSON-RPC 오류 응답 */
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: "2.0", id: null, error: { code, message } });
+}
+
+/**
+ * MCP HTTP 세션 관리자
+ *
+ * Express의 /mcp POST/GET/DELETE 요청을 세션별 transport로 전달합니다.
+ */
+export class McpSessionManager {
+  private readonly sessions = new Map<string, Session>();
+  private readonly stateless: boolean;
+  private readonly idleTimeoutMs: number;
+  private readonly maxSessions: number;
+  private readonly maxEventsPerSession: number;
+  private readonly createServer: (options: TransitServerOptions) => McpServer;
+  private readonly now: () => number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(options: SessionManagerOptions = {}) {
+    this.stateless = options.stateless ?? SESSION.STATELESS;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? SESSION.IDLE_TIMEOUT_MS;
+    this.maxSessions = options.maxSessions ?? SESSION.MAX_SESSIONS;
+    if (!(this.maxSessions >= 1)) {
+      throw new Error(`최대 세션 수는 1 이상이어야 합니다 (현재: ${this.maxSessions})`);
+    }
+    this.maxEventsPerSession = options.maxEventsPerSession ?? SESSION.MAX_EVENTS_PER_SESSION;
+    this.createServer = options.createServer ?? createTransitServer;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** 활성 세션 수 */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * 유휴 세션 정리 타이머 시작 (프로세스 종료를 막지 않음)
+   */
+  startSweeper(intervalMs: number = SESSION.SWEEP_INTERVAL_MS): void {
+    if (this.stateless || this.sweepTimer) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => void this.sweepIdleSessions(), intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * /mcp 요청 처리 (POST/GET/DELETE)
+   */
+  async handleRequest(req: Request, res: Response): Promise<void> {
+    if (this.stateless) {
+      return this.handleStatelessRequest(req, res);
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      // 다른 클라이언트가 만든 세션은 존재하지 않는 것으로 처리
+      if (!session || session.clientId !== req.auth?.clientId) {
+        sendJsonRpcError(res, 404, -32001, "세션을 찾을 수 없습니다. 다시 초기화(initialize)해주세요.");
+        return;
+      }
+      // 요청이 끝날 때까지(SSE 스트림이 닫힐 때까지) 사용 중인 세션으로 취급
+      session.lastActiveAt = this.now();
+      session.openRequests++;
+      res.on("close", () => {
+        session.openRequests--;
+        session.lastActiveAt = this.now();
+      });
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (req.method === "POST" && isInitializeRequest(req.body)) {
+      await this.createSession(req, res);
+      return;
+    }
+
+    sendJsonRpcError(res, 400, -32000, "Mcp-Session-Id 헤더가 필요합니다. 먼저 initialize 요청으로 세션을 만들어주세요.");
+  }
+
+  /**
+   * initialize 요청으로 새 세션 생성
+   *
+   * 최대 세션 수에 도달하면 인증된 클라이언트는 자신의 가장 오래 쓰이지 않은 세션을 정리하고,
+   * 정리할 세션이 없으면(인증 미설정 포함) 503으로 거부합니다. 다른 클라이언트의 세션은 정리하지 않습니다.
+   */
+  private async createSession(req: Request, res: Response): Promise<void> {
+    if (this.sessions.size >= this.maxSessions) {
+      const clientId = req.auth?.clientId;
+      const evicted = clientId !== undefined && await this.evictLeastRecentlyUsed(clientId);
+      if (!evicted) {
+        sendJsonRpcError(res, 503, -32000, "동시 세션 수가 최대치에 도달했습니다. 잠시 후 다시 시도해주세요.");
+        return;
+      }
+    }
+
+    // 세션 SSE 스트림으로 진행 알림을 보낼 수 있으므로 도착 알림 도구도 등록
+    const server = this.createServer({ watch: true });
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(this.maxEventsPerSession),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, {
+          server,
+          transport,
+          clientId: req.auth?.clientId,
+          lastActiveAt: this.now(),
+          openRequests: 0
+        });
+      }
+    });
+    // DELETE 요청, 만료, 연결 종료 등으로 transport가 닫히면 목록에서 제거
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+
+    // initialize가 실패해 세션이 등록되지 않았으면 바로 정리
+    if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+      await server.close();
+    }
+  }
+
+  /**
+   * stateless 요청 처리 (요청마다 서버/transport 생성 후 정리)
+   */
+  private async handleStatelessRequest(req: Request, res: Response): Promise<void> {
+    if (req.method !== "POST") {
+      // stateless 모드는 세션 SSE 스트림/세션 종료를 지원하지 않음
+      res.set("Allow", "POST");
+      sendJsonRpcError(res, 405, -32000, "stateless 모드에서는 POST 요청만 지원합니다.");
+      return;
+    }
+
+    // JSON 응답 모드는 진행 알림을 보낼 수 없으므로 도착 알림 도구는 등록하지 않음
+    const server = this.createServer({ watch: false });
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true
+    });
+    res.on("close", () => {
+      void transport.close();
+      void server.close();
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  /**
+   * 세션 종료 및 정리
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    await session.server.close();
+  }
+
+  /**
+   * 유휴 시간이 지난 세션 정리
+   *
+   * 열려 있는 SSE 스트림이나 진행 중인 요청이 있는 세션은 사용 중이므로 정리하지 않습니다.
+   *
+   * @returns 정리한 세션 수
+   */
+  async sweepIdleSessions(): Promise<number> {
+    const now = this.now();
+    const expired = [...this.sessions]
+      .filter(([, session]) => session.openRequests === 0 && now - session.lastActiveAt >= this.idleTimeoutMs)
+      .map(([sessionId]) => sessionId);
+
+    await Promise.all(expired.map((sessionId) => this.closeSession(sessionId)));
+    return expired.length;
+  }
+
+  /**
+   * 클라이언트의 가장 오래 쓰이지 않은 세션 정리 (최대 세션 수 도달 시)
+   *
+   * @returns 정리한 세션이 있는지 여부
+   */
+  private async evictLeastRecentlyUsed(clientId: string): Promise<boolean> {
+    let oldest: [string, Session] | undefined;
+    for (const entry of this.sessions) {
+      if (entry[1].clientId === clientId && (!oldest || entry[1].lastActiveAt < oldest[1].lastActiveAt)) {
+        oldest = entry;
+      }
+    }
+    if (!oldest) {
+      return false;
+    }
+    await this.closeSession(oldest[0]);
+    return true;
+  }
+
+  /**
+   * 전체 세션 종료 (서버 종료 시)
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    await Promise.all([...this.sessions.keys()].map((sessionId) => this.closeSession(sessionId)));
+  }
+
+  /**
+   * 세션 상태 요약
+   */
+  getStats(): SessionStats {
+    return {
+      mode: this.stateless ? "stateless" : "stateful",
+      active: this.sessions.size,
+      maxSessions: this.maxSessions,
+      idleTimeoutSeconds: Math.round(this.idleTimeoutMs / 1000)
+    };
+  }
+}
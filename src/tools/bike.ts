@@ -5,147 +5,150 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { API_ENDPOINTS } from "../constants.js";
 import {
   BikeStationInputSchema,
-  CombinedTransitInputSchema
+  CombinedTransitInputSchema,
+  BikeStationOutputSchema,
+  CombinedTransitOutputSchema
 } from "../schemas/index.js";
 import {
-  fetchPaginatedData,
-  encodeSearchQuery,
+  fetchBikeStations,
+  searchBikeStations,
+  fetchSubwayArrivals,
+  resolveSubwayStation,
+  getBusStopIndex,
   formatBikeStations,
   formatCombinedTransit,
-  truncateResponse
+  mergeCacheMeta,
+  toBikeStationOutput,
+  toCombinedTransitOutput,
+  truncateResponse,
+  createErrorResponse
 } from "../services/index.js";
-import type {
-  BikeStation,
-  SubwayArrival,
-  BusStation,
-  BusArrival
-} from "../types.js";
+import { registerToolDefinitions, type ToolDefinition } from "./definition.js";
+import type { BusArrival } from "../types.js";
+
+// ===== transit_get_bike_station =====
+
+export const bikeStationTool: ToolDefinition = {
+  name: "transit_get_bike_station",
+  description: "서울 따릉이(공공자전거) 대여소를 검색하고 실시간 자전거 이용가능 현황을 조회합니다.",
+  inputSchema: BikeStationInputSchema,
+  outputSchema: BikeStationOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = BikeStationInputSchema.parse(params);
+
+      // 따릉이 API는 전체 조회 후 필터링 필요
+      const result = await fetchBikeStations();
+      const filtered = searchBikeStations(result.items, input.query, input.limit);
+
+      const output = toBikeStationOutput(filtered, input.query, result.cache);
+      const formatted = formatBikeStations(
+        filtered,
+        input.query,
+        input.response_format,
+        result.cache
+      );
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "따릉이 대여소 검색 실패");
+    }
+  }
+};
+
+// ===== transit_get_combined_info =====
+
+export const combinedInfoTool: ToolDefinition = {
+  name: "transit_get_combined_info",
+  description: "특정 위치 주변의 지하철, 버스, 따릉이 정보를 통합 조회합니다. 위치명을 입력하면 주변의 모든 대중교통 정보를 한번에 확인할 수 있습니다.",
+  inputSchema: CombinedTransitInputSchema,
+  outputSchema: CombinedTransitOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = CombinedTransitInputSchema.parse(params);
+
+      const location = input.location.replace(/역$/u, "").trim();
+
+      // 위치명이 역명과 일치하면 공식 역명으로 조회 (역이 아닌 위치명일 수 있으므로 해석 실패는 무시)
+      const resolved = await resolveSubwayStation(input.location).catch(() => undefined);
+      const subwayStationName = resolved?.station.name ?? location;
+
+      // 병렬로 모든 API 호출
+      const [subwayResult, busStationResult, bikeResult] = await Promise.allSettled([
+        // 지하철 도착정보
+        fetchSubwayArrivals(subwayStationName, 10),
+        // 버스 정류장 색인
+        getBusStopIndex(),
+        // 따릉이 대여소 (전체 조회 후 필터링)
+        fetchBikeStations()
+      ]);
+
+      // 지하철 결과
+      const subwayArrivals = subwayResult.status === "fulfilled"
+        ? subwayResult.value.items
+        : [];
+
+      // 버스 정류장 검색
+      const filteredBusStations = busStationResult.status === "fulfilled"
+        ? busStationResult.value.index.search(location, 3).map((m) => m.station)
+        : [];
+
+      // 버스 도착정보는 생략 (추가 API 호출 필요)
+      const busArrivals = new Map<string, BusArrival[]>();
+
+      // 따릉이 결과 (필터링)
+      const allBikeStations = bikeResult.status === "fulfilled"
+        ? bikeResult.value.items
+        : [];
+      const filteredBikeStations = searchBikeStations(allBikeStations, location, 5);
+
+      const cache = mergeCacheMeta([
+        subwayResult.status === "fulfilled" ? subwayResult.value.cache : undefined,
+        busStationResult.status === "fulfilled"
+          ? busStationResult.value.index.toCacheMeta(busStationResult.value.hit)
+          : undefined,
+        bikeResult.status === "fulfilled" ? bikeResult.value.cache : undefined
+      ]);
+      const output = toCombinedTransitOutput(
+        input.location,
+        subwayArrivals,
+        { stations: filteredBusStations, arrivals: busArrivals },
+        filteredBikeStations,
+        cache
+      );
+      const formatted = formatCombinedTransit(
+        input.location,
+        subwayArrivals,
+        { stations: filteredBusStations, arrivals: busArrivals },
+        filteredBikeStations,
+        input.response_format,
+        cache
+      );
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "통합 교통정보 조회 실패");
+    }
+  }
+};
+
+/** 따릉이 및 통합 교통정보 도구 목록 */
+export const bikeTools: readonly ToolDefinition[] = [
+  bikeStationTool,
+  combinedInfoTool
+];
 
 /**
  * 따릉이 및 통합 교통정보 도구들을 MCP 서버에 등록
  */
 export function registerBikeTools(server: McpServer): void {
-  // transit_get_bike_station
-  server.tool(
-    "transit_get_bike_station",
-    "서울 따릉이(공공자전거) 대여소를 검색하고 실시간 자전거 이용가능 현황을 조회합니다.",
-    BikeStationInputSchema.shape,
-    async (params: unknown) => {
-      try {
-        const input = BikeStationInputSchema.parse(params);
-
-        const url = `${API_ENDPOINTS.BIKE_STATION}/1/1000/`;
-
-        // 따릉이 API는 전체 조회 후 필터링 필요
-        const result = await fetchPaginatedData<BikeStation>(url, {
-          limit: 1000,
-          apiKey: "rentBikeStatus"
-        });
-
-        // 검색어로 필터링
-        const filtered = result.items.filter((s: BikeStation) =>
-          s.stationName && s.stationName.toLowerCase().includes(input.query.toLowerCase())
-        ).slice(0, input.limit);
-
-        const formatted = formatBikeStations(
-          filtered,
-          input.query,
-          input.response_format
-        );
-
-        return {
-          content: [{ type: "text" as const, text: truncateResponse(formatted) }]
-        };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "알 수 없는 오류";
-        return {
-          content: [{ type: "text" as const, text: `❌ 따릉이 대여소 검색 실패: ${message}` }],
-          isError: true
-        };
-      }
-    }
-  );
-
-  // transit_get_combined_info
-  server.tool(
-    "transit_get_combined_info",
-    "특정 위치 주변의 지하철, 버스, 따릉이 정보를 통합 조회합니다. 위치명을 입력하면 주변의 모든 대중교통 정보를 한번에 확인할 수 있습니다.",
-    CombinedTransitInputSchema.shape,
-    async (params: unknown) => {
-      try {
-        const input = CombinedTransitInputSchema.parse(params);
-
-        const location = input.location.replace(/역$/u, "").trim();
-        const encodedLocation = encodeSearchQuery(location);
-
-        // 병렬로 모든 API 호출
-        const [subwayResult, busStationResult, bikeResult] = await Promise.allSettled([
-          // 지하철 도착정보
-          fetchPaginatedData<SubwayArrival>(
-            `${API_ENDPOINTS.SUBWAY_ARRIVAL}/0/10/${encodedLocation}`,
-            { limit: 10, apiKey: "realtimeStationArrival" }
-          ),
-          // 버스 정류장 검색
-          fetchPaginatedData<BusStation>(
-            `${API_ENDPOINTS.BUS_STATION_SEARCH}/1/100/`,
-            { limit: 100, apiKey: "busStopLocationXyInfo" }
-          ),
-          // 따릉이 대여소 (전체 조회 후 필터링)
-          fetchPaginatedData<BikeStation>(
-            `${API_ENDPOINTS.BIKE_STATION}/1/1000/`,
-            { limit: 1000, apiKey: "rentBikeStatus" }
-          )
-        ]);
-
-        // 지하철 결과
-        const subwayArrivals = subwayResult.status === "fulfilled"
-          ? subwayResult.value.items
-          : [];
-
-        // 버스 결과 필터링
-        const allBusStations = busStationResult.status === "fulfilled"
-          ? busStationResult.value.items
-          : [];
-        const filteredBusStations = allBusStations.filter((s: BusStation) =>
-          s.STOPS_NM && s.STOPS_NM.includes(location)
-        ).slice(0, 3).map((s: BusStation) => ({
-          ...s,
-          stNm: s.STOPS_NM || "",
-          arsId: s.STOPS_NO || ""
-        }));
-
-        // 버스 도착정보는 생략 (추가 API 호출 필요)
-        const busArrivals = new Map<string, BusArrival[]>();
-
-        // 따릉이 결과 (필터링)
-        const allBikeStations = bikeResult.status === "fulfilled"
-          ? bikeResult.value.items
-          : [];
-        const filteredBikeStations = allBikeStations.filter((s: BikeStation) =>
-          s.stationName && s.stationName.toLowerCase().includes(location.toLowerCase())
-        ).slice(0, 5);
-
-        const formatted = formatCombinedTransit(
-          input.location,
-          subwayArrivals,
-          { stations: filteredBusStations, arrivals: busArrivals },
-          filteredBikeStations,
-          input.response_format
-        );
-
-        return {
-          content: [{ type: "text" as const, text: truncateResponse(formatted) }]
-        };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "알 수 없는 오류";
-        return {
-          content: [{ type: "text" as const, text: `❌ 통합 교통정보 조회 실패: ${message}` }],
-          isError: true
-        };
-      }
-    }
-  );
+  registerToolDefinitions(server, bikeTools);
 }
@@ -5,111 +5,161 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { API_ENDPOINTS } from "../constants.js";
 import {
   BusArrivalInputSchema,
-  BusStationSearchInputSchema
+  BusStationSearchInputSchema,
+  BusRouteInputSchema,
+  BusArrivalOutputSchema,
+  BusStationSearchOutputSchema,
+  BusRouteOutputSchema
 } from "../schemas/index.js";
 import {
-  fetchPaginatedData,
-  encodeSearchQuery,
+  fetchBusArrivals,
+  getBusStopIndex,
   formatBusArrivals,
   formatBusStations,
-  truncateResponse
+  lookupBusRoutes,
+  fetchBusRouteStops,
+  formatBusRoutes,
+  mergeCacheMeta,
+  toBusArrivalOutput,
+  toBusStationSearchOutput,
+  toBusRouteOutput,
+  truncateResponse,
+  createErrorResponse
 } from "../services/index.js";
-import type { BusArrival, BusStation } from "../types.js";
+import { registerToolDefinitions, type ToolDefinition } from "./definition.js";
+import { BUS_ROUTE } from "../constants.js";
+import type { BusRouteDetail } from "../types.js";
+
+// ===== transit_get_bus_arrival =====
+
+export const busArrivalTool: ToolDefinition = {
+  name: "transit_get_bus_arrival",
+  description: "서울 버스 정류장의 실시간 도착정보를 조회합니다. 5자리 정류장 ID(arsId)가 필요하며, 정류장을 모르면 transit_search_bus_station으로 먼저 검색하세요.",
+  inputSchema: BusArrivalInputSchema,
+  outputSchema: BusArrivalOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = BusArrivalInputSchema.parse(params);
+
+      const result = await fetchBusArrivals(input.ars_id);
+
+      // 정류장 이름 추출 (첫 번째 결과에서)
+      const stationName = result.items[0]?.stNm || "정류장";
+
+      const output = toBusArrivalOutput(result.items.slice(0, input.limit), stationName, input.ars_id, result.cache);
+      const formatted = formatBusArrivals(
+        result.items.slice(0, input.limit),
+        stationName,
+        input.ars_id,
+        input.response_format,
+        result.cache
+      );
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "버스 정보 조회 실패", "정류장 번호가 올바른지 확인해 주세요.");
+    }
+  }
+};
+
+// ===== transit_search_bus_station =====
+
+export const busStationSearchTool: ToolDefinition = {
+  name: "transit_search_bus_station",
+  description: "버스 정류장을 이름 또는 번호로 검색합니다. 검색 결과에서 정류장 ID(arsId)를 확인하여 도착정보 조회에 사용할 수 있습니다.",
+  inputSchema: BusStationSearchInputSchema,
+  outputSchema: BusStationSearchOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = BusStationSearchInputSchema.parse(params);
+      const query = input.query.trim();
+
+      // 전체 정류장 색인에서 검색
+      const { index, hit } = await getBusStopIndex();
+      const stations = index.search(query, input.limit).map((m) => m.station);
+
+      const cache = index.toCacheMeta(hit);
+      const output = toBusStationSearchOutput(stations, query, cache);
+      const formatted = formatBusStations(
+        stations,
+        query,
+        input.response_format,
+        cache
+      );
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "정류장 검색 실패");
+    }
+  }
+};
+
+// ===== transit_get_bus_route =====
+
+export const busRouteTool: ToolDefinition = {
+  name: "transit_get_bus_route",
+  description: "서울 버스 노선 번호로 노선 정보를 조회합니다. 노선 유형, 기점/종점, 첫차/막차 시간, 배차 간격과 함께 경유 정류장 목록을 순서대로 반환하며, 각 정류장의 번호(arsId)로 도착정보를 조회할 수 있습니다.",
+  inputSchema: BusRouteInputSchema,
+  outputSchema: BusRouteOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = BusRouteInputSchema.parse(params);
+
+      const lookup = await lookupBusRoutes(input.route_number);
+
+      // 번호가 정확히 일치하는 노선만 정류장 목록 조회
+      const stopResults = await Promise.all(
+        lookup.exact
+          .slice(0, BUS_ROUTE.MAX_DETAILED_ROUTES)
+          .map((route) => fetchBusRouteStops(route.busRouteId))
+      );
+      const details: BusRouteDetail[] = stopResults.map((result, idx) => ({
+        route: lookup.exact[idx],
+        stops: result.items
+      }));
+
+      // 일치하는 노선이 없을 때만 후보 제시
+      const candidates = details.length === 0
+        ? lookup.candidates.slice(0, BUS_ROUTE.MAX_CANDIDATES)
+        : [];
+      const cache = mergeCacheMeta([lookup.cache, ...stopResults.map((r) => r.cache)]);
+      const output = toBusRouteOutput(details, candidates, input.route_number, cache);
+      const formatted = formatBusRoutes(
+        details,
+        candidates,
+        input.route_number,
+        input.response_format,
+        cache
+      );
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "버스 노선 조회 실패", "노선 번호가 올바른지 확인해 주세요.");
+    }
+  }
+};
+
+/** 버스 관련 도구 목록 */
+export const busTools: readonly ToolDefinition[] = [
+  busArrivalTool,
+  busStationSearchTool,
+  busRouteTool
+];
 
 /**
  * 버스 관련 도구들을 MCP 서버에 등록
  */
 export function registerBusTools(server: McpServer): void {
-  // transit_get_bus_arrival
-  server.tool(
-    "transit_get_bus_arrival",
-    "서울 버스 정류장의 실시간 도착정보를 조회합니다. 5자리 정류장 ID(arsId)가 필요하며, 정류장을 모르면 transit_search_bus_station으로 먼저 검색하세요.",
-    BusArrivalInputSchema.shape,
-    async (params: unknown) => {
-      try {
-        const input = BusArrivalInputSchema.parse(params);
-
-        const url = `${API_ENDPOINTS.BUS_ARRIVAL}=${input.ars_id}`;
-
-        const result = await fetchPaginatedData<BusArrival>(url, {
-          limit: input.limit,
-          apiKey: "msgBody"
-        });
-
-        // 정류장 이름 추출 (첫 번째 결과에서)
-        const stationName = result.items[0]?.stNm || "정류장";
-
-        const formatted = formatBusArrivals(
-          result.items,
-          stationName,
-          input.ars_id,
-          input.response_format
-        );
-
-        return {
-          content: [{ type: "text" as const, text: truncateResponse(formatted) }]
-        };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "알 수 없는 오류";
-        return {
-          content: [{ type: "text" as const, text: `❌ 버스 정보 조회 실패: ${message}\n\n💡 정류장 번호가 올바른지 확인해 주세요.` }],
-          isError: true
-        };
-      }
-    }
-  );
-
-  // transit_search_bus_station
-  server.tool(
-    "transit_search_bus_station",
-    "버스 정류장을 이름 또는 번호로 검색합니다. 검색 결과에서 정류장 ID(arsId)를 확인하여 도착정보 조회에 사용할 수 있습니다.",
-    BusStationSearchInputSchema.shape,
-    async (params: unknown) => {
-      try {
-        const input = BusStationSearchInputSchema.parse(params);
-
-        const encodedQuery = encodeSearchQuery(input.query);
-        const url = `${API_ENDPOINTS.BUS_STATION_SEARCH}/1/1000/`;
-
-        const result = await fetchPaginatedData<BusStation>(url, {
-          limit: 1000,
-          apiKey: "busStopLocationXyInfo"
-        });
-
-        // 검색어로 필터링
-        const filtered = result.items.filter((s: BusStation) =>
-          (s.STOPS_NM && s.STOPS_NM.includes(input.query)) ||
-          s.STOPS_NO === input.query
-        ).slice(0, input.limit);
-
-        // BusStation 형식으로 변환
-        const stations: BusStation[] = filtered.map((s: BusStation) => ({
-          stNm: s.STOPS_NM || "",
-          arsId: s.STOPS_NO || "",
-          STOPS_NM: s.STOPS_NM,
-          STOPS_NO: s.STOPS_NO,
-          STOPS_TYPE: s.STOPS_TYPE
-        }));
-
-        const formatted = formatBusStations(
-          stations,
-          input.query,
-          input.response_format
-        );
-
-        return {
-          content: [{ type: "text" as const, text: truncateResponse(formatted) }]
-        };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "알 수 없는 오류";
-        return {
-          content: [{ type: "text" as const, text: `❌ 정류장 검색 실패: ${message}` }],
-          isError: true
-        };
-      }
-    }
-  );
+  registerToolDefinitions(server, busTools);
 }
@@ -0,0 +1,147 @@
+/**
+ * Korea Transit MCP Server - Tool Definition
+ *
+ * 모든 진입점(stdio, Express, Vercel)이 공유하는 도구 정의 형식
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { runWithRequestContext, getRequestContext } from "../services/request-context.js";
+import { recordToolCall } from "../services/metrics.js";
+import { logger } from "../services/logger.js";
+
+// ===== 타입 정의 =====
+
+/** MCP 도구 응답 */
+export interface ToolResponse {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+  /** outputSchema를 따르는 구조화된 결과 (오류 응답에서는 생략) */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/** 도구 실행 컨텍스트 (취소 신호, 진행 알림) */
+export interface ToolCallContext {
+  /** 요청 취소 신호 (notifications/cancelled 수신, 진행 알림 전송 불가 시) */
+  signal: AbortSignal;
+  /** 진행 알림 전송 (클라이언트가 progressToken을 보낸 경우에만 전송) */
+  sendProgress(progress: number, total?: number, message?: string): Promise<void>;
+}
+
+/** MCP 도구 정의 (이름, 설명, 입력/출력 스키마, 핸들러) */
+export interface ToolDefinition {
+  /** 도구 이름 (예: "transit_get_subway_arrival") */
+  name: string;
+  /** 도구 설명 */
+  description: string;
+  /** 입력 스키마 */
+  inputSchema: z.ZodObject<z.ZodRawShape>;
+  /** 출력 스키마 (structuredContent 형식) */
+  outputSchema: z.ZodObject<z.ZodRawShape>;
+  /** 도구 실행 핸들러 (입력 검증 포함) */
+  handler: (params: unknown, context?: ToolCallContext) => Promise<ToolResponse>;
+}
+
+// ===== 등록 함수 =====
+
+/** 오류 응답의 오류 코드 (_meta.error.code) */
+function getErrorCode(response: ToolResponse): string | undefined {
+  if (!response.isError) {
+    return undefined;
+  }
+  const meta = response._meta as { error?: { code?: string } } | undefined;
+  return meta?.error?.code ?? "REQUEST_FAILED";
+}
+
+/**
+ * 요청 처리 정보로 도구 실행 컨텍스트 생성
+ *
+ * 연결이 끊겨 진행 알림을 보낼 수 없으면 취소된 것으로 보고 signal을 중단합니다.
+ */
+function createCallContext(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolCallContext {
+  const controller = new AbortController();
+  if (extra.signal.aborted) {
+    controller.abort(extra.signal.reason);
+  } else {
+    extra.signal.addEventListener("abort", () => controller.abort(extra.signal.reason), { once: true });
+  }
+  const progressToken = extra._meta?.progressToken;
+
+  return {
+    signal: controller.signal,
+    async sendProgress(progress, total, message) {
+      if (progressToken === undefined || controller.signal.aborted) {
+        return;
+      }
+      try {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message }
+        });
+      } catch (error) {
+        logger.debug("진행 알림 전송 실패", { error });
+        controller.abort(error);
+      }
+    }
+  };
+}
+
+/**
+ * 핸들러 실행 및 메트릭/로그 기록
+ */
+async function runWithMetrics(
+  tool: ToolDefinition,
+  params: unknown,
+  context: ToolCallContext
+): Promise<ToolResponse> {
+  const startedAt = Date.now();
+  try {
+    const response = await tool.handler(params, context);
+    const durationMs = Date.now() - startedAt;
+    const errorCode = getErrorCode(response);
+    recordToolCall(tool.name, durationMs, errorCode);
+    logger.info("도구 호출", { durationMs, outcome: errorCode ? "error" : "success", errorCode });
+    return response;
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    recordToolCall(tool.name, durationMs, "REQUEST_FAILED");
+    logger.error("도구 호출 실패", { durationMs, outcome: "error", errorCode: "REQUEST_FAILED", error });
+    throw error;
+  }
+}
+
+/**
+ * 도구 정의 목록을 MCP 서버에 등록
+ *
+ * outputSchema가 선언되므로 SDK가 성공 응답의 structuredContent를 검증합니다.
+ * 핸들러는 도구 호출 컨텍스트(HTTP 요청 ID, 세션, 도구 이름, 인증된 클라이언트) 안에서
+ * 실행되며, 호출 수/처리 시간/오류 코드가 메트릭과 로그에 기록됩니다.
+ * 오래 걸리는 도구는 ToolCallContext로 취소 여부를 확인하고 진행 알림을 보낼 수 있습니다.
+ */
+export function registerToolDefinitions(
+  server: McpServer,
+  tools: readonly ToolDefinition[]
+): void {
+  for (const tool of tools) {
+    server.registerTool(
+      tool.name,
+      {
+        description: tool.description,
+        inputSchema: tool.inputSchema.shape,
+        outputSchema: tool.outputSchema.shape
+      },
+      async (params: unknown, extra) => runWithRequestContext(
+        {
+          ...getRequestContext(),
+          sessionId: extra.sessionId,
+          tool: tool.name,
+          clientId: extra.authInfo?.clientId
+        },
+        () => runWithMetrics(tool, params, createCallContext(extra))
+      )
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Korea Transit MCP Server - Diagnostics Tools
+ *
+ * 서버 진단 정보(도구/업스트림 메트릭, 서킷 브레이커, 일일 호출 수) MCP 도구 정의
+ *
+ * HTTP 모드의 /metrics와 같은 정보를 stdio 모드에서 확인하기 위한 도구입니다.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { DiagnosticsInputSchema, DiagnosticsOutputSchema } from "../schemas/index.js";
+import {
+  getMetricsSummary,
+  getCircuitBreakerStates,
+  getQuotaLedger,
+  toDiagnosticsOutput,
+  formatDiagnostics,
+  truncateResponse,
+  createErrorResponse
+} from "../services/index.js";
+import { registerToolDefinitions, type ToolDefinition } from "./definition.js";
+
+// ===== transit_get_diagnostics =====
+
+export const getDiagnosticsTool: ToolDefinition = {
+  name: "transit_get_diagnostics",
+  description: "서버 진단 정보를 조회합니다. 도구별 호출/오류 수와 평균 처리 시간, 공공데이터 API 엔드포인트별 요청/오류(TIMEOUT 등) 수와 응답 시간, 캐시 적중률, 서킷 브레이커 상태, 오늘의 API 호출 수를 보여줍니다.",
+  inputSchema: DiagnosticsInputSchema,
+  outputSchema: DiagnosticsOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = DiagnosticsInputSchema.parse(params);
+
+      const output = toDiagnosticsOutput(
+        getMetricsSummary(),
+        getCircuitBreakerStates(),
+        getQuotaLedger().snapshot()
+      );
+      const formatted = formatDiagnostics(output, input.response_format);
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "진단 정보 조회 실패");
+    }
+  }
+};
+
+/** 진단 도구 목록 (stdio 모드 전용) */
+export const diagnosticsTools: readonly ToolDefinition[] = [
+  getDiagnosticsTool
+];
+
+/**
+ * 진단 도구들을 MCP 서버에 등록
+ */
+export function registerDiagnosticsTools(server: McpServer): void {
+  registerToolDefinitions(server, diagnosticsTools);
+}
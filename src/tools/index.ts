@@ -5,28 +5,55 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { registerSubwayTools } from "./subway.js";
-import { registerBusTools } from "./bus.js";
-import { registerBikeTools } from "./bike.js";
+import { registerToolDefinitions, type ToolDefinition } from "./definition.js";
+import { subwayTools } from "./subway.js";
+import { busTools } from "./bus.js";
+import { bikeTools } from "./bike.js";
+import { nearbyTools } from "./nearby.js";
 
 /**
- * 모든 MCP 도구를 서버에 등록
+ * 전체 도구 정의 목록
+ *
+ * stdio/Express 서버와 Vercel 핸들러가 모두 이 목록을 사용합니다.
  *
  * 등록되는 도구:
  * - transit_get_subway_arrival: 지하철 실시간 도착정보
  * - transit_get_subway_status: 지하철 운행상태
+ * - transit_get_subway_timetable: 지하철 시간표 (평일/토요일/휴일)
  * - transit_get_bus_arrival: 버스 실시간 도착정보
  * - transit_search_bus_station: 버스 정류장 검색
+ * - transit_get_bus_route: 버스 노선 및 경유 정류장 조회
  * - transit_get_bike_station: 따릉이 대여소 검색
  * - transit_get_combined_info: 통합 교통정보 조회
+ * - transit_find_nearby: 위치 기반 주변 교통수단 검색
+ *
+ * 진행 알림이 필요한 도착 알림 도구(watchTools)와 진단 도구(diagnosticsTools)는
+ * 이 목록에 포함되지 않으며, 지원하는 모드에서만 따로 등록합니다.
+ */
+export const ALL_TOOLS: readonly ToolDefinition[] = [
+  ...subwayTools,
+  ...busTools,
+  ...bikeTools,
+  ...nearbyTools
+];
+
+/**
+ * 모든 MCP 도구를 서버에 등록
  */
 export function registerAllTools(server: McpServer): void {
-  registerSubwayTools(server);
-  registerBusTools(server);
-  registerBikeTools(server);
+  registerToolDefinitions(server, ALL_TOOLS);
 }
 
 // 개별 등록 함수도 export
 export { registerSubwayTools } from "./subway.js";
 export { registerBusTools } from "./bus.js";
 export { registerBikeTools } from "./bike.js";
+export { registerNearbyTools } from "./nearby.js";
+export { watchTools, registerWatchTools } from "./watch.js";
+export { diagnosticsTools, registerDiagnosticsTools } from "./diagnostics.js";
+export {
+  registerToolDefinitions,
+  type ToolCallContext,
+  type ToolDefinition,
+  type ToolResponse
+} from "./definition.js";
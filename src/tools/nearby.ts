@@ -0,0 +1,141 @@
+/**
+ * Korea Transit MCP Server - Nearby Tools
+ *
+ * 위치(위경도) 기반 주변 교통수단 검색 MCP 도구 정의
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  NearbyInputSchema,
+  NearbyTransitType,
+  NearbyTransitOutputSchema
+} from "../schemas/index.js";
+import {
+  getSubwayStations,
+  getBusStopIndex,
+  getBikeStationSnapshot,
+  formatNearbyTransit,
+  mergeCacheMeta,
+  toNearbyTransitOutput,
+  truncateResponse,
+  createErrorResponse,
+  describeError,
+  type CacheMeta,
+  type Coordinates
+} from "../services/index.js";
+import { registerToolDefinitions, type ToolDefinition } from "./definition.js";
+import type {
+  NearbyPlace,
+  NearbySourceFailure,
+  NearbyTransitResult,
+  SubwayStationMaster,
+  BusStation,
+  BikeStation
+} from "../types.js";
+
+/** 주변 검색 데이터셋 조회 결과 */
+interface NearbySourceResult<T> {
+  places: NearbyPlace<T>[];
+  cache?: CacheMeta;
+}
+
+// ===== transit_find_nearby =====
+
+export const findNearbyTool: ToolDefinition = {
+  name: "transit_find_nearby",
+  description: "위도/경도 좌표 주변의 지하철역, 버스 정류장, 따릉이 대여소를 거리순으로 조회합니다. 각 결과에 직선 거리와 예상 도보 시간이 포함됩니다.",
+  inputSchema: NearbyInputSchema,
+  outputSchema: NearbyTransitOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = NearbyInputSchema.parse(params);
+
+      const center: Coordinates = {
+        latitude: input.latitude,
+        longitude: input.longitude
+      };
+      const includes = (type: NearbyTransitType) => input.types.includes(type);
+      const empty = <T>(): Promise<NearbySourceResult<T>> => Promise.resolve({ places: [] });
+
+      // 요청된 데이터셋만 병렬 조회
+      const [subwayResult, busResult, bikeResult] = await Promise.allSettled([
+        includes(NearbyTransitType.SUBWAY)
+          ? getSubwayStations().then(({ snapshot, cache }): NearbySourceResult<SubwayStationMaster> => ({
+            places: snapshot.spatial.nearby(center, input.radius, input.limit),
+            cache
+          }))
+          : empty<SubwayStationMaster>(),
+        includes(NearbyTransitType.BUS)
+          ? getBusStopIndex().then(({ index, hit }): NearbySourceResult<BusStation> => ({
+            places: index.spatial.nearby(center, input.radius, input.limit),
+            cache: index.toCacheMeta(hit)
+          }))
+          : empty<BusStation>(),
+        includes(NearbyTransitType.BIKE)
+          ? getBikeStationSnapshot().then(({ snapshot, cache }): NearbySourceResult<BikeStation> => ({
+            places: snapshot.spatial.nearby(center, input.radius, input.limit),
+            cache
+          }))
+          : empty<BikeStation>()
+      ]);
+
+      // 요청한 데이터셋이 모두 실패한 경우에만 오류 처리
+      const settled = [subwayResult, busResult, bikeResult];
+      const rejected = settled.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+      if (rejected.length > 0 && rejected.length === new Set(input.types).size) {
+        throw rejected[0].reason;
+      }
+
+      // 일부만 실패하면 빈 결과와 구분할 수 있도록 실패한 데이터셋을 함께 반환
+      const sources = [
+        ["subway", subwayResult],
+        ["bus", busResult],
+        ["bike", bikeResult]
+      ] as const;
+      const failed = sources.flatMap(([type, r]): NearbySourceFailure[] => {
+        if (r.status === "fulfilled") {
+          return [];
+        }
+        const { code, message, retryable } = describeError(r.reason);
+        return [{ type, code, message, retryable }];
+      });
+
+      const result: NearbyTransitResult = {
+        latitude: input.latitude,
+        longitude: input.longitude,
+        radiusMeters: input.radius,
+        subwayStations: subwayResult.status === "fulfilled" ? subwayResult.value.places : [],
+        busStations: busResult.status === "fulfilled" ? busResult.value.places : [],
+        bikeStations: bikeResult.status === "fulfilled" ? bikeResult.value.places : [],
+        failed
+      };
+
+      const cache = mergeCacheMeta(settled.map((r) => (r.status === "fulfilled" ? r.value.cache : undefined)));
+      const output = toNearbyTransitOutput(result, cache);
+      const formatted = formatNearbyTransit(
+        result,
+        input.response_format,
+        cache
+      );
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "주변 교통수단 검색 실패");
+    }
+  }
+};
+
+/** 위치 기반 도구 목록 */
+export const nearbyTools: readonly ToolDefinition[] = [
+  findNearbyTool
+];
+
+/**
+ * 위치 기반 도구들을 MCP 서버에 등록
+ */
+export function registerNearbyTools(server: McpServer): void {
+  registerToolDefinitions(server, nearbyTools);
+}
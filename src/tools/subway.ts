@@ -5,101 +5,239 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { API_ENDPOINTS } from "../constants.js";
+import { API_ENDPOINTS, PAGINATION, SUBWAY_ARRIVAL } from "../constants.js";
 import {
+  ResponseFormat,
   SubwayArrivalInputSchema,
   SubwayStatusInputSchema,
-  ResponseFormat
+  SubwayTimetableInputSchema,
+  SubwayArrivalOutputSchema,
+  SubwayStatusOutputSchema,
+  SubwayTimetableOutputSchema
 } from "../schemas/index.js";
 import {
   fetchPaginatedData,
-  encodeSearchQuery,
+  fetchSubwayArrivals,
+  filterSubwayArrivals,
+  groupSubwayArrivals,
   formatSubwayArrivals,
   formatSubwayStatus,
-  truncateResponse
+  parseSubwayStatus,
+  matchesSubwayLine,
+  findSubwayStationCodes,
+  fetchSubwayTimetable,
+  matchesStationLine,
+  normalizeLineName,
+  resolveSubwayStation,
+  formatStationCorrection,
+  formatSubwayTimetable,
+  parseTimetableMinutes,
+  formatTimetableMinutes,
+  getServiceDayNow,
+  getSubwayDayType,
+  isValidDate,
+  mergeCacheMeta,
+  toSubwayArrivalOutput,
+  toSubwayStatusOutput,
+  toSubwayTimetableOutput,
+  truncateResponse,
+  createErrorResponse
 } from "../services/index.js";
-import type { SubwayArrival, SubwayStatus } from "../types.js";
+import { registerToolDefinitions, type ToolDefinition } from "./definition.js";
+import type { SubwayStatusRow, SubwayDirection, SubwayTimetableResult } from "../types.js";
 
-/**
- * 지하철 관련 도구들을 MCP 서버에 등록
- */
-export function registerSubwayTools(server: McpServer): void {
-  // transit_get_subway_arrival
-  server.tool(
-    "transit_get_subway_arrival",
-    "서울 지하철역의 실시간 도착정보를 조회합니다. 역 이름으로 검색하여 각 호선별 도착 예정 열차 정보를 반환합니다.",
-    SubwayArrivalInputSchema.shape,
-    async (params: unknown) => {
-      try {
-        const input = SubwayArrivalInputSchema.parse(params);
-
-        // '역' 접미사 제거
-        const stationName = input.station_name.replace(/역$/u, "").trim();
-        const encodedStation = encodeSearchQuery(stationName);
-
-        const url = `${API_ENDPOINTS.SUBWAY_ARRIVAL}/0/${input.limit}/${encodedStation}`;
-
-        const result = await fetchPaginatedData<SubwayArrival>(url, {
-          limit: input.limit,
-          apiKey: "realtimeStationArrival"
-        });
-
-        const formatted = formatSubwayArrivals(
-          result.items,
-          stationName,
-          input.response_format
-        );
-
-        return {
-          content: [{ type: "text" as const, text: truncateResponse(formatted) }]
-        };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "알 수 없는 오류";
-        return {
-          content: [{ type: "text" as const, text: `❌ 지하철 정보 조회 실패: ${message}` }],
-          isError: true
-        };
+// ===== transit_get_subway_arrival =====
+
+export const subwayArrivalTool: ToolDefinition = {
+  name: "transit_get_subway_arrival",
+  description: "서울 지하철역의 실시간 도착정보를 조회합니다. 역 이름으로 검색하여 각 호선별 도착 예정 열차 정보를 반환합니다. 환승역에서는 호선/방향/행선지로 필터링하거나 호선·방향별로 묶어 볼 수 있습니다.",
+  inputSchema: SubwayArrivalInputSchema,
+  outputSchema: SubwayArrivalOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = SubwayArrivalInputSchema.parse(params);
+
+      // 역 레지스트리로 역명 해석 (불가 시 '역' 접미사만 제거)
+      const resolved = await resolveSubwayStation(input.station_name);
+      const stationName = resolved?.station.name
+        ?? input.station_name.replace(/역$/u, "").trim();
+
+      // 필터/묶음은 limit 적용 전에 처리해야 하므로 전체 도착정보 조회
+      const filter = {
+        line: input.line,
+        direction: input.direction,
+        destination: input.destination
+      };
+      const grouped = input.group_by === "line_direction";
+      const needsAll = grouped || Boolean(filter.line || filter.direction || filter.destination);
+      const result = await fetchSubwayArrivals(
+        stationName,
+        needsAll ? SUBWAY_ARRIVAL.FETCH_LIMIT : input.limit
+      );
+
+      const matched = filterSubwayArrivals(result.items, filter);
+      const groups = grouped ? groupSubwayArrivals(matched, input.limit) : undefined;
+      const arrivals = groups ? groups.flatMap((g) => g.arrivals) : matched.slice(0, input.limit);
+
+      const output = toSubwayArrivalOutput(arrivals, stationName, result.cache, { filter, groups });
+      let formatted = formatSubwayArrivals(
+        arrivals,
+        stationName,
+        input.response_format,
+        result.cache,
+        { filter, groups }
+      );
+      if (resolved && input.response_format === ResponseFormat.MARKDOWN) {
+        formatted = formatStationCorrection(input.station_name, resolved.station, resolved.matchType) + formatted;
       }
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "지하철 정보 조회 실패");
     }
-  );
-
-  // transit_get_subway_status
-  server.tool(
-    "transit_get_subway_status",
-    "서울 지하철 호선별 운행상태를 조회합니다. 지연, 사고, 정상운행 등의 상태를 확인할 수 있습니다.",
-    SubwayStatusInputSchema.shape,
-    async (params: unknown) => {
-      try {
-        const input = SubwayStatusInputSchema.parse(params);
-
-        // 지하철 운행상태 API (간소화된 응답)
-        const lineFilter = input.line ? `${input.line}호선` : null;
-        const title = lineFilter || "전체 호선";
-
-        // 실제 API 호출 대신 정상 운행 메시지 반환
-        const format = input.response_format ?? ResponseFormat.MARKDOWN;
-
-        let formatted: string;
-        if (format === ResponseFormat.JSON) {
-          formatted = JSON.stringify({
-            filter: title,
-            status: "정상 운행 중",
-            message: "실시간 운행장애 정보는 서울교통공사 공지사항을 확인해주세요."
-          }, null, 2);
-        } else {
-          formatted = `## 🚇 지하철 운행상태 (${title})\n\n✅ 정상 운행 중\n\n※ 실시간 운행장애 정보는 서울교통공사 공지사항을 확인해주세요.`;
-        }
-
-        return {
-          content: [{ type: "text" as const, text: formatted }]
-        };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "알 수 없는 오류";
-        return {
-          content: [{ type: "text" as const, text: `❌ 운행상태 조회 실패: ${message}` }],
-          isError: true
-        };
+  }
+};
+
+// ===== transit_get_subway_status =====
+
+export const subwayStatusTool: ToolDefinition = {
+  name: "transit_get_subway_status",
+  description: "서울 지하철 호선별 운행상태를 조회합니다. 지연, 사고, 정상운행 등의 상태를 확인할 수 있습니다.",
+  inputSchema: SubwayStatusInputSchema,
+  outputSchema: SubwayStatusOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = SubwayStatusInputSchema.parse(params);
+
+      const result = await fetchPaginatedData<SubwayStatusRow>(API_ENDPOINTS.SUBWAY_STATUS, {
+        limit: PAGINATION.MAX_LIMIT,
+        apiKey: "subwayStatus"
+      });
+
+      // 호선 필터링 후 SubwayStatus 레코드로 변환
+      const statuses = result.items
+        .filter((row: SubwayStatusRow) => !input.line || matchesSubwayLine(row, input.line))
+        .map(parseSubwayStatus);
+
+      const output = toSubwayStatusOutput(statuses, input.line, result.cache);
+      const formatted = formatSubwayStatus(
+        statuses,
+        input.line,
+        input.response_format,
+        result.cache
+      );
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "운행상태 조회 실패");
+    }
+  }
+};
+
+// ===== transit_get_subway_timetable =====
+
+export const subwayTimetableTool: ToolDefinition = {
+  name: "transit_get_subway_timetable",
+  description: "서울 지하철역의 열차 시간표를 호선/방향별로 조회합니다. 날짜(KST)의 공휴일 여부에 따라 평일/토요일/휴일 시간표가 자동 선택되며, from_time/to_time으로 시간대를 지정할 수 있습니다. 실시간 도착정보로 알 수 없는 내일이나 특정 시간대의 열차를 확인할 때 사용하세요.",
+  inputSchema: SubwayTimetableInputSchema,
+  outputSchema: SubwayTimetableOutputSchema,
+  handler: async (params: unknown) => {
+    try {
+      const input = SubwayTimetableInputSchema.parse(params);
+
+      if (input.date && !isValidDate(input.date)) {
+        throw new Error(`존재하지 않는 날짜입니다: ${input.date}`);
+      }
+
+      // 날짜 미지정 시 현재 운행일 기준, 시작 시각도 현재 시각으로
+      const now = getServiceDayNow();
+      const date = input.date ?? now.date;
+      const dayType = input.day_type ?? getSubwayDayType(date);
+      const fromMinutes = input.from_time
+        ? parseTimetableMinutes(input.from_time)
+        : date === now.date ? now.minutes : undefined;
+      const toMinutes = input.to_time ? parseTimetableMinutes(input.to_time) : undefined;
+
+      // 역 레지스트리로 역 코드 확인 (불가 시 역명으로 직접 검색)
+      const resolved = await resolveSubwayStation(input.station_name);
+      const lookup = resolved
+        ? { stations: resolved.station.stations, cache: resolved.cache }
+        : await findSubwayStationCodes(input.station_name);
+      if (lookup.stations.length === 0) {
+        throw new Error(`'${input.station_name}' 역을 찾을 수 없습니다`);
+      }
+
+      // 호선 필터링
+      const stations = input.line
+        ? lookup.stations.filter((s) => matchesStationLine(s, input.line as string))
+        : lookup.stations;
+      if (stations.length === 0) {
+        const lines = lookup.stations.map((s) => normalizeLineName(s.LINE_NUM)).join(", ");
+        throw new Error(`'${input.station_name}' 역에 ${input.line} 노선이 없습니다 (운행 노선: ${lines})`);
+      }
+
+      // 호선 × 방향별 시간표 병렬 조회
+      const directions: SubwayDirection[] = input.direction ? [input.direction] : ["up", "down"];
+      const results = await Promise.all(
+        stations.flatMap((station) =>
+          directions.map((direction) => fetchSubwayTimetable(station, dayType, direction))
+        )
+      );
+
+      const timetables = results.map(({ timetable }) => ({
+        ...timetable,
+        entries: timetable.entries
+          .filter((e) => fromMinutes === undefined || e.minutes >= fromMinutes)
+          .filter((e) => toMinutes === undefined || e.minutes <= toMinutes)
+          .slice(0, input.limit)
+      }));
+
+      const result: SubwayTimetableResult = {
+        stationName: resolved?.station.name ?? stations[0].STATION_NM,
+        date,
+        dayType,
+        fromTime: input.from_time ?? (fromMinutes !== undefined ? formatTimetableMinutes(fromMinutes) : undefined),
+        toTime: input.to_time,
+        timetables
+      };
+
+      const cache = mergeCacheMeta([lookup.cache, ...results.map((r) => r.cache)]);
+      const output = toSubwayTimetableOutput(result, cache);
+      let formatted = formatSubwayTimetable(
+        result,
+        input.response_format,
+        cache
+      );
+      if (resolved && input.response_format === ResponseFormat.MARKDOWN) {
+        formatted = formatStationCorrection(input.station_name, resolved.station, resolved.matchType) + formatted;
       }
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "시간표 조회 실패");
     }
-  );
+  }
+};
+
+/** 지하철 관련 도구 목록 */
+export const subwayTools: readonly ToolDefinition[] = [
+  subwayArrivalTool,
+  subwayStatusTool,
+  subwayTimetableTool
+];
+
+/**
+ * 지하철 관련 도구들을 MCP 서버에 등록
+ */
+export function registerSubwayTools(server: McpServer): void {
+  registerToolDefinitions(server, subwayTools);
 }
@@ -0,0 +1,106 @@
+/**
+ * Korea Transit MCP Server - Arrival Watch Tools
+ *
+ * 지하철/버스 도착 알림 MCP 도구 정의
+ *
+ * 도착정보를 주기적으로 조회하며 진행 알림(notifications/progress)으로 도착 예정 시간을 전달하고,
+ * 목표 열차/버스가 기준 시간 안에 들어오거나 지나가거나 최대 대기 시간이 지나면 완료합니다.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  WatchArrivalInputSchema,
+  WatchArrivalOutputSchema
+} from "../schemas/index.js";
+import {
+  observeSubwayArrival,
+  observeBusArrival,
+  watchArrival,
+  resolveSubwayStation,
+  describeError,
+  toWatchArrivalOutput,
+  formatWatchArrival,
+  formatArrivalWatchProgress,
+  normalizeRouteNumber,
+  truncateResponse,
+  createErrorResponse,
+  type ArrivalObservation
+} from "../services/index.js";
+import { registerToolDefinitions, type ToolDefinition } from "./definition.js";
+
+// ===== transit_watch_arrival =====
+
+export const watchArrivalTool: ToolDefinition = {
+  name: "transit_watch_arrival",
+  description: "지하철 열차나 버스가 곧 도착할 때까지 도착정보를 주기적으로 조회하며 진행 알림으로 도착 예정 시간을 알려줍니다. 도착까지 남은 시간이 기준(threshold_minutes) 이하가 되거나, 지켜보던 열차/버스가 지나가거나, 최대 대기 시간(timeout_minutes)이 지나면 완료됩니다. 요청을 취소하면 즉시 종료합니다.",
+  inputSchema: WatchArrivalInputSchema,
+  outputSchema: WatchArrivalOutputSchema,
+  handler: async (params: unknown, context) => {
+    try {
+      const input = WatchArrivalInputSchema.parse(params);
+
+      let target: string;
+      let observe: (signal?: AbortSignal) => Promise<ArrivalObservation[]>;
+      if (input.mode === "subway") {
+        // 역 레지스트리로 역명 해석 (불가 시 '역' 접미사만 제거)
+        const stationQuery = input.station_name ?? "";
+        const resolved = await resolveSubwayStation(stationQuery);
+        const stationName = resolved?.station.name ?? stationQuery.replace(/역$/u, "").trim();
+        const filter = {
+          line: input.line,
+          direction: input.direction,
+          destination: input.destination
+        };
+        target = [stationName, input.line, input.direction, input.destination && `${input.destination}행`]
+          .filter(Boolean)
+          .join(" ");
+        observe = (signal) => observeSubwayArrival(stationName, filter, signal);
+      } else {
+        const arsId = input.ars_id ?? "";
+        const routeNumber = input.route_number ?? "";
+        target = `${arsId} 정류장 ${normalizeRouteNumber(routeNumber)}번`;
+        observe = (signal) => observeBusArrival(arsId, routeNumber, signal);
+      }
+
+      const timeoutMs = input.timeout_minutes * 60 * 1000;
+      const result = await watchArrival(observe, {
+        thresholdSeconds: input.threshold_minutes * 60,
+        timeoutMs,
+        signal: context?.signal,
+        onUpdate: async ({ poll, observation, error }) => {
+          const message = error === undefined
+            ? formatArrivalWatchProgress(observation)
+            : `도착정보 조회 실패, 다시 시도합니다 (${describeError(error).message})`;
+          await context?.sendProgress(poll, undefined, message);
+        }
+      });
+
+      // 한 번도 조회에 성공하지 못했으면 마지막 오류를 반환
+      if (!result.observed && result.lastError !== undefined) {
+        return createErrorResponse(result.lastError, "도착 알림 실패");
+      }
+
+      const output = toWatchArrivalOutput(input.mode, target, input.threshold_minutes, result);
+      const formatted = formatWatchArrival(output, input.response_format);
+
+      return {
+        content: [{ type: "text" as const, text: truncateResponse(formatted) }],
+        structuredContent: output
+      };
+    } catch (error) {
+      return createErrorResponse(error, "도착 알림 실패");
+    }
+  }
+};
+
+/** 도착 알림 도구 목록 (진행 알림을 스트리밍할 수 있는 stdio/세션 모드 전용) */
+export const watchTools: readonly ToolDefinition[] = [
+  watchArrivalTool
+];
+
+/**
+ * 도착 알림 도구들을 MCP 서버에 등록
+ */
+export function registerWatchTools(server: McpServer): void {
+  registerToolDefinitions(server, watchTools);
+}
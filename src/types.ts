@@ -23,14 +23,223 @@ export interface SubwayArrival {
   arvlMsg3: string;
   /** 열차 번호 */
   btrainNo: string;
+  /** 도착 예정 시간 (초, 정보가 없으면 "0") */
+  barvlDt?: string;
+  /** 도착 코드 (0:진입, 1:도착, 2:출발, 3:전역출발, 4:전역진입, 5:전역도착, 99:운행중) */
+  arvlCd?: string;
+  /** 도착정보 생성 시각 (KST, 예: "2025-01-06 08:12:00") */
+  recptnDt?: string;
+  /**
+   * 도착 예정 열차 순번 키
+   * (상하행 1자리 + 순번 1자리 + 남은 정거장 수 3자리 + 행선지 + 급행 여부 1자리, 예: "01003성수0")
+   */
+  ordkey?: string;
+  /** 열차 종류 (일반/급행/ITX 등) */
+  btrainSttus?: string;
+  /** 막차 여부 ("1": 막차) */
+  lstcarAt?: string;
 }
 
+/** 지하철 열차 도착 상태 */
+export type SubwayArrivalState =
+  | "진입"
+  | "도착"
+  | "출발"
+  | "전역출발"
+  | "전역진입"
+  | "전역도착"
+  | "운행중";
+
+/** 도착 메시지/코드를 해석한 열차 도착 예정 정보 */
+export interface SubwayArrivalEta {
+  /** 도착 상태 */
+  state?: SubwayArrivalState;
+  /** 현재 시각 기준 도착까지 남은 시간 (초) */
+  etaSeconds?: number;
+  /** 도착 예정 시각 (KST, ISO 8601) */
+  arrivalTime?: string;
+  /** 남은 정거장 수 (0: 해당 역 진입/도착/출발) */
+  stationsAway?: number;
+  /** 같은 방향 도착 순번 (1: 첫 번째 열차) */
+  ordinal?: number;
+  /** 도착정보 생성 시각 (KST, ISO 8601) */
+  receivedAt?: string;
+  /** 막차 여부 */
+  lastTrain: boolean;
+}
+
+/** 지하철 도착정보 필터 */
+export interface SubwayArrivalFilter {
+  /** 호선 (예: "2호선", "2", "신분당선") */
+  line?: string;
+  /** 방향 (상행/하행/내선/외선) */
+  direction?: string;
+  /** 행선지 (부분 일치) */
+  destination?: string;
+}
+
+/** 호선/방향별 지하철 도착정보 묶음 */
+export interface SubwayArrivalGroup {
+  /** 호선 이름 (예: "2호선") */
+  line: string;
+  /** 방향 (상행/하행/내선/외선) */
+  direction: string;
+  arrivals: SubwayArrival[];
+}
+
+/** 지하철 운행상태 원본 행 (서울 API 응답) */
+export interface SubwayStatusRow {
+  /** 호선 이름 (예: "2호선") */
+  subwayLine: string;
+  /** 운행상태 메시지 */
+  subwayStatusMessage: string;
+  /** 호선 코드 (예: "1002") */
+  subwayId?: string;
+  /** 장애 구간 (예: "신도림~대림") */
+  sectionNm?: string;
+  /** 장애 원인 */
+  causeNm?: string;
+  /** 발생 일시 (예: "2025-01-06 08:12:00") */
+  occrrncDt?: string;
+}
+
+/** 지하철 운행상태 구분 */
+export type SubwayStatusType = "정상" | "지연" | "운행중단";
+
 /** 지하철 운행상태 정보 */
 export interface SubwayStatus {
   /** 호선 이름 (예: "2호선") */
   subwayLine: string;
   /** 운행상태 메시지 */
   subwayStatusMessage: string;
+  /** 운행상태 구분 */
+  statusType: SubwayStatusType;
+  /** 장애 구간 */
+  affectedSection?: string;
+  /** 장애 원인 */
+  cause?: string;
+  /** 발생 시각 */
+  reportedAt?: string;
+}
+
+/** 지하철 역사 마스터 정보 (서울 API 응답) */
+export interface SubwayStationMaster {
+  /** 역사 ID */
+  BLDN_ID: string;
+  /** 역사명 (예: "강남") */
+  BLDN_NM: string;
+  /** 호선명 (예: "2호선") */
+  ROUTE: string;
+  /** 위도 */
+  LAT: string | number;
+  /** 경도 */
+  LOT: string | number;
+}
+
+/** 지하철 역 코드 정보 (서울 API SearchInfoBySubwayNameService 응답) */
+export interface SubwayStationInfo {
+  /** 역 코드 (시간표 조회용, 예: "0222") */
+  STATION_CD: string;
+  /** 역명 */
+  STATION_NM: string;
+  /** 호선명 (예: "02호선", "경의선") */
+  LINE_NUM: string;
+  /** 외부 역 코드 (예: "222") */
+  FR_CODE?: string;
+}
+
+/** 지하철 노선별 역 정보 (서울 API SearchSTNBySubwayLineInfo 응답) */
+export interface SubwayStationListRow extends SubwayStationInfo {
+  /** 영문 역명 */
+  STATION_NM_ENG?: string;
+  /** 중문 역명 */
+  STATION_NM_CHN?: string;
+  /** 일문 역명 */
+  STATION_NM_JPN?: string;
+}
+
+/** 역 레지스트리 항목 (같은 이름의 호선별 역을 하나로 묶음) */
+export interface StationRecord {
+  /** 공식 역명 (실시간 도착정보 조회에 사용, 예: "서울") */
+  name: string;
+  /** 별칭 (예: "서울역") */
+  aliases: string[];
+  /** 영문 역명 */
+  englishName?: string;
+  /** 경유 호선 (예: ["1호선", "4호선"]) */
+  lines: string[];
+  /** 호선별 역 코드 */
+  stations: SubwayStationInfo[];
+}
+
+/** 시간표 요일 구분 */
+export type SubwayDayType = "weekday" | "saturday" | "holiday";
+
+/** 운행 방향 (up: 상행/내선, down: 하행/외선) */
+export type SubwayDirection = "up" | "down";
+
+/** 지하철 시간표 행 (서울 API SearchSTNTimeTableByIDService 응답) */
+export interface SubwayTimetableRow {
+  /** 호선명 */
+  LINE_NUM: string;
+  /** 역 코드 */
+  STATION_CD: string;
+  /** 역명 */
+  STATION_NM: string;
+  /** 열차 번호 */
+  TRAIN_NO: string;
+  /** 도착 시각 (HH:MM:SS) */
+  ARRIVETIME: string;
+  /** 출발 시각 (HH:MM:SS, 종착 열차는 "00:00:00") */
+  LEFTTIME: string;
+  /** 출발역명 */
+  SUBWAYSNAME: string;
+  /** 도착역명 (행선지) */
+  SUBWAYENAME: string;
+  /** 요일 구분 (1: 평일, 2: 토요일, 3: 휴일) */
+  WEEK_TAG: string;
+  /** 방향 구분 (1: 상행/내선, 2: 하행/외선) */
+  INOUT_TAG: string;
+  /** 급행 여부 */
+  EXPRESS_YN?: string;
+}
+
+/** 시간표 열차 */
+export interface SubwayTimetableEntry {
+  /** 출발 시각 (HH:MM) */
+  time: string;
+  /** 운행일 자정 기준 경과 분 (자정 이후 열차는 1440 이상) */
+  minutes: number;
+  /** 행선지 */
+  destination: string;
+  /** 열차 번호 */
+  trainNo: string;
+  /** 급행 여부 */
+  express: boolean;
+}
+
+/** 역/호선/방향별 시간표 */
+export interface SubwayTimetable {
+  stationName: string;
+  line: string;
+  stationCode: string;
+  direction: SubwayDirection;
+  /** 방향 표시명 (예: "상행", "내선") */
+  directionName: string;
+  entries: SubwayTimetableEntry[];
+}
+
+/** 시간표 조회 결과 */
+export interface SubwayTimetableResult {
+  stationName: string;
+  /** 운행일 (YYYY-MM-DD, KST) */
+  date: string;
+  dayType: SubwayDayType;
+  /** 조회 시작 시각 (HH:MM) */
+  fromTime?: string;
+  /** 조회 종료 시각 (HH:MM) */
+  toTime?: string;
+  timetables: SubwayTimetable[];
 }
 
 // ===== 버스 관련 타입 =====
@@ -45,12 +254,114 @@ export interface BusArrival {
   arrmsg2: string;
   /** 다음 정류장 */
   nxtStn: string;
-  /** 버스 유형 코드 (1:일반, 2:좌석, ...) */
+  /** 노선 유형 코드 (1:공항, 2:마을, 3:간선, 4:지선, ...) */
   routeType: string;
   /** 정류장 이름 */
   stNm?: string;
   /** 방향 */
   adirection?: string;
+  /** 정류장 번호 */
+  arsId?: string;
+  /** 노선 약칭 */
+  busRouteAbrv?: string;
+  /** 첫번째/두번째 버스 도착 예정 시간 (초) */
+  traTime1?: string;
+  traTime2?: string;
+  /** 첫번째/두번째 버스 현재 정류장 순번 */
+  sectOrd1?: string;
+  sectOrd2?: string;
+  /** 조회 정류장 순번 */
+  staOrd?: string;
+  /** 첫번째/두번째 버스 차량 번호 (예: "서울74사1234") */
+  plainNo1?: string;
+  plainNo2?: string;
+  /** 첫번째/두번째 버스 차량 유형 (0:일반, 1:저상, 2:굴절) */
+  busType1?: string;
+  busType2?: string;
+  /** 첫번째/두번째 버스 혼잡도 (0:정보없음, 3:여유, 4:보통, 5:혼잡, 6:매우혼잡) */
+  congestion1?: string;
+  congestion2?: string;
+  /** 첫번째/두번째 버스 막차 여부 ("1": 막차) */
+  isLast1?: string;
+  isLast2?: string;
+}
+
+/** 버스 도착 상태 */
+export type BusArrivalStatus =
+  | "운행중"
+  | "곧도착"
+  | "출발대기"
+  | "회차대기"
+  | "운행종료"
+  | "정보없음";
+
+/** 버스 혼잡도 */
+export type BusCongestion = "여유" | "보통" | "혼잡" | "매우혼잡";
+
+/** 도착 메시지를 해석한 버스 도착 예정 정보 (첫번째/두번째 버스 각각) */
+export interface BusArrivalEta {
+  /** 원본 도착 메시지 */
+  message: string;
+  /** 도착 상태 */
+  status: BusArrivalStatus;
+  /** 도착까지 남은 시간 (초) */
+  etaSeconds?: number;
+  /** 남은 정류장 수 */
+  stopsRemaining?: number;
+  /** 차량 번호 */
+  plateNumber?: string;
+  /** 저상버스 여부 */
+  lowFloor?: boolean;
+  /** 혼잡도 */
+  congestion?: BusCongestion;
+  /** 막차 여부 */
+  lastBus: boolean;
+}
+
+/** 버스 노선 정보 (서울 버스 API 응답) */
+export interface BusRoute {
+  /** 노선 ID */
+  busRouteId: string;
+  /** 노선 번호 (예: "472") */
+  busRouteNm: string;
+  /** 노선 유형 코드 */
+  routeType: string;
+  /** 기점 정류장명 */
+  stStationNm: string;
+  /** 종점 정류장명 */
+  edStationNm: string;
+  /** 첫차 시간 (예: "20250106040000") */
+  firstBusTm?: string;
+  /** 막차 시간 */
+  lastBusTm?: string;
+  /** 배차 간격 (분) */
+  term?: string;
+  /** 운수사명 */
+  corpNm?: string;
+  /** 노선 길이 (km) */
+  length?: string;
+}
+
+/** 버스 노선 경유 정류장 (서울 버스 API 응답) */
+export interface BusRouteStop {
+  /** 순번 */
+  seq: string;
+  /** 정류장 ID */
+  station: string;
+  /** 정류장명 */
+  stationNm: string;
+  /** 정류장 번호 (5자리) */
+  arsId: string;
+  /** 진행 방향 (다음 회차 정류장명) */
+  direction?: string;
+  /** 회차 정류장 여부 ("Y"/"N") */
+  transYn?: string;
+}
+
+/** 정류장 목록이 포함된 버스 노선 */
+export interface BusRouteDetail {
+  route: BusRoute;
+  stops: BusRouteStop[];
 }
 
 /** 버스 정류장 정보 (서울 API 응답) */
@@ -69,6 +380,12 @@ export interface BusStation {
   STOPS_NM?: string;
   /** 정류장 번호 (대체 필드) */
   STOPS_NO?: string;
+  /** 노드 ID */
+  NODE_ID?: string;
+  /** X 좌표 (경도) */
+  XCRD?: string;
+  /** Y 좌표 (위도) */
+  YCRD?: string;
 }
 
 // ===== 따릉이 관련 타입 =====
@@ -91,6 +408,38 @@ export interface BikeStation {
   stationLongitude?: string;
 }
 
+// ===== 주변 검색 타입 =====
+
+/** 거리 정보가 포함된 주변 장소 */
+export interface NearbyPlace<T> {
+  item: T;
+  /** 직선 거리 (m) */
+  distanceMeters: number;
+  /** 예상 도보 시간 (분) */
+  walkingMinutes: number;
+}
+
+/** 주변 교통수단 검색 결과 */
+export interface NearbyTransitResult {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  subwayStations: NearbyPlace<SubwayStationMaster>[];
+  busStations: NearbyPlace<BusStation>[];
+  bikeStations: NearbyPlace<BikeStation>[];
+  /** 조회에 실패한 데이터셋 (결과가 비어 있어도 '주변에 없음'과 구분) */
+  failed: NearbySourceFailure[];
+}
+
+/** 주변 검색에서 조회에 실패한 데이터셋 */
+export interface NearbySourceFailure {
+  type: "subway" | "bus" | "bike";
+  /** 오류 코드 (예: "UPSTREAM_UNAVAILABLE") */
+  code: string;
+  message: string;
+  retryable: boolean;
+}
+
 // ===== 페이지네이션 타입 =====
 
 /** 페이지네이션 결과 */
@@ -0,0 +1,127 @@
+/**
+ * /mcp 인증 (API 키 / OAuth 액세스 토큰) 테스트
+ */
+
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SignJWT, createLocalJWKSet, exportJWK, generateKeyPair, type CryptoKey } from "jose";
+import { InsufficientScopeError, InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { McpAuthenticator, loadAuthConfig } from "../src/auth.js";
+
+const ISSUER = "https://auth.example.com";
+const RESOURCE = "https://transit.example.com/mcp";
+
+describe("loadAuthConfig", () => {
+  it("클라이언트 ID:키 목록과 OAuth 설정을 읽는다", () => {
+    const config = loadAuthConfig({
+      MCP_API_KEYS: "partner-a:key-a, key-b",
+      MCP_OAUTH_ISSUER: ISSUER,
+      MCP_OAUTH_RESOURCE: RESOURCE,
+      MCP_OAUTH_SCOPES: "transit:read, transit:watch"
+    });
+
+    assert.deepEqual([...config.apiKeys], [["key-a", "partner-a"], ["key-b", "client-2"]]);
+    assert.equal(config.oauth?.issuer, ISSUER);
+    assert.deepEqual(config.oauth?.requiredScopes, ["transit:read", "transit:watch"]);
+  });
+
+  it("설정이 없으면 인증을 사용하지 않는다", async () => {
+    const authenticator = new McpAuthenticator(loadAuthConfig({}));
+
+    assert.equal(authenticator.enabled, false);
+    assert.equal(await authenticator.authenticate({}), undefined);
+  });
+});
+
+describe("API 키 인증", () => {
+  const authenticator = new McpAuthenticator(loadAuthConfig({ MCP_API_KEYS: "partner-a:secret-a" }));
+
+  it("Bearer 토큰과 X-API-Key 헤더로 클라이언트를 식별한다", async () => {
+    const bearer = await authenticator.authenticate({ authorization: "Bearer secret-a" });
+    const header = await authenticator.authenticate({ "x-api-key": "secret-a" });
+
+    assert.equal(bearer?.clientId, "partner-a");
+    assert.equal(header?.clientId, "partner-a");
+  });
+
+  it("키가 없거나 틀리면 401과 WWW-Authenticate를 반환한다", async () => {
+    await assert.rejects(authenticator.authenticate({}), InvalidTokenError);
+    await assert.rejects(authenticator.authenticate({ authorization: "Bearer wrong" }), InvalidTokenError);
+    await assert.rejects(authenticator.authenticate({ authorization: "Basic c2VjcmV0" }), InvalidTokenError);
+
+    const response = authenticator.toErrorResponse(new InvalidTokenError("invalid"));
+    assert.equal(response.status, 401);
+    assert.equal(response.headers["WWW-Authenticate"], 'Bearer error="invalid_token"');
+  });
+});
+
+describe("OAuth 액세스 토큰 인증", () => {
+  let privateKey: CryptoKey;
+  let authenticator: McpAuthenticator;
+
+  before(async () => {
+    const keyPair = await generateKeyPair("ES256");
+    privateKey = keyPair.privateKey;
+    const jwk = { ...await exportJWK(keyPair.publicKey), kid: "test", alg: "ES256" };
+
+    authenticator = new McpAuthenticator(
+      loadAuthConfig({
+        MCP_OAUTH_ISSUER: ISSUER,
+        MCP_OAUTH_RESOURCE: RESOURCE,
+        MCP_OAUTH_SCOPES: "transit:read"
+      }),
+      createLocalJWKSet({ keys: [jwk] })
+    );
+  });
+
+  function signToken(claims: Record<string, unknown>, audience = RESOURCE, expiresIn = "5m"): Promise<string> {
+    return new SignJWT(claims)
+      .setProtectedHeader({ alg: "ES256", kid: "test" })
+      .setIssuer(ISSUER)
+      .setAudience(audience)
+      .setSubject("user-1")
+      .setIssuedAt()
+      .setExpirationTime(expiresIn)
+      .sign(privateKey);
+  }
+
+  it("서명/issuer/audience/scope를 검증하고 클라이언트 정보를 반환한다", async () => {
+    const token = await signToken({ scope: "transit:read profile", client_id: "partner-app" });
+
+    const auth = await authenticator.authenticate({ authorization: `Bearer ${token}` });
+
+    assert.equal(auth?.clientId, "partner-app");
+    assert.deepEqual(auth?.scopes, ["transit:read", "profile"]);
+    assert.equal(auth?.resource?.href, RESOURCE);
+    assert.equal(typeof auth?.expiresAt, "number");
+  });
+
+  it("다른 리소스용 토큰이나 만료된 토큰은 거부한다", async () => {
+    const otherAudience = await signToken({ scope: "transit:read" }, "https://other.example.com/mcp");
+    const expired = await signToken({ scope: "transit:read" }, RESOURCE, "-1m");
+
+    await assert.rejects(authenticator.authenticate({ authorization: `Bearer ${otherAudience}` }), InvalidTokenError);
+    await assert.rejects(authenticator.authenticate({ authorization: `Bearer ${expired}` }), /만료/u);
+  });
+
+  it("필수 scope가 없으면 403과 resource_metadata를 반환한다", async () => {
+    const token = await signToken({ scope: "profile" });
+
+    await assert.rejects(authenticator.authenticate({ authorization: `Bearer ${token}` }), InsufficientScopeError);
+
+    const response = authenticator.toErrorResponse(new InsufficientScopeError("insufficient"));
+    assert.equal(response.status, 403);
+    assert.equal(
+      response.headers["WWW-Authenticate"],
+      'Bearer error="insufficient_scope", scope="transit:read", '
+        + 'resource_metadata="https://transit.example.com/.well-known/oauth-protected-resource/mcp"'
+    );
+  });
+
+  it("Protected Resource Metadata에 인가 서버를 안내한다", () => {
+    const metadata = authenticator.getResourceMetadata();
+
+    assert.equal(metadata?.resource, RESOURCE);
+    assert.deepEqual(metadata?.authorization_servers, [ISSUER]);
+  });
+});
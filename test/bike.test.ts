@@ -0,0 +1,109 @@
+/**
+ * 따릉이/통합/주변 교통수단 도구 종단 테스트
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+
+let ctx: TestContext;
+
+before(async () => {
+  ctx = await createTestContext();
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+describe("transit_get_bike_station", () => {
+  it("대여소명으로 검색하고 수량을 숫자로 반환한다", async () => {
+    const result = await ctx.callTool("transit_get_bike_station", {
+      query: "강남역",
+      response_format: "json"
+    });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      count: number;
+      stations: { id: string; available: number; rackTotal: number }[];
+    };
+    assert.equal(output.count, 2);
+    assert.deepEqual(
+      output.stations.map((s) => [s.id, s.available, s.rackTotal]),
+      [["ST-1566", 7, 15], ["ST-1567", 0, 10]]
+    );
+  });
+
+  it("적재된 대여소 스냅샷을 재사용한다", async () => {
+    // 이 테스트만 실행해도 스냅샷이 적재되어 있도록 먼저 한 번 조회
+    await ctx.callTool("transit_get_bike_station", { query: "강남역" });
+    const loadRequests = ctx.fixtures.requestsFor("bikeList").length;
+
+    const result = await ctx.callTool("transit_get_bike_station", { query: "역삼" });
+
+    assert.equal(result.structured?.count, 1);
+    assert.equal(ctx.fixtures.requestsFor("bikeList").length, loadRequests);
+  });
+});
+
+describe("transit_get_combined_info", () => {
+  it("지하철/버스 정류장/따릉이 정보를 한번에 반환한다", async () => {
+    const result = await ctx.callTool("transit_get_combined_info", {
+      location: "강남역",
+      response_format: "json"
+    });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      subway: { count: number; arrivals: { etaSeconds?: number }[] };
+      bus: { stations: { arsId: string }[] };
+      bike: { count: number };
+    };
+    assert.equal(output.subway.count, 5);
+    assert.equal(output.subway.arrivals[0].etaSeconds, 120);
+    assert.deepEqual(output.bus.stations.map((s) => s.arsId), ["22009", "22341"]);
+    assert.equal(output.bike.count, 2);
+  });
+});
+
+describe("transit_find_nearby", () => {
+  it("좌표 주변 교통수단을 거리순으로 반환한다", async () => {
+    const result = await ctx.callTool("transit_find_nearby", {
+      latitude: 37.4979,
+      longitude: 127.0276,
+      radius: 500,
+      response_format: "json"
+    });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      subway: { name: string; distance: number }[];
+      bus: { arsId: string }[];
+      bike: { id: string }[];
+      failed: unknown[];
+    };
+    assert.deepEqual(output.subway.map((s) => s.name), ["강남"]);
+    assert.ok(output.subway[0].distance < 50);
+    assert.deepEqual(output.bus.map((s) => s.arsId), ["22009", "22341"]);
+    assert.deepEqual(output.bike.map((s) => s.id), ["ST-1566", "ST-1567"]);
+    assert.deepEqual(output.failed, []);
+  });
+
+  it("유형을 지정하면 해당 교통수단만 조회한다", async () => {
+    const result = await ctx.callTool("transit_find_nearby", {
+      latitude: 37.5572,
+      longitude: 126.9254,
+      types: ["subway"]
+    });
+
+    assert.equal(result.isError, false);
+    assert.deepEqual((result.structured?.subway as { name: string }[]).map((s) => s.name), ["홍대입구"]);
+    assert.deepEqual(result.structured?.bus, []);
+    assert.deepEqual(result.structured?.bike, []);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * 버스 도구 (도착정보/정류장 검색/노선) 종단 테스트
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+
+let ctx: TestContext;
+
+before(async () => {
+  ctx = await createTestContext();
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+interface BusEtaOutput {
+  status: string;
+  etaSeconds?: number;
+  stopsRemaining?: number;
+  plateNumber?: string;
+  lowFloor?: boolean;
+  congestion?: string;
+  lastBus: boolean;
+}
+
+describe("transit_get_bus_arrival", () => {
+  it("도착 메시지를 남은 시간/정류장 수/차량 정보로 해석한다", async () => {
+    const result = await ctx.callTool("transit_get_bus_arrival", {
+      ars_id: "22341",
+      response_format: "json"
+    });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      station: string;
+      count: number;
+      arrivals: { busNumber: string; first: BusEtaOutput; second: BusEtaOutput }[];
+    };
+    assert.equal(output.station, "강남역12번출구");
+    assert.equal(output.count, 3);
+
+    const [trunk, night, branch] = output.arrivals;
+    assert.deepEqual(trunk.first, {
+      status: "운행중",
+      etaSeconds: 312,
+      stopsRemaining: 3,
+      plateNumber: "서울74사1234",
+      lowFloor: true,
+      congestion: "여유",
+      lastBus: false
+    });
+    assert.equal(night.first.status, "출발대기");
+    assert.equal(night.second.status, "운행종료");
+    assert.equal(night.first.plateNumber, undefined);
+    assert.equal(branch.first.status, "곧도착");
+    assert.equal(branch.first.etaSeconds, 0);
+    assert.equal(branch.second.lastBus, true);
+    assert.equal(branch.second.congestion, "매우혼잡");
+  });
+
+  it("도착 예정 버스가 없으면 빈 목록을 반환한다", async () => {
+    const result = await ctx.callTool("transit_get_bus_arrival", { ars_id: "99999" });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.structured?.count, 0);
+  });
+});
+
+describe("transit_search_bus_station", () => {
+  it("정류장명으로 검색하면 완전 일치를 먼저 반환한다", async () => {
+    const result = await ctx.callTool("transit_search_bus_station", { query: "강남역" });
+
+    assert.equal(result.isError, false);
+    const stations = result.structured?.stations as { name: string; arsId: string }[];
+    assert.deepEqual(stations.map((s) => s.arsId), ["22009", "22341"]);
+  });
+
+  it("정류장 번호로 검색한다", async () => {
+    const result = await ctx.callTool("transit_search_bus_station", { query: "23286" });
+
+    const stations = result.structured?.stations as { name: string }[];
+    assert.deepEqual(stations.map((s) => s.name), ["역삼역"]);
+  });
+});
+
+describe("transit_get_bus_route", () => {
+  it("노선 정보와 경유 정류장을 순번 순으로 반환한다", async () => {
+    const result = await ctx.callTool("transit_get_bus_route", {
+      route_number: "140",
+      response_format: "json"
+    });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      routes: { busNumber: string; headwayMinutes?: number; stops: { seq: number; arsId: string }[] }[];
+      candidates: unknown[];
+    };
+    assert.equal(output.routes.length, 1);
+    assert.equal(output.routes[0].busNumber, "140");
+    assert.equal(output.routes[0].headwayMinutes, 8);
+    assert.deepEqual(output.routes[0].stops.map((s) => s.seq), [1, 2, 3]);
+    assert.deepEqual(output.candidates, []);
+  });
+
+  it("노선 유형 코드를 서울 버스 API 기준 유형명으로 표시한다", async () => {
+    const result = await ctx.callTool("transit_get_bus_route", { route_number: "140" });
+
+    assert.equal((result.structured?.routes as { type: string }[])[0].type, "간선");
+    assert.match(result.text, /140번 \(간선\)/u);
+
+    const candidates = await ctx.callTool("transit_get_bus_route", { route_number: "14" });
+    assert.deepEqual(
+      (candidates.structured?.candidates as { busNumber: string; type: string }[]).map((c) => [c.busNumber, c.type]),
+      [["140", "간선"], ["1140", "지선"]]
+    );
+  });
+
+  it("'번' 접미사를 붙인 노선 번호는 정규화해 검색한다", async () => {
+    const result = await ctx.callTool("transit_get_bus_route", { route_number: "140번" });
+
+    assert.equal(result.isError, false);
+    assert.deepEqual((result.structured?.routes as { busNumber: string }[]).map((r) => r.busNumber), ["140"]);
+    assert.match(ctx.fixtures.requestsFor("getBusRouteList")[0], /strSrch=140(&|$)/u);
+  });
+
+  it("번호가 일치하는 노선이 없으면 후보를 제시한다", async () => {
+    const result = await ctx.callTool("transit_get_bus_route", { route_number: "14" });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as { routes: unknown[]; candidates: { busNumber: string }[] };
+    assert.equal(output.routes.length, 0);
+    assert.deepEqual(output.candidates.map((c) => c.busNumber), ["140", "1140"]);
+    assert.equal(ctx.fixtures.requestsFor("getStaionByRoute").length, 0);
+  });
+});
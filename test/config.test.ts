@@ -0,0 +1,40 @@
+/**
+ * 환경 변수(.env) 로드 테스트
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+let cwd: string;
+
+before(() => {
+  cwd = mkdtempSync(join(tmpdir(), "transit-env-"));
+  writeFileSync(join(cwd, ".env"), "MCP_MAX_SESSIONS=7\nMCP_RATE_LIMIT_BURST=3\nWATCH_POLL_INTERVAL_MS=1234\n");
+});
+
+after(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe(".env 로드", () => {
+  it("진입점과 같은 순서로 불러오면 상수에 .env 값이 반영된다", () => {
+    const env = { ...process.env };
+    delete env.MCP_MAX_SESSIONS;
+    delete env.MCP_RATE_LIMIT_BURST;
+    delete env.WATCH_POLL_INTERVAL_MS;
+
+    // src/index.ts처럼 env.js를 첫 번째 정적 import로 불러오는 모듈을 .env가 있는 디렉터리에서 실행
+    const script = [
+      `import ${JSON.stringify(new URL("../src/env.js", import.meta.url).href)};`,
+      `import { SESSION, RATE_LIMIT, ARRIVAL_WATCH } from ${JSON.stringify(new URL("../src/constants.js", import.meta.url).href)};`,
+      "console.log(JSON.stringify([SESSION.MAX_SESSIONS, RATE_LIMIT.BURST, ARRIVAL_WATCH.POLL_INTERVAL_MS]));"
+    ].join("\n");
+    const output = execFileSync(process.execPath, ["--input-type=module", "-e", script], { cwd, env, encoding: "utf8" });
+
+    assert.deepEqual(JSON.parse(output), [7, 3, 1234]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * evaluation.xml 실행기 테스트
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { createTestContext, type TestContext } from "./helpers.js";
+import {
+  parseEvaluationXml,
+  coerceParams,
+  runEvaluation,
+  formatMarkdownReport,
+  formatJUnitReport,
+  type EvaluationReport
+} from "./evaluation.js";
+
+let ctx: TestContext;
+
+before(async () => {
+  ctx = await createTestContext();
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+const SAMPLE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<evaluation>
+  <metadata><server_name>korea-transit-mcp</server_name><version>1.0.0</version></metadata>
+  <qa_pairs>
+    <!-- <pair id="commented"><input><tool>none</tool></input></pair> -->
+    <pair id="a">
+      <category>subway_arrival</category>
+      <input>
+        <tool>transit_get_subway_arrival</tool>
+        <params><station_name>강남</station_name><limit>2</limit><response_format>json</response_format></params>
+      </input>
+      <expected_output>
+        <contains>&quot;station&quot;: &quot;강남&quot;</contains>
+        <format>json</format>
+      </expected_output>
+    </pair>
+    <pair id="b">
+      <category>subway_arrival</category>
+      <input><tool>transit_unknown_tool</tool><params/></input>
+      <expected_output><contains>x</contains></expected_output>
+    </pair>
+  </qa_pairs>
+</evaluation>`;
+
+describe("parseEvaluationXml", () => {
+  it("QA 쌍의 도구/파라미터/기대값을 읽고 주석은 무시한다", () => {
+    const suite = parseEvaluationXml(SAMPLE_XML);
+
+    assert.equal(suite.metadata.serverName, "korea-transit-mcp");
+    assert.deepEqual(suite.pairs.map((p) => p.id), ["a", "b"]);
+    assert.deepEqual(suite.pairs[0].params, { station_name: "강남", limit: "2", response_format: "json" });
+    assert.deepEqual(suite.pairs[0].contains, ["\"station\": \"강남\""]);
+    assert.equal(suite.pairs[0].format, "json");
+    assert.equal(suite.pairs[1].format, undefined);
+  });
+
+  it("QA 쌍이 없으면 오류를 던진다", () => {
+    assert.throws(() => parseEvaluationXml("<evaluation><qa_pairs/></evaluation>"), /QA 쌍/u);
+  });
+});
+
+describe("coerceParams", () => {
+  it("입력 스키마의 타입에 맞게 변환한다", () => {
+    const args = coerceParams(
+      { limit: "5", query: "0201", types: "subway, bike", flag: "true" },
+      {
+        properties: {
+          limit: { type: "integer" },
+          query: { type: "string" },
+          types: { type: "array" },
+          flag: { type: "boolean" }
+        }
+      }
+    );
+
+    assert.deepEqual(args, { limit: 5, query: "0201", types: ["subway", "bike"], flag: true });
+  });
+});
+
+describe("runEvaluation", () => {
+  it("evaluation.xml의 모든 QA 쌍이 픽스처 응답으로 통과한다", async () => {
+    const suite = parseEvaluationXml(await readFile("evaluation.xml", "utf8"));
+
+    const results = await runEvaluation(ctx.client, suite.pairs);
+
+    const failed = results.filter((r) => !r.passed).map((r) => `${r.pair.id}: ${r.failures.join("; ")}`);
+    assert.deepEqual(failed, []);
+  });
+
+  it("contains/format 불일치와 미등록 도구를 실패로 기록한다", async () => {
+    const { pairs } = parseEvaluationXml(SAMPLE_XML.replace("<format>json</format>", "<format>markdown</format>"));
+
+    const [wrongFormat, unknownTool] = await runEvaluation(ctx.client, pairs);
+
+    assert.equal(wrongFormat.passed, false);
+    assert.deepEqual(wrongFormat.failures, ["format: 마크다운이 아닌 JSON 응답입니다"]);
+    assert.equal(unknownTool.passed, false);
+    assert.match(unknownTool.failures[0], /등록되지 않은 도구/u);
+  });
+});
+
+describe("보고서", () => {
+  const report = async (): Promise<EvaluationReport> => {
+    const { metadata, pairs } = parseEvaluationXml(SAMPLE_XML);
+    return {
+      metadata,
+      target: "fixtures",
+      startedAt: new Date("2025-03-10T00:00:00Z"),
+      durationMs: 1234,
+      results: await runEvaluation(ctx.client, pairs)
+    };
+  };
+
+  it("마크다운 보고서에 요약과 실패 항목을 포함한다", async () => {
+    const markdown = formatMarkdownReport(await report());
+
+    assert.match(markdown, /\| 테스트 일시 \| 2025-03-10 09:00:00 KST \|/u);
+    assert.match(markdown, /\| \*\*PASS\*\* \| 1개 \| 50% \|/u);
+    assert.match(markdown, /\| subway_arrival \| 1\/2 \| 1 \|/u);
+    assert.match(markdown, /### b\. transit_unknown_tool/u);
+  });
+
+  it("JUnit XML 보고서에 실패 사유를 failure 요소로 기록한다", async () => {
+    const xml = formatJUnitReport(await report());
+
+    assert.match(xml, /<testsuites name="korea-transit-mcp \(fixtures\)" tests="2" failures="1" time="1.234">/u);
+    assert.match(xml, /<testcase classname="subway_arrival" name="a\. transit_get_subway_arrival" time="[\d.]+"\/>/u);
+    assert.match(xml, /<failure message="등록되지 않은 도구입니다: transit_unknown_tool">/u);
+  });
+});
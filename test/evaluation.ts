@@ -0,0 +1,415 @@
+/**
+ * Korea Transit MCP Server - Evaluation Runner
+ *
+ * evaluation.xml의 QA 쌍을 MCP 클라이언트로 실행하고 contains/format 기대값을 검증한 뒤
+ * 마크다운(TEST_REPORT.md 형식)과 JUnit XML 보고서를 생성합니다.
+ */
+
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+
+// ===== 타입 정의 =====
+
+/** 응답 형식 기대값 */
+export type EvaluationFormat = "markdown" | "json";
+
+/** 평가 데이터 메타데이터 */
+export interface EvaluationMetadata {
+  serverName: string;
+  version: string;
+  description: string;
+}
+
+/** QA 쌍 (<pair>) */
+export interface EvaluationPair {
+  id: string;
+  category: string;
+  tool: string;
+  /** 원본 파라미터 (XML 텍스트, 도구 입력 스키마에 따라 변환 후 호출) */
+  params: Record<string, string>;
+  /** 응답 텍스트에 포함되어야 하는 문자열 */
+  contains: string[];
+  format?: EvaluationFormat;
+}
+
+/** 평가 데이터 (evaluation.xml) */
+export interface EvaluationSuite {
+  metadata: EvaluationMetadata;
+  pairs: EvaluationPair[];
+}
+
+/** QA 쌍 실행 결과 */
+export interface EvaluationResult {
+  pair: EvaluationPair;
+  passed: boolean;
+  /** 실패 사유 (통과 시 빈 배열) */
+  failures: string[];
+  durationMs: number;
+  /** 응답 텍스트 (보고서 실패 상세용) */
+  text: string;
+}
+
+/** 평가 보고서 */
+export interface EvaluationReport {
+  metadata: EvaluationMetadata;
+  /** 업스트림 ("live": 실제 API, "fixtures": 픽스처 서버) */
+  target: string;
+  startedAt: Date;
+  durationMs: number;
+  results: EvaluationResult[];
+}
+
+/** 도구 입력 스키마의 속성 정의 (JSON Schema 일부) */
+interface JsonSchemaProperty {
+  type?: string | string[];
+}
+
+/** 도구 입력 스키마 (JSON Schema 일부) */
+interface ToolInputSchema {
+  properties?: Record<string, JsonSchemaProperty>;
+}
+
+// ===== XML 파싱 =====
+
+const XML_ENTITIES: Record<string, string> = {
+  "&lt;": "<",
+  "&gt;": ">",
+  "&amp;": "&",
+  "&quot;": "\"",
+  "&apos;": "'"
+};
+
+/**
+ * XML 엔티티 해제
+ */
+function decodeXml(text: string): string {
+  return text.replace(/&(?:lt|gt|amp|quot|apos);/gu, (entity) => XML_ENTITIES[entity]);
+}
+
+/**
+ * XML 특수문자 이스케이프
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/gu, "&amp;")
+    .replace(/</gu, "&lt;")
+    .replace(/>/gu, "&gt;")
+    .replace(/"/gu, "&quot;")
+    .replace(/'/gu, "&apos;");
+}
+
+/**
+ * 첫 번째 요소의 내용 (없으면 undefined)
+ */
+function getElement(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "u").exec(xml);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * 같은 이름의 모든 요소 내용
+ */
+function getElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "gu");
+  return [...xml.matchAll(pattern)].map((m) => m[1]);
+}
+
+/**
+ * 요소의 텍스트 (엔티티 해제, 앞뒤 공백 제거)
+ */
+function getText(xml: string, tag: string): string {
+  return decodeXml(getElement(xml, tag) ?? "").trim();
+}
+
+/**
+ * <params>의 자식 요소를 이름-값 쌍으로 변환
+ */
+function parseParams(xml: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const match of xml.matchAll(/<(\w+)>([\s\S]*?)<\/\1>/gu)) {
+    params[match[1]] = decodeXml(match[2]).trim();
+  }
+  return params;
+}
+
+/**
+ * evaluation.xml 파싱 (<qa_pairs>의 <pair>만 실행 대상)
+ *
+ * @throws Error QA 쌍이 없거나 도구가 지정되지 않은 경우
+ */
+export function parseEvaluationXml(xml: string): EvaluationSuite {
+  const source = xml.replace(/<!--[\s\S]*?-->/gu, "");
+  const metadata = getElement(source, "metadata") ?? "";
+  const qaPairs = getElement(source, "qa_pairs") ?? "";
+
+  const pairs = [...qaPairs.matchAll(/<pair\s+id="([^"]+)"\s*>([\s\S]*?)<\/pair>/gu)].map(([, id, body]) => {
+    const input = getElement(body, "input") ?? "";
+    const expected = getElement(body, "expected_output") ?? "";
+    const tool = getText(input, "tool");
+    if (!tool) {
+      throw new Error(`QA 쌍 ${id}에 <tool>이 없습니다`);
+    }
+    const format = getText(expected, "format");
+
+    return {
+      id,
+      category: getText(body, "category") || "uncategorized",
+      tool,
+      params: parseParams(getElement(input, "params") ?? ""),
+      contains: getElements(expected, "contains").map((c) => decodeXml(c)),
+      format: format === "json" || format === "markdown" ? format : undefined
+    } satisfies EvaluationPair;
+  });
+
+  if (pairs.length === 0) {
+    throw new Error("평가 데이터에 QA 쌍(<qa_pairs><pair>)이 없습니다");
+  }
+
+  return {
+    metadata: {
+      serverName: getText(metadata, "server_name"),
+      version: getText(metadata, "version"),
+      description: getText(metadata, "description")
+    },
+    pairs
+  };
+}
+
+// ===== 실행 =====
+
+/**
+ * XML 텍스트 파라미터를 도구 입력 스키마의 타입으로 변환
+ */
+export function coerceParams(
+  params: Record<string, string>,
+  schema: ToolInputSchema | undefined
+): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(params)) {
+    const declared = schema?.properties?.[name]?.type;
+    const types = Array.isArray(declared) ? declared : [declared];
+    if ((types.includes("number") || types.includes("integer")) && value !== "" && Number.isFinite(Number(value))) {
+      args[name] = Number(value);
+    } else if (types.includes("boolean") && (value === "true" || value === "false")) {
+      args[name] = value === "true";
+    } else if (types.includes("array")) {
+      args[name] = value.split(",").map((v) => v.trim()).filter(Boolean);
+    } else {
+      args[name] = value;
+    }
+  }
+  return args;
+}
+
+/**
+ * 응답 형식 검증 (json: 유효한 JSON, markdown: JSON이 아닌 텍스트)
+ */
+function checkFormat(text: string, format: EvaluationFormat): string | undefined {
+  let parsed = true;
+  try {
+    JSON.parse(text);
+  } catch {
+    parsed = false;
+  }
+  if (format === "json" && !parsed) {
+    return "format: 유효한 JSON이 아닙니다";
+  }
+  if (format === "markdown" && parsed) {
+    return "format: 마크다운이 아닌 JSON 응답입니다";
+  }
+  return undefined;
+}
+
+/**
+ * QA 쌍 하나 실행
+ */
+async function evaluatePair(
+  client: Client,
+  pair: EvaluationPair,
+  schemas: Map<string, ToolInputSchema>
+): Promise<EvaluationResult> {
+  const started = performance.now();
+  const failures: string[] = [];
+  let text = "";
+
+  if (!schemas.has(pair.tool)) {
+    failures.push(`등록되지 않은 도구입니다: ${pair.tool}`);
+  } else {
+    try {
+      const result = await client.callTool({
+        name: pair.tool,
+        arguments: coerceParams(pair.params, schemas.get(pair.tool))
+      });
+      const content = result.content as { type: string; text?: string }[];
+      text = content.filter((c) => c.type === "text").map((c) => c.text ?? "").join("\n");
+
+      if (result.isError) {
+        failures.push(`도구 오류 응답: ${text.split("\n")[0]}`);
+      }
+      for (const expected of pair.contains) {
+        if (!text.includes(expected)) {
+          failures.push(`contains: "${expected}" 없음`);
+        }
+      }
+      const formatFailure = pair.format ? checkFormat(text, pair.format) : undefined;
+      if (formatFailure) {
+        failures.push(formatFailure);
+      }
+    } catch (error) {
+      failures.push(`호출 실패: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    pair,
+    passed: failures.length === 0,
+    failures,
+    durationMs: Math.round(performance.now() - started),
+    text
+  };
+}
+
+/**
+ * 모든 QA 쌍을 순서대로 실행
+ */
+export async function runEvaluation(client: Client, pairs: EvaluationPair[]): Promise<EvaluationResult[]> {
+  const { tools } = await client.listTools();
+  const schemas = new Map(tools.map((t) => [t.name, t.inputSchema as ToolInputSchema]));
+
+  const results: EvaluationResult[] = [];
+  for (const pair of pairs) {
+    results.push(await evaluatePair(client, pair, schemas));
+  }
+  return results;
+}
+
+// ===== 보고서 =====
+
+/**
+ * 비율 표시 (소수점 1자리)
+ */
+function formatRatio(count: number, total: number): string {
+  return total === 0 ? "0%" : `${Math.round((count / total) * 1000) / 10}%`;
+}
+
+/**
+ * 마크다운 표 셀 이스케이프
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/gu, "\\|").replace(/\n/gu, " ");
+}
+
+/**
+ * KST 일시 표시 (YYYY-MM-DD HH:MM:SS KST)
+ */
+function formatKstTimestamp(date: Date): string {
+  const kst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  return `${kst.toISOString().slice(0, 19).replace("T", " ")} KST`;
+}
+
+/**
+ * 마크다운 보고서 (TEST_REPORT.md 형식)
+ */
+export function formatMarkdownReport(report: EvaluationReport): string {
+  const { results } = report;
+  const passed = results.filter((r) => r.passed).length;
+  const failed = results.length - passed;
+  const lines: string[] = [
+    `# ${report.metadata.serverName || "Korea Transit MCP"} 평가 보고서`,
+    "",
+    "## 테스트 개요",
+    "",
+    "| 항목 | 내용 |",
+    "|------|------|",
+    `| 테스트 일시 | ${formatKstTimestamp(report.startedAt)} |`,
+    `| 테스트 대상 | ${report.metadata.serverName} v${report.metadata.version} |`,
+    `| 업스트림 | ${report.target} |`,
+    `| 총 테스트 케이스 | ${results.length}개 |`,
+    `| 소요 시간 | ${report.durationMs}ms |`,
+    "",
+    "---",
+    "",
+    "## 테스트 결과 요약",
+    "",
+    "| 결과 | 개수 | 비율 |",
+    "|------|------|------|",
+    `| **PASS** | ${passed}개 | ${formatRatio(passed, results.length)} |`,
+    `| **FAIL** | ${failed}개 | ${formatRatio(failed, results.length)} |`,
+    "",
+    "### 카테고리별 결과",
+    "",
+    "| 카테고리 | PASS | FAIL |",
+    "|----------|------|------|"
+  ];
+
+  const categories = new Map<string, EvaluationResult[]>();
+  for (const result of results) {
+    const list = categories.get(result.pair.category) ?? [];
+    list.push(result);
+    categories.set(result.pair.category, list);
+  }
+  for (const [category, list] of categories) {
+    const categoryPassed = list.filter((r) => r.passed).length;
+    lines.push(`| ${category} | ${categoryPassed}/${list.length} | ${list.length - categoryPassed} |`);
+  }
+
+  lines.push(
+    "",
+    "---",
+    "",
+    "## 상세 테스트 결과",
+    "",
+    "| ID | 카테고리 | 도구 | 입력 | 결과 | 응답시간 |",
+    "|----|---------|------|------|------|---------|"
+  );
+  for (const { pair, passed: ok, durationMs } of results) {
+    const input = Object.entries(pair.params).map(([k, v]) => `${k}=${v}`).join(", ");
+    lines.push(`| ${pair.id} | ${pair.category} | \`${pair.tool}\` | ${escapeCell(input)} | ${ok ? "PASS" : "FAIL"} | ${durationMs}ms |`);
+  }
+
+  const failures = results.filter((r) => !r.passed);
+  if (failures.length > 0) {
+    lines.push("", "---", "", "## 실패 항목 분석", "");
+    for (const { pair, failures: reasons, text } of failures) {
+      lines.push(`### ${pair.id}. ${pair.tool}`, "");
+      lines.push(...reasons.map((reason) => `- ${reason}`));
+      if (text) {
+        lines.push("", "```", text.slice(0, 500), "```");
+      }
+      lines.push("");
+    }
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * JUnit XML 보고서 (CI 테스트 결과 수집용)
+ */
+export function formatJUnitReport(report: EvaluationReport): string {
+  const { results } = report;
+  const failures = results.filter((r) => !r.passed).length;
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const suiteName = escapeXml(`${report.metadata.serverName || "evaluation"} (${report.target})`);
+
+  const cases = results.map(({ pair, passed, failures: reasons, durationMs }) => {
+    const attrs = `classname="${escapeXml(pair.category)}" name="${escapeXml(`${pair.id}. ${pair.tool}`)}" time="${seconds(durationMs)}"`;
+    if (passed) {
+      return `    <testcase ${attrs}/>`;
+    }
+    return [
+      `    <testcase ${attrs}>`,
+      `      <failure message="${escapeXml(reasons[0])}">${escapeXml(reasons.join("\n"))}</failure>`,
+      "    </testcase>"
+    ].join("\n");
+  });
+
+  return [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    `<testsuites name="${suiteName}" tests="${results.length}" failures="${failures}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${suiteName}" tests="${results.length}" failures="${failures}" errors="0" skipped="0" time="${seconds(report.durationMs)}" timestamp="${report.startedAt.toISOString()}">`,
+    ...cases,
+    "  </testsuite>",
+    "</testsuites>",
+    ""
+  ].join("\n");
+}
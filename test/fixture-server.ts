@@ -0,0 +1,346 @@
+/**
+ * Korea Transit MCP Server - Fixture Server
+ *
+ * 기록된 서울 열린데이터광장/지하철 실시간/서울 버스 API 응답을 재생하는 로컬 대체 서버
+ *
+ * API_URLS를 이 서버로 재정의하면 네트워크나 API 할당량 없이 모든 도구를 실행할 수 있습니다.
+ *
+ * - SEOUL_DATA_API_URL   = {url}
+ * - SEOUL_SUBWAY_API_URL = {url}/api/subway
+ * - BUS_API_URL          = {url}/api/rest
+ *
+ * 단독 실행: npm run fixtures (FIXTURE_PORT, FIXTURE_SCENARIO 환경변수 지원)
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { readFileSync, readdirSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { AddressInfo } from "node:net";
+
+// ===== 타입 정의 =====
+
+/** API 계열 (응답 형식이 서로 다름) */
+export type FixtureFamily = "seoul" | "subway" | "bus";
+
+/**
+ * 재생 시나리오
+ *
+ * - success: 기록된 응답 (기록이 없는 요청은 데이터 없음)
+ * - empty: 데이터 없음 (INFO-200 / headerCd 4)
+ * - auth_error: 인증키 오류
+ * - server_error: HTTP 500
+ * - timeout: 응답 지연 (클라이언트 타임아웃 유도)
+ * - malformed: 잘린 JSON
+ */
+export type FixtureScenario =
+  | "success"
+  | "empty"
+  | "auth_error"
+  | "server_error"
+  | "timeout"
+  | "malformed";
+
+/** 기록된 응답 파일 (test/fixtures/{family}/{service}.json) */
+interface FixtureFile {
+  /** 응답 JSON 루트 키 (서울 열린데이터, 생략 시 서비스명) */
+  rootKey?: string;
+  /** 요청 키 → 기록된 행 (요청 키는 서울 API는 start/end 뒤 경로, 버스 API는 조회 인자 값) */
+  responses: Record<string, unknown[]>;
+}
+
+/** 파싱된 요청 */
+interface FixtureRequest {
+  family: FixtureFamily;
+  service: string;
+  key: string;
+  /** 조회 범위 (0부터 시작, 끝 포함) */
+  range?: { start: number; end: number };
+}
+
+/** 픽스처 서버 옵션 */
+export interface FixtureServerOptions {
+  /** 포트 (기본값: 임의 포트) */
+  port?: number;
+  /** 픽스처 디렉토리 (기본값: test/fixtures) */
+  fixtureDir?: string;
+  /** timeout 시나리오 응답 지연 (ms) */
+  timeoutDelayMs?: number;
+}
+
+// ===== 응답 본문 =====
+
+const SEOUL_OK = { CODE: "INFO-000", MESSAGE: "정상 처리되었습니다" };
+const SEOUL_EMPTY = { CODE: "INFO-200", MESSAGE: "해당하는 데이터가 없습니다." };
+const SEOUL_AUTH_ERROR = {
+  CODE: "INFO-100",
+  MESSAGE: "인증키가 유효하지 않습니다. 인증키가 없는 경우, 열린 데이터 광장 홈페이지에서 인증키를 신청하십시오."
+};
+
+/** 서울 열린데이터 응답 */
+function seoulBody(rootKey: string, scenario: FixtureScenario, rows: unknown[], total: number): unknown {
+  if (scenario === "auth_error") {
+    return { RESULT: SEOUL_AUTH_ERROR };
+  }
+  if (rows.length === 0) {
+    return { RESULT: SEOUL_EMPTY };
+  }
+  return { [rootKey]: { list_total_count: total, RESULT: SEOUL_OK, row: rows } };
+}
+
+/** 지하철 실시간 응답 */
+function subwayBody(scenario: FixtureScenario, rows: unknown[]): unknown {
+  const status = (code: string, message: string, total: number) => ({
+    status: code === "INFO-000" ? 200 : 500,
+    code,
+    message,
+    link: "",
+    developerMessage: "",
+    total
+  });
+  if (scenario === "auth_error") {
+    return status(SEOUL_AUTH_ERROR.CODE, SEOUL_AUTH_ERROR.MESSAGE, 0);
+  }
+  if (rows.length === 0) {
+    return status(SEOUL_EMPTY.CODE, SEOUL_EMPTY.MESSAGE, 0);
+  }
+  return {
+    errorMessage: status(SEOUL_OK.CODE, SEOUL_OK.MESSAGE, rows.length),
+    realtimeArrivalList: rows
+  };
+}
+
+/** 서울 버스 API 응답 */
+function busBody(scenario: FixtureScenario, rows: unknown[]): unknown {
+  const header = (headerCd: string, headerMsg: string) => ({
+    comMsgHeader: { errMsg: null, returnCode: null },
+    msgHeader: { headerCd, headerMsg, itemCount: 0 }
+  });
+  if (scenario === "auth_error") {
+    return { ...header("7", "인증 실패: 등록되지 않은 서비스키입니다."), msgBody: { itemList: null } };
+  }
+  if (rows.length === 0) {
+    return { ...header("4", "결과가 없습니다."), msgBody: { itemList: null } };
+  }
+  return { ...header("0", "정상적으로 처리되었습니다."), msgBody: { itemList: rows } };
+}
+
+// ===== 요청 파싱 =====
+
+/**
+ * 요청 경로를 API 계열/서비스/요청 키로 해석
+ *
+ * - /{key}/json/{service}/{start}/{end}[/{args...}]                        (서울 열린데이터, 1부터)
+ * - /api/subway/{key}/json/{service}/{start}/{end}/{station}                (지하철 실시간, 0부터)
+ * - /api/rest/{group}/{service}?serviceKey=...&resultType=json&{arg}={value} (서울 버스)
+ */
+function parseFixtureRequest(url: URL): FixtureRequest | undefined {
+  const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (segments[0] === "api" && segments[1] === "rest" && segments.length >= 4) {
+    const args = [...url.searchParams.entries()]
+      .filter(([name]) => name !== "serviceKey" && name !== "resultType");
+    return { family: "bus", service: segments[3], key: args[args.length - 1]?.[1] ?? "" };
+  }
+
+  if (segments[0] === "api" && segments[1] === "subway" && segments[3] === "json" && segments.length >= 8) {
+    return {
+      family: "subway",
+      service: segments[4],
+      key: segments.slice(7).join("/"),
+      range: { start: Number(segments[5]), end: Number(segments[6]) }
+    };
+  }
+
+  if (segments[1] === "json" && segments.length >= 5) {
+    return {
+      family: "seoul",
+      service: segments[2],
+      key: segments.slice(5).join("/"),
+      range: { start: Number(segments[3]) - 1, end: Number(segments[4]) - 1 }
+    };
+  }
+
+  return undefined;
+}
+
+// ===== 서버 =====
+
+/**
+ * 기록된 업스트림 API 응답을 재생하는 대체 서버
+ */
+export class FixtureServer {
+  /** 서비스별 시나리오 ("*"는 전체 기본값) */
+  private readonly scenarios = new Map<string, FixtureScenario>();
+  private readonly pendingTimers = new Set<NodeJS.Timeout>();
+  private readonly fixtures: Map<string, FixtureFile>;
+
+  /** 처리한 요청 경로 (쿼리 포함) */
+  readonly requests: string[] = [];
+
+  private constructor(
+    private readonly server: Server,
+    fixtureDir: string,
+    private readonly timeoutDelayMs: number
+  ) {
+    this.fixtures = FixtureServer.loadFixtures(fixtureDir);
+    server.on("request", (req, res) => this.handle(req, res));
+  }
+
+  /**
+   * 서버 시작
+   */
+  static async start(options: FixtureServerOptions = {}): Promise<FixtureServer> {
+    const server = createServer();
+    const fixtureServer = new FixtureServer(
+      server,
+      options.fixtureDir ?? resolve(process.env.FIXTURE_DIR ?? "test/fixtures"),
+      options.timeoutDelayMs ?? 5000
+    );
+
+    await new Promise<void>((resolveListen, reject) => {
+      server.once("error", reject);
+      server.listen(options.port ?? 0, "127.0.0.1", () => resolveListen());
+    });
+
+    return fixtureServer;
+  }
+
+  /** 서버 기본 URL */
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * API_URLS 재정의용 환경변수
+   */
+  get env(): Record<string, string> {
+    return {
+      SEOUL_DATA_API_URL: this.url,
+      SEOUL_SUBWAY_API_URL: `${this.url}/api/subway`,
+      BUS_API_URL: `${this.url}/api/rest`
+    };
+  }
+
+  /**
+   * 시나리오 지정
+   *
+   * @param service - 서비스명 (예: "realtimeStationArrival", "getStationByUid") 또는 "*" (전체)
+   */
+  setScenario(service: string, scenario: FixtureScenario): void {
+    this.scenarios.set(service, scenario);
+  }
+
+  /**
+   * 모든 시나리오와 요청 기록 초기화
+   */
+  reset(): void {
+    this.scenarios.clear();
+    this.requests.length = 0;
+  }
+
+  /**
+   * 서비스로 들어온 요청 경로 목록
+   */
+  requestsFor(service: string): string[] {
+    return this.requests.filter((path) => path.includes(`/${service}`));
+  }
+
+  /**
+   * 서버 종료 (지연 중인 응답도 정리)
+   */
+  async close(): Promise<void> {
+    for (const timer of this.pendingTimers) {
+      clearTimeout(timer);
+    }
+    this.pendingTimers.clear();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolveClose) => this.server.close(() => resolveClose()));
+  }
+
+  private static loadFixtures(fixtureDir: string): Map<string, FixtureFile> {
+    const fixtures = new Map<string, FixtureFile>();
+    for (const family of ["seoul", "subway", "bus"] satisfies FixtureFamily[]) {
+      const dir = join(fixtureDir, family);
+      for (const file of readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+        const content = JSON.parse(readFileSync(join(dir, file), "utf8")) as FixtureFile;
+        fixtures.set(`${family}/${file.replace(/\.json$/u, "")}`, content);
+      }
+    }
+    return fixtures;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? "/", this.url);
+    this.requests.push(`${url.pathname}${url.search}`);
+
+    const request = parseFixtureRequest(url);
+    if (!request) {
+      res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end("fixture route not found");
+      return;
+    }
+
+    const scenario = this.scenarios.get(request.service) ?? this.scenarios.get("*") ?? "success";
+
+    switch (scenario) {
+      case "timeout": {
+        const timer = setTimeout(() => {
+          this.pendingTimers.delete(timer);
+          this.respond(res, request, "success");
+        }, this.timeoutDelayMs);
+        this.pendingTimers.add(timer);
+        return;
+      }
+      case "server_error":
+        res.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" });
+        res.end("Internal Server Error");
+        return;
+      case "malformed":
+        res.writeHead(200, { "Content-Type": "application/json; charset=utf-8" });
+        res.end("{\"RESULT\": {\"CODE\": \"INFO-000\", \"MESSAGE\": ");
+        return;
+      default:
+        this.respond(res, request, scenario);
+    }
+  }
+
+  private respond(res: ServerResponse, request: FixtureRequest, scenario: FixtureScenario): void {
+    if (res.destroyed) {
+      return;
+    }
+
+    const fixture = this.fixtures.get(`${request.family}/${request.service}`);
+    const recorded = scenario === "success" ? fixture?.responses[request.key] ?? [] : [];
+    const rows = request.range
+      ? recorded.slice(request.range.start, request.range.end + 1)
+      : recorded;
+
+    const body = request.family === "seoul"
+      ? seoulBody(fixture?.rootKey ?? request.service, scenario, rows, recorded.length)
+      : request.family === "subway"
+        ? subwayBody(scenario, rows)
+        : busBody(scenario, rows);
+
+    res.writeHead(200, { "Content-Type": "application/json; charset=utf-8" });
+    res.end(JSON.stringify(body));
+  }
+}
+
+// ===== 단독 실행 =====
+
+if (process.argv[1] && import.meta.url === pathToFileURL(resolve(process.argv[1])).href) {
+  const fixtureServer = await FixtureServer.start({
+    port: Number(process.env.FIXTURE_PORT) || 8089
+  });
+  const scenario = process.env.FIXTURE_SCENARIO as FixtureScenario | undefined;
+  if (scenario) {
+    fixtureServer.setScenario("*", scenario);
+  }
+
+  console.error(`🧪 Fixture server listening on ${fixtureServer.url}`);
+  for (const [name, value] of Object.entries(fixtureServer.env)) {
+    console.error(`   ${name}=${value}`);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Korea Transit MCP Server - Test Helpers
+ *
+ * 픽스처 서버를 띄우고 MCP 클라이언트로 도구를 호출하는 테스트 공용 유틸리티
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { FixtureServer } from "./fixture-server.js";
+
+// ===== 타입 정의 =====
+
+/** 도구 호출 결과 */
+export interface ToolCallResult {
+  /** 첫 번째 텍스트 콘텐츠 */
+  text: string;
+  /** 구조화된 응답 (오류 시 없음) */
+  structured?: Record<string, unknown>;
+  isError: boolean;
+  /** 오류 응답의 구조화된 오류 정보 (_meta.error) */
+  error?: { code: string; message: string; retryable: boolean; upstreamCode?: string; retryAfterSeconds?: number };
+}
+
+/** 테스트 환경 */
+export interface TestContext {
+  fixtures: FixtureServer;
+  client: Client;
+  /** 도구 호출 */
+  callTool(name: string, args: Record<string, unknown>): Promise<ToolCallResult>;
+  /** 응답 캐시, 서킷 브레이커, 호출 집계, 메트릭, 픽스처 시나리오 초기화 */
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// ===== 환경 구성 =====
+
+/**
+ * 픽스처 서버와 연결된 MCP 클라이언트 생성
+ *
+ * API_URLS/API 키/타임아웃은 모듈 로드 시점에 읽히므로, 환경변수를 설정한 뒤
+ * 서버 모듈을 동적으로 불러옵니다. 테스트 파일마다 별도 프로세스에서 한 번만 호출하세요.
+ */
+export async function createTestContext(): Promise<TestContext> {
+  const fixtures = await FixtureServer.start({ timeoutDelayMs: 2000 });
+
+  Object.assign(process.env, fixtures.env, {
+    SEOUL_API_KEY: "test-key",
+    DATA_GO_KR_API_KEY: "test-key",
+    API_TIMEOUT_MS: "300",
+    API_RETRY_BASE_MS: "10",
+    WATCH_POLL_INTERVAL_MS: "50",
+    LOG_LEVEL: "silent"
+  });
+
+  const { createTransitServer } = await import("../src/server.js");
+  const {
+    setCacheBackend,
+    MemoryLruCache,
+    resetCircuitBreakers,
+    setQuotaLedger,
+    resetMetrics
+  } = await import("../src/services/index.js");
+
+  const server = createTransitServer({ watch: true });
+  const client = new Client({ name: "korea-transit-test", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport)
+  ]);
+
+  return {
+    fixtures,
+    client,
+    async callTool(name, args) {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as { type: string; text?: string }[];
+      return {
+        text: content.find((c) => c.type === "text")?.text ?? "",
+        structured: result.structuredContent as Record<string, unknown> | undefined,
+        isError: result.isError === true,
+        error: result._meta?.error as ToolCallResult["error"]
+      };
+    },
+    async reset() {
+      setCacheBackend(new MemoryLruCache());
+      resetCircuitBreakers();
+      setQuotaLedger();
+      resetMetrics();
+      fixtures.reset();
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      await fixtures.close();
+    }
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * 구조화 로그와 API 키 가림 테스트
+ */
+
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+
+let ctx: TestContext;
+let services: typeof import("../src/services/index.js");
+let requestLogging: typeof import("../src/request-logging.js");
+let lines: { level: string; record: Record<string, unknown> }[];
+
+before(async () => {
+  ctx = await createTestContext();
+  services = await import("../src/services/index.js");
+  requestLogging = await import("../src/request-logging.js");
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+  lines = [];
+  services.configureLogger({
+    level: "debug",
+    writer: (level, line) => lines.push({ level, record: JSON.parse(line) })
+  });
+});
+
+afterEach(() => {
+  services.resetLogger();
+});
+
+describe("API 키 가림", () => {
+  it("서울 API 경로 키와 serviceKey 파라미터를 가린다", () => {
+    assert.equal(
+      services.redactSecrets("http://openapi.seoul.go.kr:8088/abcd1234/json/bikeList/1/5"),
+      "http://openapi.seoul.go.kr:8088/***/json/bikeList/1/5"
+    );
+    assert.equal(
+      services.redactSecrets("https://apis.data.go.kr/1613000/ArvlInfo?serviceKey=abc%2B1&arsId=22341"),
+      "https://apis.data.go.kr/1613000/ArvlInfo?serviceKey=***&arsId=22341"
+    );
+  });
+
+  it("설정된 키 값은 위치와 관계없이 가린다", () => {
+    assert.equal(services.redactSecrets("invalid key test-key"), "invalid key ***");
+  });
+
+  it("ApiError의 endpoint에 키가 남지 않는다", () => {
+    const error = new services.ApiError(500, "Internal Server Error", "http://localhost/test-key/xml/Service/1/5");
+
+    assert.equal(error.endpoint, "http://localhost/***/xml/Service/1/5");
+    assert.equal(services.serializeError(error).endpoint, error.endpoint);
+  });
+});
+
+describe("구조화 로그", () => {
+  it("한 줄 JSON에 요청 컨텍스트와 필드를 기록한다", () => {
+    services.runWithRequestContext({ requestId: "req-1", sessionId: "session-1" }, () => {
+      services.logger.child({ component: "test" }).info("테스트", { durationMs: 12 });
+    });
+
+    assert.equal(lines.length, 1);
+    const { record } = lines[0];
+    assert.equal(record.level, "info");
+    assert.equal(record.msg, "테스트");
+    assert.equal(record.requestId, "req-1");
+    assert.equal(record.sessionId, "session-1");
+    assert.equal(record.component, "test");
+    assert.equal(record.durationMs, 12);
+    assert.equal(typeof record.time, "string");
+  });
+
+  it("설정한 레벨보다 낮은 로그는 출력하지 않는다", () => {
+    services.configureLogger({ level: "warn" });
+    services.logger.info("무시");
+    services.logger.warn("기록");
+
+    assert.deepEqual(lines.map((line) => line.record.msg), ["기록"]);
+  });
+
+  it("LOG_LEVEL은 모듈을 불러온 뒤(.env 로드 후)에 설정해도 반영된다", () => {
+    const previous = process.env.LOG_LEVEL;
+    process.env.LOG_LEVEL = "warn";
+    try {
+      services.resetLogger();
+      services.configureLogger({ writer: (level, line) => lines.push({ level, record: JSON.parse(line) }) });
+      services.logger.info("무시");
+      services.logger.warn("기록");
+    } finally {
+      process.env.LOG_LEVEL = previous;
+    }
+
+    assert.deepEqual(lines.map((line) => line.record.msg), ["기록"]);
+  });
+
+  it("도구 호출과 업스트림 실패를 키 없이 기록한다", async () => {
+    ctx.fixtures.setScenario("subwayStatus", "server_error");
+
+    await ctx.callTool("transit_get_subway_status", {});
+
+    const output = JSON.stringify(lines);
+    assert.doesNotMatch(output, /test-key/u);
+
+    const upstream = lines.find((line) => line.record.msg === "업스트림 요청 실패");
+    assert.ok(upstream);
+    assert.equal(upstream.level, "warn");
+    assert.equal(upstream.record.tool, "transit_get_subway_status");
+    assert.equal(upstream.record.outcome, "error");
+    assert.match(String(upstream.record.url), /\/\*\*\*\//u);
+    assert.equal((upstream.record.error as Record<string, unknown>).code, "UPSTREAM_UNAVAILABLE");
+
+    const toolCall = lines.find((line) => line.record.msg === "도구 호출");
+    assert.ok(toolCall);
+    assert.equal(toolCall.record.tool, "transit_get_subway_status");
+    assert.equal(toolCall.record.outcome, "error");
+    assert.equal(typeof toolCall.record.durationMs, "number");
+  });
+
+  it("올바른 X-Request-Id만 그대로 사용한다", () => {
+    assert.equal(requestLogging.resolveRequestId("abc-123"), "abc-123");
+    assert.notEqual(requestLogging.resolveRequestId("bad id\n"), "bad id\n");
+    assert.match(requestLogging.resolveRequestId(undefined), /^[0-9a-f-]{36}$/u);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * 도구/업스트림 메트릭 (/metrics, 진단 도구) 테스트
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+
+let ctx: TestContext;
+let services: typeof import("../src/services/index.js");
+let diagnostics: typeof import("../src/tools/diagnostics.js");
+
+before(async () => {
+  ctx = await createTestContext();
+  // API 주소가 픽스처 서버로 설정된 뒤 불러옴
+  services = await import("../src/services/index.js");
+  diagnostics = await import("../src/tools/diagnostics.js");
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+describe("Prometheus 메트릭", () => {
+  it("도구 호출 수, 처리 시간, 업스트림 요청과 캐시 조회를 집계한다", async () => {
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+
+    const metrics = services.renderPrometheusMetrics();
+
+    assert.match(metrics, /^# TYPE transit_tool_calls_total counter$/mu);
+    assert.match(metrics, /^transit_tool_calls_total\{tool="transit_get_bus_arrival"\} 2$/mu);
+    assert.match(metrics, /^transit_tool_duration_seconds_count\{tool="transit_get_bus_arrival"\} 2$/mu);
+    assert.match(metrics, /^transit_tool_duration_seconds_bucket\{tool="transit_get_bus_arrival",le="\+Inf"\} 2$/mu);
+    assert.match(metrics, /^transit_upstream_requests_total\{endpoint="BUS_ARRIVAL"\} 1$/mu);
+    assert.match(metrics, /^transit_cache_requests_total\{endpoint="BUS_ARRIVAL",result="miss"\} 1$/mu);
+    assert.match(metrics, /^transit_cache_requests_total\{endpoint="BUS_ARRIVAL",result="hit"\} 1$/mu);
+    assert.match(metrics, /^transit_upstream_quota_used\{key="data_go_kr"\} 1$/mu);
+  });
+
+  it("업스트림 타임아웃을 엔드포인트와 오류 코드별로 집계한다", async () => {
+    ctx.fixtures.setScenario("subwayStatus", "timeout");
+
+    const result = await ctx.callTool("transit_get_subway_status", {});
+
+    assert.equal(result.isError, true);
+    const metrics = services.renderPrometheusMetrics();
+    // 재시도(2회)를 포함한 실제 요청 수
+    assert.match(metrics, /^transit_upstream_errors_total\{endpoint="SUBWAY_STATUS",code="TIMEOUT"\} 3$/mu);
+    assert.match(metrics, /^transit_tool_errors_total\{tool="transit_get_subway_status",code="TIMEOUT"\} 1$/mu);
+  });
+
+  it("등록한 게이지는 출력 시점의 값을 읽는다", () => {
+    let active = 2;
+    services.registerGauge("test_sessions_active", "테스트 세션 수", () => active);
+    active = 3;
+
+    assert.match(services.renderPrometheusMetrics(), /^transit_test_sessions_active 3$/mu);
+  });
+});
+
+describe("진단 도구", () => {
+  it("도구/업스트림별 호출 요약과 캐시 적중률을 반환한다", async () => {
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+
+    const response = await diagnostics.getDiagnosticsTool.handler({ response_format: "json" });
+    const output = response.structuredContent as {
+      tools: { tool: string; calls: number; errors: number }[];
+      upstreams: { endpoint: string; requests: number; cacheHitRatio?: number }[];
+    };
+
+    assert.equal(response.isError, undefined);
+    assert.deepEqual(
+      output.tools.map(({ tool, calls, errors }) => ({ tool, calls, errors })),
+      [{ tool: "transit_get_bus_arrival", calls: 2, errors: 0 }]
+    );
+    const busArrival = output.upstreams.find((u) => u.endpoint === "BUS_ARRIVAL");
+    assert.equal(busArrival?.requests, 1);
+    assert.equal(busArrival?.cacheHitRatio, 0.5);
+  });
+
+  it("Markdown 형식으로 엔드포인트별 오류 코드를 보여준다", async () => {
+    ctx.fixtures.setScenario("subwayStatus", "timeout");
+    await ctx.callTool("transit_get_subway_status", {});
+
+    const response = await diagnostics.getDiagnosticsTool.handler({});
+
+    assert.match(response.content[0].text, /\| SUBWAY_STATUS \| 3 \| 3 \| \d+ \| 0% \| TIMEOUT 3 \|/u);
+    assert.match(response.content[0].text, /서킷 브레이커/u);
+  });
+});
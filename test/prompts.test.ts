@@ -0,0 +1,115 @@
+/**
+ * MCP 프롬프트 (출근길 체크, 막차 확인, 주변 교통 요약) 테스트
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+
+let ctx: TestContext;
+
+before(async () => {
+  ctx = await createTestContext();
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+/** 프롬프트 메시지 본문 */
+async function getPromptText(name: string, args: Record<string, string>): Promise<string> {
+  const result = await ctx.client.getPrompt({ name, arguments: args });
+  assert.equal(result.messages.length, 1);
+  const [message] = result.messages;
+  assert.equal(message.role, "user");
+  assert.equal(message.content.type, "text");
+  return message.content.type === "text" ? message.content.text : "";
+}
+
+describe("프롬프트 목록", () => {
+  it("표시 이름과 인자를 제공한다", async () => {
+    const { prompts } = await ctx.client.listPrompts();
+
+    assert.deepEqual(
+      prompts.map((p) => [p.name, p.title]),
+      [
+        ["transit_commute_check", "출근길 체크"],
+        ["transit_last_train_check", "막차 확인"],
+        ["transit_nearby_summary", "주변 교통 요약"]
+      ]
+    );
+    const commute = prompts.find((p) => p.name === "transit_commute_check");
+    assert.deepEqual(
+      commute?.arguments?.map((a) => [a.name, a.required]),
+      [["home_station", true], ["work_stop", true], ["line", false]]
+    );
+  });
+
+  it("서버를 여러 번 만들어도 프롬프트를 등록할 수 있다 (세션 모드)", async () => {
+    const { createTransitServer } = await import("../src/server.js");
+
+    assert.doesNotThrow(() => {
+      createTransitServer();
+      createTransitServer();
+    });
+  });
+
+  it("역 이름 인자를 자동 완성한다", async () => {
+    const result = await ctx.client.complete({
+      ref: { type: "ref/prompt", name: "transit_last_train_check" },
+      argument: { name: "station_name", value: "신도" }
+    });
+
+    assert.deepEqual(result.completion.values, ["신도림"]);
+  });
+});
+
+describe("프롬프트 메시지", () => {
+  it("출근길 체크는 정류장 번호면 바로 도착정보를 조회하도록 안내한다", async () => {
+    const text = await getPromptText("transit_commute_check", {
+      home_station: "신도림",
+      work_stop: "22341",
+      line: "2호선"
+    });
+
+    assert.match(text, /`transit_get_subway_status`를 `line: "2"`/u);
+    assert.match(text, /station_name: "신도림", line: "2호선", group_by: "line_direction"/u);
+    assert.match(text, /`transit_get_bus_arrival`을 `ars_id: "22341"`/u);
+    assert.doesNotMatch(text, /transit_search_bus_station/u);
+  });
+
+  it("출근길 체크는 정류장 이름이면 먼저 정류장을 검색하도록 안내한다", async () => {
+    const text = await getPromptText("transit_commute_check", {
+      home_station: "홍대입구",
+      work_stop: "강남역"
+    });
+
+    assert.match(text, /`transit_get_subway_status`를 인자 없이/u);
+    assert.match(text, /`transit_search_bus_station`을 `query: "강남역"`/u);
+  });
+
+  it("막차 확인은 방향을 시간표 도구 인자로 변환한다", async () => {
+    const text = await getPromptText("transit_last_train_check", {
+      station_name: "강남",
+      direction: "하행"
+    });
+
+    assert.match(text, /station_name: "강남", direction: "down", from_time: "23:00", limit: 30/u);
+  });
+
+  it("주변 교통 요약은 통합 조회 도구를 안내한다", async () => {
+    const text = await getPromptText("transit_nearby_summary", { location: "홍대입구" });
+
+    assert.match(text, /`transit_get_combined_info`를 `location: "홍대입구"`/u);
+  });
+
+  it("필수 인자가 없으면 실패한다", async () => {
+    await assert.rejects(
+      ctx.client.getPrompt({ name: "transit_commute_check", arguments: { home_station: "신도림" } })
+    );
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * 업스트림 API 키별 일일 호출 집계 테스트
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+
+let ctx: TestContext;
+let services: typeof import("../src/services/index.js");
+
+before(async () => {
+  ctx = await createTestContext();
+  // API 주소가 픽스처 서버로 설정된 뒤 불러옴
+  services = await import("../src/services/index.js");
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+describe("호출 집계", () => {
+  it("업스트림 요청을 API 키와 도구별로 집계하고 캐시 적중은 제외한다", async () => {
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+    await ctx.callTool("transit_get_subway_status", {});
+
+    const [seoul, dataGoKr] = services.getQuotaLedger().snapshot();
+    assert.equal(seoul.key, "seoul");
+    assert.deepEqual(seoul.byTool, { transit_get_subway_status: 1 });
+    assert.equal(dataGoKr.used, 1);
+    assert.deepEqual(dataGoKr.byTool, { transit_get_bus_arrival: 1 });
+  });
+
+  it("재시도한 요청도 호출 수에 포함한다", async () => {
+    ctx.fixtures.setScenario("getStationByUid", "server_error");
+
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+
+    assert.equal(services.getQuotaLedger().snapshot()[1].used, 3);
+  });
+});
+
+describe("일일 호출 한도", () => {
+  it("재시도하기 전에도 한도를 확인해 한도를 넘겨 요청하지 않는다", async () => {
+    services.setQuotaLedger(new services.QuotaLedger({ seoul: 0, data_go_kr: 2 }));
+    ctx.fixtures.setScenario("getStationByUid", "server_error");
+
+    const result = await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+
+    assert.equal(result.error?.code, "QUOTA_EXCEEDED");
+    assert.equal(services.getQuotaLedger().snapshot()[1].used, 2);
+    assert.equal(ctx.fixtures.requestsFor("getStationByUid").length, 2);
+  });
+
+  it("한도를 모두 쓰면 업스트림 요청 없이 재시도 시간을 안내한다", async () => {
+    services.setQuotaLedger(new services.QuotaLedger({ seoul: 0, data_go_kr: 1 }));
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+
+    const result = await ctx.callTool("transit_get_bus_arrival", { ars_id: "99999" });
+
+    assert.equal(result.isError, true);
+    assert.match(result.text, /호출 한도를 모두 사용/u);
+    assert.equal(result.error?.code, "QUOTA_EXCEEDED");
+    assert.equal(result.error?.upstreamCode, "DAILY_QUOTA");
+    assert.ok((result.error?.retryAfterSeconds ?? 0) > 0);
+    assert.equal(ctx.fixtures.requestsFor("getStationByUid").length, 1);
+
+    const [, dataGoKr] = services.getQuotaLedger().snapshot();
+    assert.equal(dataGoKr.remaining, 0);
+  });
+
+  it("KST 날짜가 바뀌면 집계를 초기화한다", () => {
+    const clock = { now: new Date("2026-03-02T14:59:00Z") };
+    const ledger = new services.QuotaLedger({ seoul: 1, data_go_kr: 0 }, () => clock.now);
+    const url = `${process.env.SEOUL_DATA_API_URL}/test-key/json/subwayStatus/1/5`;
+
+    ledger.record(url, "transit_get_subway_status");
+    assert.throws(() => ledger.assertAvailable(url), services.DailyQuotaExceededError);
+
+    clock.now = new Date("2026-03-02T15:00:00Z");
+    ledger.assertAvailable(url);
+    assert.equal(ledger.snapshot()[0].date, "2026-03-03");
+    assert.equal(ledger.snapshot()[0].used, 0);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * /mcp 요청 제한 (토큰 버킷) 테스트
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import {
+  TokenBucketRateLimiter,
+  createRateLimitMiddleware,
+  createRateLimitError,
+  getRateLimitHeaders,
+  resolveRateLimitKey
+} from "../src/rate-limit.js";
+
+describe("TokenBucketRateLimiter", () => {
+  function createLimiter() {
+    const clock = { now: 0 };
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 60, burst: 2, now: () => clock.now });
+    return { clock, limiter };
+  }
+
+  it("버킷 용량만큼 허용한 뒤 충전 시간만큼 거부한다", () => {
+    const { limiter } = createLimiter();
+
+    assert.equal(limiter.consume("client:a").remaining, 1);
+    assert.equal(limiter.consume("client:a").remaining, 0);
+
+    const rejected = limiter.consume("client:a");
+    assert.equal(rejected.allowed, false);
+    assert.equal(rejected.retryAfterSeconds, 1);
+  });
+
+  it("시간이 지나면 토큰이 충전된다", () => {
+    const { clock, limiter } = createLimiter();
+    limiter.consume("client:a");
+    limiter.consume("client:a");
+
+    clock.now = 1000;
+
+    assert.equal(limiter.consume("client:a").allowed, true);
+    assert.equal(limiter.consume("client:a").allowed, false);
+  });
+
+  it("클라이언트별로 버킷을 나눈다", () => {
+    const { limiter } = createLimiter();
+    limiter.consume("client:a");
+    limiter.consume("client:a");
+
+    assert.equal(limiter.consume("client:b").allowed, true);
+  });
+
+  it("분당 요청 수가 0이면 제한하지 않는다", () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 0, burst: 1 });
+
+    assert.equal(limiter.enabled, false);
+    for (let i = 0; i < 5; i++) {
+      assert.equal(limiter.consume("client:a").allowed, true);
+    }
+  });
+});
+
+describe("요청 제한 응답", () => {
+  it("인증된 클라이언트는 ID로, 아니면 IP로 구분한다", () => {
+    assert.equal(resolveRateLimitKey("partner-a", "10.0.0.1"), "client:partner-a");
+    assert.equal(resolveRateLimitKey(undefined, "10.0.0.1"), "ip:10.0.0.1");
+  });
+
+  it("Retry-After 헤더와 재시도 정보가 담긴 JSON-RPC 오류를 만든다", () => {
+    const result = { allowed: false, limit: 20, remaining: 0, retryAfterSeconds: 3 };
+
+    assert.deepEqual(getRateLimitHeaders(result), {
+      "RateLimit-Limit": "20",
+      "RateLimit-Remaining": "0",
+      "Retry-After": "3"
+    });
+    const body = createRateLimitError(7, result);
+    assert.equal(body.id, 7);
+    assert.equal(body.error.code, -32029);
+    assert.deepEqual(body.error.data, { retryAfterSeconds: 3, limit: 20 });
+  });
+});
+
+describe("요청 제한 미들웨어", () => {
+  /** 같은 IP에서 세션별로 요청을 보내고 허용 여부를 반환 */
+  function send(middleware: ReturnType<typeof createRateLimitMiddleware>, sessionId: string): boolean {
+    let allowed = false;
+    const req = { ip: "10.0.0.1", headers: { "mcp-session-id": sessionId }, body: {} } as unknown as Request;
+    const res = {
+      set: () => res,
+      status: () => res,
+      json: () => res
+    } as unknown as Response;
+    middleware(req, res, () => {
+      allowed = true;
+    });
+    return allowed;
+  }
+
+  it("새 세션을 열어도 같은 IP의 요청 한도가 늘어나지 않는다", () => {
+    const middleware = createRateLimitMiddleware(
+      new TokenBucketRateLimiter({ requestsPerMinute: 60, burst: 2, now: () => 0 })
+    );
+
+    assert.equal(send(middleware, "s1"), true);
+    assert.equal(send(middleware, "s1"), true);
+    assert.equal(send(middleware, "s2"), false);
+    assert.equal(send(middleware, "s3"), false);
+  });
+});
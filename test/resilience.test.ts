@@ -0,0 +1,156 @@
+/**
+ * 재시도(지수 백오프)와 서킷 브레이커 단위 테스트
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  computeBackoffDelay,
+  withRetry
+} from "../src/services/resilience.js";
+import { ApiError } from "../src/services/api-client.js";
+
+describe("computeBackoffDelay", () => {
+  it("기준 지연의 2^n 배를 상한으로 지터를 적용한다", () => {
+    assert.equal(computeBackoffDelay(0, 100, 1000, () => 1), 100);
+    assert.equal(computeBackoffDelay(2, 100, 1000, () => 1), 400);
+    assert.equal(computeBackoffDelay(2, 100, 1000, () => 0.5), 200);
+    assert.equal(computeBackoffDelay(10, 100, 1000, () => 1), 1000);
+    assert.equal(computeBackoffDelay(3, 100, 1000, () => 0), 0);
+  });
+});
+
+describe("withRetry", () => {
+  it("일시적 오류는 재시도한다", async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) {
+        throw new ApiError(503, "Service Unavailable");
+      }
+      return "ok";
+    }, { retries: 2, baseDelayMs: 1 });
+
+    assert.equal(result, "ok");
+    assert.equal(calls, 3);
+  });
+
+  it("재시도 횟수를 넘으면 마지막 오류를 던진다", async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(async () => {
+        calls++;
+        throw new ApiError(500, "Internal Server Error");
+      }, { retries: 1, baseDelayMs: 1 }),
+      ApiError
+    );
+    assert.equal(calls, 2);
+  });
+
+  it("재시도할 수 없는 오류는 바로 던진다", async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(async () => {
+        calls++;
+        throw new ApiError(401, "Unauthorized");
+      }, { retries: 3, baseDelayMs: 1 }),
+      ApiError
+    );
+    assert.equal(calls, 1);
+  });
+
+  it("재시도 대기 중에 취소되면 대기를 끝까지 기다리지 않는다", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startedAt = Date.now();
+    await assert.rejects(
+      withRetry(async () => {
+        throw new ApiError(503, "Service Unavailable");
+      }, { retries: 100, baseDelayMs: 60_000, maxDelayMs: 60_000, signal: controller.signal }),
+      { name: "AbortError" }
+    );
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  it("이미 취소된 요청은 재시도하지 않는다", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    await assert.rejects(
+      withRetry(async () => {
+        calls++;
+        controller.abort();
+        throw new ApiError(503, "Service Unavailable");
+      }, { retries: 3, baseDelayMs: 1, signal: controller.signal }),
+      { name: "AbortError" }
+    );
+    assert.equal(calls, 1);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  function createBreaker() {
+    const clock = { now: 0 };
+    const breaker = new CircuitBreaker("api.test", {
+      failureThreshold: 2,
+      resetTimeoutMs: 1000,
+      now: () => clock.now
+    });
+    return { clock, breaker };
+  }
+
+  it("연속 실패가 기준에 도달하면 차단한다", () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure(new ApiError(500, "Internal Server Error"));
+    assert.equal(breaker.getState(), "closed");
+    breaker.recordFailure(new ApiError(500, "Internal Server Error"));
+    assert.equal(breaker.getState(), "open");
+
+    assert.throws(() => breaker.acquire(), CircuitOpenError);
+    const snapshot = breaker.snapshot();
+    assert.equal(snapshot.consecutiveFailures, 2);
+    assert.equal(snapshot.lastError, "UPSTREAM_UNAVAILABLE (HTTP 500)");
+    assert.equal(snapshot.retryAt, new Date(1000).toISOString());
+  });
+
+  it("성공하면 연속 실패 횟수를 초기화한다", () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    assert.equal(breaker.getState(), "closed");
+  });
+
+  it("차단 유지 시간이 지나면 시험 요청 1건만 허용한다", () => {
+    const { clock, breaker } = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    clock.now = 1000;
+    assert.equal(breaker.getState(), "half_open");
+    breaker.acquire();
+    assert.throws(() => breaker.acquire(), CircuitOpenError);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.getState(), "closed");
+    breaker.acquire();
+  });
+
+  it("시험 요청이 실패하면 다시 차단한다", () => {
+    const { clock, breaker } = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    clock.now = 1500;
+    breaker.acquire();
+    breaker.recordFailure();
+
+    assert.equal(breaker.getState(), "open");
+    assert.equal(breaker.snapshot().openedAt, new Date(1500).toISOString());
+  });
+});
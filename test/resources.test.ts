@@ -0,0 +1,141 @@
+/**
+ * MCP 리소스 (호선/역/정류장/대여소 참조 정보) 테스트
+ *
+ * 역 레지스트리/정류장 색인/따릉이 스냅샷은 성공한 조회만 보관하므로,
+ * 장애 테스트는 성공 테스트보다 먼저 실행되도록 배치합니다.
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { createTestContext, type TestContext } from "./helpers.js";
+
+let ctx: TestContext;
+
+before(async () => {
+  ctx = await createTestContext();
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+/** 리소스 조회 결과 JSON */
+async function readJson(uri: string): Promise<Record<string, unknown>> {
+  const result = await ctx.client.readResource({ uri });
+  const [content] = result.contents;
+  assert.equal(content.uri, uri);
+  assert.equal(content.mimeType, "application/json");
+  assert.ok("text" in content);
+  return JSON.parse(content.text);
+}
+
+/** 리소스 조회 실패 시 JSON-RPC 오류 */
+async function readError(uri: string): Promise<McpError> {
+  const error = await ctx.client.readResource({ uri }).then(
+    () => assert.fail(`${uri} 조회가 성공함`),
+    (e: unknown) => e
+  );
+  assert.ok(error instanceof McpError);
+  return error;
+}
+
+describe("리소스 장애", () => {
+  it("업스트림 오류는 오류 코드와 함께 실패한다", async () => {
+    ctx.fixtures.setScenario("SearchSTNBySubwayLineInfo", "server_error");
+
+    const error = await readError("transit://lines/1002/stations");
+
+    assert.equal(error.code, -32603);
+    assert.equal((error.data as { code: string }).code, "UPSTREAM_UNAVAILABLE");
+  });
+});
+
+describe("리소스 목록", () => {
+  it("고정 리소스와 호선별 역 목록을 나열한다", async () => {
+    const { resources } = await ctx.client.listResources();
+    const uris = resources.map((r) => r.uri);
+
+    assert.ok(uris.includes("transit://lines"));
+    assert.ok(uris.includes("transit://lines/1002/stations"));
+    assert.ok(resources.every((r) => r.mimeType === "application/json"));
+  });
+
+  it("리소스 템플릿을 제공한다", async () => {
+    const { resourceTemplates } = await ctx.client.listResourceTemplates();
+
+    assert.deepEqual(
+      resourceTemplates.map((t) => t.uriTemplate).sort(),
+      [
+        "transit://bike-stations/{id}",
+        "transit://bus-stops/{arsId}",
+        "transit://lines/{code}/stations"
+      ]
+    );
+  });
+
+  it("템플릿 변수를 자동 완성한다", async () => {
+    const result = await ctx.client.complete({
+      ref: { type: "ref/resource", uri: "transit://lines/{code}/stations" },
+      argument: { name: "code", value: "100" }
+    });
+
+    assert.ok(result.completion.values.includes("1002"));
+    assert.ok(result.completion.values.every((value) => value.startsWith("100")));
+  });
+});
+
+describe("리소스 조회", () => {
+  it("호선 및 버스 유형 목록", async () => {
+    const data = await readJson("transit://lines");
+    const lines = data.subwayLines as { code: string; name: string; stationsUri: string }[];
+
+    assert.deepEqual(lines.find((l) => l.code === "1002"), {
+      code: "1002",
+      name: "2호선",
+      stationsUri: "transit://lines/1002/stations"
+    });
+    assert.deepEqual((data.busTypes as { code: string; name: string }[]).find((t) => t.code === "3"), { code: "3", name: "간선" });
+  });
+
+  it("호선별 역 목록 (환승 호선 포함)", async () => {
+    const data = await readJson("transit://lines/1002/stations");
+    const stations = data.stations as { name: string; stationCode: string; transferLines: string[] }[];
+
+    assert.deepEqual(data.line, { code: "1002", name: "2호선" });
+    assert.equal(data.stationCount, 4);
+    assert.deepEqual(stations.map((s) => s.name), ["역삼", "강남", "신도림", "홍대입구"]);
+    assert.deepEqual(stations.find((s) => s.name === "강남")?.transferLines, ["신분당선"]);
+  });
+
+  it("버스 정류장 정보", async () => {
+    const data = await readJson("transit://bus-stops/22341");
+
+    assert.equal(data.arsId, "22341");
+    assert.equal(data.name, "강남역12번출구");
+    assert.equal(data.latitude, 37.499452);
+  });
+
+  it("따릉이 대여소 정보", async () => {
+    const data = await readJson("transit://bike-stations/ST-1566");
+
+    assert.deepEqual(data, {
+      id: "ST-1566",
+      name: "2348. 강남역 10번출구",
+      rackCount: 15,
+      latitude: 37.49735,
+      longitude: 127.02752
+    });
+  });
+
+  it("없는 리소스는 -32002 오류로 실패한다", async () => {
+    for (const uri of ["transit://lines/9999/stations", "transit://bus-stops/99999", "transit://bike-stations/ST-0"]) {
+      const error = await readError(uri);
+      assert.equal(error.code, -32002, uri);
+    }
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Korea Transit MCP Server - Evaluation CLI
+ *
+ * evaluation.xml을 실행하고 마크다운/JUnit XML 보고서를 저장합니다.
+ *
+ * 사용법: npm run eval -- [--fixtures] [--file evaluation.xml]
+ *                          [--markdown reports/evaluation-report.md] [--junit reports/evaluation-junit.xml]
+ *
+ * --fixtures를 지정하면 기록된 응답을 재생하는 픽스처 서버를, 생략하면 .env의 API 키로 실제 API를 사용합니다.
+ * 실패한 QA 쌍이 있으면 종료 코드 1로 끝납니다.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import dotenv from "dotenv";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { FixtureServer } from "./fixture-server.js";
+import {
+  parseEvaluationXml,
+  runEvaluation,
+  formatMarkdownReport,
+  formatJUnitReport
+} from "./evaluation.js";
+
+const { values: options } = parseArgs({
+  options: {
+    file: { type: "string", default: "evaluation.xml" },
+    fixtures: { type: "boolean", default: false },
+    markdown: { type: "string", default: "reports/evaluation-report.md" },
+    junit: { type: "string", default: "reports/evaluation-junit.xml" }
+  }
+});
+
+/**
+ * 보고서 파일 저장 (상위 디렉토리 생성)
+ */
+async function writeReport(path: string, content: string): Promise<void> {
+  const target = resolve(path);
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, content, "utf8");
+  console.error(`📝 ${target}`);
+}
+
+async function main(): Promise<number> {
+  const suite = parseEvaluationXml(await readFile(resolve(options.file), "utf8"));
+
+  // API_URLS/API 키는 모듈 로드 시점에 읽히므로 환경변수 설정 후 서버 모듈을 불러옴
+  const fixtures = options.fixtures ? await FixtureServer.start() : undefined;
+  if (fixtures) {
+    Object.assign(process.env, fixtures.env, {
+      SEOUL_API_KEY: "fixture-key",
+      DATA_GO_KR_API_KEY: "fixture-key"
+    });
+  } else {
+    dotenv.config();
+  }
+  const { createTransitServer } = await import("../src/server.js");
+
+  const server = createTransitServer();
+  const client = new Client({ name: "korea-transit-evaluation", version: suite.metadata.version || "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const startedAt = new Date();
+  try {
+    const results = await runEvaluation(client, suite.pairs);
+    const report = {
+      metadata: suite.metadata,
+      target: fixtures ? "fixtures" : "live",
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      results
+    };
+
+    await writeReport(options.markdown, formatMarkdownReport(report));
+    await writeReport(options.junit, formatJUnitReport(report));
+
+    const failed = results.filter((r) => !r.passed);
+    console.error(`✅ PASS ${results.length - failed.length} / ❌ FAIL ${failed.length} (총 ${results.length}개)`);
+    for (const { pair, failures } of failed) {
+      console.error(`   ${pair.id}. ${pair.tool}: ${failures.join("; ")}`);
+    }
+    return failed.length === 0 ? 0 : 1;
+  } finally {
+    await client.close();
+    await server.close();
+    await fixtures?.close();
+  }
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error("평가 실행 실패:", error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,273 @@
+/**
+ * Streamable HTTP 세션 관리 (Mcp-Session-Id) 테스트
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore, McpSessionManager, type SessionManagerOptions } from "../src/sessions.js";
+
+interface TestServer {
+  url: URL;
+  sessions: McpSessionManager;
+  close(): Promise<void>;
+}
+
+/** 세션 관리자를 붙인 Express 서버 (X-Test-Client 헤더로 인증된 클라이언트 흉내) */
+async function startServer(options: SessionManagerOptions = {}): Promise<TestServer> {
+  const sessions = new McpSessionManager(options);
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    const clientId = req.headers["x-test-client"];
+    if (typeof clientId === "string") {
+      req.auth = { token: clientId, clientId, scopes: [] };
+    }
+    next();
+  });
+  app.all("/mcp", (req, res) => void sessions.handleRequest(req, res));
+
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: new URL(`http://127.0.0.1:${port}/mcp`),
+    sessions,
+    async close() {
+      await sessions.closeAll();
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  };
+}
+
+async function connectClient(
+  url: URL,
+  clientId?: string
+): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const client = new Client({ name: "session-test", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(url, {
+    requestInit: clientId ? { headers: { "X-Test-Client": clientId } } : undefined
+  });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+/** SSE 스트림 열림/닫힘이 서버에 반영될 때까지 대기 */
+function waitForStreams(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+function postJson(url: URL, body: unknown, headers: Record<string, string> = {}): Promise<globalThis.Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+describe("세션 모드", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("initialize마다 새 세션 ID를 발급한다", async () => {
+    const first = await connectClient(server.url);
+    const second = await connectClient(server.url);
+
+    assert.ok(first.transport.sessionId);
+    assert.notEqual(first.transport.sessionId, second.transport.sessionId);
+    assert.equal(server.sessions.size, 2);
+
+    const { tools } = await first.client.listTools();
+    assert.ok(tools.some((tool) => tool.name === "transit_get_subway_arrival"));
+    assert.ok(tools.some((tool) => tool.name === "transit_watch_arrival"));
+
+    await first.transport.terminateSession();
+    await second.transport.terminateSession();
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it("DELETE로 세션을 종료하면 같은 세션 ID는 404를 받는다", async () => {
+    const { client, transport } = await connectClient(server.url);
+    const sessionId = transport.sessionId!;
+
+    await transport.terminateSession();
+    await client.close();
+
+    assert.equal(server.sessions.size, 0);
+    const response = await postJson(server.url, { jsonrpc: "2.0", id: 1, method: "tools/list" }, {
+      "Mcp-Session-Id": sessionId
+    });
+    assert.equal(response.status, 404);
+  });
+
+  it("세션 ID 없이 initialize 외 요청을 보내면 400을 반환한다", async () => {
+    const response = await postJson(server.url, { jsonrpc: "2.0", id: 1, method: "tools/list" });
+
+    assert.equal(response.status, 400);
+    const body = await response.json() as { error: { message: string } };
+    assert.match(body.error.message, /initialize/u);
+  });
+});
+
+describe("세션 정리", () => {
+  it("유휴 시간이 지난 세션을 정리한다", async () => {
+    const clock = { now: 0 };
+    const server = await startServer({ idleTimeoutMs: 1000, now: () => clock.now });
+    const { client } = await connectClient(server.url);
+    // 연결을 끊어 SSE 스트림을 닫음 (세션은 유지)
+    await waitForStreams();
+    await client.close();
+    await waitForStreams();
+
+    clock.now = 500;
+    assert.equal(await server.sessions.sweepIdleSessions(), 0);
+    clock.now = 1500;
+    assert.equal(await server.sessions.sweepIdleSessions(), 1);
+    assert.equal(server.sessions.size, 0);
+
+    await server.close();
+  });
+
+  it("SSE 스트림이 열려 있는 세션은 유휴 시간이 지나도 정리하지 않는다", async () => {
+    const clock = { now: 0 };
+    const server = await startServer({ idleTimeoutMs: 1000, now: () => clock.now });
+    const { client } = await connectClient(server.url);
+
+    try {
+      // 클라이언트가 initialize 후 서버 알림용 GET SSE 스트림을 엶
+      await waitForStreams();
+      clock.now = 1500;
+      assert.equal(await server.sessions.sweepIdleSessions(), 0);
+
+      // 스트림이 닫힌 시각부터 유휴 시간을 다시 계산
+      await client.close();
+      await waitForStreams();
+      clock.now = 2000;
+      assert.equal(await server.sessions.sweepIdleSessions(), 0);
+      clock.now = 2500;
+      assert.equal(await server.sessions.sweepIdleSessions(), 1);
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  });
+
+  it("최대 세션 수에 도달하면 새 세션을 503으로 거부하고 기존 세션은 유지한다", async () => {
+    const server = await startServer({ maxSessions: 1 });
+    const first = await connectClient(server.url);
+
+    try {
+      const response = await postJson(server.url, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "third", version: "1.0.0" } }
+      });
+
+      assert.equal(response.status, 503);
+      const body = await response.json() as { error: { code: number } };
+      assert.equal(body.error.code, -32000);
+      assert.equal(server.sessions.size, 1);
+      await assert.doesNotReject(first.client.listTools());
+    } finally {
+      await first.client.close();
+      await server.close();
+    }
+  });
+
+  it("인증된 클라이언트는 다른 클라이언트가 아닌 자신의 가장 오래된 세션을 정리한다", async () => {
+    const clock = { now: 0 };
+    const server = await startServer({ maxSessions: 3, now: () => clock.now });
+    const other = await connectClient(server.url, "client-b");
+    clock.now = 1;
+    const first = await connectClient(server.url, "client-a");
+    clock.now = 2;
+    const second = await connectClient(server.url, "client-a");
+
+    try {
+      clock.now = 3;
+      const third = await connectClient(server.url, "client-a");
+      await third.client.close();
+
+      assert.equal(server.sessions.size, 3);
+      await assert.rejects(first.client.listTools(), /세션을 찾을 수 없습니다/u);
+      await assert.doesNotReject(second.client.listTools());
+      await assert.doesNotReject(other.client.listTools());
+    } finally {
+      await other.client.close();
+      await first.client.close();
+      await second.client.close();
+      await server.close();
+    }
+  });
+
+  it("최대 세션 수가 1보다 작으면 생성할 수 없다", () => {
+    assert.throws(() => new McpSessionManager({ maxSessions: 0 }), /1 이상/u);
+  });
+});
+
+describe("stateless 모드", () => {
+  it("세션 없이 요청마다 처리하고 GET/DELETE는 405를 반환한다", async () => {
+    const server = await startServer({ stateless: true });
+    const { client, transport } = await connectClient(server.url);
+
+    assert.equal(transport.sessionId, undefined);
+    const { tools } = await client.listTools();
+    assert.ok(tools.length > 0);
+    // JSON 응답 모드는 진행 알림을 보낼 수 없으므로 도착 알림 도구를 등록하지 않음
+    assert.ok(!tools.some((tool) => tool.name === "transit_watch_arrival"));
+    assert.equal(server.sessions.size, 0);
+
+    const response = await fetch(server.url, { method: "GET", headers: { Accept: "text/event-stream" } });
+    assert.equal(response.status, 405);
+
+    await client.close();
+    await server.close();
+  });
+});
+
+describe("InMemoryEventStore", () => {
+  const message = (id: number): JSONRPCMessage => ({ jsonrpc: "2.0", method: "notifications/progress", params: { id } });
+
+  it("마지막 이벤트 이후의 같은 스트림 이벤트만 재전송한다", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("a", message(1));
+    await store.storeEvent("b", message(2));
+    await store.storeEvent("a", message(3));
+
+    const replayed: JSONRPCMessage[] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (_eventId, replayedMessage) => {
+        replayed.push(replayedMessage);
+      }
+    });
+
+    assert.equal(streamId, "a");
+    assert.deepEqual(replayed, [message(3)]);
+  });
+
+  it("보관 개수를 넘은 오래된 이벤트는 버린다", async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent("a", message(1));
+    await store.storeEvent("a", message(2));
+    await store.storeEvent("a", message(3));
+
+    assert.equal(await store.getStreamIdForEventId(first), undefined);
+  });
+});
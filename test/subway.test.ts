@@ -0,0 +1,214 @@
+/**
+ * 지하철 도구 (도착정보/운행상태/시간표) 종단 테스트
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+
+let ctx: TestContext;
+
+before(async () => {
+  ctx = await createTestContext();
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+describe("tools/list", () => {
+  it("모든 도구가 outputSchema를 선언한다", async () => {
+    const { tools } = await ctx.client.listTools();
+    assert.ok(tools.length >= 9);
+    for (const tool of tools) {
+      assert.ok(tool.outputSchema, `${tool.name} outputSchema 누락`);
+    }
+  });
+});
+
+describe("transit_get_subway_arrival", () => {
+  it("역명 '역' 접미사를 정규화하고 도착 예정 정보를 해석한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_arrival", {
+      station_name: "강남역",
+      response_format: "json"
+    });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      station: string;
+      count: number;
+      arrivals: { line: string; state?: string; etaSeconds?: number; stationsAway?: number; lastTrain: boolean }[];
+    };
+    assert.equal(output.station, "강남");
+    assert.equal(output.count, 5);
+    assert.equal(output.arrivals[0].line, "2호선");
+    assert.equal(output.arrivals[0].state, "운행중");
+    assert.equal(output.arrivals[0].etaSeconds, 120);
+    assert.equal(output.arrivals[0].stationsAway, 2);
+    assert.equal(output.arrivals[1].state, "도착");
+    assert.equal(output.arrivals[1].etaSeconds, 0);
+    assert.equal(output.arrivals[4].lastTrain, true);
+    assert.match(ctx.fixtures.requestsFor("realtimeStationArrival")[0], /\/0\/10\/%EA%B0%95%EB%82%A8$/u);
+  });
+
+  it("별칭으로 입력한 역명을 공식 역명으로 교정한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_arrival", { station_name: "홍대" });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.structured?.station, "홍대입구");
+    assert.match(result.text, /홍대입구/u);
+  });
+
+  it("호선/방향 필터는 전체 도착정보를 받아 적용한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_arrival", {
+      station_name: "강남",
+      line: "2",
+      direction: "내선",
+      limit: 1
+    });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      count: number;
+      filter: { line?: string; direction?: string };
+      arrivals: { destination: string }[];
+    };
+    assert.equal(output.count, 1);
+    assert.equal(output.filter.line, "2");
+    assert.equal(output.filter.direction, "내선");
+    assert.equal(output.arrivals[0].destination, "성수");
+    assert.match(ctx.fixtures.requestsFor("realtimeStationArrival")[0], /\/0\/50\//u);
+  });
+
+  it("호선 필터는 이름의 일부만 같은 다른 호선을 포함하지 않는다", async () => {
+    const result = await ctx.callTool("transit_get_subway_arrival", {
+      station_name: "강남",
+      line: "분당선"
+    });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.structured?.count, 0);
+
+    const exact = await ctx.callTool("transit_get_subway_arrival", {
+      station_name: "강남",
+      line: "신분당선",
+      response_format: "json"
+    });
+    assert.ok((exact.structured?.count as number) > 0);
+  });
+
+  it("호선·방향별로 묶어 반환한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_arrival", {
+      station_name: "강남",
+      group_by: "line_direction",
+      limit: 1
+    });
+
+    const groups = result.structured?.groups as { line: string; direction: string; arrivals: unknown[] }[];
+    assert.deepEqual(
+      groups.map((g) => `${g.line} ${g.direction} ${g.arrivals.length}`),
+      ["2호선 내선 1", "2호선 외선 1", "신분당선 상행 1", "신분당선 하행 1"]
+    );
+  });
+
+  it("도착 열차가 없으면 빈 목록을 반환한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_arrival", { station_name: "역삼" });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.structured?.count, 0);
+  });
+
+  it("존재하지 않는 역은 오류로 응답한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_arrival", { station_name: "없는역이름" });
+
+    assert.equal(result.isError, true);
+    assert.match(result.text, /^❌ 지하철 정보 조회 실패/u);
+    assert.equal(result.structured, undefined);
+  });
+});
+
+describe("transit_get_subway_status", () => {
+  it("호선별 운행상태와 장애 구간을 반환한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_status", { response_format: "json" });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      count: number;
+      disruptionCount: number;
+      statuses: { line: string; type: string; section?: string }[];
+    };
+    assert.equal(output.count, 3);
+    assert.equal(output.disruptionCount, 1);
+    assert.equal(output.statuses.find((s) => s.line === "2호선")?.section, "신도림~대림");
+  });
+
+  it("승객 혼잡 안내는 지연으로 분류하지 않는다", async () => {
+    const { classifySubwayStatus } = await import("../src/services/index.js");
+
+    assert.equal(classifySubwayStatus("출근시간대 승객이 많아 혼잡하오니 안전에 유의하시기 바랍니다"), "정상");
+    assert.equal(classifySubwayStatus("혼잡으로 열차가 지연 운행 중입니다"), "지연");
+  });
+});
+
+describe("transit_get_subway_timetable", () => {
+  it("날짜/방향/시간대를 지정해 시간표를 조회한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_timetable", {
+      station_name: "강남",
+      line: "2호선",
+      direction: "up",
+      date: "2025-03-10",
+      from_time: "08:00",
+      to_time: "08:09",
+      response_format: "json"
+    });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      dayType: string;
+      timetables: { stationCode: string; directionName: string; trains: { time: string }[] }[];
+    };
+    assert.equal(output.dayType, "weekday");
+    assert.equal(output.timetables.length, 1);
+    assert.equal(output.timetables[0].stationCode, "0222");
+    assert.equal(output.timetables[0].directionName, "내선");
+    assert.deepEqual(output.timetables[0].trains.map((t) => t.time), ["08:01", "08:05"]);
+  });
+
+  it("공휴일에는 휴일 시간표를 사용한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_timetable", {
+      station_name: "강남",
+      line: "2",
+      direction: "up",
+      date: "2025-10-03",
+      from_time: "05:00"
+    });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.structured?.dayType, "holiday");
+    assert.ok(ctx.fixtures.requestsFor("SearchSTNTimeTableByIDService").some((path) => path.endsWith("/0222/3/1")));
+  });
+
+  it("역에 없는 호선은 운행 노선과 함께 오류로 응답한다", async () => {
+    const result = await ctx.callTool("transit_get_subway_timetable", {
+      station_name: "강남",
+      line: "9호선"
+    });
+
+    assert.equal(result.isError, true);
+    assert.match(result.text, /운행 노선: 2호선, 신분당선/u);
+  });
+
+  it("호선 이름의 일부만 같은 다른 호선과 혼동하지 않는다", async () => {
+    const result = await ctx.callTool("transit_get_subway_timetable", {
+      station_name: "강남",
+      line: "분당선"
+    });
+
+    assert.equal(result.isError, true);
+    assert.match(result.text, /운행 노선: 2호선, 신분당선/u);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * 업스트림 API 장애(인증 오류/서버 오류/타임아웃/잘린 응답/데이터 없음) 처리 테스트
+ *
+ * 역 레지스트리/따릉이 스냅샷은 성공한 조회만 보관하므로, 스냅샷을 쓰는 도구의
+ * 장애 테스트는 성공 테스트보다 먼저 실행되도록 배치합니다.
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+import type { FixtureScenario } from "./fixture-server.js";
+import {
+  classifyBusHeaderCode,
+  classifyHttpStatus,
+  classifySeoulResultCode,
+  type UpstreamErrorCode
+} from "../src/services/upstream-errors.js";
+
+let ctx: TestContext;
+
+before(async () => {
+  ctx = await createTestContext();
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+/** 장애 시나리오별 예상 오류 메시지/오류 코드/재시도 가능 여부 */
+const FAILURES: [FixtureScenario, RegExp, UpstreamErrorCode, boolean][] = [
+  ["auth_error", /인증/u, "INVALID_API_KEY", false],
+  ["server_error", /HTTP 500/u, "UPSTREAM_UNAVAILABLE", true],
+  ["timeout", /시간이 초과/u, "TIMEOUT", true],
+  ["malformed", /응답 형식이 올바르지 않습니다/u, "MALFORMED_RESPONSE", true]
+];
+
+describe("오류 분류", () => {
+  it("서울 열린데이터 결과 코드를 오류 코드로 분류한다", () => {
+    assert.equal(classifySeoulResultCode("INFO-100"), "INVALID_API_KEY");
+    assert.equal(classifySeoulResultCode("INFO-200"), "NO_DATA");
+    assert.equal(classifySeoulResultCode("INFO-300"), "QUOTA_EXCEEDED");
+    assert.equal(classifySeoulResultCode("ERROR-336"), "RANGE_TOO_LARGE");
+    assert.equal(classifySeoulResultCode("ERROR-500"), "UPSTREAM_UNAVAILABLE");
+    assert.equal(classifySeoulResultCode("ERROR-999"), "UNKNOWN");
+  });
+
+  it("버스 API headerCd와 HTTP 상태를 오류 코드로 분류한다", () => {
+    assert.equal(classifyBusHeaderCode("4"), "NO_DATA");
+    assert.equal(classifyBusHeaderCode("7"), "INVALID_API_KEY");
+    assert.equal(classifyBusHeaderCode("8"), "QUOTA_EXCEEDED");
+    assert.equal(classifyBusHeaderCode("1"), "UPSTREAM_UNAVAILABLE");
+    assert.equal(classifyHttpStatus(503), "UPSTREAM_UNAVAILABLE");
+    assert.equal(classifyHttpStatus(429), "QUOTA_EXCEEDED");
+  });
+});
+
+describe("서울 열린데이터 API 장애", () => {
+  it("따릉이 대여소 조회 인증 오류를 데이터 없음으로 숨기지 않는다", async () => {
+    ctx.fixtures.setScenario("bikeList", "auth_error");
+
+    const result = await ctx.callTool("transit_get_bike_station", { query: "강남" });
+
+    assert.equal(result.isError, true);
+    assert.match(result.text, /^❌ 따릉이 대여소 검색 실패: .*INFO-100 인증키가 유효하지 않습니다.*\[INVALID_API_KEY\]$/u);
+    assert.deepEqual(result.error, {
+      code: "INVALID_API_KEY",
+      message: "API 인증키가 유효하지 않습니다. 서버의 API 키 설정을 확인해주세요.",
+      retryable: false,
+      upstreamCode: "INFO-100",
+      retryAfterSeconds: undefined
+    });
+  });
+
+  for (const [scenario, pattern, code, retryable] of FAILURES) {
+    it(`운행상태 조회 ${scenario}`, async () => {
+      ctx.fixtures.setScenario("subwayStatus", scenario);
+
+      const result = await ctx.callTool("transit_get_subway_status", {});
+
+      assert.equal(result.isError, true);
+      assert.match(result.text, /^❌ 운행상태 조회 실패/u);
+      assert.match(result.text, pattern);
+      assert.equal(result.error?.code, code);
+      assert.equal(result.error?.retryable, retryable);
+    });
+  }
+
+  it("데이터 없음(INFO-200)은 빈 결과로 응답한다", async () => {
+    ctx.fixtures.setScenario("subwayStatus", "empty");
+
+    const result = await ctx.callTool("transit_get_subway_status", { response_format: "json" });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.structured?.count, 0);
+  });
+
+  it("장애 응답은 캐시하지 않는다", async () => {
+    ctx.fixtures.setScenario("subwayStatus", "auth_error");
+    await ctx.callTool("transit_get_subway_status", {});
+    ctx.fixtures.setScenario("subwayStatus", "success");
+
+    const result = await ctx.callTool("transit_get_subway_status", {});
+
+    assert.equal(result.isError, false);
+    assert.equal(ctx.fixtures.requestsFor("subwayStatus").length, 2);
+  });
+});
+
+describe("지하철 실시간 API 장애", () => {
+  it("역 레지스트리 장애 시 입력한 역명으로 조회한다", async () => {
+    ctx.fixtures.setScenario("SearchSTNBySubwayLineInfo", "server_error");
+
+    const result = await ctx.callTool("transit_get_subway_arrival", { station_name: "강남역" });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.structured?.station, "강남");
+  });
+
+  for (const [scenario, pattern, code, retryable] of FAILURES) {
+    it(`도착정보 조회 ${scenario}`, async () => {
+      ctx.fixtures.setScenario("realtimeStationArrival", scenario);
+
+      const result = await ctx.callTool("transit_get_subway_arrival", { station_name: "강남" });
+
+      assert.equal(result.isError, true);
+      assert.match(result.text, /^❌ 지하철 정보 조회 실패/u);
+      assert.match(result.text, pattern);
+      assert.equal(result.error?.code, code);
+      assert.equal(result.error?.retryable, retryable);
+    });
+  }
+});
+
+describe("서울 버스 API 장애", () => {
+  for (const [scenario, pattern, code, retryable] of FAILURES) {
+    it(`도착정보 조회 ${scenario}`, async () => {
+      ctx.fixtures.setScenario("getStationByUid", scenario);
+
+      const result = await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+
+      assert.equal(result.isError, true);
+      assert.match(result.text, /^❌ 버스 정보 조회 실패/u);
+      assert.match(result.text, pattern);
+      assert.equal(result.error?.code, code);
+      assert.equal(result.error?.retryable, retryable);
+    });
+  }
+
+  it("노선 조회 인증 오류", async () => {
+    ctx.fixtures.setScenario("getBusRouteList", "auth_error");
+
+    const result = await ctx.callTool("transit_get_bus_route", { route_number: "140" });
+
+    assert.equal(result.isError, true);
+    assert.match(result.text, /등록되지 않은 서비스키/u);
+    assert.equal(result.error?.upstreamCode, "bus:7");
+    // 인증 오류는 입력 문제가 아니므로 노선 번호 안내를 붙이지 않음
+    assert.doesNotMatch(result.text, /💡/u);
+  });
+});
+
+describe("재시도와 서킷 브레이커", () => {
+  it("일시적 오류는 재시도하고, 인증 오류는 재시도하지 않는다", async () => {
+    ctx.fixtures.setScenario("getStationByUid", "server_error");
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+    assert.equal(ctx.fixtures.requestsFor("getStationByUid").length, 3);
+
+    await ctx.reset();
+    ctx.fixtures.setScenario("getStationByUid", "auth_error");
+    await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+    assert.equal(ctx.fixtures.requestsFor("getStationByUid").length, 1);
+  });
+
+  it("연속 장애 시 업스트림 요청 없이 바로 실패한다", async () => {
+    ctx.fixtures.setScenario("getStationByUid", "server_error");
+    for (let i = 0; i < 5; i++) {
+      await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+    }
+    const requests = ctx.fixtures.requestsFor("getStationByUid").length;
+
+    const result = await ctx.callTool("transit_get_bus_arrival", { ars_id: "22341" });
+
+    assert.equal(result.isError, true);
+    assert.equal(result.error?.code, "UPSTREAM_UNAVAILABLE");
+    assert.equal(result.error?.upstreamCode, "CIRCUIT_OPEN");
+    assert.equal(result.error?.retryable, true);
+    assert.equal(ctx.fixtures.requestsFor("getStationByUid").length, requests);
+  });
+});
+
+describe("통합 조회 부분 장애", () => {
+  it("일부 API가 실패해도 나머지 결과를 반환한다", async () => {
+    ctx.fixtures.setScenario("realtimeStationArrival", "timeout");
+    ctx.fixtures.setScenario("bikeList", "server_error");
+
+    const result = await ctx.callTool("transit_get_combined_info", { location: "강남역" });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      subway: { count: number };
+      bus: { stationCount: number };
+      bike: { count: number };
+    };
+    assert.equal(output.subway.count, 0);
+    assert.equal(output.bus.stationCount, 2);
+    assert.equal(output.bike.count, 0);
+  });
+});
+
+describe("주변 교통수단 부분 장애", () => {
+  it("조회에 실패한 데이터셋을 빈 결과와 구분해 알려준다", async () => {
+    ctx.fixtures.setScenario("bikeList", "server_error");
+
+    const result = await ctx.callTool("transit_find_nearby", { latitude: 37.4979, longitude: 127.0276 });
+
+    assert.equal(result.isError, false);
+    const output = result.structured as {
+      bus: unknown[];
+      bike: unknown[];
+      failed: { type: string; code: string; retryable: boolean }[];
+    };
+    assert.equal(output.bus.length > 0, true);
+    assert.deepEqual(output.bike, []);
+    assert.deepEqual(
+      output.failed.map((f) => [f.type, f.code, f.retryable]),
+      [["bike", "UPSTREAM_UNAVAILABLE", true]]
+    );
+    assert.match(result.text, /⚠️ 정보를 불러오지 못했습니다 \(UPSTREAM_UNAVAILABLE: /u);
+    assert.doesNotMatch(result.text, /반경 내 따릉이 대여소가 없습니다/u);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * 도착 알림 (transit_watch_arrival) 테스트
+ *
+ * 조회 간격은 테스트 환경변수(WATCH_POLL_INTERVAL_MS)로 짧게 설정됩니다.
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, type TestContext } from "./helpers.js";
+import { UpstreamError } from "../src/services/upstream-errors.js";
+import type * as ArrivalWatch from "../src/services/arrival-watch.js";
+import type { ArrivalObservation } from "../src/services/arrival-watch.js";
+
+let ctx: TestContext;
+let watchArrival: typeof ArrivalWatch.watchArrival;
+let observeBusArrival: typeof ArrivalWatch.observeBusArrival;
+
+before(async () => {
+  ctx = await createTestContext();
+  ({ watchArrival, observeBusArrival } = await import("../src/services/index.js"));
+});
+
+after(async () => {
+  await ctx.close();
+});
+
+beforeEach(async () => {
+  await ctx.reset();
+});
+
+/** 조회마다 순서대로 결과를 반환하는 가짜 조회 함수 */
+function sequence(...steps: (ArrivalObservation[] | Error)[]): () => Promise<ArrivalObservation[]> {
+  let index = 0;
+  return async () => {
+    const step = steps[Math.min(index++, steps.length - 1)];
+    if (step instanceof Error) {
+      throw step;
+    }
+    return step;
+  };
+}
+
+/** 대기 시간만큼 시계를 진행하는 가짜 시계/대기 함수 */
+function fakeClock(): { now: () => number; sleep: (ms: number) => Promise<void> } {
+  let time = 0;
+  return {
+    now: () => time,
+    sleep: async (ms) => {
+      time += ms;
+    }
+  };
+}
+
+/** 열차 관측값 */
+function train(vehicleId: string, etaSeconds: number): ArrivalObservation {
+  return { vehicleId, label: "2호선 성수행", message: "", etaSeconds };
+}
+
+describe("도착 알림 조회 반복", () => {
+  it("지켜보던 열차가 연속으로 목록에 없으면 passed로 종료한다", async () => {
+    const result = await watchArrival(
+      sequence([train("2214", 600)], [train("2214", 400)], [train("2218", 700)], [train("2218", 650)]),
+      {
+        thresholdSeconds: 180,
+        timeoutMs: 60_000,
+        ...fakeClock()
+      }
+    );
+
+    assert.equal(result.outcome, "passed");
+    assert.equal(result.polls, 4);
+    assert.equal(result.observation?.vehicleId, "2214");
+  });
+
+  it("다른 열차가 먼저 도착하도록 순서가 바뀌어도 지켜보던 열차를 계속 추적한다", async () => {
+    const result = await watchArrival(
+      sequence([train("2214", 600)], [train("2218", 300), train("2214", 400)], [train("2218", 100), train("2214", 150)]),
+      {
+        thresholdSeconds: 180,
+        timeoutMs: 60_000,
+        ...fakeClock()
+      }
+    );
+
+    assert.equal(result.outcome, "reached");
+    assert.equal(result.polls, 3);
+    assert.equal(result.observation?.vehicleId, "2214");
+    assert.equal(result.observation?.etaSeconds, 150);
+  });
+
+  it("목록이 한 번 비어도 지나간 것으로 보지 않는다", async () => {
+    const updates: (number | undefined)[] = [];
+    const result = await watchArrival(
+      sequence([train("2214", 600)], [], [train("2214", 120)]),
+      {
+        thresholdSeconds: 180,
+        timeoutMs: 60_000,
+        onUpdate: ({ observation }) => {
+          updates.push(observation?.etaSeconds);
+        },
+        ...fakeClock()
+      }
+    );
+
+    assert.equal(result.outcome, "reached");
+    assert.equal(result.observation?.vehicleId, "2214");
+    assert.deepEqual(updates, [600, undefined, 120]);
+  });
+
+  it("최대 대기 시간이 지나면 timeout으로 종료한다", async () => {
+    const result = await watchArrival(sequence([train("2214", 600)]), {
+      thresholdSeconds: 180,
+      timeoutMs: 1000,
+      intervalMs: 300,
+      ...fakeClock()
+    });
+
+    assert.equal(result.outcome, "timeout");
+    assert.equal(result.polls, 5);
+    assert.equal(result.elapsedMs, 1000);
+  });
+
+  it("일시적인 오류는 다음 조회에서 재시도하고, 진행 상황을 전달한다", async () => {
+    const updates: { poll: number; failed: boolean; eta?: number }[] = [];
+    const result = await watchArrival(
+      sequence(new UpstreamError("TIMEOUT", "seoul"), [train("2214", 120)]),
+      {
+        thresholdSeconds: 180,
+        timeoutMs: 60_000,
+        onUpdate: ({ poll, error, observation }) => {
+          updates.push({ poll, failed: error !== undefined, eta: observation?.etaSeconds });
+        },
+        ...fakeClock()
+      }
+    );
+
+    assert.equal(result.outcome, "reached");
+    assert.deepEqual(updates, [
+      { poll: 1, failed: true, eta: undefined },
+      { poll: 2, failed: false, eta: 120 }
+    ]);
+  });
+
+  it("재시도해도 소용없는 오류는 그대로 던진다", async () => {
+    await assert.rejects(
+      watchArrival(sequence(new UpstreamError("INVALID_API_KEY", "seoul")), {
+        thresholdSeconds: 180,
+        timeoutMs: 60_000,
+        ...fakeClock()
+      }),
+      (error: unknown) => error instanceof UpstreamError && error.code === "INVALID_API_KEY"
+    );
+  });
+
+  it("취소 신호를 받으면 대기 중에도 cancelled로 종료한다", async () => {
+    const controller = new AbortController();
+    const result = await watchArrival(sequence([train("2214", 600)]), {
+      thresholdSeconds: 180,
+      timeoutMs: 60_000,
+      intervalMs: 60_000,
+      signal: controller.signal,
+      onUpdate: () => {
+        setTimeout(() => controller.abort(), 10);
+      }
+    });
+
+    assert.equal(result.outcome, "cancelled");
+    assert.equal(result.polls, 1);
+    assert.equal(result.observation?.vehicleId, "2214");
+  });
+
+  it("조회 중에 취소되면 조회 결과를 기다리지 않고 cancelled로 종료한다", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await watchArrival(
+      (signal) => new Promise((_resolve, reject) => {
+        signal?.addEventListener("abort", () => reject(signal.reason), { once: true });
+      }),
+      { thresholdSeconds: 180, timeoutMs: 60_000, signal: controller.signal }
+    );
+
+    assert.equal(result.outcome, "cancelled");
+    assert.equal(result.polls, 1);
+  });
+
+  it("취소 신호를 업스트림 요청까지 전달해 타임아웃을 기다리지 않는다", async () => {
+    ctx.fixtures.setScenario("getStationByUid", "timeout");
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startedAt = Date.now();
+    await assert.rejects(observeBusArrival("22341", "140", controller.signal), { name: "AbortError" });
+    // 타임아웃(300ms)과 재시도를 기다리지 않음
+    assert.ok(Date.now() - startedAt < 250);
+  });
+});
+
+describe("transit_watch_arrival", () => {
+  it("지하철 열차가 기준 시간 안에 들어오면 진행 알림 후 완료한다", async () => {
+    const progress: { progress: number; message?: string }[] = [];
+    const result = await ctx.client.callTool(
+      {
+        name: "transit_watch_arrival",
+        arguments: { mode: "subway", station_name: "강남역", line: "2호선", direction: "내선", threshold_minutes: 3 }
+      },
+      undefined,
+      { onprogress: ({ progress: value, message }) => progress.push({ progress: value, message }) }
+    );
+    const structured = result.structuredContent as Record<string, unknown>;
+
+    assert.equal(result.isError, undefined);
+    assert.equal(structured.outcome, "reached");
+    assert.equal(structured.target, "강남 2호선 내선");
+    assert.equal(structured.polls, 1);
+    assert.equal((structured.vehicle as { label: string }).label, "2호선 성수행");
+    assert.equal(progress.length, 1);
+    assert.match(progress[0].message ?? "", /^2호선 성수행 /u);
+  });
+
+  it("버스 노선의 첫 번째 버스를 지켜본다", async () => {
+    const result = await ctx.callTool("transit_watch_arrival", {
+      mode: "bus",
+      ars_id: "22341",
+      route_number: "140",
+      threshold_minutes: 10
+    });
+
+    assert.equal(result.isError, false);
+    assert.equal(result.structured?.outcome, "reached");
+    assert.deepEqual(result.structured?.vehicle, {
+      label: "140번",
+      vehicleId: "서울74사1234",
+      message: "5분12초후[3번째 전]",
+      etaSeconds: 312,
+      stopsAway: 3
+    });
+    assert.match(result.text, /곧 도착합니다/u);
+  });
+
+  it("노선 번호는 대소문자와 '번' 접미사를 무시하고 찾는다", async () => {
+    const result = await ctx.callTool("transit_watch_arrival", {
+      mode: "bus",
+      ars_id: "22341",
+      route_number: "140번",
+      threshold_minutes: 10
+    });
+
+    assert.equal(result.structured?.outcome, "reached");
+    assert.equal(result.structured?.target, "22341 정류장 140번");
+    assert.equal((result.structured?.vehicle as { label: string }).label, "140번");
+  });
+
+  it("클라이언트가 요청을 취소하면 조회를 멈춘다", async () => {
+    const controller = new AbortController();
+    const call = ctx.client.callTool(
+      {
+        name: "transit_watch_arrival",
+        arguments: { mode: "bus", ars_id: "22341", route_number: "140", threshold_minutes: 0, timeout_minutes: 1 }
+      },
+      undefined,
+      { signal: controller.signal, onprogress: () => controller.abort() }
+    );
+
+    await assert.rejects(call);
+  });
+
+  it("인증 오류처럼 재시도할 수 없는 오류는 바로 반환한다", async () => {
+    ctx.fixtures.setScenario("getStationByUid", "auth_error");
+
+    const result = await ctx.callTool("transit_watch_arrival", {
+      mode: "bus",
+      ars_id: "22341",
+      route_number: "140"
+    });
+
+    assert.equal(result.isError, true);
+    assert.equal(result.error?.code, "INVALID_API_KEY");
+  });
+
+  it("버스 알림에 노선 번호가 없으면 입력 오류를 반환한다", async () => {
+    const result = await ctx.callTool("transit_watch_arrival", { mode: "bus", ars_id: "22341" });
+
+    assert.equal(result.isError, true);
+    assert.equal(result.error?.code, "INVALID_INPUT");
+    assert.match(result.text, /route_number/u);
+  });
+});